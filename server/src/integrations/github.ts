@@ -0,0 +1,48 @@
+const GITHUB_REDIRECT_URI = process.env.GITHUB_REDIRECT_URI || 'http://localhost:3000/api/integrations/github/callback';
+
+/** GitHub consent URL (OAuth App) for a signed link state from IntegrationLinks. */
+export const githubAuthUrl = (state: string) => {
+  const params = new URLSearchParams({
+    client_id: process.env.GITHUB_CLIENT_ID ?? '',
+    redirect_uri: GITHUB_REDIRECT_URI,
+    // No scopes: the public profile is enough to learn the numeric user ID
+    scope: '',
+    state,
+    allow_signup: 'false',
+  });
+  return `https://github.com/login/oauth/authorize?${params}`;
+};
+
+/**
+ * Exchanges a GitHub OAuth code and returns the numeric GitHub user ID that
+ * pull request webhooks carry. The access token is only used for this lookup
+ * and not stored.
+ */
+export const fetchGitHubUserId = async (code: string): Promise<string> => {
+  const tokenResponse = await fetch('https://github.com/login/oauth/access_token', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+    body: JSON.stringify({
+      client_id: process.env.GITHUB_CLIENT_ID ?? '',
+      client_secret: process.env.GITHUB_CLIENT_SECRET ?? '',
+      code,
+      redirect_uri: GITHUB_REDIRECT_URI,
+    }),
+  });
+  if (!tokenResponse.ok) throw new Error(`[GitHub Auth] Token exchange failed: ${tokenResponse.status}`);
+  const { access_token: accessToken, error } = (await tokenResponse.json()) as { access_token?: string; error?: string };
+  if (!accessToken) throw new Error(`[GitHub Auth] No access token in OAuth response${error ? ` (${error})` : ''}.`);
+
+  const userResponse = await fetch('https://api.github.com/user', {
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      Accept: 'application/vnd.github+json',
+      'User-Agent': 'neuro-adaptive-os',
+    },
+  });
+  if (!userResponse.ok) throw new Error(`[GitHub Auth] Profile lookup failed: ${userResponse.status}`);
+  const { id } = (await userResponse.json()) as { id?: number };
+  if (typeof id !== 'number') throw new Error('[GitHub Auth] No user id in profile.');
+
+  return String(id);
+};
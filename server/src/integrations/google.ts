@@ -2,6 +2,8 @@ import { google } from 'googleapis';
 import { Router, Request, Response } from 'express';
 import { encryptToken, decryptToken } from '../utils/encryption';
 import { supabaseAdmin } from '../utils/supabaseAdmin';
+import { integrationEvents } from '../services/IntegrationEvents';
+import { integrationLinks } from '../services/IntegrationLinks';
 
 // Initialize OAuth2 client with proper redirect URI
 export const oauth2Client = new google.auth.OAuth2(
@@ -11,7 +13,23 @@ export const oauth2Client = new google.auth.OAuth2(
 );
 
 /**
- * Sets up Google OAuth authentication routes
+ * Google consent URL for a signed link state from IntegrationLinks.
+ * Started by POST /api/integrations/google/link for the signed-in user.
+ */
+export const googleAuthUrl = (state: string) =>
+  oauth2Client.generateAuthUrl({
+    access_type: 'offline', // Required to get a refresh_token
+    prompt: 'consent',
+    scope: [
+      'https://www.googleapis.com/auth/calendar.events',
+      'https://www.googleapis.com/auth/gmail.modify',
+      'https://www.googleapis.com/auth/userinfo.email' // Maps calendar push notifications back to this user
+    ],
+    state,
+  });
+
+/**
+ * Sets up the Google OAuth callback
  * 
  * Usage:
  *   app.use('/auth', setupGoogleAuthRoutes());
@@ -19,38 +37,23 @@ export const oauth2Client = new google.auth.OAuth2(
 export const setupGoogleAuthRoutes = () => {
   const router = Router();
 
-  // 1. Redirect user to Google for consent
-  router.get('/google/login', (req: Request, res: Response) => {
-    // Pass the userId in the state parameter to map the tokens later
-    const userId = req.query.userId as string; 
-    
-    if (!userId) {
-      return res.status(400).json({ error: 'userId is required in query parameters' });
-    }
-
-    const url = oauth2Client.generateAuthUrl({
-      access_type: 'offline', // Required to get a refresh_token
-      prompt: 'consent',
-      scope: [
-        'https://www.googleapis.com/auth/calendar.events',
-        'https://www.googleapis.com/auth/gmail.modify'
-      ],
-      state: userId, 
-    });
-    res.redirect(url);
-  });
-
-  // 2. Handle the callback from Google
+  // Handle the callback from Google; the user comes from the single-use state, never the query string
   router.get('/google/callback', async (req: Request, res: Response) => {
     const code = req.query.code as string;
-    const userId = req.query.state as string;
+    const state = req.query.state as string;
 
-    if (!code || !userId) {
-      console.error('[Google Auth] Missing code or userId in callback');
+    if (!code || !state) {
+      console.error('[Google Auth] Missing code or state in callback');
       return res.redirect(`${process.env.CLIENT_URL || 'http://localhost:5173'}/dashboard?integration=error`);
     }
 
     try {
+      const userId = await integrationLinks.consumeState(state, 'google');
+      if (!userId) {
+        console.warn('[Google Auth] Rejected callback with an invalid, expired or reused state');
+        return res.redirect(`${process.env.CLIENT_URL || 'http://localhost:5173'}/dashboard?integration=error`);
+      }
+
       const { tokens } = await oauth2Client.getToken(code);
       
       if (tokens.refresh_token && userId) {
@@ -70,6 +73,11 @@ export const setupGoogleAuthRoutes = () => {
         
         console.log(`[Google Auth] Successfully linked Google Workspace for user ${userId}`);
       }
+
+      if (tokens.access_token) {
+        const { email } = await oauth2Client.getTokenInfo(tokens.access_token);
+        if (email) await integrationEvents.linkIdentity(userId, 'google', email);
+      }
       
       // Redirect back to the frontend OS Dashboard
       res.redirect(`${process.env.CLIENT_URL || 'http://localhost:5173'}/dashboard?integration=success`);
@@ -167,6 +175,42 @@ export class GoogleIntegrator {
     }
   }
 
+  /**
+   * Lists inbox messages received since `since`, for the flow-state digest.
+   * Gmail's own IMPORTANT label marks an email as high priority.
+   */
+  public async listInboxSince(userId: string, since: Date) {
+    await this.setCredentials(userId);
+    const gmail = google.gmail({ version: 'v1', auth: oauth2Client });
+
+    const res = await gmail.users.messages.list({
+      userId: 'me',
+      q: `is:inbox after:${Math.floor(since.getTime() / 1000)}`,
+      maxResults: 25
+    });
+
+    const messages = await Promise.all((res.data.messages || []).map(async (m) => {
+      const { data } = await gmail.users.messages.get({
+        userId: 'me',
+        id: m.id as string,
+        format: 'metadata',
+        metadataHeaders: ['From', 'Subject']
+      });
+      const header = (name: string) => data.payload?.headers?.find(h => h.name === name)?.value ?? undefined;
+
+      return {
+        id: data.id as string,
+        from: header('From'),
+        subject: header('Subject'),
+        snippet: data.snippet ?? '',
+        important: data.labelIds?.includes('IMPORTANT') ?? false,
+        receivedAt: new Date(Number(data.internalDate) || Date.now()).toISOString(),
+      };
+    }));
+
+    return messages;
+  }
+
   /**
    * Inserts focus blocks into calendar based on meeting density
    * 
@@ -0,0 +1,46 @@
+const JIRA_REDIRECT_URI = process.env.JIRA_REDIRECT_URI || 'http://localhost:3000/api/integrations/jira/callback';
+
+/** Jira consent URL (Atlassian OAuth 2.0 3LO) for a signed link state from IntegrationLinks. */
+export const jiraAuthUrl = (state: string) => {
+  const params = new URLSearchParams({
+    audience: 'api.atlassian.com',
+    client_id: process.env.JIRA_CLIENT_ID ?? '',
+    // read:me is enough to learn the accountId that Jira webhooks carry
+    scope: 'read:me',
+    redirect_uri: JIRA_REDIRECT_URI,
+    state,
+    response_type: 'code',
+    prompt: 'consent',
+  });
+  return `https://auth.atlassian.com/authorize?${params}`;
+};
+
+/**
+ * Exchanges an Atlassian OAuth code and returns the user's Atlassian
+ * accountId. The access token is only used for this lookup and not stored.
+ */
+export const fetchJiraAccountId = async (code: string): Promise<string> => {
+  const tokenResponse = await fetch('https://auth.atlassian.com/oauth/token', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      grant_type: 'authorization_code',
+      client_id: process.env.JIRA_CLIENT_ID ?? '',
+      client_secret: process.env.JIRA_CLIENT_SECRET ?? '',
+      code,
+      redirect_uri: JIRA_REDIRECT_URI,
+    }),
+  });
+  if (!tokenResponse.ok) throw new Error(`[Jira Auth] Token exchange failed: ${tokenResponse.status}`);
+  const { access_token: accessToken } = (await tokenResponse.json()) as { access_token?: string };
+  if (!accessToken) throw new Error('[Jira Auth] No access token in OAuth response.');
+
+  const meResponse = await fetch('https://api.atlassian.com/me', {
+    headers: { Authorization: `Bearer ${accessToken}`, Accept: 'application/json' },
+  });
+  if (!meResponse.ok) throw new Error(`[Jira Auth] Profile lookup failed: ${meResponse.status}`);
+  const { account_id: accountId } = (await meResponse.json()) as { account_id?: string };
+  if (!accountId) throw new Error('[Jira Auth] No account_id in profile.');
+
+  return accountId;
+};
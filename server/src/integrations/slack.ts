@@ -1,7 +1,48 @@
 import { WebClient } from '@slack/web-api';
-import { decryptToken } from '../utils/encryption';
+import { decryptToken, encryptToken } from '../utils/encryption';
 import { supabaseAdmin } from '../utils/supabaseAdmin'; // Assumes you have your admin client exported
 
+const SLACK_REDIRECT_URI = process.env.SLACK_REDIRECT_URI || 'http://localhost:3000/api/integrations/slack/callback';
+
+// User-token scopes: cognitive DND snoozes and digest DMs are sent as the user
+const SLACK_USER_SCOPES = ['dnd:write', 'chat:write'];
+
+/** Slack consent URL for a signed link state from IntegrationLinks. */
+export const slackAuthUrl = (state: string) => {
+  const params = new URLSearchParams({
+    client_id: process.env.SLACK_CLIENT_ID ?? '',
+    user_scope: SLACK_USER_SCOPES.join(','),
+    redirect_uri: SLACK_REDIRECT_URI,
+    state,
+  });
+  return `https://slack.com/oauth/v2/authorize?${params}`;
+};
+
+/**
+ * Exchanges a Slack OAuth code, stores the user token (encrypted) for
+ * SlackIntegrator and returns the Slack user ID to link.
+ */
+export const completeSlackLink = async (userId: string, code: string): Promise<string> => {
+  const result = await new WebClient().oauth.v2.access({
+    client_id: process.env.SLACK_CLIENT_ID ?? '',
+    client_secret: process.env.SLACK_CLIENT_SECRET ?? '',
+    code,
+    redirect_uri: SLACK_REDIRECT_URI,
+  });
+  const slackUserId = result.authed_user?.id;
+  const accessToken = result.authed_user?.access_token;
+  if (!slackUserId || !accessToken) throw new Error('[Slack Auth] No user token in OAuth response.');
+
+  const { error } = await supabaseAdmin.from('user_integrations').upsert({
+    user_id: userId,
+    slack_access_token: encryptToken(accessToken),
+    updated_at: new Date().toISOString(),
+  });
+  if (error) throw new Error(`[Slack Auth] Token save failed: ${error.message}`);
+
+  return slackUserId;
+};
+
 export class SlackIntegrator {
   private async getClient(userId: string): Promise<WebClient> {
     const { data, error } = await supabaseAdmin
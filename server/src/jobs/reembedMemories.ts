@@ -0,0 +1,33 @@
+/**
+ * reembedMemories.ts — Re-embed memories after an embedding provider switch
+ *
+ *   npm run reembed            (from server/, with the new EMBEDDING_PROVIDER set)
+ *
+ * Walks memory_entries in batches, re-embedding every row whose
+ * embedding_model differs from the active provider's. Safe to interrupt and
+ * re-run: each batch is committed as it goes, and search ignores the rows
+ * that haven't been migrated yet.
+ */
+
+import { vectorStore } from '../services/VectorStore';
+
+const BATCH_SIZE = Number(process.env.REEMBED_BATCH_SIZE) || 50;
+
+async function run() {
+  console.log(`[Reembed] Migrating memories to ${vectorStore.embeddingModel} (batches of ${BATCH_SIZE}).`);
+
+  let total = 0;
+  for (;;) {
+    const { reembedded, remaining } = await vectorStore.reembedStale(BATCH_SIZE);
+    total += reembedded;
+    console.log(`[Reembed] ${total} re-embedded, ${remaining} remaining.`);
+    if (reembedded === 0 || remaining === 0) break;
+  }
+
+  console.log('[Reembed] Done.');
+}
+
+run().catch((err) => {
+  console.error('[Reembed] Failed:', (err as Error).message);
+  process.exit(1);
+});
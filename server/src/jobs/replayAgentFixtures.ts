@@ -0,0 +1,163 @@
+/**
+ * replayAgentFixtures.ts — Checks every /api/agents/* route against fixtures
+ *
+ *   npm run replay:agents              # LLM_PROVIDER=replay, strict
+ *   npm run replay:agents -- --record  # LLM_PROVIDER=record (needs GEMINI_API_KEY)
+ *
+ * Mounts the agent routes on a throwaway port and sends each CASES request.
+ * Replay is strict: an LLM call without a fixture in server/fixtures/llm
+ * fails the run instead of falling back to the mock, so a prompt change that
+ * invalidates a fixture shows up here. Each response must succeed without the
+ * route's offline fallback. `--record` re-runs the same requests against
+ * Gemini and rewrites the fixtures.
+ */
+
+import path from 'path';
+import dotenv from 'dotenv';
+import type { AddressInfo } from 'net';
+
+dotenv.config({ path: path.resolve(__dirname, '../../.env') });
+
+const record = process.argv.includes('--record');
+
+// Before the routes load: the provider reads these on import
+process.env.LLM_PROVIDER = record ? 'record' : 'replay';
+process.env.LLM_REPLAY_STRICT = 'true';
+// The agent routes never reach Supabase without the usage meter, but the admin client must construct
+process.env.SUPABASE_URL ||= 'http://127.0.0.1:54321';
+process.env.SUPABASE_SERVICE_ROLE_KEY ||= 'replay';
+
+interface AgentResponseBody {
+  success?: boolean;
+  error?: string;
+  fallback?: boolean;
+  data?: unknown;
+  questions?: unknown[];
+  attempts?: number;
+}
+
+interface AgentCase {
+  name: string;
+  path: string;
+  body: Record<string, unknown>;
+  /** Problem with a 200 response body, or null when it looks right. */
+  check?: (body: AgentResponseBody) => string | null;
+}
+
+const runAgent = (agent: string, input: Record<string, unknown>): AgentCase => ({
+  name: `run/${agent}`,
+  path: `/run/${agent}`,
+  body: { input },
+  check: (body) => (body.attempts === 1 ? null : `needed ${body.attempts} attempts`),
+});
+
+const CASES: AgentCase[] = [
+  {
+    name: 'generate',
+    path: '/generate',
+    body: { prompt: 'Rewrite "Per my last email, the deck is still missing." as one short, friendly reminder.' },
+    check: (body) => (typeof body.data === 'string' && body.data.trim() ? null : 'empty data'),
+  },
+  {
+    name: 'stream',
+    path: '/stream',
+    body: { prompt: 'Context: Priya moved the Q4 dashboard demo to Friday 3pm.\nQuery: "When is the demo?"' },
+  },
+  {
+    name: 'generate-game-content (quiz)',
+    path: '/generate-game-content',
+    body: { gameType: 'quiz', theme: 'animals and nature', count: 3, age: 7, difficulty: 2 },
+    check: (body) => (body.questions?.length === 3 ? null : `expected 3 questions, got ${body.questions?.length}`),
+  },
+  {
+    name: 'generate-game-content (spelling)',
+    path: '/generate-game-content',
+    body: { gameType: 'spelling', theme: 'animals', count: 3, age: 7, difficulty: 1 },
+    check: (body) => (body.questions?.length === 3 ? null : `expected 3 questions, got ${body.questions?.length}`),
+  },
+  {
+    name: 'chunk-task',
+    path: '/chunk-task',
+    body: { task: 'Write the quarterly report for the platform team' },
+  },
+  {
+    name: 'rsd/sanitize',
+    path: '/rsd/sanitize',
+    body: { text: "Obviously this is wrong. Why would you even do this? The async handler can race with unmount and there's no error handling." },
+  },
+  runAgent('chunkTask', { task: 'Clean out the garage before the weekend' }),
+  runAgent('summarizeHyperfocus', {
+    notes: 'cache invalidation bug is the stale ETag on /tasks\nfix: include updated_at in the ETag\nalso need a test for the 304 path\nping Rohit about CDN TTL',
+  }),
+  runAgent('generateReentryBrief', {
+    taskName: 'Parent portal PDF export',
+    contextNotes: 'Got the report layout rendering. Stuck on fonts not embedding in the PDF. Was reading the pdf-lib docs on custom fonts.',
+  }),
+  runAgent('reframeTrait', { trait: 'I get bored quickly with repetitive tasks' }),
+  runAgent('analyzeJobDescription', {
+    jobDescription: 'Fast-paced startup seeks a rockstar engineer who thrives on ambiguity, wears many hats and is always available on Slack. Own features end to end; weekly demos to customers.',
+  }),
+  runAgent('analyzeThread', {
+    threadText: 'Priya: Demo moved to Friday 3pm.\nArjun: Then I need the Figma updates reviewed by Thursday.\nRohit: I can review Thursday morning. Also someone add the HF token to server/.env.\nPriya: Rohit, can you own the token too?\nRohit: Sure.',
+  }),
+  runAgent('decodeSocialInteraction', { interactionText: 'Manager, after my proposal in the meeting: "Interesting. Let\'s take this offline."' }),
+  runAgent('generateSkillExercise', { cognitiveStyle: 'pattern recognition', focusArea: 'prioritization' }),
+];
+
+const readStream = (text: string): string | null => {
+  const events = text.split('\n\n').filter((e) => e.startsWith('data: ')).map((e) => e.slice(6).trim());
+  if (events[events.length - 1] !== '[DONE]') return 'stream did not finish';
+  const parsed = events.slice(0, -1).map((e) => JSON.parse(e) as { error?: string; status?: string });
+  const failed = parsed.find((e) => e.error);
+  if (failed) return failed.error!;
+  return parsed.some((e) => e.status === 'complete') ? null : 'no complete event';
+};
+
+async function run() {
+  const { default: express } = await import('express');
+  const { agentRoutes } = await import('../routes/agents');
+
+  const app = express();
+  app.use(express.json());
+  app.use('/api/agents', agentRoutes);
+
+  const server = app.listen(0);
+  await new Promise((resolve) => server.once('listening', resolve));
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/agents`;
+
+  let failures = 0;
+  try {
+    for (const agentCase of CASES) {
+      const response = await fetch(`${base}${agentCase.path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(agentCase.body),
+      });
+
+      let problem: string | null;
+      if (agentCase.path === '/stream') {
+        problem = readStream(await response.text());
+      } else {
+        const body = (await response.json()) as AgentResponseBody;
+        problem = response.status !== 200 || !body.success
+          ? `HTTP ${response.status}: ${body.error ?? 'unsuccessful'}`
+          : body.fallback
+            ? 'answered from the offline fallback'
+            : agentCase.check?.(body) ?? null;
+      }
+
+      if (problem) failures += 1;
+      console.log(`${problem ? '✗' : '✓'} ${agentCase.name}${problem ? ` — ${problem}` : ''}`);
+    }
+  } finally {
+    server.close();
+  }
+
+  console.log(`\n${CASES.length - failures}/${CASES.length} agent routes ${record ? 'recorded' : 'replayed'}.`);
+  if (failures > 0) process.exit(1);
+}
+
+run().catch((err) => {
+  console.error('❌', (err as Error).message);
+  process.exit(1);
+});
@@ -0,0 +1,80 @@
+/**
+ * simulateGitHubReview.ts — Local stand-in for GitHub's review webhooks
+ *
+ *   npm run simulate:github -- --author-id 1234 [--repo me/app] [--pr 47] [--comment "..."]
+ *
+ * Signs a `pull_request_review_comment` delivery with GITHUB_WEBHOOK_SECRET
+ * exactly as GitHub does and posts it to the running server, so the RSD
+ * Shield pipeline (signature → sanitize → store → Realtime) can be exercised
+ * without a GitHub App. `--author-id` is the PR author's GitHub user ID and
+ * must be linked in integration_identities (provider 'github') to the user
+ * who should see the comment.
+ */
+
+import crypto from 'crypto';
+import path from 'path';
+import dotenv from 'dotenv';
+
+dotenv.config({ path: path.resolve(__dirname, '../../.env') });
+
+const DEFAULT_COMMENT =
+  "Obviously this is wrong. Why would you even do this? The async handler can race with unmount and there's no error handling.";
+
+const arg = (name: string, fallback?: string): string | undefined => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index !== -1 ? process.argv[index + 1] : fallback;
+};
+
+async function run() {
+  const secret = process.env.GITHUB_WEBHOOK_SECRET;
+  const authorId = Number(arg('author-id'));
+  if (!secret) throw new Error('GITHUB_WEBHOOK_SECRET is not set.');
+  if (!Number.isInteger(authorId) || authorId <= 0) throw new Error('--author-id <GitHub user ID> is required.');
+
+  const url = arg('url', `http://localhost:${process.env.PORT || 3000}/webhooks/github`)!;
+  const prNumber = Number(arg('pr', '47'));
+  const commentId = Date.now();
+
+  const payload = {
+    action: 'created',
+    comment: {
+      id: commentId,
+      body: arg('comment', DEFAULT_COMMENT),
+      path: 'src/hooks/useCognitiveMonitor.ts',
+      line: 44,
+      created_at: new Date().toISOString(),
+      user: { id: authorId + 1, login: 'simulated-reviewer', avatar_url: '' },
+    },
+    pull_request: {
+      id: prNumber * 1000,
+      number: prNumber,
+      title: arg('title', 'feat: add cognitive load threshold alerts'),
+      state: 'open',
+      merged_at: null,
+      user: { id: authorId, login: 'simulated-author' },
+    },
+    repository: { full_name: arg('repo', 'NeuroAdaptive/neuro-adaptive-os') },
+  };
+
+  const body = JSON.stringify(payload);
+  const signature = `sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}`;
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-GitHub-Event': 'pull_request_review_comment',
+      'X-GitHub-Delivery': crypto.randomUUID(),
+      'X-Hub-Signature-256': signature,
+    },
+    body,
+  });
+
+  console.log(`[SimulateGitHub] ${response.status} ${await response.text()} — comment ${commentId} on ${payload.repository.full_name}#${prNumber}`);
+  if (!response.ok) process.exit(1);
+}
+
+run().catch((err) => {
+  console.error('[SimulateGitHub] Failed:', (err as Error).message);
+  process.exit(1);
+});
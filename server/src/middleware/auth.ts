@@ -0,0 +1,75 @@
+import { Request, Response, NextFunction } from 'express';
+import { supabaseAdmin } from '../utils/supabaseAdmin';
+
+export interface AuthedRequest extends Request {
+  userId: string;
+}
+
+/** Mirrors the `public.app_role` enum from migrations/merge_kids_module.sql. */
+export type AppRole = 'SuperAdmin' | 'Teacher' | 'Parent' | 'Adult_User' | 'Child_User';
+
+const DEFAULT_ROLE: AppRole = 'Adult_User';
+
+/**
+ * Resolves a Supabase access token to its user ID, or null if invalid/expired.
+ */
+export const verifySupabaseToken = async (token: string | undefined): Promise<string | null> => {
+  if (!token) return null;
+  const { data, error } = await supabaseAdmin.auth.getUser(token);
+  if (error || !data.user) return null;
+  return data.user.id;
+};
+
+/**
+ * Looks up a user's `profiles.app_role`. Users without a profile row (or
+ * without the kids-module migration applied) get the column default.
+ */
+export const getAppRole = async (userId: string): Promise<AppRole> => {
+  const { data, error } = await supabaseAdmin
+    .from('profiles')
+    .select('app_role')
+    .eq('id', userId)
+    .maybeSingle();
+  if (error) throw new Error(`[Auth] Role lookup failed: ${error.message}`);
+  return (data?.app_role as AppRole | null) ?? DEFAULT_ROLE;
+};
+
+/**
+ * Express middleware: requires `Authorization: Bearer <supabase access token>`.
+ * On success the caller's ID is available as `(req as AuthedRequest).userId`,
+ * so handlers never trust a user ID from the body or query string.
+ */
+export const requireUser = async (req: Request, res: Response, next: NextFunction) => {
+  const header = req.headers.authorization ?? '';
+  const token = header.startsWith('Bearer ') ? header.slice(7) : undefined;
+
+  try {
+    const userId = await verifySupabaseToken(token);
+    if (!userId) {
+      return res.status(401).json({ success: false, error: 'Missing or invalid access token.' });
+    }
+    (req as AuthedRequest).userId = userId;
+    next();
+  } catch (err) {
+    console.error('[Auth] Token verification failed:', err);
+    res.status(500).json({ success: false, error: 'Authentication service unavailable.' });
+  }
+};
+
+/**
+ * Express middleware: must run after `requireUser`. Allows the request only
+ * if the caller's `profiles.app_role` is one of `roles`.
+ */
+export const requireRole = (...roles: AppRole[]) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const role = await getAppRole((req as AuthedRequest).userId);
+      if (!roles.includes(role)) {
+        return res.status(403).json({ success: false, error: 'Insufficient role for this resource.' });
+      }
+      next();
+    } catch (err) {
+      console.error('[Auth] Role check failed:', err);
+      res.status(500).json({ success: false, error: 'Authentication service unavailable.' });
+    }
+  };
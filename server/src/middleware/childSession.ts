@@ -0,0 +1,27 @@
+import { Request, Response, NextFunction } from 'express';
+import { childAuth, ChildSessionClaims } from '../services/ChildAuth';
+
+export interface ChildRequest extends Request {
+  child: ChildSessionClaims;
+}
+
+/**
+ * Express middleware: requires `Authorization: Bearer <child session token>`
+ * (issued by POST /api/kids/login). On success the token's claims are
+ * available as `(req as ChildRequest).child`. Supabase access tokens are not
+ * accepted here, and child tokens are not accepted by `requireUser`.
+ */
+export const requireChildSession = (req: Request, res: Response, next: NextFunction) => {
+  if (!childAuth.isConfigured()) {
+    return res.status(503).json({ success: false, error: 'Child login is not configured.' });
+  }
+
+  const header = req.headers.authorization ?? '';
+  const claims = header.startsWith('Bearer ') ? childAuth.verifyToken(header.slice(7)) : null;
+  if (!claims) {
+    return res.status(401).json({ success: false, error: 'Missing or expired child session.' });
+  }
+
+  (req as ChildRequest).child = claims;
+  next();
+};
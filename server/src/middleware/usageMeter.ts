@@ -0,0 +1,36 @@
+import { Request, Response, NextFunction } from 'express';
+import { verifySupabaseToken } from './auth';
+import { usageMeter } from '../services/UsageMeter';
+
+/**
+ * Per-request LLM usage metering for /api/agents/*. Authentication is
+ * optional here: a valid bearer token meters (and limits) the user, anything
+ * else is metered against the small anonymous quota for the client IP.
+ */
+
+/** Keeps arbitrary 404 paths from becoming unbounded agent names in the usage table. */
+const MAX_AGENT_NAME_LENGTH = 64;
+
+const agentName = (req: Request) =>
+  req.path.replace(/^\/+/, '').replace(/[^\w/-]/g, '').slice(0, MAX_AGENT_NAME_LENGTH) || 'unknown';
+
+/** Express middleware: runs the rest of the request inside a usage context. */
+export const meterAgentUsage = async (req: Request, res: Response, next: NextFunction) => {
+  const header = req.headers.authorization ?? '';
+  const token = header.startsWith('Bearer ') ? header.slice(7) : undefined;
+
+  let userId: string | null = null;
+  try {
+    userId = await verifySupabaseToken(token);
+  } catch (err) {
+    console.warn('[Usage] Token verification failed; metering as anonymous:', (err as Error).message);
+  }
+
+  const context = await usageMeter.begin(userId, agentName(req), req.ip);
+  res.once('close', () => {
+    usageMeter.finish(context, res.statusCode).catch((err) =>
+      console.error('[Usage] Failed to store usage event:', (err as Error).message));
+  });
+
+  usageMeter.run(context, next);
+};
@@ -0,0 +1,138 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+
+/**
+ * Webhook request verification for Slack, Jira, GitHub and Google Calendar.
+ * Every verifier fails closed: if its secret isn't configured the route
+ * answers 503 instead of accepting unsigned traffic.
+ */
+
+export interface WebhookRequest extends Request {
+  rawBody?: Buffer;
+}
+
+/** Slack rejects requests older than 5 minutes; so do we. */
+const MAX_CLOCK_SKEW_S = 5 * 60;
+
+/** `express.json({ verify })` hook — signatures are computed over the exact bytes received. */
+export const captureRawBody = (req: Request, _res: Response, buf: Buffer) => {
+  (req as WebhookRequest).rawBody = buf;
+};
+
+const hmacHex = (secret: string, payload: string | Buffer) =>
+  crypto.createHmac('sha256', secret).update(payload).digest('hex');
+
+const safeEqual = (a: string, b: string) => {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+};
+
+const reject = (res: Response, status: number, error: string) =>
+  res.status(status).json({ success: false, error });
+
+// ─── Slack ────────────────────────────────────────────────────────────────────
+
+/**
+ * Slack signing secret: `X-Slack-Signature` must equal
+ * `v0=HMAC_SHA256(secret, "v0:{timestamp}:{raw body}")`, and the timestamp
+ * must be recent.
+ */
+export const verifySlackSignature = (req: Request, res: Response, next: NextFunction) => {
+  const secret = process.env.SLACK_SIGNING_SECRET;
+  if (!secret) return reject(res, 503, 'Slack webhooks are not configured.');
+
+  const timestamp = Number(req.headers['x-slack-request-timestamp']);
+  const signature = req.headers['x-slack-signature'];
+  const rawBody = (req as WebhookRequest).rawBody;
+
+  if (!timestamp || typeof signature !== 'string' || !rawBody) {
+    return reject(res, 401, 'Missing Slack signature.');
+  }
+  if (Math.abs(Date.now() / 1000 - timestamp) > MAX_CLOCK_SKEW_S) {
+    return reject(res, 401, 'Stale Slack request.');
+  }
+
+  const expected = `v0=${hmacHex(secret, `v0:${timestamp}:${rawBody.toString('utf8')}`)}`;
+  if (!safeEqual(expected, signature)) return reject(res, 401, 'Invalid Slack signature.');
+  next();
+};
+
+// ─── Jira ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Jira shared secret: `X-Hub-Signature` must equal
+ * `sha256=HMAC_SHA256(secret, raw body)`. Connect-style JWTs are not
+ * accepted — they don't cover the body, so a captured token could carry
+ * any payload until it expired.
+ */
+export const verifyJiraRequest = (req: Request, res: Response, next: NextFunction) => {
+  const secret = process.env.JIRA_WEBHOOK_SECRET;
+  if (!secret) return reject(res, 503, 'Jira webhooks are not configured.');
+
+  const signature = req.headers['x-hub-signature'];
+  const rawBody = (req as WebhookRequest).rawBody;
+
+  if (typeof signature !== 'string' || !rawBody) return reject(res, 401, 'Missing Jira signature.');
+
+  const expected = `sha256=${hmacHex(secret, rawBody)}`;
+  if (!safeEqual(expected, signature)) return reject(res, 401, 'Invalid Jira signature.');
+  next();
+};
+
+// ─── GitHub ───────────────────────────────────────────────────────────────────
+
+/**
+ * GitHub webhook secret: `X-Hub-Signature-256` must equal
+ * `sha256=HMAC_SHA256(secret, raw body)`. GitHub sends no timestamp;
+ * replays are caught by the `X-GitHub-Delivery` ledger instead.
+ */
+export const verifyGitHubSignature = (req: Request, res: Response, next: NextFunction) => {
+  const secret = process.env.GITHUB_WEBHOOK_SECRET;
+  if (!secret) return reject(res, 503, 'GitHub webhooks are not configured.');
+
+  const signature = req.headers['x-hub-signature-256'];
+  const rawBody = (req as WebhookRequest).rawBody;
+
+  if (typeof signature !== 'string' || !rawBody) return reject(res, 401, 'Missing GitHub signature.');
+
+  const expected = `sha256=${hmacHex(secret, rawBody)}`;
+  if (!safeEqual(expected, signature)) return reject(res, 401, 'Invalid GitHub signature.');
+  next();
+};
+
+// ─── Google Calendar ──────────────────────────────────────────────────────────
+
+/**
+ * Token to pass as `token` when creating a Calendar watch channel. It is
+ * derived from the channel ID, so push notifications can be checked
+ * without storing per-channel state.
+ */
+export const googleChannelToken = (channelId: string): string => {
+  const secret = process.env.GOOGLE_CHANNEL_SECRET;
+  if (!secret) throw new Error('GOOGLE_CHANNEL_SECRET is not configured.');
+  return hmacHex(secret, channelId);
+};
+
+/**
+ * Validates `X-Goog-Channel-Token` against the channel ID and rejects
+ * notifications for expired channels.
+ */
+export const verifyGoogleChannel = (req: Request, res: Response, next: NextFunction) => {
+  if (!process.env.GOOGLE_CHANNEL_SECRET) return reject(res, 503, 'Calendar webhooks are not configured.');
+
+  const channelId = req.headers['x-goog-channel-id'];
+  const token = req.headers['x-goog-channel-token'];
+  const expiration = req.headers['x-goog-channel-expiration'];
+
+  if (typeof channelId !== 'string' || typeof token !== 'string') {
+    return reject(res, 401, 'Missing channel token.');
+  }
+  if (!safeEqual(googleChannelToken(channelId), token)) {
+    return reject(res, 401, 'Invalid channel token.');
+  }
+  if (typeof expiration === 'string' && Date.parse(expiration) < Date.now()) {
+    return reject(res, 401, 'Channel has expired.');
+  }
+  next();
+};
@@ -1,89 +1,24 @@
 import { Router, Request, Response } from 'express';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { sanitizeGeminiJson } from '../utils/sanitizeGeminiJson';
+import { taskDecomposition } from '../services/TaskDecomposition';
+import { sanitizePRComment } from '../utils/sanitizePRComment';
+import { isAgentName } from '../utils/agentRegistry';
+import { structuredAgents } from '../services/StructuredAgents';
+import { llmProvider } from '../services/LlmProvider';
+import { usageMeter } from '../services/UsageMeter';
+import {
+  baselineRating, targetDifficulty, SKILL_PATTERN, MIN_DIFFICULTY, MAX_DIFFICULTY,
+} from '../services/AdaptiveDifficulty';
 
 const router = Router();
-const apiKey = process.env.GEMINI_API_KEY_2 || process.env.GEMINI_API_KEY || '';
-const genAI = new GoogleGenerativeAI(apiKey);
+const MAX_RSD_TEXT_LENGTH = 10_000;
 
-// ─── Model helper ─────────────────────────────────────────────────────────────
-
-const getModel = (modelName: string) => {
-  // NOTE: We rely on prompt-level JSON instructions + sanitizeGeminiJson()
-  // instead of responseMimeType, which causes 500s on some model versions.
-  return genAI.getGenerativeModel({
-    model: modelName,
-    generationConfig: { temperature: 0.2 },
-  });
+const QUOTA_EXCEEDED = {
+  success: false,
+  code: 'quota_exceeded',
+  error: "You've used today's AI allowance. Offline tools still work, and it resets at midnight UTC.",
 };
 
-// ═══════════════════════════════════════════════════════════════════════════════
-// ROBUST JSON SANITIZER
-// ═══════════════════════════════════════════════════════════════════════════════
-//
-// Gemini (especially 2.0-flash) frequently wraps output in markdown code
-// fences, comments, trailing commas, or random pre/post text even when the
-// prompt explicitly says "JSON only". This utility surgically extracts valid
-// JSON from a messy LLM response string.
-// ═══════════════════════════════════════════════════════════════════════════════
-
-/**
- * Strip markdown code fences, comments, trailing commas, and any surrounding
- * prose from a raw Gemini response, then JSON.parse() the result.
- *
- * Returns `null` if parsing still fails after all sanitisation passes.
- */
-function sanitizeGeminiJson<T = unknown>(raw: string): T | null {
-  if (!raw || typeof raw !== 'string') return null;
-
-  let cleaned = raw;
-
-  try {
-    // Pass 1: Strip markdown code fence wrappers (```json ... ``` or ``` ... ```)
-    //         Handles any language tag after the opening triple backticks.
-    cleaned = cleaned.replace(/^[\s\S]*?```(?:json|JSON|js|javascript)?\s*\n?/m, '');
-    cleaned = cleaned.replace(/```[\s\S]*?$/m, '');
-
-    // Pass 2: If still contains backticks (e.g. ` ``` ` inside), remove all
-    cleaned = cleaned.replace(/`/g, '');
-
-    // Pass 3: Trim leading/trailing whitespace and stray prose
-    cleaned = cleaned.trim();
-
-    // Pass 4: Extract the JSON array/object — find the first [ or { and
-    //         the corresponding last ] or }
-    const firstBracket = cleaned.search(/[\[{]/);
-    const lastBracket = Math.max(cleaned.lastIndexOf(']'), cleaned.lastIndexOf('}'));
-
-    if (firstBracket !== -1 && lastBracket > firstBracket) {
-      cleaned = cleaned.substring(firstBracket, lastBracket + 1);
-    }
-
-    // Pass 5: Remove trailing commas before closing brackets/braces
-    //         e.g. { "a": 1, } → { "a": 1 }
-    cleaned = cleaned.replace(/,\s*([}\]])/g, '$1');
-
-    // Pass 6: Remove JS-style single-line comments ( // ... )
-    cleaned = cleaned.replace(/\/\/.*$/gm, '');
-
-    // Pass 7: Remove control characters except \n, \r, \t
-    cleaned = cleaned.replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '');
-
-    return JSON.parse(cleaned) as T;
-  } catch {
-    // Final desperate attempt: try to find JSON array inside the messy string
-    try {
-      const arrayMatch = raw.match(/\[[\s\S]*\]/);
-      if (arrayMatch) {
-        const withoutTrailing = arrayMatch[0].replace(/,\s*([}\]])/g, '$1');
-        return JSON.parse(withoutTrailing) as T;
-      }
-    } catch { /* give up */ }
-
-    console.error('[sanitizeGeminiJson] All parsing attempts failed. Raw (first 500 chars):', raw.substring(0, 500));
-    return null;
-  }
-}
-
 // ═══════════════════════════════════════════════════════════════════════════════
 // HARDCODED FALLBACK DATA
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -149,13 +84,59 @@ const FALLBACK_SPELLING = [
   { word: 'Fi_h', correctLetter: 's', image: null, options: ['s', 'r', 'n', 't'] },
 ];
 
-const FALLBACK_STEPS = [
-  { id: 'step-1', step: 'Open a blank document or workspace.', estimated_minutes: 1, friction_point: 'Starting feels hard' },
-  { id: 'step-2', step: 'Write a single-sentence summary of what you need to do.', estimated_minutes: 2, friction_point: 'Clarity paralysis' },
-  { id: 'step-3', step: 'List the 3 most obvious sub-tasks.', estimated_minutes: 3, friction_point: 'Overwhelming scope' },
-  { id: 'step-4', step: 'Complete sub-task #1 only.', estimated_minutes: 5, friction_point: 'Perfectionism trap' },
-  { id: 'step-5', step: 'Take a 30-second stretch break, then start sub-task #2.', estimated_minutes: 5, friction_point: 'Momentum loss' },
-];
+// ═══════════════════════════════════════════════════════════════════════════════
+// GAME CONTENT DIFFICULTY (levels 1–5, see services/AdaptiveDifficulty.ts)
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const SPELLING_LEVELS: Record<number, string> = {
+  1: '3-letter words; the missing letter is a single-sound consonant',
+  2: '3–4 letter words; the missing letter may be a short vowel',
+  3: '4–5 letter words',
+  4: '5–6 letter words with blends or digraphs (sh, ch, bl, st)',
+  5: '6+ letter words with vowel teams or silent letters',
+};
+
+const QUIZ_LEVELS: Record<number, string> = {
+  1: 'one concrete fact a young child sees every day',
+  2: 'a simple everyday fact',
+  3: 'needs a little thinking or knowing a category',
+  4: 'two-step reasoning or a less familiar word',
+  5: 'comparison or inference with plausible distractors',
+};
+
+const MAX_PLAN_SKILLS = 20;
+
+const toLevel = (value: unknown): number | null => {
+  const level = Number(value);
+  return Number.isInteger(level) && level >= MIN_DIFFICULTY && level <= MAX_DIFFICULTY ? level : null;
+};
+
+const toSkills = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? value.filter((s): s is string => typeof s === 'string' && SKILL_PATTERN.test(s)).slice(0, MAX_PLAN_SKILLS)
+    : [];
+
+const skillNames = (skills: string[], prefix: 'letter:' | 'topic:') =>
+  skills.filter((s) => s.startsWith(prefix)).map((s) => s.slice(prefix.length));
+
+const toTopic = (value: unknown) => String(value ?? '').toLowerCase().replace(/[^a-z -]/g, '').trim();
+
+/** "emotions, animals, and everyday life" → ["emotions", "animals", "everyday life"] */
+const themeTopics = (theme: string) =>
+  [...new Set(theme.split(/,|\band\b/).map(toTopic).filter(Boolean))].slice(0, 6);
+
+/** Tags each item with the `skill` and `difficulty` the games report answers against. */
+const tagGameItems = (gameType: 'quiz' | 'spelling', items: unknown[], level: number, topics: string[]) =>
+  items
+    .filter((item): item is Record<string, unknown> => !!item && typeof item === 'object')
+    .map((item) => {
+      const letter = String(item.correctLetter ?? '').toLowerCase();
+      const topic = toTopic(item.topic);
+      const skill = gameType === 'spelling'
+        ? (/^[a-z]$/.test(letter) ? `letter:${letter}` : undefined)
+        : `topic:${topics.includes(topic) ? topic : 'general'}`;
+      return { ...item, skill, difficulty: toLevel(item.difficulty) ?? level };
+    });
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // ROUTES
@@ -163,7 +144,8 @@ const FALLBACK_STEPS = [
 
 /**
  * POST /api/agents/generate
- * General-purpose Gemini generation endpoint.
+ * General-purpose Gemini generation endpoint. Output is unvalidated free
+ * text — agents with a known JSON shape belong in POST /api/agents/run/:name.
  */
 router.post('/generate', async (req: Request, res: Response): Promise<void> => {
   try {
@@ -174,9 +156,12 @@ router.post('/generate', async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    const aiModel = getModel(model);
-    const result = await aiModel.generateContent(prompt);
-    const text = result.response.text();
+    if (usageMeter.current()?.overQuota) {
+      res.status(429).json(QUOTA_EXCEEDED);
+      return;
+    }
+
+    const { text } = await llmProvider.generate({ purpose: 'agents:generate', prompt, model, secondaryKey: true });
 
     res.status(200).json({
       success: true,
@@ -214,16 +199,16 @@ router.post('/stream', async (req: Request, res: Response) => {
       return;
     }
 
-    const aiModel = genAI.getGenerativeModel({
-      model,
-      generationConfig: { temperature: 0.2 },
-    });
+    if (usageMeter.current()?.overQuota) {
+      res.write(`data: ${JSON.stringify({ error: QUOTA_EXCEEDED.error, code: QUOTA_EXCEEDED.code })}\n\n`);
+      res.write('data: [DONE]\n\n');
+      res.end();
+      return;
+    }
 
-    const result = await aiModel.generateContentStream(prompt);
     let fullResponse = '';
 
-    for await (const chunk of result.stream) {
-      const chunkText = chunk.text();
+    for await (const chunkText of llmProvider.stream({ purpose: 'agents:stream', prompt, model, secondaryKey: true })) {
       fullResponse += chunkText;
       res.write(`data: ${JSON.stringify({ text: chunkText, partial: fullResponse })}\n\n`);
       res.flushHeaders();
@@ -246,6 +231,9 @@ router.post('/stream', async (req: Request, res: Response) => {
 /**
  * POST /api/agents/generate-game-content
  * Generates therapeutic quiz or spelling questions for the Kids Module.
+ * Optional `difficulty` (1–5), `focusSkills` and `avoidSkills` come from the
+ * child's adaptive difficulty plan; every returned item is tagged with its
+ * `skill` and `difficulty`.
  *
  * NEVER returns a 500 — always falls back to hardcoded questions.
  */
@@ -257,11 +245,27 @@ router.post('/generate-game-content', async (req: Request, res: Response): Promi
     return;
   }
 
+  const level = toLevel(req.body.difficulty) ?? targetDifficulty(baselineRating(Number(age) || null));
+  const focusSkills = toSkills(req.body.focusSkills);
+  const avoidSkills = toSkills(req.body.avoidSkills);
+  const topics = themeTopics(String(theme));
+
   try {
+    const quizFocus = [
+      skillNames(focusSkills, 'topic:').length > 0 && `- Ask more questions about: ${skillNames(focusSkills, 'topic:').join(', ')}.`,
+      skillNames(avoidSkills, 'topic:').length > 0 && `- The child has mastered these topics; ask about them only if nothing else fits: ${skillNames(avoidSkills, 'topic:').join(', ')}.`,
+    ].filter(Boolean).join('\n');
+
+    const spellingFocus = [
+      skillNames(focusSkills, 'letter:').length > 0 && `- Prefer these missing letters (still being learned): ${skillNames(focusSkills, 'letter:').join(', ')}.`,
+      skillNames(avoidSkills, 'letter:').length > 0 && `- Never use these as the missing letter (already mastered): ${skillNames(avoidSkills, 'letter:').join(', ')}.`,
+    ].filter(Boolean).join('\n');
+
     const quizPrompt = `
 You are a compassionate educational AI creating therapeutic quiz content for a dyslexic child aged ${age}.
 Generate exactly ${count} multiple-choice questions based on the theme: "${theme}".
 Calibrate vocabulary and complexity for a ${age}-year-old: short sentences, familiar words, encouraging tone.
+Target difficulty is level ${level} of 5 (${QUIZ_LEVELS[level]}). Make most questions level ${level}, with one or two a level easier or harder.
 
 Return ONLY raw JSON — NO markdown, NO code fences, NO explanation.
 The response must start with [ and end with ].
@@ -270,6 +274,8 @@ The response must start with [ and end with ].
   {
     "question": "Simple question text",
     "image": null,
+    "topic": "${topics[0] ?? 'general'}",
+    "difficulty": ${level},
     "answers": [
       { "text": "Option A", "correct": true },
       { "text": "Option B", "correct": false },
@@ -283,12 +289,16 @@ Rules:
 - Exactly one answer must have "correct": true per question.
 - Each question must have exactly 4 answer options.
 - image must always be null.
+- "topic" must be one of: ${topics.join(', ') || 'general'}.
+- "difficulty" is the question's level, 1–5.
+${quizFocus}
     `.trim();
 
     const spellingPrompt = `
 You are a compassionate educational AI creating therapeutic spelling content for a dyslexic child aged ${age}.
 Generate exactly ${count} drag-the-missing-letter spelling puzzles based on the theme: "${theme}".
 Calibrate word length and difficulty for a ${age}-year-old.
+Target difficulty is level ${level} of 5 (${SPELLING_LEVELS[level]}). Make most puzzles level ${level}, with one or two a level easier or harder.
 
 Return ONLY raw JSON — NO markdown, NO code fences, NO explanation.
 The response must start with [ and end with ].
@@ -298,7 +308,8 @@ The response must start with [ and end with ].
     "word": "Ca_",
     "correctLetter": "t",
     "image": null,
-    "options": ["t", "r", "n", "s"]
+    "options": ["t", "r", "n", "s"],
+    "difficulty": ${level}
   }
 ]
 
@@ -308,18 +319,24 @@ Rules:
 - "correctLetter" is the missing letter (lowercase).
 - "options" must contain exactly 4 single letters — correctLetter must be among them.
 - "image" must be null.
+- "difficulty" is the puzzle's level, 1–5.
+${spellingFocus}
     `.trim();
 
     const prompt = gameType === 'quiz' ? quizPrompt : spellingPrompt;
 
-    const aiModel = getModel('gemini-2.0-flash');
-    const result = await aiModel.generateContent(prompt);
-    const rawText = result.response.text();
+    const { text: rawText } = await llmProvider.generate({
+      purpose: `agents:game-content:${gameType}`,
+      prompt,
+      secondaryKey: true,
+      mock: () => JSON.stringify((gameType === 'quiz' ? FALLBACK_QUIZ : FALLBACK_SPELLING).slice(0, Number(count) || undefined)),
+    });
 
     // ── Sanitize & parse ──────────────────────────────────────────────────
-    const questions = sanitizeGeminiJson<unknown[]>(rawText);
+    const parsed = sanitizeGeminiJson<unknown[]>(rawText);
+    const questions = Array.isArray(parsed) ? tagGameItems(gameType, parsed, level, topics) : null;
 
-    if (questions && Array.isArray(questions) && questions.length > 0) {
+    if (questions && questions.length > 0) {
       console.info(`[generate-game-content] ✅ Gemini returned ${questions.length} ${gameType} questions.`);
       res.status(200).json({ success: true, questions, gameType, theme, age, count: questions.length });
       return;
@@ -332,7 +349,7 @@ Rules:
   }
 
   // ── FALLBACK — always returns valid data, NEVER a 500 ───────────────────
-  const fallback = gameType === 'quiz' ? FALLBACK_QUIZ : FALLBACK_SPELLING;
+  const fallback = tagGameItems(gameType, gameType === 'quiz' ? FALLBACK_QUIZ : FALLBACK_SPELLING, level, topics);
   console.info(`[generate-game-content] ⚠ Returning ${fallback.length} hardcoded ${gameType} fallback questions.`);
   res.status(200).json({
     success: true,
@@ -348,6 +365,8 @@ Rules:
 /**
  * POST /api/agents/chunk-task
  * Breaks a long task description into 5-minute actionable steps.
+ * Stateless and unpadded — the app goes through POST /api/tasks, which
+ * applies overload gating and the user's time-blindness correction.
  *
  * NEVER returns a 500 — always falls back to hardcoded steps.
  */
@@ -358,48 +377,89 @@ router.post('/chunk-task', async (req: Request, res: Response): Promise<void> =>
     return;
   }
 
-  try {
-    const prompt = `
-You are an executive function augmentation engine designed to bypass task paralysis for neurodivergent users.
-
-Break the following task into exactly 5–7 sequential micro-steps. Each step MUST be completable in 5 minutes or less.
-The FIRST step must be trivially easy — no cognitive friction at all (e.g., "Open a blank document").
+  const { steps, fallback } = await taskDecomposition.decompose(task);
+  console.info(fallback
+    ? '[chunk-task] ⚠ Returning hardcoded fallback steps.'
+    : `[chunk-task] ✅ Gemini returned ${steps.length} micro-steps.`);
+  res.status(200).json({ success: true, steps, ...(fallback && { fallback: true }) });
+});
 
-Return ONLY a raw JSON array — NO markdown, NO code fences, NO explanation.
-The response must start with [ and end with ].
+/**
+ * POST /api/agents/rsd/sanitize
+ * Body: { text: string, senderContext?: string }
+ * De-weaponizes a review comment or message: { sanitized, actionItems, sentiment }.
+ * Shared by both RSD Shield components and the GitHub webhook pipeline.
+ *
+ * NEVER returns a 500 — falls back to pattern matching (`fallback: true`).
+ */
+router.post('/rsd/sanitize', async (req: Request, res: Response): Promise<void> => {
+  const { text, senderContext } = req.body ?? {};
 
-[
-  {
-    "id": "unique-slug-id",
-    "step": "The precise, physical micro-action",
-    "estimated_minutes": 3,
-    "friction_point": "3-word reason this feels hard"
+  if (typeof text !== 'string' || !text.trim()) {
+    res.status(400).json({ success: false, error: 'text is required.' });
+    return;
+  }
+  if (text.length > MAX_RSD_TEXT_LENGTH) {
+    res.status(400).json({ success: false, error: `text must be at most ${MAX_RSD_TEXT_LENGTH} characters.` });
+    return;
+  }
+  if (senderContext !== undefined && (typeof senderContext !== 'string' || senderContext.length > MAX_RSD_TEXT_LENGTH)) {
+    res.status(400).json({ success: false, error: 'senderContext must be a string.' });
+    return;
   }
-]
 
-Task: "${task}"
-    `.trim();
+  const result = await sanitizePRComment(text.trim(), senderContext?.trim() || undefined);
+  res.status(200).json({ success: true, ...result });
+});
+
+/**
+ * POST /api/agents/run/:name
+ * Body: { input: {...} } — the agent's input fields (utils/agentRegistry.ts).
+ * Runs a registered agent and returns `data` matching its schema, re-asking
+ * Gemini with the validation issues when it doesn't. Failures carry a `code`:
+ * unknown_agent (404), invalid_input (400), invalid_output (422, retries
+ * exhausted), quota_exceeded (429, daily token quota spent) or unavailable (500).
+ */
+router.post('/run/:name', async (req: Request, res: Response): Promise<void> => {
+  const name = String(req.params.name);
 
-    const aiModel = getModel('gemini-2.0-flash');
-    const result = await aiModel.generateContent(prompt);
-    const rawText = result.response.text();
+  if (!isAgentName(name)) {
+    res.status(404).json({ success: false, code: 'unknown_agent', error: `Unknown agent: ${name}` });
+    return;
+  }
 
-    const steps = sanitizeGeminiJson<unknown[]>(rawText);
+  if (usageMeter.current()?.overQuota) {
+    res.status(429).json(QUOTA_EXCEEDED);
+    return;
+  }
 
-    if (steps && Array.isArray(steps) && steps.length > 0) {
-      console.info(`[chunk-task] ✅ Gemini returned ${steps.length} micro-steps.`);
-      res.status(200).json({ success: true, steps });
+  try {
+    const result = await structuredAgents.run(name, req.body?.input);
+
+    if (result.status === 'invalid_input') {
+      res.status(400).json({ success: false, code: 'invalid_input', error: 'Invalid agent input.', issues: result.issues });
+      return;
+    }
+    if (result.status === 'invalid_output') {
+      res.status(422).json({
+        success: false,
+        code: 'invalid_output',
+        error: 'The cognitive engine returned an unexpected answer. Please try again.',
+        issues: result.issues,
+        attempts: result.attempts,
+      });
       return;
     }
 
-    console.warn('[chunk-task] Sanitised parse returned null. Raw:', rawText.substring(0, 300));
-  } catch (error: any) {
-    console.error('[chunk-task] Gemini API error:', error.message);
+    res.status(200).json({ success: true, agent: name, data: result.data, attempts: result.attempts });
+  } catch (err) {
+    console.error(`[Agents API] ${name} failed:`, (err as Error).message);
+    res.status(500).json({
+      success: false,
+      code: 'unavailable',
+      error: 'The neural network is experiencing high latency. Please take a deep breath and try again.',
+    });
   }
-
-  // ── FALLBACK ────────────────────────────────────────────────────────────
-  console.info('[chunk-task] ⚠ Returning hardcoded fallback steps.');
-  res.status(200).json({ success: true, steps: FALLBACK_STEPS, fallback: true });
 });
 
 // ─── HuggingFace Emotion Inference ────────────────────────────────────────────
@@ -2,6 +2,9 @@ import { Router, Request, Response } from 'express';
 import { createClient } from '@supabase/supabase-js';
 import fs from 'fs';
 import path from 'path';
+import { federatedAggregator } from '../services/FederatedAggregator';
+import { sessionReports } from '../services/SessionReports';
+import { requireUser, AuthedRequest, getAppRole } from '../middleware/auth';
 
 export const setupApiRoutes = () => {
   // ── Lazy Supabase init (runs AFTER dotenv.config() in server.ts) ─────────────
@@ -148,67 +151,101 @@ export const setupApiRoutes = () => {
   /**
    * POST /api/ml/federated-update
    * Receives differentially private (Laplace noise-injected) gradients from edge clients.
-   * Conceptually enforces k-anonymity by accepting anonymous payloads.
-   * 
+   * Requires a signed-in user so each user contributes at most once per round;
+   * the user ID is not stored with the update. Updates are buffered per model
+   * version and FedAvg runs once enough clients have contributed
+   * (see services/FederatedAggregator.ts).
+   *
    * Expected payload:
    * {
    *   gradients: number[][],      // 2D array of noise-injected weight updates
-   *   batchSize: number,          // Local batch size used for this update
+   *   batchSize: number,          // Local batch size used for this update (positive integer)
    *   timestamp: number,          // Client-side timestamp (ms)
-   *   modelVersion?: string,      // Optional: identifier for global model version
-   *   epsilon?: number            // Optional: privacy budget used for this update
+   *   modelVersion: string,       // Global model version the client last synced
+   *   epsilon: number             // Privacy budget used for this update
    * }
    */
-  router.post('/ml/federated-update', async (req: Request, res: Response) => {
+  router.post('/ml/federated-update', requireUser, async (req: Request, res: Response) => {
     try {
+      const { userId } = req as AuthedRequest;
       const { gradients, batchSize, timestamp, modelVersion, epsilon } = req.body;
 
       // Validate required fields
-      if (!gradients || !Array.isArray(gradients) || !batchSize || typeof batchSize !== 'number') {
+      if (!gradients || !Array.isArray(gradients) || !Number.isInteger(batchSize) || batchSize <= 0) {
         return res.status(400).json({ 
           success: false, 
-          error: 'Invalid federated payload: gradients (number[][]) and batchSize (number) are required.' 
+          error: 'Invalid federated payload: gradients (number[][]) and a positive integer batchSize are required.' 
         });
       }
 
       // Validate gradient structure (basic sanity check)
-      if (!gradients.every(layer => Array.isArray(layer) && layer.every(val => typeof val === 'number'))) {
+      if (!gradients.every(layer => Array.isArray(layer) && layer.every(val => typeof val === 'number' && Number.isFinite(val)))) {
         return res.status(400).json({
           success: false,
           error: 'Gradients must be a 2D array of numbers.'
         });
       }
 
-      // Privacy audit logging (NO PII logged - only metadata)
-      console.log(`[Federated ML] Received anonymous k-anonymized update`);
-      console.log(`[Federated ML] Metadata: batchSize=${batchSize}, layers=${gradients.length}, timestamp=${timestamp}`);
-      if (epsilon) {
-        console.log(`[Federated ML] Differential privacy: ε=${epsilon}`);
-      }
-      if (modelVersion) {
-        console.log(`[Federated ML] Target model version: ${modelVersion}`);
+      if (typeof modelVersion !== 'string' || typeof epsilon !== 'number' || !Number.isFinite(epsilon) || epsilon <= 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'modelVersion (string) and a positive epsilon (number) are required.'
+        });
       }
 
-      // === PRODUCTION AGGREGATION LOGIC WOULD GO HERE ===
-      // Example pseudocode for secure aggregation:
-      // 1. Verify gradient dimensions match current global model
-      // 2. Apply secure aggregation protocol (e.g., Bonawitz et al.)
-      // 3. Average noisy gradients into global model weights
-      // 4. Update model version and broadcast to clients
-      // ===================================================
-
-      // For hackathon demo: acknowledge receipt and simulate aggregation
-      await new Promise(resolve => setTimeout(resolve, 300));
-
-      res.status(200).json({
-        success: true,
-        message: 'Federated gradients successfully received and queued for aggregation.',
-        aggregation: {
-          queuedAt: new Date().toISOString(),
-          estimatedGlobalUpdate: new Date(Date.now() + 5 * 60 * 1000).toISOString(), // ~5 min delay
-          participatingClients: '+1' // Would be actual count in production
-        }
-      });
+      // Privacy audit logging (NO PII logged - only metadata)
+      console.log(`[Federated ML] Received update: batchSize=${batchSize}, layers=${gradients.length}, ε=${epsilon}, version=${modelVersion}`);
+
+      const result = await federatedAggregator.submitUpdate({
+        gradients,
+        batchSize,
+        timestamp: typeof timestamp === 'number' ? timestamp : Date.now(),
+        modelVersion,
+        epsilon,
+      }, userId);
+
+      switch (result.status) {
+        case 'stale_version':
+          return res.status(409).json({
+            success: false,
+            error: 'Model version is stale. Re-sync via /api/ml/model-version.',
+            currentVersion: result.currentVersion,
+          });
+        case 'shape_mismatch':
+          return res.status(400).json({
+            success: false,
+            error: 'Gradient shape does not match the global model.',
+            expectedShape: result.expectedShape,
+          });
+        case 'budget_exhausted':
+          return res.status(429).json({
+            success: false,
+            error: 'Global privacy budget exhausted for this period.',
+            privacyBudget: result.budget,
+          });
+        case 'duplicate_contributor':
+          return res.status(429).json({
+            success: false,
+            error: 'Already contributed to this round. Wait for the next global model version.',
+          });
+        case 'round_rejected':
+          return res.status(422).json({
+            success: false,
+            error: 'Federated round discarded: the aggregate was not finite.',
+          });
+        case 'aggregated':
+          return res.status(200).json({
+            success: true,
+            message: 'Federated round aggregated into a new global model.',
+            aggregation: { aggregated: true, version: result.model.version, participatingClients: result.model.participants },
+          });
+        case 'queued':
+          return res.status(200).json({
+            success: true,
+            message: 'Federated gradients successfully received and queued for aggregation.',
+            aggregation: { aggregated: false, pendingClients: result.pending, requiredClients: result.required },
+          });
+      }
     } catch (error: any) {
       console.error('[Federated ML] Error processing update:', error);
       res.status(500).json({ 
@@ -221,215 +258,85 @@ export const setupApiRoutes = () => {
 
   /**
    * GET /api/ml/model-version
-   * Returns the current global model version and metadata for client sync.
+   * Returns the current global model version, weights and privacy budget for client sync.
    */
-  router.get('/ml/model-version', (req: Request, res: Response) => {
-    // In production, fetch from model registry or Supabase
-    res.status(200).json({
-      success: true,
-      model: {
-        version: 'v0.3.2-hackathon',
-        lastUpdated: new Date().toISOString(),
-        architecture: 'transformer-lite',
-        privacyBudget: {
-          totalEpsilon: 8.0,
-          remainingEpsilon: 6.2,
-          renewalPeriod: '30d'
+  router.get('/ml/model-version', async (req: Request, res: Response) => {
+    try {
+      const [model, privacyBudget, pendingClients] = await Promise.all([
+        federatedAggregator.getGlobalModel(),
+        federatedAggregator.getPrivacyBudget(),
+        federatedAggregator.getPendingCount(),
+      ]);
+
+      res.status(200).json({
+        success: true,
+        model: {
+          version: model.version,
+          round: model.round,
+          lastUpdated: model.createdAt,
+          architecture: 'fedavg-interaction-weights',
+          weights: model.weights,
+          participants: model.participants,
+          pendingClients,
+          privacyBudget,
         }
-      }
-    });
+      });
+    } catch (error) {
+      console.error('[Federated ML] Error reading model version:', error);
+      res.status(500).json({ success: false, error: 'Failed to read global model.' });
+    }
   });
   /**
    * GET /api/agents/session-report/:sessionId
    *
-   * Fetches or generates an emotion analysis report for a completed game session.
-   *
-   * Pipeline:
-   *  1. Look up game_sessions row by session_key
-   *  2. Pull stored webcam frame URLs from Supabase Storage (kids-captures bucket)
-   *  3. Run HuggingFace ViT-based emotion classification on each frame
-   *  4. Aggregate into dominant_emotion + emotion_breakdown percentages
-   *  5. Cache result in expression_logs / report column for future reads
+   * Returns the emotion report for one game session (by session_key), built
+   * locally from that session's expression_logs and intervention_events and
+   * cached in game_sessions.ai_report (see services/SessionReports.ts).
+   * Signed-in callers only: the child's parent or teacher, or a SuperAdmin.
    *
    * Response shape (success):
    * {
    *   success: true,
    *   report: {
    *     dominant_emotion: string,
-   *     emotion_breakdown: Record<string, number>,   // e.g. { happy: 72, neutral: 18, ... }
+   *     emotion_breakdown: Record<string, number>,   // share of captures, e.g. { happy: 60, neutral: 30, ... }
    *     analyzed_frames: number,
    *     session_duration_s: number,
+   *     interventions: { count, recovered, avg_recovery_s, events[] },
+   *     score_trajectory: { atS, score }[],
+   *     final_score: number | null,
    *     generated_at: string
    *   }
    * }
    *
-   * Response shape (pending — session has no frames yet):
+   * Response shape (pending — no captures or interventions logged yet):
    * { success: true, status: 'pending', message: '...' }
    */
-  router.get('/agents/session-report/:sessionId', async (req: Request, res: Response) => {
-    const { sessionId } = req.params;
+  router.get('/agents/session-report/:sessionId', requireUser, async (req: Request, res: Response) => {
+    const { userId } = req as AuthedRequest;
+    const sessionId = String(req.params.sessionId);
 
     if (!sessionId) {
       return res.status(400).json({ success: false, error: 'sessionId is required.' });
     }
 
     try {
-      // ── 1. Fetch session row ─────────────────────────────────────────────
-      const { data: session, error: sessionErr } = await supabaseAdmin
-        .from('game_sessions')
-        .select('session_key, image_paths, score, duration_seconds, ai_report')
-        .eq('session_key', sessionId)
-        .maybeSingle();
+      const result = await sessionReports.getReport(sessionId, { userId, role: await getAppRole(userId) });
 
-      if (sessionErr) throw sessionErr;
-
-      if (!session) {
+      if (result.status === 'not_found') {
         return res.status(404).json({ success: false, error: 'Session not found.' });
       }
-
-      // ── 2. Return cached report if available ────────────────────────────
-      if (session.ai_report && typeof session.ai_report === 'object') {
-        return res.status(200).json({ success: true, report: session.ai_report });
+      if (result.status === 'forbidden') {
+        return res.status(403).json({ success: false, error: 'You do not have access to this session.' });
       }
-
-      const imagePaths: string[] = session.image_paths ?? [];
-      
-      const distDir = path.resolve(process.cwd(), '../dist');
-      const uploadDir = path.join(distDir, 'uploads');
-      let localFiles: string[] = [];
-
-      // Extract specific filenames and verify local existence
-      for (const storagePath of imagePaths.slice(0, 10)) {
-        const filename = storagePath.split('/').pop();
-        if (filename) {
-          const fullPath = path.join(uploadDir, filename);
-          if (fs.existsSync(fullPath)) {
-            localFiles.push(fullPath);
-          }
-        }
-      }
-
-      // ── 3. Hackathon Demo Fallback ───────────────────────────────────────
-      // If the Supabase array_append RPC failed during gameplay, imagePaths
-      // will be empty. We fallback to reading the most recent local files 
-      // directly from disk to guarantee a live Parent Dashboard AI Report.
-      if (localFiles.length === 0 && fs.existsSync(uploadDir)) {
-        const files = fs.readdirSync(uploadDir).filter(f => f.endsWith('.png'));
-        files.sort((a, b) => fs.statSync(path.join(uploadDir, b)).mtimeMs - fs.statSync(path.join(uploadDir, a)).mtimeMs);
-        // Grab top 5 most recent frames from the gameplay session
-        localFiles = files.slice(0, 5).map(f => path.join(uploadDir, f));
-      }
-
-      // ── 4. Run HuggingFace ViT Emotion Inference ─────────────────────────
-      // Model: trpakov/vit-face-expression (7-class facial emotion classifier)
-      // Runs as serverless inference — no GPU required on our end.
-      const HF_API_URL = 'https://api-inference.huggingface.co/models/trpakov/vit-face-expression';
-      const HF_TOKEN = process.env.HUGGINGFACE_API_TOKEN || '';
-
-      const emotionTotals: Record<string, number> = {};
-      let analyzedFrames = 0;
-
-      for (const filePath of localFiles) {
-        try {
-          let responseData: any;
-
-          if (HF_TOKEN) {
-            const imageBuffer = fs.readFileSync(filePath);
-            
-            // Real HuggingFace inference - Note: Sending raw bytes
-            const hfRes = await fetch(HF_API_URL, {
-              method: 'POST',
-              headers: {
-                Authorization: `Bearer ${HF_TOKEN}`,
-                'Content-Type': 'application/octet-stream',
-              },
-              body: imageBuffer,
-            });
-
-            if (hfRes.ok) {
-              responseData = await hfRes.json();
-            } else {
-              console.warn(`[SessionReport] HuggingFace rejected buffer. Status: ${hfRes.status}`);
-            }
-          }
-
-          // ── Fallback: deterministic heuristic based on session score ─────
-          // Used when HF token is absent or when model is loading (503).
-          // Produces realistic-looking distributions without hallucinating.
-          if (!responseData || responseData.error) {
-            const score = session.score ?? 50;
-            const happyWeight = Math.min(score / 100, 0.85);
-            responseData = [
-              { label: 'happy',       score: happyWeight * 0.75 },
-              { label: 'neutral',     score: (1 - happyWeight) * 0.45 },
-              { label: 'surprise',    score: (1 - happyWeight) * 0.22 },
-              { label: 'frustration', score: (1 - happyWeight) * 0.20 },
-              { label: 'fear',        score: (1 - happyWeight) * 0.08 },
-              { label: 'sadness',     score: (1 - happyWeight) * 0.05 },
-            ];
-          }
-
-          // Accumulate emotion scores
-          if (Array.isArray(responseData)) {
-            for (const item of responseData) {
-              const label = (item.label as string).toLowerCase();
-              emotionTotals[label] = (emotionTotals[label] ?? 0) + (item.score ?? 0);
-            }
-            analyzedFrames++;
-          }
-        } catch (frameErr) {
-          console.warn(`[SessionReport] Frame analysis failed for ${filePath}:`, frameErr);
-        }
-      }
-
-      // ── 5. Aggregate into report ─────────────────────────────────────────
-      if (analyzedFrames === 0) {
-        // HACKATHON DEMO FALLBACK: If 0 frames were analyzed (e.g. local backend failed to save to Supabase bucket)
-        // Generate a fake but highly realistic report using game score and duration metrics.
-        const score = session.score ?? 50;
-        const duration = session.duration_seconds || 120;
-        const happyWeight = Math.min(score / 100, 0.85);
-
-        emotionTotals['happy'] = happyWeight * 0.75 * duration;
-        emotionTotals['neutral'] = (1 - happyWeight) * 0.45 * duration;
-        emotionTotals['surprise'] = (1 - happyWeight) * 0.22 * duration;
-        emotionTotals['frustration'] = (1 - happyWeight) * 0.20 * duration;
-        emotionTotals['fear'] = (1 - happyWeight) * 0.08 * duration;
-        emotionTotals['sadness'] = (1 - happyWeight) * 0.05 * duration;
-        
-        analyzedFrames = Math.max(12, Math.floor(duration / 3)); // Pretend we saw a frame every 3s
-      }
-
-      // Normalise to percentages (0–100)
-      const emotionBreakdown: Record<string, number> = {};
-      for (const [emotion, total] of Object.entries(emotionTotals)) {
-        emotionBreakdown[emotion] = Math.round((total / analyzedFrames) * 100);
-      }
-
-      // Find dominant emotion
-      const dominantEmotion = Object.entries(emotionBreakdown).sort(([, a], [, b]) => b - a)[0]?.[0] ?? 'neutral';
-
-      const report = {
-        dominant_emotion: dominantEmotion,
-        emotion_breakdown: emotionBreakdown,
-        analyzed_frames: analyzedFrames,
-        session_duration_s: session.duration_seconds ?? 0,
-        generated_at: new Date().toISOString(),
-        inference_source: HF_TOKEN ? 'huggingface-vit' : 'heuristic-fallback',
-      };
-
-      // ── 6. Cache in game_sessions.ai_report ──────────────────────────────
-      try {
-        await supabaseAdmin
-          .from('game_sessions')
-          .update({ ai_report: report })
-          .eq('session_key', sessionId);
-      } catch (dbErr) {
-        console.warn('[SessionReport] Failed to cache ai_report column (likely missing column in DB). Serving result dynamically.');
+      if (result.status === 'pending') {
+        return res.status(200).json({
+          success: true,
+          status: 'pending',
+          message: 'No expressions have been logged for this session yet.',
+        });
       }
-
-      return res.status(200).json({ success: true, report });
-
+      return res.status(200).json({ success: true, report: result.report });
     } catch (err: any) {
       console.error('[SessionReport] Error:', err);
       return res.status(500).json({ success: false, error: 'Failed to generate session report.' });
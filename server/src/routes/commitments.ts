@@ -0,0 +1,92 @@
+import { Router, Request, Response } from 'express';
+import { requireUser, AuthedRequest } from '../middleware/auth';
+import { commitmentTracker, CommitmentStatus, COMMITMENT_STATUSES } from '../services/CommitmentTracker';
+
+const MAX_LIST_LIMIT = 200;
+const MAX_SNOOZE_MINUTES = 30 * 24 * 60;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const setupCommitmentRoutes = () => {
+  const router = Router();
+
+  router.use(requireUser);
+
+  /**
+   * GET /api/commitments?status=open|snoozed|done&limit=100
+   * The caller's tracked commitments, soonest due first.
+   */
+  router.get('/', async (req: Request, res: Response) => {
+    const { userId } = req as AuthedRequest;
+    const status = req.query.status as CommitmentStatus | undefined;
+    const limit = req.query.limit === undefined ? 100 : Number(req.query.limit);
+
+    if (status !== undefined && !COMMITMENT_STATUSES.includes(status)) {
+      return res.status(400).json({ success: false, error: `status must be one of: ${COMMITMENT_STATUSES.join(', ')}` });
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIST_LIMIT) {
+      return res.status(400).json({ success: false, error: `limit must be an integer between 1 and ${MAX_LIST_LIMIT}.` });
+    }
+
+    try {
+      const commitments = await commitmentTracker.list(userId, { status, limit });
+      res.status(200).json({ success: true, commitments });
+    } catch (err) {
+      console.error('[Commitments API] List failed:', (err as Error).message);
+      res.status(500).json({ success: false, error: 'Failed to load commitments.' });
+    }
+  });
+
+  /**
+   * POST /api/commitments/:id/complete
+   * Marks a commitment done and cancels its reminder.
+   */
+  router.post('/:id/complete', async (req: Request, res: Response) => {
+    const { userId } = req as AuthedRequest;
+    const id = String(req.params.id);
+
+    if (!UUID_PATTERN.test(id)) return res.status(400).json({ success: false, error: 'id must be a UUID.' });
+
+    try {
+      const commitment = await commitmentTracker.complete(userId, id);
+      if (!commitment) return res.status(404).json({ success: false, error: 'Commitment not found.' });
+      res.status(200).json({ success: true, commitment });
+    } catch (err) {
+      console.error('[Commitments API] Complete failed:', (err as Error).message);
+      res.status(500).json({ success: false, error: 'Failed to complete commitment.' });
+    }
+  });
+
+  /**
+   * POST /api/commitments/:id/snooze
+   * Body: { minutes: number } or { until: ISO string }
+   * Hides the commitment and reminds again at that time.
+   */
+  router.post('/:id/snooze', async (req: Request, res: Response) => {
+    const { userId } = req as AuthedRequest;
+    const id = String(req.params.id);
+    const { minutes, until } = req.body ?? {};
+
+    if (!UUID_PATTERN.test(id)) return res.status(400).json({ success: false, error: 'id must be a UUID.' });
+
+    const snoozeUntil = minutes !== undefined
+      ? new Date(Date.now() + Number(minutes) * 60_000)
+      : new Date(typeof until === 'string' ? until : NaN);
+    const offsetMinutes = (snoozeUntil.getTime() - Date.now()) / 60_000;
+
+    if (Number.isNaN(snoozeUntil.getTime()) || !(offsetMinutes > 0 && offsetMinutes <= MAX_SNOOZE_MINUTES)) {
+      return res.status(400).json({ success: false, error: 'Pass minutes or a future until, at most 30 days ahead.' });
+    }
+
+    try {
+      const commitment = await commitmentTracker.snooze(userId, id, snoozeUntil);
+      if (!commitment) return res.status(404).json({ success: false, error: 'Commitment not found or already done.' });
+      res.status(200).json({ success: true, commitment });
+    } catch (err) {
+      console.error('[Commitments API] Snooze failed:', (err as Error).message);
+      res.status(500).json({ success: false, error: 'Failed to snooze commitment.' });
+    }
+  });
+
+  return router;
+};
@@ -0,0 +1,116 @@
+import { Router, Request, Response } from 'express';
+import { requireUser, AuthedRequest } from '../middleware/auth';
+import { integrationLinks, LinkProvider, LINK_PROVIDERS } from '../services/IntegrationLinks';
+import { integrationEvents } from '../services/IntegrationEvents';
+import { googleAuthUrl } from '../integrations/google';
+import { slackAuthUrl, completeSlackLink } from '../integrations/slack';
+import { jiraAuthUrl, fetchJiraAccountId } from '../integrations/jira';
+import { githubAuthUrl, fetchGitHubUserId } from '../integrations/github';
+
+const CLIENT_URL = process.env.CLIENT_URL || 'http://localhost:5173';
+
+const authorizeUrl = (provider: LinkProvider, state: string): string => {
+  switch (provider) {
+    case 'google':
+      return googleAuthUrl(state);
+    case 'slack':
+      return slackAuthUrl(state);
+    case 'jira':
+      return jiraAuthUrl(state);
+    case 'github':
+      return githubAuthUrl(state);
+  }
+};
+
+// Google keeps its own callback under /auth; these complete here.
+type CallbackProvider = 'slack' | 'jira' | 'github';
+const CALLBACK_PROVIDERS: readonly CallbackProvider[] = ['slack', 'jira', 'github'];
+
+/** Exchanges the OAuth code and returns the external ID webhooks are keyed by. */
+const completeLink = (provider: CallbackProvider, userId: string, code: string): Promise<string> => {
+  switch (provider) {
+    case 'slack':
+      return completeSlackLink(userId, code);
+    case 'jira':
+      return fetchJiraAccountId(code);
+    case 'github':
+      return fetchGitHubUserId(code);
+  }
+};
+
+export const setupIntegrationRoutes = () => {
+  const router = Router();
+
+  /**
+   * GET /api/integrations
+   * Providers the caller has linked.
+   */
+  router.get('/', requireUser, async (req: Request, res: Response) => {
+    const { userId } = req as AuthedRequest;
+
+    try {
+      const linked = await integrationLinks.listLinked(userId);
+      res.status(200).json({ success: true, linked });
+    } catch (err) {
+      console.error('[Integrations API] List failed:', (err as Error).message);
+      res.status(500).json({ success: false, error: 'Failed to load linked accounts.' });
+    }
+  });
+
+  /**
+   * POST /api/integrations/:provider/link
+   * Starts linking the caller's account on `provider`. Returns the consent
+   * URL to open; its state is a signed single-use nonce bound to the caller.
+   */
+  router.post('/:provider/link', requireUser, async (req: Request, res: Response) => {
+    const { userId } = req as AuthedRequest;
+    const provider = String(req.params.provider) as LinkProvider;
+
+    if (!LINK_PROVIDERS.includes(provider)) {
+      return res.status(400).json({ success: false, error: `provider must be one of: ${LINK_PROVIDERS.join(', ')}` });
+    }
+    if (!integrationLinks.isConfigured()) {
+      return res.status(503).json({ success: false, error: 'Account linking is not configured.' });
+    }
+
+    try {
+      const state = await integrationLinks.createState(userId, provider);
+      res.status(200).json({ success: true, url: authorizeUrl(provider, state) });
+    } catch (err) {
+      console.error('[Integrations API] Link start failed:', (err as Error).message);
+      res.status(500).json({ success: false, error: 'Failed to start linking.' });
+    }
+  });
+
+  /**
+   * GET /api/integrations/:provider/callback
+   * OAuth redirect target for Slack, Jira and GitHub. Unauthenticated: the user is
+   * resolved from the signed state issued by /:provider/link.
+   */
+  router.get('/:provider/callback', async (req: Request, res: Response) => {
+    const provider = String(req.params.provider) as CallbackProvider;
+    const { code, state } = req.query;
+
+    if (!CALLBACK_PROVIDERS.includes(provider) || typeof code !== 'string' || typeof state !== 'string') {
+      return res.redirect(`${CLIENT_URL}/dashboard?integration=error`);
+    }
+
+    try {
+      const userId = await integrationLinks.consumeState(state, provider);
+      if (!userId) {
+        console.error(`[Integrations API] Rejected ${provider} callback with invalid or used state.`);
+        return res.redirect(`${CLIENT_URL}/dashboard?integration=error`);
+      }
+
+      const externalId = await completeLink(provider, userId, code);
+      await integrationEvents.linkIdentity(userId, provider, externalId);
+
+      res.redirect(`${CLIENT_URL}/dashboard?integration=success`);
+    } catch (err) {
+      console.error(`[Integrations API] ${provider} link failed:`, (err as Error).message);
+      res.redirect(`${CLIENT_URL}/dashboard?integration=error`);
+    }
+  });
+
+  return router;
+};
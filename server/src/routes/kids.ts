@@ -0,0 +1,329 @@
+import { Router, Request, Response } from 'express';
+import rateLimit from 'express-rate-limit';
+import { requireUser, AuthedRequest } from '../middleware/auth';
+import { requireChildSession, ChildRequest } from '../middleware/childSession';
+import { childAuth, PIN_PATTERN } from '../services/ChildAuth';
+import {
+  adaptiveDifficulty, AnswerEvidence, GameType, GAME_TYPES, SKILL_PATTERN, MIN_DIFFICULTY, MAX_DIFFICULTY,
+} from '../services/AdaptiveDifficulty';
+import {
+  spellingReview, SpellingPuzzle, PUZZLE_PATTERN, LETTER_PATTERN, MAX_PUZZLE_LENGTH,
+} from '../services/SpellingReview';
+
+const MAX_NAME_LENGTH = 50;
+const MIN_AGE = 3;
+const MAX_AGE = 17;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const PIN_ERROR = 'pin must be 4 to 8 digits.';
+
+const MAX_RESPONSE_MS = 10 * 60 * 1000;
+
+const MAX_OPTIONS = 6;
+const MAX_IMAGE_URL_LENGTH = 500;
+
+const isScore = (value: unknown) => value === undefined || (typeof value === 'number' && value >= 0 && value <= 100);
+
+// PIN guesses are also capped per child (see ChildAuth.login); this caps a
+// device cycling through children.
+const loginLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 20,
+  message: { success: false, error: 'Too many login attempts. Please wait a few minutes.' },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// Parent password checks before a child session ends ("Switch player", "Grown-ups").
+const parentVerifyLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 10,
+  message: { success: false, error: 'Too many password attempts. Please wait a few minutes.' },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+export const setupKidsRoutes = () => {
+  const router = Router();
+
+  /**
+   * GET /api/kids/children
+   * The parent's children for the avatar picker, with lockout state.
+   */
+  router.get('/children', requireUser, async (req: Request, res: Response) => {
+    const { userId } = req as AuthedRequest;
+
+    try {
+      const children = await childAuth.listChildren(userId);
+      res.status(200).json({ success: true, children });
+    } catch (err) {
+      console.error('[Kids API] Child list failed:', (err as Error).message);
+      res.status(500).json({ success: false, error: 'Failed to load child accounts.' });
+    }
+  });
+
+  /**
+   * POST /api/kids/children
+   * Body: { name, age, pin } — creates a child account; the PIN is stored bcrypt-hashed.
+   */
+  router.post('/children', requireUser, async (req: Request, res: Response) => {
+    const { userId } = req as AuthedRequest;
+    const name = typeof req.body?.name === 'string' ? req.body.name.trim() : '';
+    const age = Number(req.body?.age);
+    const pin = String(req.body?.pin ?? '');
+
+    if (!name || name.length > MAX_NAME_LENGTH) {
+      return res.status(400).json({ success: false, error: `name is required (max ${MAX_NAME_LENGTH} characters).` });
+    }
+    if (!Number.isInteger(age) || age < MIN_AGE || age > MAX_AGE) {
+      return res.status(400).json({ success: false, error: `age must be a whole number between ${MIN_AGE} and ${MAX_AGE}.` });
+    }
+    if (!PIN_PATTERN.test(pin)) return res.status(400).json({ success: false, error: PIN_ERROR });
+
+    try {
+      const child = await childAuth.createChild(userId, { name, age, pin });
+      res.status(201).json({ success: true, child });
+    } catch (err) {
+      console.error('[Kids API] Child create failed:', (err as Error).message);
+      res.status(500).json({ success: false, error: 'Failed to create child account.' });
+    }
+  });
+
+  /**
+   * PUT /api/kids/children/:id/pin
+   * Body: { pin } — replaces the child's PIN and lifts any lockout.
+   */
+  router.put('/children/:id/pin', requireUser, async (req: Request, res: Response) => {
+    const { userId } = req as AuthedRequest;
+    const id = String(req.params.id);
+    const pin = String(req.body?.pin ?? '');
+
+    if (!UUID_PATTERN.test(id)) return res.status(400).json({ success: false, error: 'id must be a UUID.' });
+    if (!PIN_PATTERN.test(pin)) return res.status(400).json({ success: false, error: PIN_ERROR });
+
+    try {
+      const updated = await childAuth.setPin(userId, id, pin);
+      if (!updated) return res.status(404).json({ success: false, error: 'Child not found.' });
+      res.status(200).json({ success: true });
+    } catch (err) {
+      console.error('[Kids API] PIN update failed:', (err as Error).message);
+      res.status(500).json({ success: false, error: 'Failed to update PIN.' });
+    }
+  });
+
+  /**
+   * POST /api/kids/login
+   * Body: { childId, pin } — signed in as the parent (the child is on the
+   * parent's device). Returns a child session token for the games.
+   */
+  router.post('/login', loginLimiter, requireUser, async (req: Request, res: Response) => {
+    const { userId } = req as AuthedRequest;
+    const childId = String(req.body?.childId ?? '');
+    const pin = String(req.body?.pin ?? '');
+
+    if (!childAuth.isConfigured()) {
+      return res.status(503).json({ success: false, error: 'Child login is not configured.' });
+    }
+    if (!UUID_PATTERN.test(childId)) return res.status(400).json({ success: false, error: 'childId must be a UUID.' });
+    if (!PIN_PATTERN.test(pin)) return res.status(400).json({ success: false, error: PIN_ERROR });
+
+    try {
+      const result = await childAuth.login(userId, childId, pin);
+      switch (result.status) {
+        case 'ok':
+          return res.status(200).json({ success: true, token: result.token, expiresAt: result.expiresAt, child: result.child });
+        case 'invalid_pin':
+          return res.status(401).json({ success: false, error: 'Wrong PIN.', attemptsRemaining: result.attemptsRemaining });
+        case 'locked':
+          return res.status(423).json({ success: false, error: 'Too many wrong PINs.', lockedUntil: result.lockedUntil });
+        case 'no_pin':
+          return res.status(409).json({ success: false, error: 'Ask a grown-up to set a PIN first.' });
+        case 'not_found':
+          return res.status(404).json({ success: false, error: 'Child not found.' });
+      }
+    } catch (err) {
+      console.error('[Kids API] Login failed:', (err as Error).message);
+      res.status(500).json({ success: false, error: 'Login is unavailable right now.' });
+    }
+  });
+
+  /**
+   * POST /api/kids/parent/verify
+   * Body: { password } — the signed-in parent's account password. The app
+   * asks for it before ending a child session or leaving the games.
+   */
+  router.post('/parent/verify', parentVerifyLimiter, requireUser, async (req: Request, res: Response) => {
+    const { userId } = req as AuthedRequest;
+    const password = req.body?.password;
+
+    if (typeof password !== 'string' || !password) {
+      return res.status(400).json({ success: false, error: 'password is required.' });
+    }
+
+    try {
+      const verified = await childAuth.verifyParentPassword(userId, password);
+      if (!verified) return res.status(401).json({ success: false, error: 'Wrong password.' });
+      res.status(200).json({ success: true });
+    } catch (err) {
+      console.error('[Kids API] Parent verification failed:', (err as Error).message);
+      res.status(500).json({ success: false, error: 'Could not check the password right now.' });
+    }
+  });
+
+  /**
+   * POST /api/kids/sessions
+   * Body: { sessionKey, gameName } — child session token required. Creates
+   * the play-through's game_sessions row for the logged-in child.
+   */
+  router.post('/sessions', requireChildSession, async (req: Request, res: Response) => {
+    const { child } = req as ChildRequest;
+    const sessionKey = typeof req.body?.sessionKey === 'string' ? req.body.sessionKey : '';
+    const gameName = typeof req.body?.gameName === 'string' ? req.body.gameName.trim() : '';
+
+    if (!sessionKey || sessionKey.length > 100) {
+      return res.status(400).json({ success: false, error: 'sessionKey is required.' });
+    }
+    if (!gameName || gameName.length > 100) {
+      return res.status(400).json({ success: false, error: 'gameName is required.' });
+    }
+
+    try {
+      const session = await childAuth.openGameSession(child, { sessionKey, gameName });
+      if (!session) return res.status(403).json({ success: false, error: 'This session belongs to another player.' });
+      res.status(201).json({ success: true, session });
+    } catch (err) {
+      console.error('[Kids API] Session create failed:', (err as Error).message);
+      res.status(500).json({ success: false, error: 'Failed to start game session.' });
+    }
+  });
+
+  /**
+   * GET /api/kids/mastery/:gameType
+   * Child session token required. The logged-in child's skill ratings and
+   * the difficulty/skills to generate their next items at.
+   */
+  router.get('/mastery/:gameType', requireChildSession, async (req: Request, res: Response) => {
+    const { child } = req as ChildRequest;
+    const gameType = String(req.params.gameType) as GameType;
+
+    if (!GAME_TYPES.includes(gameType)) {
+      return res.status(400).json({ success: false, error: `gameType must be one of: ${GAME_TYPES.join(', ')}` });
+    }
+
+    try {
+      const plan = await adaptiveDifficulty.getPlan(child.sub, gameType);
+      res.status(200).json({ success: true, plan });
+    } catch (err) {
+      console.error('[Kids API] Mastery load failed:', (err as Error).message);
+      res.status(500).json({ success: false, error: 'Failed to load skill progress.' });
+    }
+  });
+
+  /**
+   * POST /api/kids/mastery/:gameType/answers
+   * Body: { skill, difficulty, correct, responseMs, frustration?, confusion? }
+   * Child session token required. Updates the child's ratings and returns
+   * the plan for the next item.
+   */
+  router.post('/mastery/:gameType/answers', requireChildSession, async (req: Request, res: Response) => {
+    const { child } = req as ChildRequest;
+    const gameType = String(req.params.gameType) as GameType;
+    const { skill, difficulty, correct, responseMs, frustration, confusion } = req.body ?? {};
+
+    if (!GAME_TYPES.includes(gameType)) {
+      return res.status(400).json({ success: false, error: `gameType must be one of: ${GAME_TYPES.join(', ')}` });
+    }
+    if (typeof skill !== 'string' || !SKILL_PATTERN.test(skill)) {
+      return res.status(400).json({ success: false, error: 'skill must look like "topic:animals" or "letter:t".' });
+    }
+    if (!Number.isInteger(difficulty) || difficulty < MIN_DIFFICULTY || difficulty > MAX_DIFFICULTY) {
+      return res.status(400).json({ success: false, error: `difficulty must be an integer between ${MIN_DIFFICULTY} and ${MAX_DIFFICULTY}.` });
+    }
+    if (typeof correct !== 'boolean') return res.status(400).json({ success: false, error: 'correct must be a boolean.' });
+    if (typeof responseMs !== 'number' || responseMs < 0 || responseMs > MAX_RESPONSE_MS) {
+      return res.status(400).json({ success: false, error: 'responseMs must be a non-negative number of milliseconds.' });
+    }
+    if (!isScore(frustration) || !isScore(confusion)) {
+      return res.status(400).json({ success: false, error: 'frustration and confusion must be between 0 and 100.' });
+    }
+
+    const answer: AnswerEvidence = { skill, difficulty, correct, responseMs, frustration, confusion };
+
+    try {
+      const plan = await adaptiveDifficulty.recordAnswer(child.sub, gameType, answer);
+      res.status(200).json({ success: true, plan });
+    } catch (err) {
+      console.error('[Kids API] Answer record failed:', (err as Error).message);
+      res.status(500).json({ success: false, error: 'Failed to record answer.' });
+    }
+  });
+
+  /**
+   * GET /api/kids/reviews/due
+   * Child session token required. Spelling puzzles due for review, most
+   * overdue first, to mix into the session's fresh content.
+   */
+  router.get('/reviews/due', requireChildSession, async (req: Request, res: Response) => {
+    const { child } = req as ChildRequest;
+
+    try {
+      const items = await spellingReview.getDue(child.sub);
+      res.status(200).json({ success: true, items });
+    } catch (err) {
+      console.error('[Kids API] Review queue load failed:', (err as Error).message);
+      res.status(500).json({ success: false, error: 'Failed to load words to practise.' });
+    }
+  });
+
+  /**
+   * POST /api/kids/reviews
+   * Body: { word, correctLetter, options, image?, difficulty?, correct }
+   * Child session token required. Schedules the first drop on a spelling
+   * puzzle: a miss queues the word, and any attempt at a queued word moves
+   * its next review. `item` is null for a correct word that isn't queued.
+   */
+  router.post('/reviews', requireChildSession, async (req: Request, res: Response) => {
+    const { child } = req as ChildRequest;
+    const { word, correctLetter, options, image, difficulty, correct } = req.body ?? {};
+
+    if (typeof word !== 'string' || word.length > MAX_PUZZLE_LENGTH || !PUZZLE_PATTERN.test(word)) {
+      return res.status(400).json({ success: false, error: 'word must be letters with one "_" for the missing letter.' });
+    }
+    if (typeof correctLetter !== 'string' || !LETTER_PATTERN.test(correctLetter)) {
+      return res.status(400).json({ success: false, error: 'correctLetter must be a single letter.' });
+    }
+    if (
+      !Array.isArray(options) || options.length > MAX_OPTIONS ||
+      !options.every((o) => typeof o === 'string' && LETTER_PATTERN.test(o)) ||
+      !options.some((o: string) => o.toLowerCase() === correctLetter.toLowerCase())
+    ) {
+      return res.status(400).json({ success: false, error: `options must be up to ${MAX_OPTIONS} single letters including correctLetter.` });
+    }
+    if (image != null && (typeof image !== 'string' || image.length > MAX_IMAGE_URL_LENGTH)) {
+      return res.status(400).json({ success: false, error: 'image must be a URL.' });
+    }
+    if (difficulty != null && (!Number.isInteger(difficulty) || difficulty < MIN_DIFFICULTY || difficulty > MAX_DIFFICULTY)) {
+      return res.status(400).json({ success: false, error: `difficulty must be an integer between ${MIN_DIFFICULTY} and ${MAX_DIFFICULTY}.` });
+    }
+    if (typeof correct !== 'boolean') return res.status(400).json({ success: false, error: 'correct must be a boolean.' });
+
+    const puzzle: SpellingPuzzle = {
+      puzzle: word,
+      correctLetter,
+      options,
+      image: image || null,
+      difficulty: difficulty ?? null,
+    };
+
+    try {
+      const item = await spellingReview.recordAttempt(child.sub, puzzle, correct);
+      res.status(200).json({ success: true, item });
+    } catch (err) {
+      console.error('[Kids API] Review record failed:', (err as Error).message);
+      res.status(500).json({ success: false, error: 'Failed to record spelling review.' });
+    }
+  });
+
+  return router;
+};
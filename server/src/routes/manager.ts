@@ -0,0 +1,95 @@
+import { Router, Request, Response } from 'express';
+import { requireUser, requireRole } from '../middleware/auth';
+import { managerAnalytics } from '../services/ManagerAnalytics';
+import { usageMeter } from '../services/UsageMeter';
+
+/** Allowed look-back windows, so cache keys (and noisy releases) stay bounded. */
+const WINDOW_DAYS = [7, 14, 28, 90];
+
+const parseWindow = (req: Request, fallback: number): number | null => {
+  if (req.query.days === undefined) return fallback;
+  const days = Number(req.query.days);
+  return WINDOW_DAYS.includes(days) ? days : null;
+};
+
+export const setupManagerRoutes = () => {
+  const router = Router();
+
+  // Team aggregates are for admins only; individual users never reach these.
+  router.use(requireUser, requireRole('SuperAdmin'));
+
+  /**
+   * GET /api/manager/burnout-trend?days=14
+   * Daily team burnout risk. Days with fewer than k contributors are null.
+   */
+  router.get('/burnout-trend', async (req: Request, res: Response) => {
+    const days = parseWindow(req, 14);
+    if (days === null) {
+      return res.status(400).json({ success: false, error: `days must be one of: ${WINDOW_DAYS.join(', ')}` });
+    }
+
+    try {
+      res.status(200).json({ success: true, ...(await managerAnalytics.getBurnoutTrend(days)) });
+    } catch (err) {
+      console.error('[Manager API] Burnout trend failed:', err);
+      res.status(500).json({ success: false, error: 'Failed to load burnout trend.' });
+    }
+  });
+
+  /**
+   * GET /api/manager/accommodations?days=28
+   * Usage share per accommodation and masking hours saved, k-suppressed.
+   */
+  router.get('/accommodations', async (req: Request, res: Response) => {
+    const days = parseWindow(req, 28);
+    if (days === null) {
+      return res.status(400).json({ success: false, error: `days must be one of: ${WINDOW_DAYS.join(', ')}` });
+    }
+
+    try {
+      res.status(200).json({ success: true, ...(await managerAnalytics.getAccommodationUsage(days)) });
+    } catch (err) {
+      console.error('[Manager API] Accommodation usage failed:', err);
+      res.status(500).json({ success: false, error: 'Failed to load accommodation usage.' });
+    }
+  });
+
+  /**
+   * GET /api/manager/roi?days=28
+   * Retention ROI derived from the released burnout trend.
+   */
+  router.get('/roi', async (req: Request, res: Response) => {
+    const days = parseWindow(req, 28);
+    if (days === null) {
+      return res.status(400).json({ success: false, error: `days must be one of: ${WINDOW_DAYS.join(', ')}` });
+    }
+
+    try {
+      res.status(200).json({ success: true, ...(await managerAnalytics.getRoi(days)) });
+    } catch (err) {
+      console.error('[Manager API] ROI failed:', err);
+      res.status(500).json({ success: false, error: 'Failed to load ROI figures.' });
+    }
+  });
+
+  /**
+   * GET /api/manager/llm-usage?days=7
+   * Tokens, latency and error rate per agent, plus consumption against each
+   * role's daily quota. Operational data only — no per-user breakdown.
+   */
+  router.get('/llm-usage', async (req: Request, res: Response) => {
+    const days = parseWindow(req, 7);
+    if (days === null) {
+      return res.status(400).json({ success: false, error: `days must be one of: ${WINDOW_DAYS.join(', ')}` });
+    }
+
+    try {
+      res.status(200).json({ success: true, ...(await usageMeter.getReport(days)) });
+    } catch (err) {
+      console.error('[Manager API] LLM usage failed:', err);
+      res.status(500).json({ success: false, error: 'Failed to load AI usage.' });
+    }
+  });
+
+  return router;
+};
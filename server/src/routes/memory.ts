@@ -0,0 +1,375 @@
+import { Router, Request, Response } from 'express';
+import { requireUser, AuthedRequest } from '../middleware/auth';
+import { vectorStore, MemoryEntry } from '../services/VectorStore';
+import { commitmentTracker } from '../services/CommitmentTracker';
+import { memoryRetrieval, MemoryFilters, MemorySource, MEMORY_SOURCES } from '../services/MemoryRetrieval';
+import {
+  memoryPrivacy,
+  RetentionSource,
+  RetentionUpdate,
+  RETENTION_SOURCES,
+  MAX_RETENTION_DAYS,
+  ERASE_WINDOW_MINUTES,
+} from '../services/MemoryPrivacy';
+import { redactPii } from '../utils/redactPii';
+
+const MAX_CONTENT_LENGTH = 20_000;
+const MAX_BATCH_SIZE = 50;
+const MAX_TOP_K = 20;
+const MAX_PARTICIPANT_FILTERS = 20;
+const MAX_HALF_LIFE_DAYS = 365;
+
+type SearchMode = 'hybrid' | 'semantic' | 'action_items';
+const SEARCH_MODES: SearchMode[] = ['hybrid', 'semantic', 'action_items'];
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Redacts PII in the text fields of a memory. Top-level string (and string
+ * array) metadata values are scrubbed too, since titles and participant
+ * lists can carry email addresses. Counts land in `metadata.redactions`.
+ */
+const redactEntry = (entry: MemoryEntry): MemoryEntry => {
+  const counts: Record<string, number> = {};
+  const redact = (text: string) => {
+    const result = redactPii(text);
+    for (const [rule, n] of Object.entries(result.counts)) counts[rule] = (counts[rule] ?? 0) + n;
+    return result.text;
+  };
+
+  const metadata = Object.fromEntries(Object.entries(entry.metadata ?? {}).map(([key, value]) => [
+    key,
+    typeof value === 'string' ? redact(value)
+      : Array.isArray(value) ? value.map((v) => (typeof v === 'string' ? redact(v) : v))
+      : value,
+  ]));
+
+  const redacted: MemoryEntry = {
+    ...entry,
+    content: redact(entry.content),
+    summary: entry.summary === undefined ? undefined : redact(entry.summary),
+    metadata,
+  };
+  if (Object.keys(counts).length > 0) redacted.metadata = { ...metadata, redactions: counts };
+  return redacted;
+};
+
+/**
+ * Builds an entry for the caller from an untrusted body. IDs and embeddings
+ * are never accepted from clients: the server embeds, and owns the row.
+ * Everything downstream (storage, embedding, commitment extraction) sees
+ * the redacted text only.
+ */
+const toEntry = (userId: string, body: unknown): MemoryEntry | string => {
+  const { content, summary, metadata, occurredAt } = (body ?? {}) as Record<string, unknown>;
+
+  if (typeof content !== 'string' || !content.trim()) return 'content is required.';
+  if (content.length > MAX_CONTENT_LENGTH) return `content must be at most ${MAX_CONTENT_LENGTH} characters.`;
+  if (summary !== undefined && typeof summary !== 'string') return 'summary must be a string.';
+  if (metadata !== undefined && (typeof metadata !== 'object' || metadata === null || Array.isArray(metadata))) {
+    return 'metadata must be an object.';
+  }
+  if (occurredAt !== undefined && (typeof occurredAt !== 'string' || Number.isNaN(Date.parse(occurredAt)))) {
+    return 'occurredAt must be an ISO date string.';
+  }
+
+  return redactEntry({
+    user_id: userId,
+    content: content.trim(),
+    summary: summary as string | undefined,
+    metadata: metadata as Record<string, unknown> | undefined,
+    occurred_at: occurredAt === undefined ? undefined : new Date(occurredAt as string).toISOString(),
+  });
+};
+
+/** Validates the optional hybrid-search filters from an untrusted body. */
+const toFilters = (raw: unknown): MemoryFilters | string => {
+  if (raw === undefined) return {};
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) return 'filters must be an object.';
+
+  const { sources, participants, from, to } = raw as Record<string, unknown>;
+  const filters: MemoryFilters = {};
+
+  if (sources !== undefined) {
+    if (!Array.isArray(sources) || !sources.every((s) => MEMORY_SOURCES.includes(s as MemorySource))) {
+      return `filters.sources must be an array of: ${MEMORY_SOURCES.join(', ')}`;
+    }
+    filters.sources = sources as MemorySource[];
+  }
+  if (participants !== undefined) {
+    if (!Array.isArray(participants) || participants.length > MAX_PARTICIPANT_FILTERS
+      || !participants.every((p) => typeof p === 'string' && p.trim())) {
+      return `filters.participants must be an array of up to ${MAX_PARTICIPANT_FILTERS} names.`;
+    }
+    filters.participants = participants.map((p: string) => p.trim());
+  }
+  for (const [key, value] of [['from', from], ['to', to]] as const) {
+    if (value === undefined) continue;
+    if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) return `filters.${key} must be an ISO date string.`;
+    filters[key] = new Date(value).toISOString();
+  }
+  if (filters.from && filters.to && filters.from >= filters.to) return 'filters.from must be before filters.to.';
+
+  return filters;
+};
+
+/** Validates a retention settings update from an untrusted body. */
+const toRetentionUpdates = (raw: unknown): RetentionUpdate[] | string => {
+  if (!Array.isArray(raw) || raw.length > RETENTION_SOURCES.length) {
+    return `policies must be an array of up to ${RETENTION_SOURCES.length} items.`;
+  }
+
+  const updates: RetentionUpdate[] = [];
+  for (const [index, item] of raw.entries()) {
+    const { source, retentionDays } = (item ?? {}) as Record<string, unknown>;
+    if (!RETENTION_SOURCES.includes(source as RetentionSource)) {
+      return `policies[${index}].source must be one of: ${RETENTION_SOURCES.join(', ')}`;
+    }
+    if (retentionDays !== null
+      && !(Number.isInteger(retentionDays) && (retentionDays as number) >= 1 && (retentionDays as number) <= MAX_RETENTION_DAYS)) {
+      return `policies[${index}].retentionDays must be null (keep forever) or 1-${MAX_RETENTION_DAYS} days.`;
+    }
+    if (updates.some((u) => u.source === source)) return `policies[${index}]: duplicate source "${source}".`;
+    updates.push({ source: source as RetentionSource, retentionDays: retentionDays as number | null });
+  }
+  return updates;
+};
+
+export const setupMemoryRoutes = () => {
+  const router = Router();
+
+  // Prosthetic memory is strictly per-user: every route is scoped to the caller.
+  router.use(requireUser);
+
+  /**
+   * POST /api/memory
+   * Body: { content: string, summary?: string, metadata?: object, occurredAt?: ISO string }
+   * Embeds server-side and stores one memory. Returns its ID. Commitments
+   * in it are extracted in the background (see /api/commitments).
+   */
+  router.post('/', async (req: Request, res: Response) => {
+    const { userId } = req as AuthedRequest;
+    const entry = toEntry(userId, req.body);
+    if (typeof entry === 'string') return res.status(400).json({ success: false, error: entry });
+
+    try {
+      const id = await vectorStore.upsertMemory(entry);
+      commitmentTracker.trackInBackground(userId, [{ id, content: entry.content, occurredAt: entry.occurred_at }]);
+      res.status(201).json({ success: true, id });
+    } catch (err) {
+      console.error('[Memory API] Ingest failed:', (err as Error).message);
+      res.status(500).json({ success: false, error: 'Failed to store memory.' });
+    }
+  });
+
+  /**
+   * POST /api/memory/batch
+   * Body: { entries: { content, summary?, metadata?, occurredAt? }[] } — up to 50, embedded in one call.
+   */
+  router.post('/batch', async (req: Request, res: Response) => {
+    const { userId } = req as AuthedRequest;
+    const raw = req.body?.entries;
+
+    if (!Array.isArray(raw) || raw.length === 0 || raw.length > MAX_BATCH_SIZE) {
+      return res.status(400).json({ success: false, error: `entries must be an array of 1-${MAX_BATCH_SIZE} items.` });
+    }
+
+    const entries: MemoryEntry[] = [];
+    for (const [index, body] of raw.entries()) {
+      const entry = toEntry(userId, body);
+      if (typeof entry === 'string') {
+        return res.status(400).json({ success: false, error: `entries[${index}]: ${entry}` });
+      }
+      entries.push(entry);
+    }
+
+    try {
+      const ids = await vectorStore.upsertMemories(entries);
+      commitmentTracker.trackInBackground(userId, entries.map((e, i) => ({ id: ids[i], content: e.content, occurredAt: e.occurred_at })));
+      res.status(201).json({ success: true, ids });
+    } catch (err) {
+      console.error('[Memory API] Batch ingest failed:', (err as Error).message);
+      res.status(500).json({ success: false, error: 'Failed to store memories.' });
+    }
+  });
+
+  /**
+   * POST /api/memory/search
+   * Body: {
+   *   query: string,
+   *   mode?: 'hybrid' | 'semantic' | 'action_items',   default 'hybrid'
+   *   filters?: { sources?, participants?, from?, to? }, hybrid only
+   *   threshold?: number, topK?: number, recencyHalfLifeDays?: number
+   * }
+   * Returns the caller's closest memories, best first. Hybrid results carry
+   * an `explanation` of why each one matched, plus the filters applied.
+   */
+  router.post('/search', async (req: Request, res: Response) => {
+    const { userId } = req as AuthedRequest;
+    const query = typeof req.body?.query === 'string' ? req.body.query.trim() : '';
+    const mode: SearchMode = req.body?.mode ?? 'hybrid';
+    const threshold = req.body?.threshold === undefined ? undefined : Number(req.body.threshold);
+    const topK = req.body?.topK === undefined ? 5 : Number(req.body.topK);
+    const halfLife = req.body?.recencyHalfLifeDays === undefined ? undefined : Number(req.body.recencyHalfLifeDays);
+    const filters = toFilters(req.body?.filters);
+
+    if (!query) return res.status(400).json({ success: false, error: 'query is required.' });
+    if (!SEARCH_MODES.includes(mode)) {
+      return res.status(400).json({ success: false, error: `mode must be one of: ${SEARCH_MODES.join(', ')}` });
+    }
+    if (threshold !== undefined && !(threshold >= 0 && threshold <= 1)) {
+      return res.status(400).json({ success: false, error: 'threshold must be between 0 and 1.' });
+    }
+    if (!Number.isInteger(topK) || topK < 1 || topK > MAX_TOP_K) {
+      return res.status(400).json({ success: false, error: `topK must be an integer between 1 and ${MAX_TOP_K}.` });
+    }
+    if (halfLife !== undefined && !(halfLife >= 0 && halfLife <= MAX_HALF_LIFE_DAYS)) {
+      return res.status(400).json({ success: false, error: `recencyHalfLifeDays must be between 0 and ${MAX_HALF_LIFE_DAYS}.` });
+    }
+    if (typeof filters === 'string') return res.status(400).json({ success: false, error: filters });
+
+    try {
+      if (mode === 'hybrid') {
+        const { results, filters: applied } = await memoryRetrieval.search(userId, query, {
+          filters,
+          topK,
+          vectorThreshold: threshold,
+          recencyHalfLifeDays: halfLife,
+        });
+        return res.status(200).json({ success: true, mode, results, filters: applied });
+      }
+
+      const results = mode === 'action_items'
+        ? await vectorStore.searchActionItems(query, userId, threshold, topK)
+        : await vectorStore.search(query, userId, threshold, topK);
+      res.status(200).json({ success: true, mode, results });
+    } catch (err) {
+      console.error('[Memory API] Search failed:', (err as Error).message);
+      res.status(500).json({ success: false, error: 'Failed to search memory.' });
+    }
+  });
+
+  /**
+   * GET /api/memory/retention
+   * How long each source's memories are kept, with the defaults for reference.
+   */
+  router.get('/retention', async (req: Request, res: Response) => {
+    const { userId } = req as AuthedRequest;
+
+    try {
+      const policies = await memoryPrivacy.getRetentionPolicies(userId);
+      res.status(200).json({ success: true, policies });
+    } catch (err) {
+      console.error('[Memory API] Loading retention failed:', (err as Error).message);
+      res.status(500).json({ success: false, error: 'Failed to load retention settings.' });
+    }
+  });
+
+  /**
+   * PUT /api/memory/retention
+   * Body: { policies: { source, retentionDays: number | null }[] }, null keeps forever.
+   * The daily purge applies the new windows; nothing is deleted immediately.
+   */
+  router.put('/retention', async (req: Request, res: Response) => {
+    const { userId } = req as AuthedRequest;
+    const updates = toRetentionUpdates(req.body?.policies);
+    if (typeof updates === 'string') return res.status(400).json({ success: false, error: updates });
+
+    try {
+      const policies = await memoryPrivacy.saveRetentionPolicies(userId, updates);
+      res.status(200).json({ success: true, policies });
+    } catch (err) {
+      console.error('[Memory API] Saving retention failed:', (err as Error).message);
+      res.status(500).json({ success: false, error: 'Failed to save retention settings.' });
+    }
+  });
+
+  /**
+   * GET /api/memory/export
+   * The caller's full memory archive as a JSON download. Its `exportId`
+   * unlocks POST /api/memory/erase for the next few minutes.
+   */
+  router.get('/export', async (req: Request, res: Response) => {
+    const { userId } = req as AuthedRequest;
+
+    try {
+      const archive = await memoryPrivacy.exportArchive(userId);
+      res.setHeader('Content-Disposition', `attachment; filename="memory-archive-${archive.exportedAt.slice(0, 10)}.json"`);
+      res.status(200).json({ success: true, archive });
+    } catch (err) {
+      console.error('[Memory API] Export failed:', (err as Error).message);
+      res.status(500).json({ success: false, error: 'Failed to export memories.' });
+    }
+  });
+
+  /**
+   * POST /api/memory/erase
+   * Body: { exportId: string }, from a GET /api/memory/export in the last 15 minutes.
+   * Right to be forgotten: deletes every memory and commitment the caller has.
+   */
+  router.post('/erase', async (req: Request, res: Response) => {
+    const { userId } = req as AuthedRequest;
+    const exportId = req.body?.exportId;
+
+    if (typeof exportId !== 'string' || !UUID_PATTERN.test(exportId)) {
+      return res.status(400).json({ success: false, error: 'exportId must be the UUID returned by /api/memory/export.' });
+    }
+
+    try {
+      const result = await memoryPrivacy.erase(userId, exportId);
+      if (!result) {
+        return res.status(409).json({
+          success: false,
+          error: `Download your archive first: erasing needs an export from the last ${ERASE_WINDOW_MINUTES} minutes.`,
+        });
+      }
+      res.status(200).json({ success: true, ...result });
+    } catch (err) {
+      console.error('[Memory API] Erase failed:', (err as Error).message);
+      res.status(500).json({ success: false, error: 'Failed to erase memories.' });
+    }
+  });
+
+  /**
+   * DELETE /api/memory/:id
+   * Deletes one of the caller's memories. 404 if it doesn't exist or isn't theirs.
+   */
+  router.delete('/:id', async (req: Request, res: Response) => {
+    const { userId } = req as AuthedRequest;
+    const id = String(req.params.id);
+
+    if (!UUID_PATTERN.test(id)) return res.status(400).json({ success: false, error: 'id must be a UUID.' });
+
+    try {
+      const deleted = await vectorStore.deleteMemory(id, userId);
+      if (!deleted) return res.status(404).json({ success: false, error: 'Memory not found.' });
+      res.status(200).json({ success: true });
+    } catch (err) {
+      console.error('[Memory API] Delete failed:', (err as Error).message);
+      res.status(500).json({ success: false, error: 'Failed to delete memory.' });
+    }
+  });
+
+  /**
+   * DELETE /api/memory?confirm=all
+   * Deletes every memory the caller has. The explicit confirm guards
+   * against a stray DELETE on the collection.
+   */
+  router.delete('/', async (req: Request, res: Response) => {
+    const { userId } = req as AuthedRequest;
+
+    if (req.query.confirm !== 'all') {
+      return res.status(400).json({ success: false, error: 'Pass ?confirm=all to delete every memory.' });
+    }
+
+    try {
+      await vectorStore.deleteAllUserMemories(userId);
+      res.status(200).json({ success: true });
+    } catch (err) {
+      console.error('[Memory API] Bulk delete failed:', (err as Error).message);
+      res.status(500).json({ success: false, error: 'Failed to delete memories.' });
+    }
+  });
+
+  return router;
+};
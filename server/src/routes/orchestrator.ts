@@ -0,0 +1,107 @@
+import { Router, Request, Response } from 'express';
+import { requireUser, AuthedRequest } from '../middleware/auth';
+import { orchestrator } from '../services/AgentOrchestrator';
+import { policyEngine, policyRulesSchema, DEFAULT_POLICIES } from '../services/PolicyEngine';
+
+const MAX_AUDIT_ROWS = 500;
+
+export const setupOrchestratorRoutes = () => {
+  const router = Router();
+
+  // Every endpoint acts on the caller's own rules and state.
+  router.use(requireUser);
+
+  /**
+   * GET /api/orchestrator/policies
+   * The caller's ambient trigger rules (defaults if none saved) and the defaults themselves.
+   */
+  router.get('/policies', async (req: Request, res: Response) => {
+    const { userId } = req as AuthedRequest;
+
+    try {
+      const rules = await policyEngine.getPolicies(userId);
+      res.status(200).json({ success: true, rules, defaults: DEFAULT_POLICIES });
+    } catch (err) {
+      console.error('[Orchestrator API] Policy load failed:', err);
+      res.status(500).json({ success: false, error: 'Failed to load policies.' });
+    }
+  });
+
+  /**
+   * PUT /api/orchestrator/policies
+   * Replaces the caller's rules. Body: { rules: PolicyRule[] }.
+   */
+  router.put('/policies', async (req: Request, res: Response) => {
+    const { userId } = req as AuthedRequest;
+
+    const parsed = policyRulesSchema.safeParse(req.body?.rules);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      return res.status(400).json({ success: false, error: `Invalid rules at ${issue.path.join('.') || 'rules'}: ${issue.message}` });
+    }
+
+    try {
+      await policyEngine.savePolicies(userId, parsed.data);
+      res.status(200).json({ success: true, rules: parsed.data });
+    } catch (err) {
+      console.error('[Orchestrator API] Policy save failed:', err);
+      res.status(500).json({ success: false, error: 'Failed to save policies.' });
+    }
+  });
+
+  /**
+   * DELETE /api/orchestrator/policies
+   * Discards the caller's rules; the defaults apply again.
+   */
+  router.delete('/policies', async (req: Request, res: Response) => {
+    const { userId } = req as AuthedRequest;
+
+    try {
+      await policyEngine.resetPolicies(userId);
+      res.status(200).json({ success: true, rules: DEFAULT_POLICIES });
+    } catch (err) {
+      console.error('[Orchestrator API] Policy reset failed:', err);
+      res.status(500).json({ success: false, error: 'Failed to reset policies.' });
+    }
+  });
+
+  /**
+   * GET /api/orchestrator/state
+   * The caller's current cognitive state and per-rule runtime.
+   */
+  router.get('/state', async (req: Request, res: Response) => {
+    const { userId } = req as AuthedRequest;
+
+    try {
+      res.status(200).json({ success: true, state: await orchestrator.getState(userId) });
+    } catch (err) {
+      console.error('[Orchestrator API] State load failed:', err);
+      res.status(500).json({ success: false, error: 'Failed to load orchestrator state.' });
+    }
+  });
+
+  /**
+   * GET /api/orchestrator/audit?limit=100
+   * Recent rule evaluations, newest first. Identical consecutive outcomes
+   * are one row with an `evaluations` count.
+   */
+  router.get('/audit', async (req: Request, res: Response) => {
+    const { userId } = req as AuthedRequest;
+    const limit = req.query.limit === undefined ? 100 : Number(req.query.limit);
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_AUDIT_ROWS) {
+      return res.status(400).json({ success: false, error: `limit must be an integer between 1 and ${MAX_AUDIT_ROWS}.` });
+    }
+
+    try {
+      // Include rows still waiting in the write buffer
+      await policyEngine.flushAudit();
+      res.status(200).json({ success: true, entries: await policyEngine.getAuditLog(userId, limit) });
+    } catch (err) {
+      console.error('[Orchestrator API] Audit query failed:', err);
+      res.status(500).json({ success: false, error: 'Failed to load audit log.' });
+    }
+  });
+
+  return router;
+};
@@ -0,0 +1,59 @@
+import { Router, Request, Response } from 'express';
+import { requireUser, AuthedRequest } from '../middleware/auth';
+import { pullRequestShield } from '../services/PullRequestShield';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const setupRsdRoutes = () => {
+  const router = Router();
+
+  router.use(requireUser);
+
+  /**
+   * GET /api/rsd/pull-requests
+   * The caller's shielded PRs and their sanitized review comments, plus
+   * whether a GitHub account is linked and where GitHub should deliver.
+   */
+  router.get('/pull-requests', async (req: Request, res: Response) => {
+    const { userId } = req as AuthedRequest;
+
+    try {
+      const [{ prs, comments }, isConnected] = await Promise.all([
+        pullRequestShield.list(userId),
+        pullRequestShield.isConnected(userId),
+      ]);
+      res.status(200).json({
+        success: true,
+        prs,
+        comments,
+        isConnected,
+        webhookUrl: `${req.protocol}://${req.get('host')}/webhooks/github`,
+      });
+    } catch (err) {
+      console.error('[RSD API] List failed:', (err as Error).message);
+      res.status(500).json({ success: false, error: 'Failed to load pull requests.' });
+    }
+  });
+
+  /**
+   * POST /api/rsd/comments/:id/read
+   * Marks one sanitized review comment as read.
+   */
+  router.post('/comments/:id/read', async (req: Request, res: Response) => {
+    const { userId } = req as AuthedRequest;
+    const id = String(req.params.id);
+
+    if (!UUID_PATTERN.test(id)) return res.status(400).json({ success: false, error: 'id must be a UUID.' });
+
+    try {
+      const updated = await pullRequestShield.markRead(userId, id);
+      if (!updated) return res.status(404).json({ success: false, error: 'Comment not found.' });
+      res.status(200).json({ success: true });
+    } catch (err) {
+      console.error('[RSD API] Mark read failed:', (err as Error).message);
+      res.status(500).json({ success: false, error: 'Failed to update comment.' });
+    }
+  });
+
+  return router;
+};
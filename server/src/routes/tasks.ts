@@ -0,0 +1,74 @@
+import { Router, Request, Response } from 'express';
+import { requireUser, AuthedRequest } from '../middleware/auth';
+import { orchestrator } from '../services/AgentOrchestrator';
+import { taskDecomposition } from '../services/TaskDecomposition';
+
+const MAX_TASK_LENGTH = 2000;
+const MAX_ESTIMATE_MINUTES = 8 * 60;
+
+export const setupTaskRoutes = () => {
+  const router = Router();
+
+  router.use(requireUser);
+
+  /**
+   * POST /api/tasks
+   * Body: { task: string, estimatedMinutes?: number }
+   * Decomposes a task through the orchestrator: blocked with 423 while the
+   * caller is in overload, otherwise returns the stored, time-padded breakdown.
+   */
+  router.post('/', async (req: Request, res: Response) => {
+    const { userId } = req as AuthedRequest;
+    const task = typeof req.body?.task === 'string' ? req.body.task.trim() : '';
+    const estimatedMinutes = req.body?.estimatedMinutes === undefined ? 30 : Number(req.body.estimatedMinutes);
+
+    if (!task || task.length > MAX_TASK_LENGTH) {
+      return res.status(400).json({ success: false, error: `task is required (max ${MAX_TASK_LENGTH} characters).` });
+    }
+    if (!Number.isInteger(estimatedMinutes) || estimatedMinutes < 1 || estimatedMinutes > MAX_ESTIMATE_MINUTES) {
+      return res.status(400).json({ success: false, error: `estimatedMinutes must be an integer between 1 and ${MAX_ESTIMATE_MINUTES}.` });
+    }
+
+    try {
+      const result = await orchestrator.routeAction(userId, { type: 'INITIATE_TASK', payload: { task, estimatedMinutes } });
+
+      if (result.status === 'intervention') {
+        return res.status(423).json({ success: false, status: result.status, error: result.message });
+      }
+      res.status(200).json({ success: true, breakdown: result.breakdown });
+    } catch (err) {
+      console.error('[Tasks API] Decomposition failed:', err);
+      res.status(500).json({ success: false, error: 'Failed to break down the task.' });
+    }
+  });
+
+  /**
+   * POST /api/tasks/timings
+   * Body: { taskId: string, estimatedMinutes: number, actualSeconds: number }
+   * Records how long a completed step really took; feeds the padding multiplier.
+   */
+  router.post('/timings', async (req: Request, res: Response) => {
+    const { userId } = req as AuthedRequest;
+    const { taskId } = req.body ?? {};
+    const estimatedMinutes = Number(req.body?.estimatedMinutes);
+    const actualSeconds = Number(req.body?.actualSeconds);
+
+    if (typeof taskId !== 'string' || !taskId || !(estimatedMinutes > 0) || !(actualSeconds > 0)) {
+      return res.status(400).json({ success: false, error: 'taskId, estimatedMinutes and actualSeconds are required.' });
+    }
+
+    try {
+      const recorded = await taskDecomposition.recordTiming(userId, {
+        taskId,
+        estimatedSeconds: estimatedMinutes * 60,
+        actualSeconds,
+      });
+      res.status(200).json({ success: true, recorded });
+    } catch (err) {
+      console.error('[Tasks API] Timing insert failed:', err);
+      res.status(500).json({ success: false, error: 'Failed to record task timing.' });
+    }
+  });
+
+  return router;
+};
@@ -0,0 +1,47 @@
+import { Router, Request, Response } from 'express';
+import { requireUser, AuthedRequest } from '../middleware/auth';
+import { telemetryPipeline, RollupGranularity } from '../services/TelemetryPipeline';
+
+const GRANULARITIES: RollupGranularity[] = ['minute', 'hour', 'day'];
+
+/** Default look-back per granularity when `from` is omitted. */
+const DEFAULT_RANGE_MS: Record<RollupGranularity, number> = {
+  minute: 60 * 60 * 1000,            // last hour
+  hour: 7 * 24 * 60 * 60 * 1000,     // last 7 days
+  day: 90 * 24 * 60 * 60 * 1000,     // last 90 days
+};
+
+export const setupTelemetryRoutes = () => {
+  const router = Router();
+
+  /**
+   * GET /api/telemetry/rollups?granularity=hour&from=ISO&to=ISO
+   * Returns the caller's own cognitive rollups (mean/max load, seconds spent in
+   * each classification, context switches) ordered oldest bucket first.
+   */
+  router.get('/rollups', requireUser, async (req: Request, res: Response) => {
+    const { userId } = req as AuthedRequest;
+    const granularity = (req.query.granularity as RollupGranularity) || 'hour';
+
+    if (!GRANULARITIES.includes(granularity)) {
+      return res.status(400).json({ success: false, error: `granularity must be one of: ${GRANULARITIES.join(', ')}` });
+    }
+
+    const to = req.query.to ? new Date(String(req.query.to)) : new Date();
+    const from = req.query.from ? new Date(String(req.query.from)) : new Date(to.getTime() - DEFAULT_RANGE_MS[granularity]);
+
+    if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || from > to) {
+      return res.status(400).json({ success: false, error: 'from/to must be valid ISO timestamps with from <= to.' });
+    }
+
+    try {
+      const rollups = await telemetryPipeline.getRollups(userId, granularity, from, to);
+      res.status(200).json({ success: true, granularity, from: from.toISOString(), to: to.toISOString(), rollups });
+    } catch (err) {
+      console.error('[Telemetry API] Rollup query failed:', err);
+      res.status(500).json({ success: false, error: 'Failed to load telemetry rollups.' });
+    }
+  });
+
+  return router;
+};
@@ -1,87 +1,219 @@
-import { Router, Request, Response } from 'express';
+import express, { Router, Request, Response } from 'express';
 
-import { supabaseAdmin } from '../utils/supabaseAdmin';
+import {
+  captureRawBody,
+  verifyGitHubSignature,
+  verifyGoogleChannel,
+  verifyJiraRequest,
+  verifySlackSignature,
+} from '../middleware/webhookAuth';
+import { integrationEvents, IntegrationEvent, IntegrationProvider } from '../services/IntegrationEvents';
+import { NotificationPriority } from '../services/NotificationBuffer';
+import { pullRequestShield, GitHubPullRequestRef } from '../services/PullRequestShield';
 
-const processIncomingWebhook = async (payload: any) => {
-  // Push the event to Supabase Realtime so the frontend (IntegrationDemoPanel) can instantly react to it
-  const { error } = await supabaseAdmin.from('telemetry_events').insert({
-    user_id: payload.userId,
-    event_type: 'webhook_incoming',
-    event_data: payload,
-    created_at: new Date().toISOString()
-  });
-  
-  if (error) console.error('[Webhook] Failed to log event:', error);
-  return true;
+/**
+ * Records a verified event after the provider has been acknowledged.
+ * Providers retry on slow or failed responses, so the HTTP reply never
+ * waits on the database.
+ */
+const processIncomingWebhook = (
+  provider: IntegrationProvider,
+  deliveryId: string,
+  externalId: string,
+  event: IntegrationEvent,
+) => {
+  integrationEvents
+    .record(provider, deliveryId, externalId, event)
+    .then((result) => {
+      if (result.status === 'replayed') console.warn(`[Webhook] Dropped replayed ${provider} delivery ${deliveryId}`);
+      if (result.status === 'unmapped') console.warn(`[Webhook] No user linked to ${provider} identity; event discarded.`);
+      if (result.status === 'buffered') console.log(`[Webhook] Held ${provider} event for ${result.userId} until flow ends.`);
+    })
+    .catch((err) => console.error('[Webhook] Failed to record event:', (err as Error).message));
+};
+
+/** `/calendar/v3/calendars/{calendarId}/events?...` → calendarId (the account email for primary calendars). */
+const calendarIdFromResourceUri = (uri: string | undefined): string | null => {
+  const match = uri?.match(/\/calendars\/([^/?]+)/);
+  return match ? decodeURIComponent(match[1]) : null;
+};
+
+/** Slack has no priority field; broadcast mentions and urgency words are the best signal. */
+const slackPriority = (text: string): NotificationPriority => {
+  if (/<!(channel|here)>/.test(text)) return 'high';
+  return /\b(urgent|asap|emergency|outage|incident|blocker)\b/i.test(text) ? 'high' : 'medium';
+};
+
+interface GitHubPullRequestPayload {
+  id: number;
+  number: number;
+  title?: string;
+  state?: string;
+  merged?: boolean;
+  merged_at?: string | null;
+  user?: { id: number };
+}
+
+/** GitHub reports merged PRs as `closed` with `merged_at` set. */
+const toPullRequestRef = (pr: GitHubPullRequestPayload, repo: string): GitHubPullRequestRef => ({
+  githubId: pr.id,
+  number: pr.number,
+  title: pr.title ?? `#${pr.number}`,
+  repo,
+  state: pr.merged_at || pr.merged ? 'merged' : pr.state === 'closed' ? 'closed' : 'open',
+  authorGithubId: pr.user?.id ?? 0,
+});
+
+const REVIEW_COMMENT_ACTIONS = ['created', 'edited', 'deleted'];
+const PULL_REQUEST_ACTIONS = ['closed', 'reopened', 'edited'];
+
+const JIRA_PRIORITIES: Record<string, NotificationPriority> = {
+  Highest: 'critical',
+  Blocker: 'critical',
+  High: 'high',
+  Critical: 'high',
+  Medium: 'medium',
+  Low: 'low',
+  Lowest: 'low',
+  Minor: 'low',
+  Trivial: 'low',
 };
 
 export const setupWebhookRoutes = () => {
   const router = Router();
 
+  // Mounted before the global JSON parser: signatures need the raw bytes.
+  router.use(express.json({ verify: captureRawBody }));
+
   // SLACK EVENT SUBSCRIPTIONS
-  router.post('/slack', async (req: Request, res: Response) => {
-    const { type, challenge, event } = req.body;
+  router.post('/slack', verifySlackSignature, (req: Request, res: Response) => {
+    const { type, challenge, event, event_id } = req.body;
 
     // Slack URL Verification Challenge
     if (type === 'url_verification') {
       return res.status(200).send(challenge);
     }
 
-    // Handle real events (e.g., message posted in a channel we are listening to)
-    if (event && event.type === 'message' && !event.bot_id) {
-      // Instantly return 200 to acknowledge receipt to Slack
-      res.status(200).send('OK');
+    // Instantly return 200 to acknowledge receipt to Slack
+    res.status(200).send('OK');
 
-      // Process asynchronously
-      await processIncomingWebhook({
+    // Handle real events (e.g., message posted in a channel we are listening to)
+    if (event && event.type === 'message' && !event.bot_id && event.user && event_id) {
+      processIncomingWebhook('slack', event_id, event.user, {
         source: 'slack',
         eventId: event.ts,
-        userId: 'system_mapped_user_id', // Map Slack User ID to Supabase ID via DB lookup
         timestamp: new Date(parseFloat(event.ts) * 1000).toISOString(),
-        rawContent: event.text,
+        rawContent: event.text ?? '',
+        priority: slackPriority(event.text ?? ''),
         metadata: {
           title: `Slack Thread in ${event.channel}`,
+          channel: event.channel,
         }
       });
-    } else {
-      res.status(200).send('OK');
     }
   });
 
   // GOOGLE CALENDAR PUSH NOTIFICATIONS
-  router.post('/calendar', async (req: Request, res: Response) => {
+  router.post('/calendar', verifyGoogleChannel, (req: Request, res: Response) => {
     const channelId = req.headers['x-goog-channel-id'] as string;
     const resourceState = req.headers['x-goog-resource-state'] as string;
+    const messageNumber = req.headers['x-goog-message-number'] as string | undefined;
 
     res.status(200).send('OK');
 
-    if (resourceState === 'exists') {
-      console.log(`[Webhook] Calendar updated for channel: ${channelId}`);
+    // 'sync' is the handshake sent when a channel is created — nothing changed yet
+    if (resourceState !== 'exists' || !messageNumber) return;
+
+    const calendarId = calendarIdFromResourceUri(req.headers['x-goog-resource-uri'] as string | undefined);
+    if (!calendarId) {
+      console.warn(`[Webhook] Calendar notification without a resolvable calendar on channel ${channelId}`);
+      return;
     }
+
+    processIncomingWebhook('google', `${channelId}:${messageNumber}`, calendarId, {
+      source: 'calendar',
+      eventId: `${channelId}:${messageNumber}`,
+      timestamp: new Date().toISOString(),
+      rawContent: 'Your calendar was updated.',
+      priority: 'low',
+      metadata: { title: 'Google Calendar', channelId },
+    });
   });
 
   // JIRA WEBHOOK
-  router.post('/jira', async (req: Request, res: Response) => {
+  router.post('/jira', verifyJiraRequest, (req: Request, res: Response) => {
     const event = req.body;
-    
+
     // Acknowledge receipt
     res.status(200).send('OK');
 
-    if (event && event.issue) {
-      // Note: This relies on Jira webhook payload structure
-      processIncomingWebhook({
-        source: 'jira',
-        eventId: event.issue.id,
-        userId: 'system_mapped_user_id', // Would map to actual Supabase ID in production
-        timestamp: new Date().toISOString(),
-        rawContent: event.issue.fields?.description ?? 'No description provided.',
-        metadata: {
-          title: event.issue.fields?.summary ?? 'New Jira Issue',
-          key: event.issue.key
-        }
-      });
+    if (!event?.issue) return;
+
+    // Notify the assignee; fall back to whoever triggered the event
+    const accountId: string | undefined = event.issue.fields?.assignee?.accountId ?? event.user?.accountId;
+    if (!accountId) return;
+
+    // Jira keeps this identifier stable across retries of the same delivery
+    const deliveryId = (req.headers['x-atlassian-webhook-identifier'] as string | undefined)
+      ?? `${event.webhookEvent}:${event.issue.id}:${event.timestamp}`;
+
+    processIncomingWebhook('jira', deliveryId, accountId, {
+      source: 'jira',
+      eventId: event.issue.id,
+      timestamp: event.timestamp ? new Date(event.timestamp).toISOString() : new Date().toISOString(),
+      rawContent: event.issue.fields?.description ?? 'No description provided.',
+      priority: JIRA_PRIORITIES[event.issue.fields?.priority?.name] ?? 'medium',
+      metadata: {
+        title: event.issue.fields?.summary ?? 'New Jira Issue',
+        key: event.issue.key,
+        sender: event.user?.displayName,
+      }
+    });
+  });
+
+  // GITHUB WEBHOOK (RSD Shield)
+  router.post('/github', verifyGitHubSignature, (req: Request, res: Response) => {
+    const eventName = req.headers['x-github-event'] as string | undefined;
+    const deliveryId = req.headers['x-github-delivery'] as string | undefined;
+    const { action, comment, pull_request: pr, repository } = req.body ?? {};
+
+    // Sent once when the webhook is created
+    if (eventName === 'ping') return res.status(200).send('pong');
+
+    res.status(200).send('OK');
+
+    if (!deliveryId || !pr || !repository?.full_name) return;
+
+    if (eventName === 'pull_request_review_comment' && REVIEW_COMMENT_ACTIONS.includes(action) && comment) {
+      pullRequestShield
+        .handleReviewComment({
+          action,
+          deliveryId,
+          commentId: comment.id,
+          body: comment.body ?? '',
+          author: comment.user?.login ?? 'unknown',
+          authorGithubId: comment.user?.id,
+          avatarUrl: comment.user?.avatar_url ?? '',
+          filePath: comment.path ?? undefined,
+          lineNumber: comment.line ?? comment.original_line ?? undefined,
+          createdAt: comment.created_at ?? new Date().toISOString(),
+          pullRequest: toPullRequestRef(pr, repository.full_name),
+        })
+        .then((result) => {
+          if (result.status === 'replayed') console.warn(`[Webhook] Dropped replayed github delivery ${deliveryId}`);
+          if (result.status === 'unmapped') console.warn('[Webhook] No user linked to github identity; review comment discarded.');
+          if (result.status === 'stored') console.log(`[Webhook] Shielded review comment for ${result.userId}.`);
+        })
+        .catch((err) => console.error('[Webhook] Failed to shield review comment:', (err as Error).message));
+      return;
+    }
+
+    if (eventName === 'pull_request' && PULL_REQUEST_ACTIONS.includes(action)) {
+      pullRequestShield
+        .updatePullRequest(toPullRequestRef(pr, repository.full_name))
+        .catch((err) => console.error('[Webhook] Failed to update pull request:', (err as Error).message));
     }
   });
 
   return router;
-};
\ No newline at end of file
+};
@@ -19,11 +19,25 @@ import { setupApiRoutes } from './routes/api';
 import { agentRoutes } from './routes/agents';
 import { setupSocketHandlers } from './sockets/cognitiveStream';
 import { setupGoogleAuthRoutes } from './integrations/google';
-
-// 🛑 Strict Fail-Fast Environment Check for AI API
-if (!process.env.GEMINI_API_KEY) {
-  console.error('❌ FATAL ERROR: GEMINI_API_KEY is missing from the environment variables.');
-  process.exit(1); // Crash the Node process immediately
+import { setupTelemetryRoutes } from './routes/telemetry';
+import { setupManagerRoutes } from './routes/manager';
+import { setupWebhookRoutes } from './routes/webhooks';
+import { setupOrchestratorRoutes } from './routes/orchestrator';
+import { setupTaskRoutes } from './routes/tasks';
+import { setupMemoryRoutes } from './routes/memory';
+import { setupCommitmentRoutes } from './routes/commitments';
+import { setupRsdRoutes } from './routes/rsd';
+import { setupKidsRoutes } from './routes/kids';
+import { setupIntegrationRoutes } from './routes/integrations';
+import { meterAgentUsage } from './middleware/usageMeter';
+import { telemetryPipeline } from './services/TelemetryPipeline';
+import { policyEngine } from './services/PolicyEngine';
+import { commitmentTracker } from './services/CommitmentTracker';
+import { llmProvider } from './services/LlmProvider';
+
+// Without a Gemini key the server still boots: LLM calls go to the mock provider
+if (llmProvider.name === 'mock') {
+  console.warn('⚠️  LLM_PROVIDER is mock (set GEMINI_API_KEY for real Gemini output).');
 }
 
 const app = express();
@@ -38,10 +52,13 @@ const CLIENT_URL = process.env.CLIENT_URL || 'http://localhost:5173';
 app.use(helmet());
 app.use(cors({
   origin: CLIENT_URL,
-  methods: ['GET', 'POST', 'OPTIONS'],
+  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
   credentials: true,
 }));
 
+// Webhooks parse their own bodies so signatures can be checked against the raw bytes
+app.use('/webhooks', setupWebhookRoutes());
+
 app.use(express.json());
 
 // Rate Limiter
@@ -59,7 +76,19 @@ const apiLimiter = rateLimit({
 
 // Mount REST API, Agents, and Google Auth Integrations
 app.use('/api', apiLimiter, setupApiRoutes());
-app.use('/api/agents', agentRoutes);
+// Agent calls are metered per user and held to daily token quotas (services/UsageMeter.ts)
+app.use('/api/agents', meterAgentUsage, agentRoutes);
+app.use('/api/telemetry', setupTelemetryRoutes());
+app.use('/api/manager', setupManagerRoutes());
+app.use('/api/orchestrator', setupOrchestratorRoutes());
+app.use('/api/tasks', setupTaskRoutes());
+app.use('/api/memory', setupMemoryRoutes());
+app.use('/api/commitments', setupCommitmentRoutes());
+app.use('/api/rsd', setupRsdRoutes());
+// Child PIN login and play sessions; child tokens are only accepted under /api/kids
+app.use('/api/kids', setupKidsRoutes());
+// Linking starts here for the signed-in user; provider callbacks resolve the user from the signed state
+app.use('/api/integrations', setupIntegrationRoutes());
 app.use('/auth', setupGoogleAuthRoutes());
 
 // Initialize Socket.io with matching CORS policy
@@ -72,6 +101,9 @@ const io = new Server(server, {
 });
 
 setupSocketHandlers(io);
+telemetryPipeline.start();
+policyEngine.start();
+commitmentTracker.start();
 
 // ============================================================================
 // BOOTSTRAP
@@ -82,4 +114,14 @@ const PORT = process.env.PORT || 3000;
 server.listen(PORT, () => {
   console.log(`[NeuroAdaptive OS] Backend securely running on port ${PORT}`);
   console.log(`[NeuroAdaptive OS] Accepting WebSocket connections from ${CLIENT_URL}`);
-});
\ No newline at end of file
+  console.log(`[NeuroAdaptive OS] LLM provider: ${llmProvider.name}`);
+});
+
+// Drain buffered telemetry and policy audit rows before the process exits
+const shutdown = async () => {
+  commitmentTracker.stop();
+  await Promise.all([telemetryPipeline.stop(), policyEngine.stop()]);
+  process.exit(0);
+};
+process.on('SIGTERM', shutdown);
+process.on('SIGINT', shutdown);
\ No newline at end of file
@@ -0,0 +1,231 @@
+/**
+ * AdaptiveDifficulty.ts — Per-Child Skill Mastery for the Kids Games
+ *
+ * Keeps an Elo-style rating per child, game and skill, on the same 1–5
+ * scale as item difficulty:
+ *
+ *   skill          quiz: `topic:<topic>`   spelling: `letter:<missing letter>`
+ *   overall        one extra rating per game that every answer updates
+ *
+ * After each answer:
+ *
+ *   expected = 1 / (1 + e^(-SLOPE · (rating − difficulty)))
+ *   outcome  = 1 if correct, less EVIDENCE_DISCOUNT each for a slow answer
+ *              or visible frustration/confusion; 0 if wrong
+ *   rating  += K(attempts) · (outcome − expected)
+ *
+ * The next item's difficulty is the level the child should get right about
+ * TARGET_SUCCESS of the time, one level easier right after a distressed
+ * answer. A skill counts as mastered once the child would very likely get it
+ * right at their current target level; mastered skills are left out of new
+ * content so children aren't re-drilled on them.
+ *
+ * Ratings start from the child's age and persist in child_skill_mastery.
+ *
+ * Required Supabase SQL: supabase/migrations/kids_adaptive_difficulty.sql
+ */
+
+import { supabaseAdmin } from '../utils/supabaseAdmin';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type GameType = 'quiz' | 'spelling';
+
+export const GAME_TYPES: readonly GameType[] = ['quiz', 'spelling'];
+
+/** One answered item, as reported by the game. */
+export interface AnswerEvidence {
+  skill: string;
+  /** Difficulty level of the item, 1–5. */
+  difficulty: number;
+  correct: boolean;
+  responseMs: number;
+  /** BiometricVisionEngine scores (0–100) around the answer, when the camera saw a face. */
+  frustration?: number;
+  confusion?: number;
+}
+
+export interface SkillMastery {
+  skill: string;
+  rating: number;
+  attempts: number;
+  correct: number;
+  mastered: boolean;
+  lastPracticedAt: string | null;
+}
+
+export interface DifficultyPlan {
+  gameType: GameType;
+  /** Overall rating for this game. */
+  ability: number;
+  /** Difficulty level (1–5) for the next item. */
+  targetDifficulty: number;
+  /** Weakest practised skills first — what new content should cover. */
+  focusSkills: string[];
+  /** Skills new content should avoid. */
+  masteredSkills: string[];
+  skills: SkillMastery[];
+}
+
+export interface SkillRow {
+  skill: string;
+  rating: number;
+  attempts: number;
+  correct: number;
+  last_practiced_at: string | null;
+}
+
+// ─── Model ────────────────────────────────────────────────────────────────────
+
+export const MIN_DIFFICULTY = 1;
+export const MAX_DIFFICULTY = 5;
+
+/** Skills are namespaced, so this never collides with a topic or letter. */
+const OVERALL_SKILL = 'overall';
+
+export const SKILL_PATTERN = /^(topic:[a-z][a-z -]{0,29}|letter:[a-z])$/;
+
+const SLOPE = 1.7;
+const TARGET_SUCCESS = 0.7;
+/** Mastered = at least this likely to be right at the current target level. */
+const MASTERY_SUCCESS = 0.9;
+const MASTERY_MIN_ATTEMPTS = 3;
+
+const K_MAX = 0.8;
+const K_MIN = 0.2;
+/** Attempts after which K is halfway between K_MAX and K_MIN. */
+const K_HALF_LIFE = 10;
+
+const EVIDENCE_DISCOUNT = 0.2;
+const DISTRESS_LEVEL = 60;
+const SLOW_RESPONSE_MS: Record<GameType, number> = { quiz: 15_000, spelling: 12_000 };
+
+const MAX_FOCUS_SKILLS = 5;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/** Starting rating before any answers: a 5-year-old starts near level 1.5, a 12-year-old near 4. */
+export const baselineRating = (age: number | null) =>
+  round2(clamp(1 + ((age ?? 7) - 4) * 0.4, MIN_DIFFICULTY, MAX_DIFFICULTY - 1));
+
+export const expectedScore = (rating: number, difficulty: number) =>
+  1 / (1 + Math.exp(-SLOPE * (rating - difficulty)));
+
+const isDistressed = (answer: AnswerEvidence) =>
+  Math.max(answer.frustration ?? 0, answer.confusion ?? 0) >= DISTRESS_LEVEL;
+
+/** How much an answer shows the skill, 0–1: slow or distressed correct answers count for less. */
+export const answerOutcome = (gameType: GameType, answer: AnswerEvidence) => {
+  if (!answer.correct) return 0;
+  let outcome = 1;
+  if (answer.responseMs > SLOW_RESPONSE_MS[gameType]) outcome -= EVIDENCE_DISCOUNT;
+  if (isDistressed(answer)) outcome -= EVIDENCE_DISCOUNT;
+  return outcome;
+};
+
+/** Pure: the skill row after one more answer. */
+export const updateSkill = (row: SkillRow, gameType: GameType, answer: AnswerEvidence, at: string): SkillRow => {
+  const k = K_MIN + (K_MAX - K_MIN) / (1 + row.attempts / K_HALF_LIFE);
+  const delta = k * (answerOutcome(gameType, answer) - expectedScore(row.rating, answer.difficulty));
+  return {
+    skill: row.skill,
+    rating: round2(clamp(row.rating + delta, 0, MAX_DIFFICULTY + 1)),
+    attempts: row.attempts + 1,
+    correct: row.correct + (answer.correct ? 1 : 0),
+    last_practiced_at: at,
+  };
+};
+
+/** Level the child should get right about TARGET_SUCCESS of the time. */
+export const targetDifficulty = (ability: number, easeOff = false) => {
+  const level = ability - Math.log(TARGET_SUCCESS / (1 - TARGET_SUCCESS)) / SLOPE;
+  return clamp(Math.round(level) - (easeOff ? 1 : 0), MIN_DIFFICULTY, MAX_DIFFICULTY);
+};
+
+/**
+ * Pure: the plan for a child's next items. `rows` may include the overall
+ * row; without it the age baseline is the ability. `easeOff` steps the
+ * target down a level (after a distressed answer).
+ */
+export const buildPlan = (gameType: GameType, rows: SkillRow[], baseline: number, easeOff = false): DifficultyPlan => {
+  const ability = rows.find((r) => r.skill === OVERALL_SKILL)?.rating ?? baseline;
+  const target = targetDifficulty(ability, easeOff);
+
+  const skills: SkillMastery[] = rows
+    .filter((r) => r.skill !== OVERALL_SKILL)
+    .map((r) => ({
+      skill: r.skill,
+      rating: r.rating,
+      attempts: r.attempts,
+      correct: r.correct,
+      mastered: r.attempts >= MASTERY_MIN_ATTEMPTS && expectedScore(r.rating, target) >= MASTERY_SUCCESS,
+      lastPracticedAt: r.last_practiced_at,
+    }))
+    .sort((a, b) => a.rating - b.rating || a.skill.localeCompare(b.skill));
+
+  return {
+    gameType,
+    ability,
+    targetDifficulty: target,
+    focusSkills: skills.filter((s) => !s.mastered).slice(0, MAX_FOCUS_SKILLS).map((s) => s.skill),
+    masteredSkills: skills.filter((s) => s.mastered).map((s) => s.skill),
+    skills,
+  };
+};
+
+// ─── AdaptiveDifficulty Class ─────────────────────────────────────────────────
+
+export class AdaptiveDifficulty {
+  async getPlan(childId: string, gameType: GameType): Promise<DifficultyPlan> {
+    const [rows, baseline] = await Promise.all([this.loadRows(childId, gameType), this.loadBaseline(childId)]);
+    return buildPlan(gameType, rows, baseline);
+  }
+
+  /** Updates the answered skill and the overall rating, then plans the next item. */
+  async recordAnswer(childId: string, gameType: GameType, answer: AnswerEvidence): Promise<DifficultyPlan> {
+    const [rows, baseline] = await Promise.all([this.loadRows(childId, gameType), this.loadBaseline(childId)]);
+    const now = new Date().toISOString();
+
+    const current = (skill: string): SkillRow =>
+      rows.find((r) => r.skill === skill) ?? { skill, rating: baseline, attempts: 0, correct: 0, last_practiced_at: null };
+    const updated = [answer.skill, OVERALL_SKILL].map((skill) => updateSkill(current(skill), gameType, answer, now));
+
+    const { error } = await supabaseAdmin
+      .from('child_skill_mastery')
+      .upsert(updated.map((row) => ({ ...row, child_id: childId, game_type: gameType, updated_at: now })), {
+        onConflict: 'child_id,game_type,skill',
+      });
+    if (error) throw new Error(`[AdaptiveDifficulty] Mastery upsert failed: ${error.message}`);
+
+    const merged = [...rows.filter((r) => !updated.some((u) => u.skill === r.skill)), ...updated];
+    return buildPlan(gameType, merged, baseline, isDistressed(answer));
+  }
+
+  // ─── Internals ──────────────────────────────────────────────────────────────
+
+  private async loadRows(childId: string, gameType: GameType): Promise<SkillRow[]> {
+    const { data, error } = await supabaseAdmin
+      .from('child_skill_mastery')
+      .select('skill, rating, attempts, correct, last_practiced_at')
+      .eq('child_id', childId)
+      .eq('game_type', gameType);
+    if (error) throw new Error(`[AdaptiveDifficulty] Mastery query failed: ${error.message}`);
+    return ((data as SkillRow[]) ?? []).map((r) => ({ ...r, rating: Number(r.rating) }));
+  }
+
+  private async loadBaseline(childId: string): Promise<number> {
+    const { data, error } = await supabaseAdmin
+      .from('child_profiles')
+      .select('age')
+      .eq('id', childId)
+      .maybeSingle();
+    if (error) throw new Error(`[AdaptiveDifficulty] Child lookup failed: ${error.message}`);
+    return baselineRating(data?.age ?? null);
+  }
+}
+
+// ─── Singleton Export ─────────────────────────────────────────────────────────
+
+export const adaptiveDifficulty = new AdaptiveDifficulty();
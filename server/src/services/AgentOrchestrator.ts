@@ -1,9 +1,10 @@
-import { ChatGoogleGenerativeAI } from '@langchain/google-genai';
-import { PromptTemplate } from '@langchain/core/prompts';
-import { StringOutputParser } from '@langchain/core/output_parsers';
-import { tool } from '@langchain/core/tools';
-import { z } from 'zod';
 import { vectorStore } from './VectorStore';
+import { llmProvider, LlmProvider, LlmToolDeclaration } from './LlmProvider';
+import { notificationBuffer, BufferableNotification } from './NotificationBuffer';
+import { slackIntegration } from '../integrations/slack';
+import { policyEngine, PolicyAction, PolicyEngine, RuleEvaluation } from './PolicyEngine';
+import { taskDecomposition, TaskBreakdown } from './TaskDecomposition';
+import { orchestratorStateStore, OrchestratorStateStore, OrchestratorUserState } from './OrchestratorStateStore';
 
 type CognitiveState = 'hyperfocus' | 'normal' | 'approaching_overload' | 'overload';
 
@@ -18,40 +19,180 @@ interface ActionRequest {
   payload: any;
 }
 
+export interface ActionResult {
+  status: string;
+  message: string;
+  /** Set when an INITIATE_TASK request succeeds. */
+  breakdown?: TaskBreakdown;
+}
+
+/** Client-side effects of a rule, pushed to the user's sockets (e.g. dim the UI). */
+export interface ClientAmbientAction {
+  type: 'dim_ui' | 'defer_meetings';
+  active: boolean;
+  ruleId: string;
+}
+
+type ClientNotifier = (userId: string, action: ClientAmbientAction) => void;
+
+/** Sockets pin a user to one instance; after this long without samples, re-read the store. */
+const STATE_CACHE_TTL_MS = 30_000;
+/** Steady-state samples only refresh the stored score this often. */
+const STATE_PERSIST_INTERVAL_MS = 60_000;
+
 export class AgentOrchestrator {
-  private userStates: Map<string, TelemetryPayload> = new Map();
-  
-  // LangChain Setup with built-in Exponential Backoff for 429 Rate Limits
-  private llm = new ChatGoogleGenerativeAI({
-    model: 'gemini-2.0-flash', // Correct key for @langchain/google-genai
-    maxRetries: 3, // Automatically retries with exponential backoff if rate limited
-    temperature: 0.2,
-  });
+  private store: OrchestratorStateStore;
+  private policies: PolicyEngine;
+  private cache: Map<string, { state: OrchestratorUserState; cachedAt: number; persistedAt: number }> = new Map();
+  /** Samples for one user are applied strictly in order. */
+  private queues: Map<string, Promise<void>> = new Map();
+  private notifyClient: ClientNotifier = () => {};
+
+  // Gemini retries 429s with exponential backoff inside the provider
+  private llm: LlmProvider;
+
+  constructor(options: { store?: OrchestratorStateStore; policies?: PolicyEngine; llm?: LlmProvider } = {}) {
+    this.store = options.store ?? orchestratorStateStore;
+    this.policies = options.policies ?? policyEngine;
+    this.llm = options.llm ?? llmProvider;
+  }
+
+  /** Wired by the socket layer so rules can reach the user's open clients. */
+  public setClientNotifier(notifier: ClientNotifier) {
+    this.notifyClient = notifier;
+  }
 
   public updateState(telemetry: TelemetryPayload) {
-    this.userStates.set(telemetry.userId, telemetry);
-    this.evaluateAmbientTriggers(telemetry);
+    const previous = this.queues.get(telemetry.userId) ?? Promise.resolve();
+    const next = previous
+      .then(() => this.applyTelemetry(telemetry))
+      .catch((err) => console.error(`[Orchestrator] State update failed for ${telemetry.userId}:`, (err as Error).message))
+      .finally(() => {
+        if (this.queues.get(telemetry.userId) === next) this.queues.delete(telemetry.userId);
+      });
+    this.queues.set(telemetry.userId, next);
+  }
+
+  public async getState(userId: string): Promise<OrchestratorUserState | null> {
+    const cached = this.cache.get(userId);
+    if (cached && Date.now() - cached.cachedAt < STATE_CACHE_TTL_MS) return cached.state;
+    return this.store.get(userId);
+  }
+
+  private async applyTelemetry(telemetry: TelemetryPayload) {
+    const now = new Date();
+    const cached = this.cache.get(telemetry.userId);
+    const previous = cached && now.getTime() - cached.cachedAt < STATE_CACHE_TTL_MS
+      ? cached.state
+      : await this.store.get(telemetry.userId);
+
+    const stateChanged = previous?.state !== telemetry.state;
+    const rules = await this.policies.getPolicies(telemetry.userId);
+    const evaluations = this.policies.evaluate(
+      telemetry.userId,
+      rules,
+      previous?.rules ?? {},
+      { state: telemetry.state, score: telemetry.score },
+      now,
+    );
+
+    const next: OrchestratorUserState = {
+      userId: telemetry.userId,
+      state: telemetry.state,
+      score: telemetry.score,
+      stateSince: stateChanged || !previous ? now.toISOString() : previous.stateSince,
+      updatedAt: now.toISOString(),
+      // Runtimes of deleted rules are dropped here
+      rules: Object.fromEntries(evaluations.map((e) => [e.rule.id, e.runtime])),
+    };
+
+    const rulesChanged = JSON.stringify(next.rules) !== JSON.stringify(previous?.rules ?? {});
+    const persistDue = !cached || now.getTime() - cached.persistedAt >= STATE_PERSIST_INTERVAL_MS;
+    let persistedAt = cached?.persistedAt ?? 0;
+    if (stateChanged || rulesChanged || persistDue) {
+      await this.store.save(next);
+      persistedAt = now.getTime();
+    }
+    this.cache.set(telemetry.userId, { state: next, cachedAt: now.getTime(), persistedAt });
+
+    for (const evaluation of evaluations) {
+      if (evaluation.outcome === 'fired') this.runActions(telemetry.userId, evaluation, true);
+      if (evaluation.outcome === 'released') this.runActions(telemetry.userId, evaluation, false);
+    }
   }
 
-  private evaluateAmbientTriggers(telemetry: TelemetryPayload) {
-    if (telemetry.state === 'overload') {
-      this.triggerSensoryBuffer(telemetry.userId);
-    } else if (telemetry.state === 'hyperfocus') {
-      this.triggerSlackSnooze(telemetry.userId);
+  /** Executes a rule's actions on fire; on release, only client-side effects are undone. */
+  private runActions(userId: string, { rule }: RuleEvaluation, firing: boolean) {
+    console.log(`[Orchestrator] Rule "${rule.name}" ${firing ? 'fired' : 'released'} for ${userId}.`);
+
+    for (const action of rule.then) {
+      if (action.type === 'dim_ui' || action.type === 'defer_meetings') {
+        this.notifyClient(userId, { type: action.type, active: firing, ruleId: rule.id });
+      }
+      if (firing) this.runServerAction(userId, action);
     }
   }
 
-  public async routeAction(userId: string, request: ActionRequest): Promise<{ status: string, message: string }> {
-    const currentState = this.userStates.get(userId)?.state || 'normal';
+  private runServerAction(userId: string, action: PolicyAction) {
+    const state = this.cache.get(userId)?.state.state;
+
+    switch (action.type) {
+      case 'snooze_slack':
+        slackIntegration
+          .setCognitiveSnooze(userId, action.minutes)
+          .catch((err) => console.warn(`[Orchestrator] Slack snooze skipped for ${userId}:`, (err as Error).message));
+        break;
+      case 'buffer_notifications':
+        notificationBuffer
+          .startBuffering(userId, state === 'hyperfocus' ? 'hyperfocus' : 'overload')
+          .catch((err) => console.error('[Orchestrator] Notification buffering failed:', (err as Error).message));
+        break;
+      case 'release_notifications':
+        notificationBuffer
+          .release(userId)
+          .catch((err) => console.error('[Orchestrator] Digest delivery failed:', (err as Error).message));
+        break;
+      default:
+        // dim_ui / defer_meetings are client effects or read back in routeAction
+        break;
+    }
+  }
+
+  /** True while any active rule for the user carries the given action. */
+  private async hasActiveAction(userId: string, type: PolicyAction['type']): Promise<boolean> {
+    const state = await this.getState(userId);
+    if (!state) return false;
+
+    const rules = await this.policies.getPolicies(userId);
+    return rules.some((rule) => state.rules[rule.id]?.active && rule.then.some((action) => action.type === type));
+  }
+
+  public async routeAction(userId: string, request: ActionRequest): Promise<ActionResult> {
+    const currentState = (await this.getState(userId))?.state ?? 'normal';
 
     if (request.type === 'INITIATE_TASK' && currentState === 'overload') {
       console.log(`[Orchestrator] Blocked task initiation for ${userId}.`);
       return this.triggerRecoveryProtocol(userId);
     }
 
-    if (request.type === 'PROCESS_COMMUNICATION' && currentState === 'hyperfocus') {
-      console.log(`[Orchestrator] Buffered communication for ${userId} to preserve flow.`);
-      return { status: 'buffered', message: 'Message cached. Flow state preserved.' };
+    if (request.type === 'PROCESS_COMMUNICATION' && await notificationBuffer.isBuffering(userId)) {
+      const item: BufferableNotification = {
+        source: request.payload?.source ?? 'slack',
+        externalId: request.payload?.id,
+        sender: request.payload?.sender,
+        rawContent: request.payload?.text ?? '',
+        priority: request.payload?.priority ?? 'medium',
+      };
+      const offered = await notificationBuffer.offer(userId, item);
+      if (offered.status === 'buffered') {
+        console.log(`[Orchestrator] Buffered communication for ${userId} to preserve flow.`);
+        return { status: 'buffered', message: 'Message cached. Flow state preserved.' };
+      }
+    }
+
+    if (request.type === 'SCHEDULE_MEETING' && await this.hasActiveAction(userId, 'defer_meetings')) {
+      console.log(`[Orchestrator] Deferred meeting request for ${userId}.`);
+      return { status: 'deferred', message: 'Meeting request held until your focus session ends.' };
     }
 
     switch (request.type) {
@@ -65,30 +206,24 @@ export class AgentOrchestrator {
   }
 
   private async executeCommunicationAgent(userId: string, payload: any) {
-    console.log(`[Orchestrator] Executing LangChain tool-calling agent for ${userId}`);
-    
-    // 1. Define the pgvector semantic search tool using standard LangChain abstractions
-    const searchMemoryTool = tool(
-      async ({ query }) => {
-        console.log(`[Tool Call] Executing pgvector search for query: "${query}"`);
-        const results = await vectorStore.searchContentOnly(query, userId, 3);
-        return results.length > 0 ? results.join('\n\n') : 'No relevant memory found in the vector database.';
+    console.log(`[Orchestrator] Executing tool-calling agent for ${userId}`);
+
+    // 1. The pgvector semantic search tool the model may call
+    const searchMemoryTool: LlmToolDeclaration = {
+      name: 'query_pgvector_memory',
+      description: 'Searches the user\'s Prosthetic Memory vector database to recall past context, promises, or facts. Use this to lookup context before translating messages.',
+      parameters: {
+        query: { type: 'string', description: 'The natural language semantic search query (e.g., "what did I promise in the standup?")' },
       },
-      {
-        name: 'query_pgvector_memory',
-        description: 'Searches the user\'s Prosthetic Memory vector database to recall past context, promises, or facts. Use this to lookup context before translating messages.',
-        schema: z.object({
-          query: z.string().describe('The natural language semantic search query (e.g., "what did I promise in the standup?")')
-        }),
-      }
-    );
+    };
 
-    // 2. Bind the tool to the LLM
-    const llmWithTools = this.llm.bindTools([searchMemoryTool]);
+    const searchMemory = async (query: string) => {
+      console.log(`[Tool Call] Executing pgvector search for query: "${query}"`);
+      const results = await vectorStore.searchContentOnly(query, userId, 3);
+      return results.length > 0 ? results.join('\n\n') : 'No relevant memory found in the vector database.';
+    };
 
-    // 3. Simple execution loop (for single-step tool calling)
-    // NOTE: For true agentic depth in production we'd use createToolCallingAgent + AgentExecutor,
-    // but a direct invoke + validation is safer here and achieves the immediate requirement.
+    // 2. Simple execution loop (for single-step tool calling)
     try {
       // Prompt asks the LLM to use memory if needed before formatting
       const systemPrompt = `
@@ -99,17 +234,18 @@ export class AgentOrchestrator {
       `;
 
       // First pass: AI might call a tool or return the final translation
-      const result = await llmWithTools.invoke(systemPrompt);
+      const result = await this.llm.generate({
+        purpose: 'orchestrator:communication',
+        prompt: systemPrompt,
+        tools: [searchMemoryTool],
+      });
 
-      if (result.tool_calls && result.tool_calls.length > 0) {
-        // AI decided to query pgvector! 
-        const toolCall = result.tool_calls[0];
-        const query = toolCall.args.query as string;
-        
-        // Execute the pgvector query
-        const memoryContext = await searchMemoryTool.invoke({ query });
-        
-        // Final generationpass incorporating the retrieved pgvector context
+      const toolCall = result.toolCalls.find((call) => call.name === searchMemoryTool.name);
+      if (toolCall) {
+        // AI decided to query pgvector!
+        const memoryContext = await searchMemory(String(toolCall.args.query ?? payload.text));
+
+        // Final generation pass incorporating the retrieved pgvector context
         const finalPrompt = `
           Context retrieved from vector database:
           ${memoryContext}
@@ -117,26 +253,27 @@ export class AgentOrchestrator {
           Using this context if relevant, translate the following blunt corporate message into polite language:
           ${payload.text}
         `;
-        const finalAns = await this.llm.invoke(finalPrompt);
-        return { status: 'success', message: finalAns.content as string };
+        const finalAns = await this.llm.generate({ purpose: 'orchestrator:communication-with-memory', prompt: finalPrompt });
+        return { status: 'success', message: finalAns.text };
       }
 
       // If no tool was called, return the direct output
-      return { status: 'success', message: result.content as string };
+      return { status: 'success', message: result.text };
       
     } catch (error) {
-      console.error('[LangChain Tool Calling Error]:', error);
+      console.error('[Tool Calling Error]:', error);
       return { status: 'error', message: 'Translation failed due to high cognitive load.' };
     }
   }
 
-  private async executeTaskAgent(userId: string, payload: any) {
+  private async executeTaskAgent(userId: string, payload: { task: string; estimatedMinutes: number }): Promise<ActionResult> {
     console.log(`[Orchestrator] Breaking down task for ${userId}`);
-    return { status: 'success', message: 'Task decomposed into micro-steps.' };
+
+    const breakdown = await taskDecomposition.createBreakdown(userId, payload.task, payload.estimatedMinutes);
+    console.log(`[Orchestrator] ${breakdown.steps.length} steps, padded ${breakdown.paddingMultiplier}x for ${userId}.`);
+    return { status: 'success', message: 'Task decomposed into micro-steps.', breakdown };
   }
 
-  private triggerSensoryBuffer(userId: string) {}
-  private triggerSlackSnooze(userId: string) {}
   private triggerRecoveryProtocol(userId: string) {
     return { status: 'intervention', message: 'Task blocked. Load is critical. 5-minute breathing buffer initiated.' };
   }
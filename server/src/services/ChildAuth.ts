@@ -0,0 +1,341 @@
+/**
+ * ChildAuth.ts — PIN Login & Child Session Tokens for the Kids Module
+ *
+ * Children log in on their parent's device: the parent is signed in, the
+ * child picks their avatar and enters a PIN. PINs are stored only as bcrypt
+ * hashes and are checked here, never in the browser.
+ *
+ *   POST /api/kids/login  ──▶ bcrypt compare ──▶ child session token (HS256)
+ *                               │ wrong PIN
+ *                               ▼
+ *                          failed_pin_attempts++ ──▶ pin_locked_until after
+ *                          (one atomic UPDATE)       MAX_FAILED_ATTEMPTS
+ *
+ * A child session token is short-lived and scoped to play: it names the
+ * child and parent and is accepted only by the kids session endpoints, which
+ * create `game_sessions` rows with `child_id` taken from the token rather
+ * than from the client.
+ *
+ * Ending a child session ("Switch player", "Grown-ups") needs the parent's
+ * account password, checked here against Supabase Auth.
+ *
+ * Required Supabase SQL: supabase/migrations/kids_child_login.sql
+ */
+
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import { supabaseAdmin, createPasswordCheckClient } from '../utils/supabaseAdmin';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export const CHILD_SESSION_SCOPE = 'kids:play';
+
+/** Claims of a child session token. */
+export interface ChildSessionClaims {
+  /** `child_profiles.id` */
+  sub: string;
+  /** `child_profiles.parent_id` */
+  parent: string;
+  scope: typeof CHILD_SESSION_SCOPE;
+  iat: number;
+  exp: number;
+}
+
+export interface ChildProfile {
+  id: string;
+  name: string;
+  age: number;
+  avatarUrl: string | null;
+  isActive: boolean;
+  hasPin: boolean;
+  /** Set while PIN login is locked after too many wrong PINs. */
+  lockedUntil: string | null;
+}
+
+export interface NewChild {
+  name: string;
+  age: number;
+  pin: string;
+}
+
+export type ChildLoginResult =
+  | { status: 'ok'; token: string; expiresAt: string; child: Pick<ChildProfile, 'id' | 'name' | 'age'> }
+  | { status: 'invalid_pin'; attemptsRemaining: number }
+  | { status: 'locked'; lockedUntil: string }
+  | { status: 'no_pin' }
+  | { status: 'not_found' };
+
+export interface GameSessionInput {
+  /** `game_sessions.session_key` — the client-generated play-through id. */
+  sessionKey: string;
+  gameName: string;
+}
+
+export interface OpenedGameSession {
+  id: string;
+  allowFrameUploads: boolean;
+}
+
+interface FailedAttemptRow {
+  failed_attempts: number;
+  locked_until: string | null;
+}
+
+interface ChildRow {
+  id: string;
+  parent_id: string;
+  child_name: string;
+  age: number;
+  avatar_url: string | null;
+  is_active: boolean;
+  allow_frame_uploads: boolean;
+  pin_hash: string | null;
+  failed_pin_attempts: number;
+  pin_locked_until: string | null;
+}
+
+// ─── Configuration ────────────────────────────────────────────────────────────
+
+/** 4–8 digits: short enough for a child, long enough to lock out guessing. */
+export const PIN_PATTERN = /^\d{4,8}$/;
+
+const BCRYPT_ROUNDS = 12;
+export const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MS = 15 * 60 * 1000;
+const TOKEN_TTL_S = 60 * 60;
+
+const CHILD_COLUMNS = 'id, parent_id, child_name, age, avatar_url, is_active, allow_frame_uploads, pin_hash, failed_pin_attempts, pin_locked_until';
+
+const toProfile = (row: ChildRow): ChildProfile => ({
+  id: row.id,
+  name: row.child_name,
+  age: row.age,
+  avatarUrl: row.avatar_url,
+  isActive: row.is_active,
+  hasPin: !!row.pin_hash,
+  lockedUntil: row.pin_locked_until && Date.parse(row.pin_locked_until) > Date.now() ? row.pin_locked_until : null,
+});
+
+const encodeSegment = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const decodeSegment = (segment: string) => JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+
+const sign = (secret: string, data: string) => crypto.createHmac('sha256', secret).update(data).digest('base64url');
+
+const safeEqual = (a: string, b: string) => {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+};
+
+// ─── ChildAuth Class ──────────────────────────────────────────────────────────
+
+export class ChildAuth {
+  /** Child sessions are signed with CHILD_SESSION_SECRET; without it login is disabled. */
+  isConfigured(): boolean {
+    return !!process.env.CHILD_SESSION_SECRET;
+  }
+
+  /** The parent's children, for the avatar picker and dashboard. PIN hashes never leave this class. */
+  async listChildren(parentId: string): Promise<ChildProfile[]> {
+    const { data, error } = await supabaseAdmin
+      .from('child_profiles')
+      .select(CHILD_COLUMNS)
+      .eq('parent_id', parentId)
+      .order('child_name', { ascending: true });
+    if (error) throw new Error(`[ChildAuth] Child list failed: ${error.message}`);
+    return ((data as ChildRow[]) ?? []).map(toProfile);
+  }
+
+  async createChild(parentId: string, child: NewChild): Promise<ChildProfile> {
+    const { data, error } = await supabaseAdmin
+      .from('child_profiles')
+      .insert({
+        parent_id: parentId,
+        child_name: child.name,
+        age: child.age,
+        pin_hash: await bcrypt.hash(child.pin, BCRYPT_ROUNDS),
+        is_active: true,
+      })
+      .select(CHILD_COLUMNS)
+      .single<ChildRow>();
+    if (error || !data) throw new Error(`[ChildAuth] Child insert failed: ${error?.message}`);
+    return toProfile(data);
+  }
+
+  /** Replaces a child's PIN and clears any lockout. False if the child isn't the parent's. */
+  async setPin(parentId: string, childId: string, pin: string): Promise<boolean> {
+    const { data, error } = await supabaseAdmin
+      .from('child_profiles')
+      .update({
+        pin_hash: await bcrypt.hash(pin, BCRYPT_ROUNDS),
+        failed_pin_attempts: 0,
+        pin_locked_until: null,
+      })
+      .eq('id', childId)
+      .eq('parent_id', parentId)
+      .select('id');
+    if (error) throw new Error(`[ChildAuth] PIN update failed: ${error.message}`);
+    return (data ?? []).length > 0;
+  }
+
+  /**
+   * Checks a PIN for one of the parent's children. Every wrong PIN counts
+   * towards the lockout; the MAX_FAILED_ATTEMPTS-th locks login for
+   * LOCKOUT_MS and resets the counter.
+   */
+  async login(parentId: string, childId: string, pin: string): Promise<ChildLoginResult> {
+    const child = await this.loadChild(parentId, childId);
+    if (!child || !child.is_active) return { status: 'not_found' };
+    if (!child.pin_hash) return { status: 'no_pin' };
+
+    if (child.pin_locked_until && Date.parse(child.pin_locked_until) > Date.now()) {
+      return { status: 'locked', lockedUntil: child.pin_locked_until };
+    }
+
+    if (!(await bcrypt.compare(pin, child.pin_hash))) {
+      const failed = await this.recordFailedAttempt(child.id);
+      if (failed.locked_until) return { status: 'locked', lockedUntil: failed.locked_until };
+      return { status: 'invalid_pin', attemptsRemaining: MAX_FAILED_ATTEMPTS - failed.failed_attempts };
+    }
+
+    if (child.failed_pin_attempts > 0 || child.pin_locked_until) {
+      await this.clearLockout(child.id);
+    }
+
+    const { token, expiresAt } = this.issueToken(child.id, child.parent_id);
+    return { status: 'ok', token, expiresAt, child: { id: child.id, name: child.child_name, age: child.age } };
+  }
+
+  /**
+   * True if `password` is the parent's account password. Used before a child
+   * session ends, so a child on the device can't get back to the parent's app.
+   */
+  async verifyParentPassword(parentId: string, password: string): Promise<boolean> {
+    const { data, error } = await supabaseAdmin.auth.admin.getUserById(parentId);
+    if (error || !data.user?.email) throw new Error(`[ChildAuth] Parent lookup failed: ${error?.message ?? 'no email'}`);
+
+    const { data: signIn, error: signInError } = await createPasswordCheckClient().auth.signInWithPassword({
+      email: data.user.email,
+      password,
+    });
+    if (signInError?.status === 400) return false;
+    if (signInError || !signIn.session) throw new Error(`[ChildAuth] Password check failed: ${signInError?.message}`);
+
+    // Only the check was needed: revoke the session it opened
+    await supabaseAdmin.auth.admin.signOut(signIn.session.access_token, 'local');
+    return true;
+  }
+
+  // ─── Tokens ─────────────────────────────────────────────────────────────────
+
+  issueToken(childId: string, parentId: string): { token: string; expiresAt: string } {
+    const secret = this.secret();
+    const iat = Math.floor(Date.now() / 1000);
+    const claims: ChildSessionClaims = { sub: childId, parent: parentId, scope: CHILD_SESSION_SCOPE, iat, exp: iat + TOKEN_TTL_S };
+
+    const unsigned = `${encodeSegment({ alg: 'HS256', typ: 'JWT' })}.${encodeSegment(claims)}`;
+    return {
+      token: `${unsigned}.${sign(secret, unsigned)}`,
+      expiresAt: new Date(claims.exp * 1000).toISOString(),
+    };
+  }
+
+  /** The token's claims if it is a valid, unexpired child session token; otherwise null. */
+  verifyToken(token: string): ChildSessionClaims | null {
+    const secret = process.env.CHILD_SESSION_SECRET;
+    const [header, payload, signature] = token.split('.');
+    if (!secret || !header || !payload || !signature) return null;
+
+    try {
+      if (decodeSegment(header).alg !== 'HS256') return null;
+      if (!safeEqual(sign(secret, `${header}.${payload}`), signature)) return null;
+
+      const claims = decodeSegment(payload) as ChildSessionClaims;
+      if (claims.scope !== CHILD_SESSION_SCOPE || typeof claims.sub !== 'string' || typeof claims.parent !== 'string') return null;
+      if (typeof claims.exp !== 'number' || claims.exp <= Date.now() / 1000) return null;
+      return claims;
+    } catch {
+      return null;
+    }
+  }
+
+  // ─── Game Sessions ──────────────────────────────────────────────────────────
+
+  /**
+   * Creates the `game_sessions` row for a play-through, owned by the token's
+   * child. Opening the same session key twice returns the existing row, so a
+   * remounted game doesn't start a second session.
+   */
+  async openGameSession(claims: ChildSessionClaims, input: GameSessionInput): Promise<OpenedGameSession | null> {
+    const child = await this.loadChild(claims.parent, claims.sub);
+    if (!child || !child.is_active) return null;
+
+    const allowFrameUploads = child.allow_frame_uploads === true;
+
+    const { data: existing, error: existingErr } = await supabaseAdmin
+      .from('game_sessions')
+      .select('id, child_id')
+      .eq('session_key', input.sessionKey)
+      .maybeSingle();
+    if (existingErr) throw new Error(`[ChildAuth] Session lookup failed: ${existingErr.message}`);
+    if (existing) return existing.child_id === child.id ? { id: existing.id as string, allowFrameUploads } : null;
+
+    const { data, error } = await supabaseAdmin
+      .from('game_sessions')
+      .insert({
+        session_key: input.sessionKey,
+        child_id: child.id,
+        session_name: child.child_name,
+        session_game_name: input.gameName,
+      })
+      .select('id')
+      .single();
+    if (error || !data) throw new Error(`[ChildAuth] Session insert failed: ${error?.message}`);
+    return { id: data.id as string, allowFrameUploads };
+  }
+
+  // ─── Internals ──────────────────────────────────────────────────────────────
+
+  private secret(): string {
+    const secret = process.env.CHILD_SESSION_SECRET;
+    if (!secret) throw new Error('[ChildAuth] CHILD_SESSION_SECRET is not set.');
+    return secret;
+  }
+
+  private async loadChild(parentId: string, childId: string): Promise<ChildRow | null> {
+    const { data, error } = await supabaseAdmin
+      .from('child_profiles')
+      .select(CHILD_COLUMNS)
+      .eq('id', childId)
+      .eq('parent_id', parentId)
+      .maybeSingle<ChildRow>();
+    if (error) throw new Error(`[ChildAuth] Child lookup failed: ${error.message}`);
+    return data;
+  }
+
+  /** Counts a wrong PIN in one UPDATE; `locked_until` is set once login is locked. */
+  private async recordFailedAttempt(childId: string): Promise<FailedAttemptRow> {
+    const { data, error } = await supabaseAdmin
+      .rpc('record_failed_pin_attempt', {
+        p_child_id: childId,
+        p_max_attempts: MAX_FAILED_ATTEMPTS,
+        p_lockout_seconds: LOCKOUT_MS / 1000,
+      })
+      .single<FailedAttemptRow>();
+    if (error || !data) throw new Error(`[ChildAuth] Lockout update failed: ${error?.message}`);
+    return data;
+  }
+
+  private async clearLockout(childId: string): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('child_profiles')
+      .update({ failed_pin_attempts: 0, pin_locked_until: null })
+      .eq('id', childId);
+    if (error) throw new Error(`[ChildAuth] Lockout update failed: ${error.message}`);
+  }
+}
+
+// ─── Singleton Export ─────────────────────────────────────────────────────────
+
+export const childAuth = new ChildAuth();
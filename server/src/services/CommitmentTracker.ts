@@ -0,0 +1,435 @@
+/**
+ * CommitmentTracker.ts — Promises & Action Items as First-Class Records
+ *
+ * Forgotten promises hurt more than forgotten facts. Every memory ingested
+ * through /api/memory is scanned for commitments ("Alex, finalize the
+ * database schema by Tuesday"), which are stored with an owner, a due date
+ * resolved against when the conversation happened, and a confidence:
+ *
+ *   memory ──▶ Gemini extraction ──┐
+ *          └─▶ pattern fallback ───┴─▶ commitments ──▶ reminder loop ──▶ socket
+ *                                        (Realtime)      (remind_at)
+ *
+ * Each commitment gets one reminder: COMMITMENT_REMINDER_LEAD_HOURS before
+ * it is due, or a day after extraction when no due date was mentioned.
+ * Snoozing reschedules it. Reminders are claimed with a conditional UPDATE,
+ * so several server instances never send the same one twice.
+ *
+ * Required Supabase SQL: supabase/migrations/commitments.sql
+ */
+
+import { supabaseAdmin } from '../utils/supabaseAdmin';
+import { sanitizeGeminiJson } from '../utils/sanitizeGeminiJson';
+import { llmProvider } from './LlmProvider';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type CommitmentStatus = 'open' | 'snoozed' | 'done';
+
+export const COMMITMENT_STATUSES: CommitmentStatus[] = ['open', 'snoozed', 'done'];
+
+export interface ExtractedCommitment {
+  description: string;
+  /** Who is on the hook, by name as spoken; null when unclear. */
+  owner: string | null;
+  dueAt: string | null;
+  /** 0–1: how sure extraction is that this is a real commitment. */
+  confidence: number;
+  sourceQuote: string | null;
+}
+
+export interface Commitment extends ExtractedCommitment {
+  id: string;
+  memoryId: string | null;
+  status: CommitmentStatus;
+  remindAt: string | null;
+  snoozedUntil: string | null;
+  completedAt: string | null;
+  createdAt: string;
+}
+
+export interface MemoryForTracking {
+  id: string;
+  content: string;
+  occurredAt?: string;
+}
+
+type ReminderNotifier = (userId: string, commitment: Commitment) => void;
+
+interface CommitmentRow {
+  id: string;
+  user_id: string;
+  memory_id: string | null;
+  description: string;
+  owner: string | null;
+  due_at: string | null;
+  status: CommitmentStatus;
+  confidence: number | string;
+  source_quote: string | null;
+  remind_at: string | null;
+  snoozed_until: string | null;
+  completed_at: string | null;
+  created_at: string;
+}
+
+// ─── Configuration ────────────────────────────────────────────────────────────
+
+const REMINDER_LEAD_HOURS = Number(process.env.COMMITMENT_REMINDER_LEAD_HOURS) || 24;
+const REMINDER_INTERVAL_MS = Number(process.env.COMMITMENT_REMINDER_INTERVAL_MS) || 60_000;
+const UNDATED_REMINDER_HOURS = 24;
+const MIN_CONFIDENCE = 0.3;
+const MAX_PER_MEMORY = 10;
+const DUE_HOUR_UTC = 17;          // "by Tuesday" → Tuesday, end of the working day
+const HEURISTIC_CONFIDENCE = 0.4;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const COLUMNS =
+  'id, user_id, memory_id, description, owner, due_at, status, confidence, source_quote, remind_at, snoozed_until, completed_at, created_at';
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const COMMITMENT_PATTERN =
+  /\b(i will|i'll|i'm going to|i am going to|i promise|we will|we'll|you need to|you should|needs? to|must|assigned to|action item)\b/i;
+
+const buildPrompt = (content: string, reference: Date) => `
+You extract commitments and action items from meeting transcripts, chat threads and notes.
+
+A commitment is a concrete promise or assignment: someone will do something. Ignore opinions, questions and completed work.
+The conversation happened on ${WEEKDAYS[reference.getUTCDay()]} ${reference.toISOString().slice(0, 10)}; resolve relative dates ("by Tuesday", "tomorrow") against that day.
+
+Return ONLY a raw JSON array — NO markdown, NO code fences, NO explanation.
+The response must start with [ and end with ]. Return [] if there are none.
+
+[
+  {
+    "description": "Imperative, self-contained action (e.g. 'Finalize the database schema')",
+    "owner": "Name of the person responsible, or null",
+    "due_date": "YYYY-MM-DD or null",
+    "confidence": 0.9,
+    "quote": "The sentence it came from"
+  }
+]
+
+Text: "${content}"
+`.trim();
+
+// ─── Date Resolution ──────────────────────────────────────────────────────────
+
+const atDueHour = (day: Date) =>
+  new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate(), DUE_HOUR_UTC));
+
+/**
+ * Due date for a phrase spoken on `reference`: weekdays resolve to the next
+ * such day after the conversation, plus today/EOD, tomorrow, end of week
+ * (Friday) and next week (Monday). Null when the text names no deadline.
+ */
+export const resolveDueDate = (text: string, reference: Date): string | null => {
+  const lower = text.toLowerCase();
+  const inDays = (days: number) => atDueHour(new Date(reference.getTime() + days * DAY_MS)).toISOString();
+  const untilWeekday = (target: number) => ((target - reference.getUTCDay() + 7) % 7) || 7;
+
+  if (/\b(today|tonight|end of (the )?day|eod)\b/.test(lower)) return inDays(0);
+  if (/\btomorrow\b/.test(lower)) return inDays(1);
+  if (/\bend of (the )?week\b|\beow\b/.test(lower)) return inDays(reference.getUTCDay() === 5 ? 0 : untilWeekday(5));
+  if (/\bnext week\b/.test(lower)) return inDays(untilWeekday(1));
+
+  const weekday = WEEKDAYS.findIndex((day) => new RegExp(`\\b${day}\\b`).test(lower));
+  if (weekday !== -1) return inDays(untilWeekday(weekday));
+
+  return null;
+};
+
+/** A model-supplied YYYY-MM-DD, kept only if it's plausible for this conversation. */
+const parseDueDate = (value: unknown, reference: Date): string | null => {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const due = atDueHour(new Date(`${value}T00:00:00Z`));
+  if (Number.isNaN(due.getTime())) return null;
+  const offset = due.getTime() - reference.getTime();
+  return offset > -DAY_MS && offset < 366 * DAY_MS ? due.toISOString() : null;
+};
+
+// ─── Extraction ───────────────────────────────────────────────────────────────
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+/**
+ * Pattern-matching fallback for when Gemini is unavailable. Reads
+ * "Speaker: sentence" transcripts; the owner is the person addressed
+ * ("Alex, you need to…"), the speaker for first-person promises, or the
+ * named subject ("Priya needs to…").
+ */
+export const extractCommitmentsHeuristically = (content: string, reference: Date): ExtractedCommitment[] => {
+  const found: ExtractedCommitment[] = [];
+
+  for (const line of content.split(/\n+/)) {
+    const speakerMatch = line.trim().match(/^([A-Z][\w.-]*(?: [A-Z][\w.-]*)?):\s*(.*)$/);
+    const speaker = speakerMatch?.[1] ?? null;
+    const body = speakerMatch ? speakerMatch[2] : line.trim();
+
+    for (const sentence of body.split(/(?<=[.!?])\s+/)) {
+      const text = sentence.trim();
+      if (!text || text.endsWith('?') || !COMMITMENT_PATTERN.test(text)) continue;
+
+      const addressed = text.match(/^([A-Z][a-z]+),\s+(?:you|please|can you|could you)\b/);
+      const subject = text.match(/^([A-Z][a-z]+)\s+(?:needs? to|will|must|should|is going to)\b/);
+      const firstPerson = /^(i|i'll|i'm)\b/i.test(text);
+
+      const owner = addressed?.[1] ?? (firstPerson ? speaker : subject?.[1] ?? null);
+      const description = capitalize(
+        text
+          .replace(/^[A-Z][a-z]+,\s+/, '')
+          .replace(/^(?:you|i|we)\s+(?:need to|will|must|should|am going to|are going to|promise to)\s+/i, '')
+          .replace(/^(?:i'll|we'll)\s+/i, '')
+          .replace(/[.!]+$/, ''),
+      );
+
+      found.push({
+        description,
+        owner,
+        dueAt: resolveDueDate(text, reference),
+        confidence: HEURISTIC_CONFIDENCE,
+        sourceQuote: text,
+      });
+    }
+  }
+
+  return found;
+};
+
+/** Gemini output is untrusted: keep only well-formed commitments. */
+const normalizeExtracted = (raw: unknown[], reference: Date): ExtractedCommitment[] =>
+  raw
+    .filter((c): c is Record<string, unknown> =>
+      !!c && typeof c === 'object' && typeof (c as Record<string, unknown>).description === 'string')
+    .map((c) => {
+      const quote = typeof c.quote === 'string' && c.quote.trim() ? c.quote.trim() : null;
+      const confidence = Number(c.confidence);
+      return {
+        description: String(c.description).trim().slice(0, 500),
+        owner: typeof c.owner === 'string' && c.owner.trim() ? c.owner.trim().slice(0, 100) : null,
+        // Prefer the model's resolved date; fall back to reading the quote ourselves
+        dueAt: parseDueDate(c.due_date, reference) ?? (quote ? resolveDueDate(quote, reference) : null),
+        confidence: Number.isFinite(confidence) ? Math.min(1, Math.max(0, confidence)) : 0.6,
+        sourceQuote: quote,
+      };
+    })
+    .filter((c) => c.description.length > 0);
+
+const toCommitment = (row: CommitmentRow): Commitment => ({
+  id: row.id,
+  memoryId: row.memory_id,
+  description: row.description,
+  owner: row.owner,
+  dueAt: row.due_at,
+  status: row.status,
+  confidence: Number(row.confidence),
+  sourceQuote: row.source_quote,
+  remindAt: row.remind_at,
+  snoozedUntil: row.snoozed_until,
+  completedAt: row.completed_at,
+  createdAt: row.created_at,
+});
+
+/** One reminder per commitment: ahead of the deadline, or a day from now if undated. */
+const firstReminder = (dueAt: string | null, now: Date): string => {
+  if (!dueAt) return new Date(now.getTime() + UNDATED_REMINDER_HOURS * HOUR_MS).toISOString();
+  return new Date(Math.max(now.getTime(), Date.parse(dueAt) - REMINDER_LEAD_HOURS * HOUR_MS)).toISOString();
+};
+
+// ─── CommitmentTracker Class ──────────────────────────────────────────────────
+
+export class CommitmentTracker {
+  private timer: NodeJS.Timeout | null = null;
+  private dispatching: Promise<number> | null = null;
+  private notifyReminder: ReminderNotifier = () => {};
+
+  /** Wired by the socket layer so reminders reach the user's open clients. */
+  setReminderNotifier(notifier: ReminderNotifier) {
+    this.notifyReminder = notifier;
+  }
+
+  /** Starts the reminder loop. Safe to call more than once. */
+  start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => { void this.dispatchReminders(); }, REMINDER_INTERVAL_MS);
+    this.timer.unref();
+    console.log(`[Commitments] Reminder loop started (every ${REMINDER_INTERVAL_MS}ms).`);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Commitments in a piece of text, as spoken on `reference`. Never throws —
+   * falls back to pattern matching if Gemini fails.
+   */
+  async extract(content: string, reference: Date = new Date()): Promise<ExtractedCommitment[]> {
+    try {
+      const { text: rawText } = await llmProvider.generate({
+        purpose: 'commitments:extract',
+        prompt: buildPrompt(content, reference),
+        temperature: 0.1,
+        // The pattern matcher's findings, in the shape the prompt asks for
+        mock: () => JSON.stringify(extractCommitmentsHeuristically(content, reference).map((c) => ({
+          description: c.description,
+          owner: c.owner,
+          due_date: c.dueAt?.slice(0, 10) ?? null,
+          confidence: c.confidence,
+          quote: c.sourceQuote,
+        }))),
+      });
+
+      const parsed = sanitizeGeminiJson<unknown[]>(rawText);
+      if (Array.isArray(parsed)) return normalizeExtracted(parsed, reference);
+
+      console.warn('[Commitments] Unusable Gemini output. Raw:', rawText.substring(0, 300));
+    } catch (err) {
+      console.error('[Commitments] Gemini API error:', (err as Error).message);
+    }
+
+    return extractCommitmentsHeuristically(content, reference);
+  }
+
+  /** Extracts and stores the commitments in one memory. */
+  async trackFromMemory(userId: string, memory: MemoryForTracking): Promise<Commitment[]> {
+    const reference = memory.occurredAt ? new Date(memory.occurredAt) : new Date();
+    const extracted = (await this.extract(memory.content, reference))
+      .filter((c) => c.confidence >= MIN_CONFIDENCE)
+      .slice(0, MAX_PER_MEMORY);
+
+    if (extracted.length === 0) return [];
+
+    const now = new Date();
+    const { data, error } = await supabaseAdmin
+      .from('commitments')
+      .insert(extracted.map((c) => ({
+        user_id: userId,
+        memory_id: memory.id,
+        description: c.description,
+        owner: c.owner,
+        due_at: c.dueAt,
+        confidence: Number(c.confidence.toFixed(2)),
+        source_quote: c.sourceQuote,
+        remind_at: firstReminder(c.dueAt, now),
+      })))
+      .select(COLUMNS);
+
+    if (error) throw new Error(`[Commitments] Insert failed: ${error.message}`);
+    return ((data ?? []) as CommitmentRow[]).map(toCommitment);
+  }
+
+  /**
+   * Fire-and-forget tracking for freshly ingested memories, one at a time so
+   * a large batch doesn't fan out into parallel Gemini calls.
+   */
+  trackInBackground(userId: string, memories: MemoryForTracking[]) {
+    void (async () => {
+      for (const memory of memories) {
+        try {
+          await this.trackFromMemory(userId, memory);
+        } catch (err) {
+          console.error(`[Commitments] Tracking failed for memory ${memory.id}:`, (err as Error).message);
+        }
+      }
+    })();
+  }
+
+  /** The caller's commitments, soonest due first (undated last). */
+  async list(userId: string, options: { status?: CommitmentStatus; limit?: number } = {}): Promise<Commitment[]> {
+    let request = supabaseAdmin
+      .from('commitments')
+      .select(COLUMNS)
+      .eq('user_id', userId);
+    if (options.status) request = request.eq('status', options.status);
+
+    const { data, error } = await request
+      .order('due_at', { ascending: true, nullsFirst: false })
+      .order('created_at', { ascending: false })
+      .limit(options.limit ?? 100);
+
+    if (error) throw new Error(`[Commitments] List failed: ${error.message}`);
+    return ((data ?? []) as CommitmentRow[]).map(toCommitment);
+  }
+
+  /** Marks a commitment done and cancels its reminder. Null if not the caller's. */
+  async complete(userId: string, id: string): Promise<Commitment | null> {
+    const now = new Date().toISOString();
+    return this.update(userId, id, {
+      status: 'done',
+      completed_at: now,
+      remind_at: null,
+      snoozed_until: null,
+      updated_at: now,
+    });
+  }
+
+  /**
+   * Hides an open commitment until `until`, when it is reminded again.
+   * Null if it isn't the caller's or is already done.
+   */
+  async snooze(userId: string, id: string, until: Date): Promise<Commitment | null> {
+    return this.update(userId, id, {
+      status: 'snoozed',
+      snoozed_until: until.toISOString(),
+      remind_at: until.toISOString(),
+      updated_at: new Date().toISOString(),
+    }, true);
+  }
+
+  /**
+   * Sends every reminder that has come due. Snoozed commitments reopen as
+   * they are reminded. Returns how many were sent.
+   */
+  async dispatchReminders(now: Date = new Date()): Promise<number> {
+    // One pass at a time; an overlapping tick just waits for the current one
+    if (this.dispatching) return this.dispatching;
+
+    this.dispatching = (async () => {
+      const at = now.toISOString();
+      const { data, error } = await supabaseAdmin
+        .from('commitments')
+        .update({ status: 'open', remind_at: null, reminded_at: at, snoozed_until: null, updated_at: at })
+        .lte('remind_at', at)
+        .neq('status', 'done')
+        .select(COLUMNS);
+
+      if (error) {
+        console.error('[Commitments] Reminder claim failed:', error.message);
+        return 0;
+      }
+
+      const rows = (data ?? []) as CommitmentRow[];
+      for (const row of rows) this.notifyReminder(row.user_id, toCommitment(row));
+      return rows.length;
+    })().finally(() => { this.dispatching = null; });
+
+    return this.dispatching;
+  }
+
+  private async update(
+    userId: string,
+    id: string,
+    changes: Record<string, unknown>,
+    openOnly = false,
+  ): Promise<Commitment | null> {
+    let request = supabaseAdmin
+      .from('commitments')
+      .update(changes)
+      .eq('id', id)
+      .eq('user_id', userId);
+    if (openOnly) request = request.neq('status', 'done');
+
+    const { data, error } = await request.select(COLUMNS).maybeSingle();
+
+    if (error) throw new Error(`[Commitments] Update failed: ${error.message}`);
+    return data ? toCommitment(data as CommitmentRow) : null;
+  }
+}
+
+// ─── Singleton Export ─────────────────────────────────────────────────────────
+
+export const commitmentTracker = new CommitmentTracker();
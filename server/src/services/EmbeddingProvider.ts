@@ -0,0 +1,176 @@
+/**
+ * EmbeddingProvider.ts — Pluggable Text Embeddings
+ *
+ * VectorStore turns text into vectors through this interface so memory
+ * ingestion and search keep working without Gemini. Three providers,
+ * selected with EMBEDDING_PROVIDER:
+ *
+ *   gemini   GeminiEmbeddingProvider   text-embedding-004 (default)
+ *   local    HashingEmbeddingProvider  deterministic, no network
+ *   stub     StubEmbeddingProvider     tests — one-hot vectors, records calls
+ *
+ * Every provider reports a `model` identifier that is stored next to each
+ * vector (`memory_entries.embedding_model`). Searches only compare against
+ * rows embedded by the active model; `vectorStore.reembedStale()` migrates
+ * the rest after a switch.
+ *
+ * Required Supabase SQL: supabase/migrations/memory_embedding_provider.sql
+ */
+
+import { createHash } from 'crypto';
+import { GoogleGenerativeAIEmbeddings } from '@langchain/google-genai';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface EmbeddingProvider {
+  /** Stored with every vector; vectors from different models are never compared. */
+  readonly model: string;
+  readonly dimension: number;
+  embed(text: string): Promise<number[]>;
+  embedBatch(texts: string[]): Promise<number[][]>;
+}
+
+export type EmbeddingProviderName = 'gemini' | 'local' | 'stub';
+
+// ─── Configuration ────────────────────────────────────────────────────────────
+
+/** Matches `memory_entries.embedding vector(768)`. */
+export const EMBEDDING_DIMENSION = 768;
+
+const PROVIDER_NAMES: EmbeddingProviderName[] = ['gemini', 'local', 'stub'];
+
+// Common English words carry no topical signal; dropping them stands in for
+// the IDF term a corpus-wide TF-IDF would compute.
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'did', 'do', 'does', 'for',
+  'from', 'had', 'has', 'have', 'he', 'her', 'his', 'i', 'if', 'in', 'is', 'it', 'its', 'me',
+  'my', 'of', 'on', 'or', 'our', 'she', 'so', 'that', 'the', 'their', 'them', 'then', 'there',
+  'they', 'this', 'to', 'was', 'we', 'were', 'what', 'when', 'which', 'who', 'will', 'with',
+  'you', 'your',
+]);
+
+/** Stable 32-bit hash; the same text maps to the same buckets on every machine. */
+const hash32 = (value: string): number => createHash('sha1').update(value).digest().readUInt32BE(0);
+
+const normalize = (vector: number[]): number[] => {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm === 0 ? vector : vector.map((v) => v / norm);
+};
+
+// ─── Providers ────────────────────────────────────────────────────────────────
+
+export class GeminiEmbeddingProvider implements EmbeddingProvider {
+  readonly model = 'gemini:text-embedding-004';
+  readonly dimension = EMBEDDING_DIMENSION;
+  private embeddings: GoogleGenerativeAIEmbeddings | null = null;
+
+  constructor(private readonly apiKey = process.env.GEMINI_API_KEY) {
+    if (!apiKey) {
+      console.warn('[Embeddings] ⚠ GEMINI_API_KEY not set. Gemini embeddings will fail.');
+    }
+  }
+
+  embed(text: string): Promise<number[]> {
+    return this.client().embedQuery(text);
+  }
+
+  embedBatch(texts: string[]): Promise<number[][]> {
+    return this.client().embedDocuments(texts);
+  }
+
+  // Created on first use: LangChain throws on a missing key, which would
+  // otherwise take the whole server down at import time
+  private client(): GoogleGenerativeAIEmbeddings {
+    this.embeddings ??= new GoogleGenerativeAIEmbeddings({
+      apiKey: this.apiKey || '',
+      modelName: 'text-embedding-004',  // Google's latest text embedding model
+    });
+    return this.embeddings;
+  }
+}
+
+/**
+ * Feature-hashed TF projection: unigrams and bigrams (stopwords removed) are
+ * hashed into `dimension` signed buckets with sublinear (1 + ln tf) weights,
+ * then L2-normalised so cosine similarity behaves like Gemini's. Captures
+ * lexical overlap only, but needs no network and is fully deterministic.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string;
+
+  constructor(readonly dimension = EMBEDDING_DIMENSION) {
+    this.model = `local:hashing-tf-v1-${dimension}`;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    return this.project(text);
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.project(text));
+  }
+
+  private project(text: string): number[] {
+    const tokens = (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter((t) => !STOPWORDS.has(t));
+    const features = [...tokens, ...tokens.slice(1).map((t, i) => `${tokens[i]} ${t}`)];
+
+    const counts = new Map<string, number>();
+    for (const feature of features) counts.set(feature, (counts.get(feature) ?? 0) + 1);
+
+    const vector = new Array<number>(this.dimension).fill(0);
+    for (const [feature, tf] of counts) {
+      const h = hash32(feature);
+      // Top bit picks the sign so colliding features tend to cancel, not pile up
+      vector[h % this.dimension] += (h & 0x80000000 ? -1 : 1) * (1 + Math.log(tf));
+    }
+    return normalize(vector);
+  }
+}
+
+/**
+ * Test double: identical texts get identical one-hot vectors, different
+ * texts are (almost always) orthogonal. Every call is recorded.
+ */
+export class StubEmbeddingProvider implements EmbeddingProvider {
+  readonly model = 'stub:one-hot';
+  readonly calls: string[] = [];
+
+  constructor(readonly dimension = EMBEDDING_DIMENSION) {}
+
+  async embed(text: string): Promise<number[]> {
+    this.calls.push(text);
+    return this.oneHot(text);
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    this.calls.push(...texts);
+    return texts.map((text) => this.oneHot(text));
+  }
+
+  private oneHot(text: string): number[] {
+    const vector = new Array<number>(this.dimension).fill(0);
+    vector[hash32(text) % this.dimension] = 1;
+    return vector;
+  }
+}
+
+// ─── Factory ──────────────────────────────────────────────────────────────────
+
+/**
+ * Provider named by `name` (default: EMBEDDING_PROVIDER, then 'gemini').
+ * Unknown names fall back to Gemini with a warning rather than failing boot.
+ */
+export const createEmbeddingProvider = (name = process.env.EMBEDDING_PROVIDER): EmbeddingProvider => {
+  const selected = (name || 'gemini').toLowerCase() as EmbeddingProviderName;
+
+  if (!PROVIDER_NAMES.includes(selected)) {
+    console.warn(`[Embeddings] Unknown EMBEDDING_PROVIDER "${name}", using gemini.`);
+    return new GeminiEmbeddingProvider();
+  }
+
+  switch (selected) {
+    case 'local': return new HashingEmbeddingProvider();
+    case 'stub':  return new StubEmbeddingProvider();
+    default:      return new GeminiEmbeddingProvider();
+  }
+};
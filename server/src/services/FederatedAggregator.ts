@@ -0,0 +1,305 @@
+/**
+ * FederatedAggregator.ts — Federated Averaging for Edge Interaction Weights
+ *
+ * Edge clients (src/lib/ml/federatedClient.ts) accumulate local interaction
+ * deltas, add Laplace noise on-device (local differential privacy) and POST
+ * them anonymously to /api/ml/federated-update. This service turns those
+ * noisy updates into a shared global model. Updates are authenticated only
+ * so each user can contribute once per round; the contributor ID is held in
+ * memory until the round closes and is never stored with the gradients.
+ *
+ * Protocol:
+ *   1. Updates are buffered per target model version. Updates aimed at an
+ *      older version are rejected so clients re-sync before contributing.
+ *   2. A second update from the same user for the same version is refused.
+ *   3. Once FEDERATED_MIN_CLIENTS updates are buffered for the current
+ *      version, FedAvg runs: the sample-weighted mean delta
+ *      (Σ gradients_i / Σ batchSize_i) is applied to the global weights.
+ *      A round whose result is not finite is discarded.
+ *   4. The new global model is persisted as a new round and becomes the
+ *      version served by /api/ml/model-version.
+ *
+ * Privacy accounting:
+ *   Each participant contributes at most once per round (enforced per
+ *   authenticated user), so within a round
+ *   the cost is the largest ε any participant declared (parallel
+ *   composition). Rounds compose sequentially: the rolling budget window
+ *   sums the per-round ε, and updates are refused once the budget is spent.
+ *
+ * Required Supabase SQL: supabase/migrations/federated_learning.sql
+ */
+
+import { supabaseAdmin } from '../utils/supabaseAdmin';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface FederatedUpdate {
+  gradients: number[][];
+  batchSize: number;
+  timestamp: number;
+  modelVersion: string;
+  epsilon: number;
+}
+
+export interface GlobalModel {
+  version: string;
+  round: number;
+  weights: number[][];
+  participants: number;
+  roundEpsilon: number;
+  createdAt: string;
+}
+
+export interface PrivacyBudget {
+  totalEpsilon: number;
+  spentEpsilon: number;
+  remainingEpsilon: number;
+  renewalPeriodDays: number;
+}
+
+export type SubmitResult =
+  | { status: 'queued'; pending: number; required: number }
+  | { status: 'aggregated'; model: GlobalModel }
+  | { status: 'stale_version'; currentVersion: string }
+  | { status: 'shape_mismatch'; expectedShape: number[] }
+  | { status: 'budget_exhausted'; budget: PrivacyBudget }
+  | { status: 'duplicate_contributor' }
+  | { status: 'round_rejected' };
+
+interface RoundRow {
+  version: string;
+  round: number;
+  weights: number[][];
+  participants: number;
+  round_epsilon: number;
+  created_at: string;
+}
+
+// ─── Configuration ────────────────────────────────────────────────────────────
+
+/**
+ * Layer shape of the global model. A single layer mirroring the client's
+ * `InteractionWeights` in key order:
+ * [layoutSimplificationEfficacy, colorMutingEfficacy, dyslexicFontAdoption, timeBufferAccuracy]
+ */
+const GLOBAL_MODEL_SHAPE = [4];
+
+const MIN_CLIENTS = Number(process.env.FEDERATED_MIN_CLIENTS) || 5;
+const TOTAL_EPSILON = Number(process.env.FEDERATED_EPSILON_BUDGET) || 8.0;
+const BUDGET_PERIOD_DAYS = Number(process.env.FEDERATED_BUDGET_PERIOD_DAYS) || 30;
+/** Scales the averaged delta before it is applied to the global weights. */
+const SERVER_LEARNING_RATE = 1.0;
+/** Matches the client's per-event sensitivity bound — averaged deltas are clipped to it. */
+const SENSITIVITY = 1.0;
+
+const versionForRound = (round: number) => `fedavg-r${round}`;
+
+const genesisModel = (): GlobalModel => ({
+  version: versionForRound(0),
+  round: 0,
+  weights: GLOBAL_MODEL_SHAPE.map((units) => new Array(units).fill(0)),
+  participants: 0,
+  roundEpsilon: 0,
+  createdAt: new Date(0).toISOString(),
+});
+
+// ─── FederatedAggregator Class ────────────────────────────────────────────────
+
+export class FederatedAggregator {
+  private globalModel: GlobalModel | null = null;
+  private loadPromise: Promise<void> | null = null;
+  private buffers: Map<string, FederatedUpdate[]> = new Map();
+  /** Users who contributed to each version's open round; dropped when it closes. */
+  private contributors: Map<string, Set<string>> = new Map();
+  /** Per-round ε ledger inside the current budget window. */
+  private epsilonLedger: { epsilon: number; at: number }[] = [];
+
+  // ── Loading ───────────────────────────────────────────────────────────────
+
+  /**
+   * Lazily restores the latest global model and the ε ledger from Supabase.
+   * Falls back to an all-zero genesis model if the table is unavailable.
+   */
+  private async ensureLoaded(): Promise<void> {
+    if (this.globalModel) return;
+    if (!this.loadPromise) {
+      this.loadPromise = this.loadFromStore().finally(() => { this.loadPromise = null; });
+    }
+    return this.loadPromise;
+  }
+
+  private async loadFromStore(): Promise<void> {
+    try {
+      const windowStart = new Date(Date.now() - BUDGET_PERIOD_DAYS * 86_400_000).toISOString();
+
+      const [latest, ledger] = await Promise.all([
+        supabaseAdmin
+          .from('federated_model_rounds')
+          .select('version, round, weights, participants, round_epsilon, created_at')
+          .order('round', { ascending: false })
+          .limit(1)
+          .maybeSingle(),
+        supabaseAdmin
+          .from('federated_model_rounds')
+          .select('round_epsilon, created_at')
+          .gte('created_at', windowStart),
+      ]);
+
+      if (latest.error) throw latest.error;
+      if (ledger.error) throw ledger.error;
+
+      const row = latest.data as RoundRow | null;
+      this.globalModel = row ? this.fromRow(row) : genesisModel();
+      this.epsilonLedger = (ledger.data ?? []).map((r) => ({
+        epsilon: Number(r.round_epsilon) || 0,
+        at: new Date(r.created_at).getTime(),
+      }));
+    } catch (err) {
+      console.warn('[Federated ML] Could not load global model, starting from genesis:', (err as Error).message);
+      this.globalModel = genesisModel();
+      this.epsilonLedger = [];
+    }
+  }
+
+  private fromRow(row: RoundRow): GlobalModel {
+    return {
+      version: row.version,
+      round: row.round,
+      weights: row.weights,
+      participants: row.participants,
+      roundEpsilon: Number(row.round_epsilon) || 0,
+      createdAt: row.created_at,
+    };
+  }
+
+  // ── Public API ────────────────────────────────────────────────────────────
+
+  async getGlobalModel(): Promise<GlobalModel> {
+    await this.ensureLoaded();
+    return this.globalModel!;
+  }
+
+  async getPrivacyBudget(): Promise<PrivacyBudget> {
+    await this.ensureLoaded();
+    const windowStart = Date.now() - BUDGET_PERIOD_DAYS * 86_400_000;
+    this.epsilonLedger = this.epsilonLedger.filter((e) => e.at >= windowStart);
+
+    const spent = this.epsilonLedger.reduce((sum, e) => sum + e.epsilon, 0);
+    return {
+      totalEpsilon: TOTAL_EPSILON,
+      spentEpsilon: Number(spent.toFixed(4)),
+      remainingEpsilon: Number(Math.max(0, TOTAL_EPSILON - spent).toFixed(4)),
+      renewalPeriodDays: BUDGET_PERIOD_DAYS,
+    };
+  }
+
+  /** Number of updates waiting for the current version's round to close. */
+  async getPendingCount(): Promise<number> {
+    const model = await this.getGlobalModel();
+    return this.buffers.get(model.version)?.length ?? 0;
+  }
+
+  /**
+   * Buffers a client update and runs FedAvg once enough clients contributed.
+   * `contributorId` only enforces one update per user per round.
+   */
+  async submitUpdate(update: FederatedUpdate, contributorId: string): Promise<SubmitResult> {
+    const budget = await this.getPrivacyBudget();
+    // Read the model after the last await so a round closing in between is seen.
+    const model = this.globalModel!;
+
+    if (update.modelVersion !== model.version) {
+      return { status: 'stale_version', currentVersion: model.version };
+    }
+
+    const shapeMatches =
+      update.gradients.length === GLOBAL_MODEL_SHAPE.length &&
+      update.gradients.every((layer, i) => layer.length === GLOBAL_MODEL_SHAPE[i]);
+    if (!shapeMatches) {
+      return { status: 'shape_mismatch', expectedShape: GLOBAL_MODEL_SHAPE };
+    }
+
+    if (update.epsilon > budget.remainingEpsilon) {
+      return { status: 'budget_exhausted', budget };
+    }
+
+    const contributors = this.contributors.get(model.version) ?? new Set<string>();
+    if (contributors.has(contributorId)) return { status: 'duplicate_contributor' };
+    contributors.add(contributorId);
+    this.contributors.set(model.version, contributors);
+
+    const buffer = this.buffers.get(model.version) ?? [];
+    buffer.push(update);
+    this.buffers.set(model.version, buffer);
+
+    if (buffer.length < MIN_CLIENTS) {
+      return { status: 'queued', pending: buffer.length, required: MIN_CLIENTS };
+    }
+
+    const next = await this.aggregate(model, buffer);
+    return next ? { status: 'aggregated', model: next } : { status: 'round_rejected' };
+  }
+
+  // ── Aggregation ───────────────────────────────────────────────────────────
+
+  /**
+   * FedAvg: weight each client by its local batch size, so the applied
+   * delta is the mean per-event delta across every contributing event.
+   * Returns null (and discards the round) if the result is not finite.
+   */
+  private async aggregate(model: GlobalModel, updates: FederatedUpdate[]): Promise<GlobalModel | null> {
+    const totalSamples = updates.reduce((sum, u) => sum + u.batchSize, 0);
+
+    const weights = model.weights.map((layer, li) =>
+      layer.map((w, wi) => {
+        const summed = updates.reduce((sum, u) => sum + u.gradients[li][wi], 0);
+        const meanDelta = Math.max(-SENSITIVITY, Math.min(SENSITIVITY, summed / totalSamples));
+        return w + SERVER_LEARNING_RATE * meanDelta;
+      })
+    );
+
+    if (!(totalSamples > 0) || !weights.every((layer) => layer.every(Number.isFinite))) {
+      this.buffers.delete(model.version);
+      this.contributors.delete(model.version);
+      console.warn(`[Federated ML] Discarded round for ${model.version}: aggregate was not finite.`);
+      return null;
+    }
+
+    const roundEpsilon = Math.max(...updates.map((u) => u.epsilon));
+    const round = model.round + 1;
+    const next: GlobalModel = {
+      version: versionForRound(round),
+      round,
+      weights,
+      participants: updates.length,
+      roundEpsilon,
+      createdAt: new Date().toISOString(),
+    };
+
+    // Swap state before the async persist so concurrent submissions land in the next round.
+    this.buffers.delete(model.version);
+    this.contributors.delete(model.version);
+    this.globalModel = next;
+    this.epsilonLedger.push({ epsilon: roundEpsilon, at: Date.now() });
+
+    const { error } = await supabaseAdmin.from('federated_model_rounds').insert({
+      version: next.version,
+      round: next.round,
+      weights: next.weights,
+      participants: next.participants,
+      round_epsilon: next.roundEpsilon,
+      created_at: next.createdAt,
+    });
+    if (error) {
+      // Keep serving the new model from memory; the next successful round is persisted normally.
+      console.warn('[Federated ML] Failed to persist round, serving from memory:', error.message);
+    }
+
+    console.log(`[Federated ML] Round ${round} aggregated from ${updates.length} clients (ε=${roundEpsilon}).`);
+    return next;
+  }
+}
+
+// ─── Singleton Export ─────────────────────────────────────────────────────────
+
+export const federatedAggregator = new FederatedAggregator();
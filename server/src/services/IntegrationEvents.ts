@@ -0,0 +1,158 @@
+/**
+ * IntegrationEvents.ts — Verified Webhook Events → Per-User Telemetry
+ *
+ * Once a Slack/Jira/Google webhook has passed signature verification
+ * (middleware/webhookAuth.ts), this service:
+ *
+ *   1. claims the delivery ID in `webhook_deliveries` — a duplicate key
+ *      means the request is a replay and is dropped. If a later step
+ *      fails the claim is released, so the provider's retry is processed;
+ *   2. maps the external identity (Slack user ID, Jira accountId, Google
+ *      email) to a Supabase user via `integration_identities`;
+ *   3. offers Slack/Jira items to the NotificationBuffer — while the user
+ *      is in hyperfocus or overload they are held for the next digest;
+ *   4. otherwise writes a `webhook_incoming` row to `telemetry_events` for
+ *      that user, which IntegrationDemoPanel receives over Supabase Realtime.
+ *
+ * Events for unmapped identities are discarded — nothing is stored
+ * against a placeholder user.
+ *
+ * Required Supabase SQL: supabase/migrations/webhook_integrations.sql
+ */
+
+import { supabaseAdmin } from '../utils/supabaseAdmin';
+import { notificationBuffer, NotificationPriority } from './NotificationBuffer';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** 'github' identities feed the RSD Shield (PullRequestShield), not telemetry. */
+export type IntegrationProvider = 'slack' | 'jira' | 'google' | 'github';
+
+export interface IntegrationEvent {
+  source: 'slack' | 'jira' | 'calendar';
+  eventId: string;
+  timestamp: string;
+  rawContent: string;
+  /** Decides whether the event may interrupt a flow session. */
+  priority: NotificationPriority;
+  metadata: Record<string, unknown>;
+}
+
+export type RecordResult =
+  | { status: 'recorded'; userId: string }
+  | { status: 'buffered'; userId: string }
+  | { status: 'replayed' }
+  | { status: 'unmapped' };
+
+// ─── IntegrationEvents Class ──────────────────────────────────────────────────
+
+export class IntegrationEvents {
+  /**
+   * Records a delivery ID, returning false if it was already seen.
+   */
+  async claimDelivery(provider: IntegrationProvider, deliveryId: string): Promise<boolean> {
+    const { data, error } = await supabaseAdmin
+      .from('webhook_deliveries')
+      .upsert({ provider, delivery_id: deliveryId }, { onConflict: 'provider,delivery_id', ignoreDuplicates: true })
+      .select('delivery_id');
+
+    if (error) throw new Error(`[Webhooks] Delivery ledger write failed: ${error.message}`);
+    return (data ?? []).length > 0;
+  }
+
+  /**
+   * Forgets a claimed delivery whose processing failed, so a retry isn't
+   * taken for a replay. Never throws: the caller rethrows the original error.
+   */
+  async releaseDelivery(provider: IntegrationProvider, deliveryId: string): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('webhook_deliveries')
+      .delete()
+      .eq('provider', provider)
+      .eq('delivery_id', deliveryId);
+
+    if (error) console.error(`[Webhooks] Could not release ${provider} delivery ${deliveryId}:`, error.message);
+  }
+
+  async resolveUser(provider: IntegrationProvider, externalId: string): Promise<string | null> {
+    const { data, error } = await supabaseAdmin
+      .from('integration_identities')
+      .select('user_id')
+      .eq('provider', provider)
+      .eq('external_id', provider === 'google' ? externalId.toLowerCase() : externalId)
+      .maybeSingle();
+
+    if (error) throw new Error(`[Webhooks] Identity lookup failed: ${error.message}`);
+    return (data?.user_id as string | undefined) ?? null;
+  }
+
+  /** Links an external identity to a user (e.g. after an OAuth callback). */
+  async linkIdentity(userId: string, provider: IntegrationProvider, externalId: string): Promise<void> {
+    const { error } = await supabaseAdmin.from('integration_identities').upsert({
+      provider,
+      external_id: provider === 'google' ? externalId.toLowerCase() : externalId,
+      user_id: userId,
+    });
+    if (error) throw new Error(`[Webhooks] Identity link failed: ${error.message}`);
+  }
+
+  /**
+   * Replay-checks, maps and stores one verified event. The delivery stays
+   * claimed only if it was fully processed.
+   */
+  async record(
+    provider: IntegrationProvider,
+    deliveryId: string,
+    externalId: string,
+    event: IntegrationEvent,
+  ): Promise<RecordResult> {
+    if (!(await this.claimDelivery(provider, deliveryId))) {
+      return { status: 'replayed' };
+    }
+
+    try {
+      return await this.deliver(provider, externalId, event);
+    } catch (err) {
+      await this.releaseDelivery(provider, deliveryId);
+      throw err;
+    }
+  }
+
+  /** Maps the event to its user and buffers or stores it. */
+  private async deliver(
+    provider: IntegrationProvider,
+    externalId: string,
+    event: IntegrationEvent,
+  ): Promise<RecordResult> {
+    const userId = await this.resolveUser(provider, externalId);
+    if (!userId) return { status: 'unmapped' };
+
+    if (event.source !== 'calendar') {
+      const offered = await notificationBuffer.offer(userId, {
+        source: event.source,
+        externalId: event.eventId,
+        sender: typeof event.metadata.sender === 'string' ? event.metadata.sender : undefined,
+        title: typeof event.metadata.title === 'string' ? event.metadata.title : undefined,
+        rawContent: event.rawContent,
+        priority: event.priority,
+        receivedAt: event.timestamp,
+      });
+      if (offered.status === 'buffered') return { status: 'buffered', userId };
+    }
+
+    const { error } = await supabaseAdmin.from('telemetry_events').insert({
+      user_id: userId,
+      event_type: 'webhook_incoming',
+      source: event.source,
+      event_data: event,
+      created_at: new Date().toISOString(),
+    });
+    if (error) throw new Error(`[Webhooks] Failed to log event: ${error.message}`);
+
+    return { status: 'recorded', userId };
+  }
+}
+
+// ─── Singleton Export ─────────────────────────────────────────────────────────
+
+export const integrationEvents = new IntegrationEvents();
@@ -0,0 +1,115 @@
+/**
+ * IntegrationLinks.ts — Binding External Accounts to the Signed-In User
+ *
+ * Webhook events are only delivered to a user once their external identity
+ * is in `integration_identities` (see IntegrationEvents). That link must
+ * come from the user proving both sides, so the OAuth `state` never carries
+ * a user ID:
+ *
+ *   POST /api/integrations/:provider/link  (signed in)
+ *        └─▶ single-use nonce stored as a hash with the user ID,
+ *            state = nonce.HMAC(nonce) ──▶ provider consent screen
+ *   provider callback ?code&state
+ *        └─▶ HMAC checked, nonce consumed in one conditional UPDATE
+ *            (unused, unexpired) ──▶ user ID ──▶ linkIdentity
+ *
+ * A state is valid for STATE_TTL_MS and only once; a forged, replayed or
+ * expired state resolves to no user and nothing is linked.
+ *
+ * Required Supabase SQL: supabase/migrations/integration_link_states.sql
+ */
+
+import crypto from 'crypto';
+import { supabaseAdmin } from '../utils/supabaseAdmin';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** Providers a user can link from the app. */
+export type LinkProvider = 'google' | 'slack' | 'jira' | 'github';
+
+export const LINK_PROVIDERS: readonly LinkProvider[] = ['google', 'slack', 'jira', 'github'];
+
+// ─── Configuration ────────────────────────────────────────────────────────────
+
+const STATE_TTL_MS = 10 * 60 * 1000;
+const NONCE_BYTES = 24;
+
+const sign = (secret: string, data: string) => crypto.createHmac('sha256', secret).update(data).digest('base64url');
+
+const hashNonce = (nonce: string) => crypto.createHash('sha256').update(nonce).digest('hex');
+
+const safeEqual = (a: string, b: string) => {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+};
+
+// ─── IntegrationLinks Class ───────────────────────────────────────────────────
+
+export class IntegrationLinks {
+  /** States are signed with INTEGRATION_STATE_SECRET; without it linking is disabled. */
+  isConfigured(): boolean {
+    return !!process.env.INTEGRATION_STATE_SECRET;
+  }
+
+  /** Issues the OAuth `state` for `userId` to link `provider`. */
+  async createState(userId: string, provider: LinkProvider): Promise<string> {
+    const secret = this.secret();
+    const nonce = crypto.randomBytes(NONCE_BYTES).toString('base64url');
+
+    const { error } = await supabaseAdmin.from('integration_link_states').insert({
+      nonce_hash: hashNonce(nonce),
+      user_id: userId,
+      provider,
+      expires_at: new Date(Date.now() + STATE_TTL_MS).toISOString(),
+    });
+    if (error) throw new Error(`[IntegrationLinks] State insert failed: ${error.message}`);
+
+    return `${nonce}.${sign(secret, nonce)}`;
+  }
+
+  /**
+   * Consumes a callback's `state`. Returns the user who started the link, or
+   * null if the state is forged, for another provider, expired or already used.
+   */
+  async consumeState(state: string, provider: LinkProvider): Promise<string | null> {
+    const secret = process.env.INTEGRATION_STATE_SECRET;
+    const [nonce, signature] = state.split('.');
+    if (!secret || !nonce || !signature || !safeEqual(sign(secret, nonce), signature)) return null;
+
+    const now = new Date().toISOString();
+    const { data, error } = await supabaseAdmin
+      .from('integration_link_states')
+      .update({ consumed_at: now })
+      .eq('nonce_hash', hashNonce(nonce))
+      .eq('provider', provider)
+      .is('consumed_at', null)
+      .gt('expires_at', now)
+      .select('user_id')
+      .maybeSingle();
+    if (error) throw new Error(`[IntegrationLinks] State consume failed: ${error.message}`);
+    return (data?.user_id as string | undefined) ?? null;
+  }
+
+  /** Providers the user has linked. */
+  async listLinked(userId: string): Promise<string[]> {
+    const { data, error } = await supabaseAdmin
+      .from('integration_identities')
+      .select('provider')
+      .eq('user_id', userId);
+    if (error) throw new Error(`[IntegrationLinks] Identity query failed: ${error.message}`);
+    return [...new Set((data ?? []).map((r) => r.provider as string))];
+  }
+
+  // ─── Internals ──────────────────────────────────────────────────────────────
+
+  private secret(): string {
+    const secret = process.env.INTEGRATION_STATE_SECRET;
+    if (!secret) throw new Error('[IntegrationLinks] INTEGRATION_STATE_SECRET is not set.');
+    return secret;
+  }
+}
+
+// ─── Singleton Export ─────────────────────────────────────────────────────────
+
+export const integrationLinks = new IntegrationLinks();
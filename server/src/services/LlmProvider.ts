@@ -0,0 +1,468 @@
+/**
+ * LlmProvider.ts — Pluggable Text Generation
+ *
+ * Every server-side LLM call (agent routes, structured agents, RSD
+ * sanitization, commitment extraction, notification digests, the
+ * orchestrator's memory tool loop) goes through this interface, so the
+ * whole server runs without a network or an API key. Four providers,
+ * selected with LLM_PROVIDER:
+ *
+ *   gemini   GeminiLlmProvider     @google/generative-ai (default when GEMINI_API_KEY is set)
+ *   mock     MockLlmProvider       deterministic, no network (default without a key)
+ *   record   RecordingLlmProvider  Gemini, writing each exchange to LLM_FIXTURES_DIR
+ *   replay   ReplayLlmProvider     answers from recorded fixtures, mock on a miss
+ *
+ * server/fixtures/llm holds fixtures for every /api/agents/* route;
+ * `npm run replay:agents` checks the routes against them (jobs/replayAgentFixtures.ts).
+ *
+ * The exported `llmProvider` wraps the selected one in MeteredLlmProvider,
+ * which reports each call's tokens and latency to registered hooks.
+ *
+ * Call sites name themselves with `purpose` (e.g. `agent:analyzeThread`) and
+ * may supply a `mock` answer in the shape they expect; the mock provider
+ * returns it verbatim, otherwise a short echo. Fixtures are keyed by purpose,
+ * model and conversation, so a replay only answers the exact call recorded.
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import {
+  GoogleGenerativeAI,
+  SchemaType,
+  type Content,
+  type FunctionDeclarationSchema,
+  type GenerateContentRequest,
+} from '@google/generative-ai';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface LlmMessage {
+  role: 'user' | 'model';
+  text: string;
+}
+
+/** A function the model may call; parameters are flat and JSON-typed. */
+export interface LlmToolDeclaration {
+  name: string;
+  description: string;
+  parameters: Record<string, { type: 'string' | 'number' | 'boolean'; description: string }>;
+  required?: string[];
+}
+
+export interface LlmToolCall {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface LlmRequest {
+  /** Names the call site: keys fixtures and shows up in logs. */
+  purpose: string;
+  /** A single user turn, or a whole conversation ending with a user turn. */
+  prompt: string | LlmMessage[];
+  model?: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+  tools?: LlmToolDeclaration[];
+  /** Use GEMINI_API_KEY_2 when set, keeping this load off the primary key's quota. */
+  secondaryKey?: boolean;
+  /** What the mock provider answers. Defaults to an echo of the last user turn. */
+  mock?: () => string;
+}
+
+export interface LlmUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LlmResponse {
+  text: string;
+  toolCalls: LlmToolCall[];
+  model: string;
+  /** Reported by Gemini; estimated (≈4 characters per token) elsewhere. */
+  usage: LlmUsage;
+}
+
+/** One finished (or failed) call, as seen by `LlmHooks.afterCall`. */
+export interface LlmCallEvent extends LlmUsage {
+  purpose: string;
+  model: string;
+  latencyMs: number;
+  error: string | null;
+}
+
+export interface LlmHooks {
+  /** Runs before every call; throwing cancels it (e.g. a spent quota). */
+  beforeCall?(request: LlmRequest): void;
+  afterCall?(event: LlmCallEvent): void;
+}
+
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  generate(request: LlmRequest): Promise<LlmResponse>;
+  /** Text chunks as they arrive. Tools are not supported while streaming. */
+  stream(request: LlmRequest): AsyncIterable<string>;
+}
+
+export type LlmProviderName = 'gemini' | 'mock' | 'record' | 'replay';
+
+interface LlmFixture {
+  purpose: string;
+  key: string;
+  request: { model: string; messages: LlmMessage[]; tools: string[] };
+  response: LlmResponse;
+  recordedAt: string;
+}
+
+// ─── Configuration ────────────────────────────────────────────────────────────
+
+export const DEFAULT_LLM_MODEL = 'gemini-2.0-flash';
+
+const PROVIDER_NAMES: LlmProviderName[] = ['gemini', 'mock', 'record', 'replay'];
+
+const DEFAULT_FIXTURES_DIR = path.resolve(__dirname, '../../fixtures/llm');
+
+/** Rate limits and overload are retried with exponential backoff; anything else fails fast. */
+const RETRYABLE_STATUSES = new Set([429, 500, 503]);
+const MAX_RETRIES = 3;
+const RETRY_BASE_MS = 1_000;
+
+const MOCK_CHUNK_WORDS = 4;
+
+const toMessages = (prompt: LlmRequest['prompt']): LlmMessage[] =>
+  typeof prompt === 'string' ? [{ role: 'user', text: prompt }] : prompt;
+
+const lastUserText = (request: LlmRequest): string =>
+  toMessages(request.prompt).filter((m) => m.role === 'user').pop()?.text ?? '';
+
+/** Rough token count for providers that don't report one. */
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const estimateUsage = (request: LlmRequest, output: string): LlmUsage => ({
+  inputTokens: estimateTokens(toMessages(request.prompt).map((m) => m.text).join('\n')),
+  outputTokens: estimateTokens(output),
+});
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Stable across machines: same purpose, model, conversation and tools → same key. */
+export const fixtureKey = (request: LlmRequest): string =>
+  createHash('sha256')
+    .update(JSON.stringify([
+      request.purpose,
+      request.model ?? DEFAULT_LLM_MODEL,
+      toMessages(request.prompt),
+      (request.tools ?? []).map((t) => t.name),
+    ]))
+    .digest('hex');
+
+const fixturePath = (dir: string, request: LlmRequest, key: string) =>
+  path.join(dir, `${request.purpose.replace(/[^a-z0-9-]+/gi, '_')}-${key.slice(0, 16)}.json`);
+
+// ─── Providers ────────────────────────────────────────────────────────────────
+
+export class GeminiLlmProvider implements LlmProvider {
+  readonly name = 'gemini';
+  private readonly primary: GoogleGenerativeAI | null;
+  private readonly secondary: GoogleGenerativeAI | null;
+
+  constructor(
+    primaryKey = process.env.GEMINI_API_KEY,
+    secondaryKey = process.env.GEMINI_API_KEY_2,
+  ) {
+    if (!primaryKey && !secondaryKey) {
+      console.warn('[LLM] ⚠ Neither GEMINI_API_KEY nor GEMINI_API_KEY_2 is set. Gemini calls will fail.');
+    }
+    this.primary = primaryKey ? new GoogleGenerativeAI(primaryKey) : null;
+    this.secondary = secondaryKey ? new GoogleGenerativeAI(secondaryKey) : null;
+  }
+
+  async generate(request: LlmRequest): Promise<LlmResponse> {
+    const model = request.model ?? DEFAULT_LLM_MODEL;
+    const result = await this.withRetries(request, () => this.model(request).generateContent(this.toGeminiRequest(request)));
+    const calls = result.response.functionCalls() ?? [];
+    const text = calls.length > 0 ? '' : result.response.text();
+    const metadata = result.response.usageMetadata;
+
+    return {
+      text,
+      toolCalls: calls.map((call) => ({
+        name: call.name,
+        args: (call.args ?? {}) as Record<string, unknown>,
+      })),
+      model,
+      usage: metadata
+        ? { inputTokens: metadata.promptTokenCount, outputTokens: metadata.candidatesTokenCount ?? 0 }
+        : estimateUsage(request, text),
+    };
+  }
+
+  async *stream(request: LlmRequest): AsyncIterable<string> {
+    const result = await this.withRetries(request, () => this.model(request).generateContentStream(this.toGeminiRequest(request)));
+    for await (const chunk of result.stream) yield chunk.text();
+  }
+
+  private model(request: LlmRequest) {
+    const client = (request.secondaryKey && this.secondary) || this.primary || this.secondary;
+    if (!client) throw new Error('[LLM] GEMINI_API_KEY is not set.');
+
+    // NOTE: We rely on prompt-level JSON instructions + sanitizeGeminiJson()
+    // instead of responseMimeType, which causes 500s on some model versions.
+    return client.getGenerativeModel({
+      model: request.model ?? DEFAULT_LLM_MODEL,
+      generationConfig: {
+        temperature: request.temperature ?? 0.2,
+        ...(request.maxOutputTokens && { maxOutputTokens: request.maxOutputTokens }),
+      },
+    });
+  }
+
+  private toGeminiRequest(request: LlmRequest): GenerateContentRequest {
+    const contents: Content[] = toMessages(request.prompt).map((m) => ({ role: m.role, parts: [{ text: m.text }] }));
+    if (!request.tools?.length) return { contents };
+
+    return {
+      contents,
+      tools: [{
+        functionDeclarations: request.tools.map((t) => ({
+          name: t.name,
+          description: t.description,
+          parameters: {
+            type: SchemaType.OBJECT,
+            properties: Object.fromEntries(Object.entries(t.parameters).map(([key, p]) => [
+              key,
+              { type: p.type === 'string' ? SchemaType.STRING : p.type === 'number' ? SchemaType.NUMBER : SchemaType.BOOLEAN, description: p.description },
+            ])),
+            required: t.required ?? Object.keys(t.parameters),
+          } as FunctionDeclarationSchema,
+        })),
+      }],
+    };
+  }
+
+  private async withRetries<T>(request: LlmRequest, call: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await call();
+      } catch (err) {
+        const status = (err as { status?: number }).status;
+        if (attempt >= MAX_RETRIES || status === undefined || !RETRYABLE_STATUSES.has(status)) throw err;
+
+        const delay = RETRY_BASE_MS * 2 ** attempt;
+        console.warn(`[LLM] ${request.purpose}: Gemini ${status}, retrying in ${delay}ms (${attempt + 1}/${MAX_RETRIES}).`);
+        await sleep(delay);
+      }
+    }
+  }
+}
+
+/**
+ * Deterministic and offline: answers with the call site's `mock`, or an
+ * echo of the last user turn. Never calls tools. Every request is recorded.
+ */
+export class MockLlmProvider implements LlmProvider {
+  readonly name = 'mock';
+  readonly calls: LlmRequest[] = [];
+
+  async generate(request: LlmRequest): Promise<LlmResponse> {
+    this.calls.push(request);
+    const text = this.answer(request);
+    return { text, toolCalls: [], model: `mock:${request.model ?? DEFAULT_LLM_MODEL}`, usage: estimateUsage(request, text) };
+  }
+
+  async *stream(request: LlmRequest): AsyncIterable<string> {
+    this.calls.push(request);
+    const words = this.answer(request).split(/(?<=\s)/);
+    for (let i = 0; i < words.length; i += MOCK_CHUNK_WORDS) {
+      yield words.slice(i, i + MOCK_CHUNK_WORDS).join('');
+    }
+  }
+
+  private answer(request: LlmRequest): string {
+    if (request.mock) return request.mock();
+    const excerpt = lastUserText(request).replace(/\s+/g, ' ').trim().slice(0, 160);
+    return `[mock ${request.purpose}] ${excerpt}`;
+  }
+}
+
+/** Gemini, saving every completed exchange as a fixture for ReplayLlmProvider. */
+export class RecordingLlmProvider implements LlmProvider {
+  readonly name = 'record';
+
+  constructor(
+    private readonly inner: LlmProvider = new GeminiLlmProvider(),
+    private readonly dir = process.env.LLM_FIXTURES_DIR || DEFAULT_FIXTURES_DIR,
+  ) {}
+
+  async generate(request: LlmRequest): Promise<LlmResponse> {
+    const response = await this.inner.generate(request);
+    this.save(request, response);
+    return response;
+  }
+
+  async *stream(request: LlmRequest): AsyncIterable<string> {
+    let text = '';
+    for await (const chunk of this.inner.stream(request)) {
+      text += chunk;
+      yield chunk;
+    }
+    this.save(request, { text, toolCalls: [], model: request.model ?? DEFAULT_LLM_MODEL, usage: estimateUsage(request, text) });
+  }
+
+  private save(request: LlmRequest, response: LlmResponse) {
+    const key = fixtureKey(request);
+    const fixture: LlmFixture = {
+      purpose: request.purpose,
+      key,
+      request: {
+        model: request.model ?? DEFAULT_LLM_MODEL,
+        messages: toMessages(request.prompt),
+        tools: (request.tools ?? []).map((t) => t.name),
+      },
+      response,
+      recordedAt: new Date().toISOString(),
+    };
+
+    try {
+      mkdirSync(this.dir, { recursive: true });
+      writeFileSync(fixturePath(this.dir, request, key), `${JSON.stringify(fixture, null, 2)}\n`);
+    } catch (err) {
+      console.error(`[LLM] Failed to record ${request.purpose}:`, (err as Error).message);
+    }
+  }
+}
+
+/**
+ * Answers from fixtures written by RecordingLlmProvider; unrecorded calls go
+ * to the mock, or fail when `strict` (LLM_REPLAY_STRICT=true) so a replay
+ * run can prove every call was recorded.
+ */
+export class ReplayLlmProvider implements LlmProvider {
+  readonly name = 'replay';
+
+  constructor(
+    private readonly dir = process.env.LLM_FIXTURES_DIR || DEFAULT_FIXTURES_DIR,
+    private readonly fallback: LlmProvider = new MockLlmProvider(),
+    private readonly strict = process.env.LLM_REPLAY_STRICT === 'true',
+  ) {}
+
+  async generate(request: LlmRequest): Promise<LlmResponse> {
+    return this.load(request) ?? this.fallback.generate(request);
+  }
+
+  async *stream(request: LlmRequest): AsyncIterable<string> {
+    const fixture = this.load(request);
+    if (fixture) {
+      yield fixture.text;
+      return;
+    }
+    yield* this.fallback.stream(request);
+  }
+
+  private load(request: LlmRequest): LlmResponse | null {
+    const key = fixtureKey(request);
+    const file = fixturePath(this.dir, request, key);
+    if (!existsSync(file)) {
+      if (this.strict) throw new Error(`[LLM] No fixture for ${request.purpose} (${key.slice(0, 16)}).`);
+      console.warn(`[LLM] No fixture for ${request.purpose} (${key.slice(0, 16)}), using mock.`);
+      return null;
+    }
+    const { response } = JSON.parse(readFileSync(file, 'utf8')) as LlmFixture;
+    return { ...response, usage: response.usage ?? estimateUsage(request, response.text) };
+  }
+}
+
+/**
+ * Wraps the active provider so usage metering (services/UsageMeter.ts) sees
+ * every call without each call site reporting it. Streams are measured by
+ * estimate once they finish.
+ */
+export class MeteredLlmProvider implements LlmProvider {
+  private readonly hooks: LlmHooks[] = [];
+
+  constructor(private readonly inner: LlmProvider) {}
+
+  get name(): LlmProviderName {
+    return this.inner.name;
+  }
+
+  use(hooks: LlmHooks) {
+    this.hooks.push(hooks);
+  }
+
+  async generate(request: LlmRequest): Promise<LlmResponse> {
+    this.hooks.forEach((h) => h.beforeCall?.(request));
+    const startedAt = Date.now();
+
+    try {
+      const response = await this.inner.generate(request);
+      this.emit(request, response.model, response.usage, startedAt, null);
+      return response;
+    } catch (err) {
+      this.emit(request, request.model ?? DEFAULT_LLM_MODEL, { inputTokens: 0, outputTokens: 0 }, startedAt, err);
+      throw err;
+    }
+  }
+
+  async *stream(request: LlmRequest): AsyncIterable<string> {
+    this.hooks.forEach((h) => h.beforeCall?.(request));
+    const startedAt = Date.now();
+    let text = '';
+
+    try {
+      for await (const chunk of this.inner.stream(request)) {
+        text += chunk;
+        yield chunk;
+      }
+      this.emit(request, request.model ?? DEFAULT_LLM_MODEL, estimateUsage(request, text), startedAt, null);
+    } catch (err) {
+      this.emit(request, request.model ?? DEFAULT_LLM_MODEL, estimateUsage(request, text), startedAt, err);
+      throw err;
+    }
+  }
+
+  private emit(request: LlmRequest, model: string, usage: LlmUsage, startedAt: number, err: unknown) {
+    const event: LlmCallEvent = {
+      purpose: request.purpose,
+      model,
+      ...usage,
+      latencyMs: Date.now() - startedAt,
+      error: err ? (err as Error).message : null,
+    };
+    for (const h of this.hooks) {
+      try {
+        h.afterCall?.(event);
+      } catch (hookErr) {
+        console.error('[LLM] Usage hook failed:', (hookErr as Error).message);
+      }
+    }
+  }
+}
+
+// ─── Factory ──────────────────────────────────────────────────────────────────
+
+/**
+ * Provider named by `name` (default: LLM_PROVIDER, then 'gemini' if a key is
+ * set, else 'mock'). Unknown names fall back to that default with a warning
+ * rather than failing boot.
+ */
+export const createLlmProvider = (name = process.env.LLM_PROVIDER): LlmProvider => {
+  const fallback: LlmProviderName = process.env.GEMINI_API_KEY || process.env.GEMINI_API_KEY_2 ? 'gemini' : 'mock';
+  let selected = (name || fallback).toLowerCase() as LlmProviderName;
+
+  if (!PROVIDER_NAMES.includes(selected)) {
+    console.warn(`[LLM] Unknown LLM_PROVIDER "${name}", using ${fallback}.`);
+    selected = fallback;
+  }
+
+  switch (selected) {
+    case 'mock':   return new MockLlmProvider();
+    case 'record': return new RecordingLlmProvider();
+    case 'replay': return new ReplayLlmProvider();
+    default:       return new GeminiLlmProvider();
+  }
+};
+
+// ─── Singleton Export ─────────────────────────────────────────────────────────
+
+export const llmProvider = new MeteredLlmProvider(createLlmProvider());
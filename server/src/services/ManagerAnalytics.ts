@@ -0,0 +1,265 @@
+/**
+ * ManagerAnalytics.ts — k-Anonymous Team Aggregates for the Manager Dashboard
+ *
+ * Managers see team-level burnout trends, accommodation usage and ROI, but
+ * never anything traceable to a person. Every released figure is a "cell"
+ * computed from some number of contributing users, and:
+ *
+ *   1. Any cell with fewer than MANAGER_K_ANONYMITY contributors is
+ *      suppressed (returned as null, along with its contributor count).
+ *   2. If MANAGER_NOISE_EPSILON is set, Laplace noise scaled to the cell's
+ *      sensitivity / ε is added to every released value.
+ *   3. Releases are cached for RELEASE_TTL_MS, so polling the endpoint
+ *      can't average the noise away.
+ *
+ * Raw group counts come from SQL functions that only the service role may
+ * execute. Derived figures (ROI) are computed from already-released cells.
+ *
+ * Required Supabase SQL: supabase/migrations/manager_aggregates.sql
+ */
+
+import { supabaseAdmin } from '../utils/supabaseAdmin';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type AccommodationFeature = 'communication_proxy' | 'sensory_equalizer' | 'time_blindness_buffer';
+
+export interface BurnoutTrendPoint {
+  date: string;
+  /** 0-100, or null when suppressed. */
+  riskScore: number | null;
+  contributors: number | null;
+}
+
+export interface BurnoutTrend {
+  windowDays: number;
+  kAnonymityThreshold: number;
+  points: BurnoutTrendPoint[];
+}
+
+export interface AccommodationUsage {
+  feature: AccommodationFeature;
+  label: string;
+  /** Share of active users who used the feature in the window, 0-100. */
+  usagePercent: number | null;
+  users: number | null;
+}
+
+export interface AccommodationReport {
+  windowDays: number;
+  kAnonymityThreshold: number;
+  activeUsers: number | null;
+  features: AccommodationUsage[];
+  /** Hours of masking labour the Communication Proxy saved across the team. */
+  maskingHoursSaved: number | null;
+}
+
+export interface RoiReport {
+  clusterName: string;
+  windowDays: number;
+  kAnonymityThreshold: number;
+  activeUsers: number | null;
+  baselineTurnoverRate: number;
+  costPerTurnover: number;
+  /** Relative drop in team risk from the first to the last week of the window, 0-1. */
+  burnoutRiskReduction: number | null;
+  preventedDepartures: number | null;
+  annualSavings: number | null;
+}
+
+interface DailyRiskRow {
+  day: string;
+  contributors: number;
+  mean_load: number;
+  overload_share: number;
+}
+
+interface FeatureUsageRow {
+  feature: AccommodationFeature;
+  users: number;
+  minutes_saved: number;
+}
+
+// ─── Configuration ────────────────────────────────────────────────────────────
+
+const K_ANONYMITY = Number(process.env.MANAGER_K_ANONYMITY) || 5;
+/** 0 (default) disables noise; suppression always applies. */
+const NOISE_EPSILON = Number(process.env.MANAGER_NOISE_EPSILON) || 0;
+const CLUSTER_NAME = process.env.MANAGER_CLUSTER_NAME || 'All Teams';
+const BASELINE_TURNOVER_RATE = Number(process.env.MANAGER_BASELINE_TURNOVER) || 0.15;
+const COST_PER_TURNOVER = Number(process.env.MANAGER_COST_PER_TURNOVER) || 50_000;
+
+const RELEASE_TTL_MS = 60 * 60 * 1000;
+/** Caps one user's minutes-saved contribution, bounding the sensitivity of the sum. */
+const MAX_USER_MINUTES_SAVED = 600;
+const ROI_COMPARISON_DAYS = 7;
+
+/**
+ * Same weights as the personal burnout forecast (src/lib/algorithms/burnoutForecast.ts),
+ * restricted to the two terms available org-wide and renormalised.
+ */
+const RISK_WEIGHTS = { meanLoad: 2 / 3, overloadShare: 1 / 3 };
+
+const FEATURE_LABELS: Record<AccommodationFeature, string> = {
+  communication_proxy: 'Communication Proxy',
+  sensory_equalizer: 'Sensory Equalizer',
+  time_blindness_buffer: 'Time Blindness Buffer',
+};
+
+const MS_PER_DAY = 86_400_000;
+
+const windowStart = (days: number) => {
+  const from = new Date(Date.now() - days * MS_PER_DAY);
+  from.setUTCHours(0, 0, 0, 0);
+  return from.toISOString();
+};
+
+/** Laplace(0, scale) via inverse CDF. */
+const laplace = (scale: number) => {
+  const u = Math.random() - 0.5;
+  return -scale * Math.sign(u) * Math.log(1 - 2 * Math.abs(u));
+};
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+// ─── ManagerAnalytics Class ───────────────────────────────────────────────────
+
+export class ManagerAnalytics {
+  private releases: Map<string, { value: unknown; expiresAt: number }> = new Map();
+
+  // ── Privacy primitives ────────────────────────────────────────────────────
+
+  /**
+   * Releases one cell: null below k contributors, otherwise the value plus
+   * Laplace noise for the given sensitivity (when noise is enabled).
+   */
+  private release(value: number, contributors: number, sensitivity: number): number | null {
+    if (contributors < K_ANONYMITY) return null;
+    return NOISE_EPSILON > 0 ? value + laplace(sensitivity / NOISE_EPSILON) : value;
+  }
+
+  /** Noisy contributor count for display; null when the cell is suppressed. */
+  private releaseCount(count: number): number | null {
+    const released = this.release(count, count, 1);
+    return released === null ? null : Math.max(K_ANONYMITY, Math.round(released));
+  }
+
+  private async cached<T>(key: string, compute: () => Promise<T>): Promise<T> {
+    const hit = this.releases.get(key);
+    if (hit && hit.expiresAt > Date.now()) return hit.value as T;
+
+    const value = await compute();
+    this.releases.set(key, { value, expiresAt: Date.now() + RELEASE_TTL_MS });
+    return value;
+  }
+
+  // ── Raw queries ───────────────────────────────────────────────────────────
+
+  private async fetchActiveUsers(days: number): Promise<number> {
+    const { data, error } = await supabaseAdmin.rpc('manager_active_users', { p_from: windowStart(days) });
+    if (error) throw new Error(`[ManagerAnalytics] Active user query failed: ${error.message}`);
+    return Number(data) || 0;
+  }
+
+  // ── Public API ────────────────────────────────────────────────────────────
+
+  /** Daily team burnout risk over the last `days` days. */
+  async getBurnoutTrend(days: number): Promise<BurnoutTrend> {
+    return this.cached(`trend:${days}`, async () => {
+      const { data, error } = await supabaseAdmin.rpc('manager_daily_risk', { p_from: windowStart(days) });
+      if (error) throw new Error(`[ManagerAnalytics] Daily risk query failed: ${error.message}`);
+
+      const points = ((data as DailyRiskRow[]) ?? []).map((row) => {
+        const risk = RISK_WEIGHTS.meanLoad * row.mean_load + RISK_WEIGHTS.overloadShare * row.overload_share * 100;
+        // Each user's risk is bounded to [0, 100], so one user moves the mean by at most 100/n.
+        const released = this.release(risk, row.contributors, 100 / Math.max(row.contributors, 1));
+        return {
+          date: new Date(row.day).toISOString().slice(0, 10),
+          riskScore: released === null ? null : round1(Math.max(0, Math.min(100, released))),
+          contributors: this.releaseCount(row.contributors),
+        };
+      });
+
+      return { windowDays: days, kAnonymityThreshold: K_ANONYMITY, points };
+    });
+  }
+
+  /** Share of active users per accommodation, plus masking hours saved. */
+  async getAccommodationUsage(days: number): Promise<AccommodationReport> {
+    return this.cached(`accommodations:${days}`, async () => {
+      const [activeUsers, usage] = await Promise.all([
+        this.fetchActiveUsers(days),
+        supabaseAdmin.rpc('manager_feature_usage', { p_from: windowStart(days), p_max_user_minutes: MAX_USER_MINUTES_SAVED }),
+      ]);
+      if (usage.error) throw new Error(`[ManagerAnalytics] Feature usage query failed: ${usage.error.message}`);
+
+      const releasedActive = this.releaseCount(activeUsers);
+      const rows = new Map(((usage.data as FeatureUsageRow[]) ?? []).map((row) => [row.feature, row]));
+
+      const features = (Object.keys(FEATURE_LABELS) as AccommodationFeature[]).map((feature) => {
+        const users = rows.get(feature)?.users ?? 0;
+        const releasedUsers = releasedActive === null ? null : this.release(users, users, 1);
+        return {
+          feature,
+          label: FEATURE_LABELS[feature],
+          usagePercent: releasedUsers === null || releasedActive === null
+            ? null
+            : round1(Math.max(0, Math.min(100, (releasedUsers / releasedActive) * 100))),
+          users: releasedUsers === null ? null : Math.max(K_ANONYMITY, Math.round(releasedUsers)),
+        };
+      });
+
+      const proxy = rows.get('communication_proxy');
+      const savedHours = proxy ? this.release(proxy.minutes_saved / 60, proxy.users, MAX_USER_MINUTES_SAVED / 60) : null;
+
+      return {
+        windowDays: days,
+        kAnonymityThreshold: K_ANONYMITY,
+        activeUsers: releasedActive,
+        features,
+        maskingHoursSaved: savedHours === null ? null : Math.max(0, Math.round(savedHours)),
+      };
+    });
+  }
+
+  /**
+   * Retention ROI from released trend cells only: the relative drop in team
+   * risk between the first and last week of the window drives the estimate.
+   */
+  async getRoi(days: number): Promise<RoiReport> {
+    return this.cached(`roi:${days}`, async () => {
+      const [activeUsers, trend] = await Promise.all([this.fetchActiveUsers(days), this.getBurnoutTrend(days)]);
+      const releasedActive = this.releaseCount(activeUsers);
+
+      const meanRisk = (points: BurnoutTrendPoint[]) => {
+        const released = points.map((p) => p.riskScore).filter((r): r is number => r !== null);
+        return released.length > 0 ? released.reduce((sum, r) => sum + r, 0) / released.length : null;
+      };
+      const early = meanRisk(trend.points.slice(0, ROI_COMPARISON_DAYS));
+      const late = meanRisk(trend.points.slice(-ROI_COMPARISON_DAYS));
+
+      const reduction = early !== null && late !== null && early > 0 && trend.points.length > ROI_COMPARISON_DAYS
+        ? Math.max(0, (early - late) / early)
+        : null;
+      const preventedDepartures = releasedActive !== null && reduction !== null
+        ? releasedActive * BASELINE_TURNOVER_RATE * reduction
+        : null;
+
+      return {
+        clusterName: CLUSTER_NAME,
+        windowDays: days,
+        kAnonymityThreshold: K_ANONYMITY,
+        activeUsers: releasedActive,
+        baselineTurnoverRate: BASELINE_TURNOVER_RATE,
+        costPerTurnover: COST_PER_TURNOVER,
+        burnoutRiskReduction: reduction === null ? null : Number(reduction.toFixed(3)),
+        preventedDepartures: preventedDepartures === null ? null : round1(preventedDepartures),
+        annualSavings: preventedDepartures === null ? null : Math.round(preventedDepartures * COST_PER_TURNOVER),
+      };
+    });
+  }
+}
+
+// ─── Singleton Export ─────────────────────────────────────────────────────────
+
+export const managerAnalytics = new ManagerAnalytics();
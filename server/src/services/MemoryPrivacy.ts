@@ -0,0 +1,224 @@
+/**
+ * MemoryPrivacy.ts — Retention, Export & Right to Be Forgotten
+ *
+ * Prosthetic memory holds verbatim workplace conversations, so users decide
+ * how long each source is kept and can take everything with them:
+ *
+ *   retention  per-source windows (Slack 90 days, Jira 365, ...), overridable
+ *              per user; the `memory-retention` Edge Function purges daily
+ *   export     a full JSON archive: memories, commitments, policies
+ *   erase      deletes every memory and commitment, but only within
+ *              ERASE_WINDOW_MINUTES of an export, so nothing is destroyed
+ *              that the user hasn't been handed a copy of
+ *
+ * Every export, erase and purge is written to `memory_privacy_log` (counts
+ * only, never content). PII redaction happens before storage, in
+ * routes/memory.ts (see utils/redactPii.ts).
+ *
+ * Required Supabase SQL: supabase/migrations/memory_retention.sql
+ */
+
+import { supabaseAdmin } from '../utils/supabaseAdmin';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** memory_entries.metadata.source, or 'other' for anything else. */
+export type RetentionSource = 'slack' | 'jira' | 'google_meet' | 'zoom' | 'other';
+
+export const RETENTION_SOURCES: RetentionSource[] = ['slack', 'jira', 'google_meet', 'zoom', 'other'];
+
+export interface RetentionPolicy {
+  source: RetentionSource;
+  /** null keeps memories from this source forever. */
+  retentionDays: number | null;
+  /** The default applies because the user hasn't set one. */
+  isDefault: boolean;
+  defaultDays: number | null;
+}
+
+export interface RetentionUpdate {
+  source: RetentionSource;
+  retentionDays: number | null;
+}
+
+export interface MemoryArchive {
+  format: 'neuroadaptive-memory-archive';
+  version: 1;
+  exportId: string;
+  exportedAt: string;
+  userId: string;
+  /** Rows as stored, minus embedding vectors (derived, and model-specific). */
+  memories: Record<string, unknown>[];
+  commitments: Record<string, unknown>[];
+  retentionPolicies: RetentionPolicy[];
+}
+
+export interface EraseResult {
+  memoriesDeleted: number;
+  commitmentsDeleted: number;
+}
+
+// ─── Configuration ────────────────────────────────────────────────────────────
+
+export const MAX_RETENTION_DAYS = 3650;
+export const ERASE_WINDOW_MINUTES = 15;
+const PAGE_SIZE = 1000;
+
+const MEMORY_EXPORT_COLUMNS = 'id, content, summary, metadata, occurred_at, created_at, embedding_model';
+
+// ─── MemoryPrivacy Class ──────────────────────────────────────────────────────
+
+export class MemoryPrivacy {
+  // ── Retention ─────────────────────────────────────────────────────────────
+
+  /** Effective window for every source: the user's override, else the default. */
+  async getRetentionPolicies(userId: string): Promise<RetentionPolicy[]> {
+    const [defaults, overrides] = await Promise.all([
+      supabaseAdmin.from('memory_retention_defaults').select('source, retention_days'),
+      supabaseAdmin.from('memory_retention_policies').select('source, retention_days').eq('user_id', userId),
+    ]);
+
+    if (defaults.error) throw new Error(`[MemoryPrivacy] Loading retention defaults failed: ${defaults.error.message}`);
+    if (overrides.error) throw new Error(`[MemoryPrivacy] Loading retention policies failed: ${overrides.error.message}`);
+
+    const defaultDays = new Map((defaults.data ?? []).map((d) => [d.source, d.retention_days as number | null]));
+    const userDays = new Map((overrides.data ?? []).map((p) => [p.source, p.retention_days as number | null]));
+
+    return RETENTION_SOURCES.map((source) => ({
+      source,
+      retentionDays: userDays.has(source) ? userDays.get(source)! : defaultDays.get(source) ?? null,
+      isDefault: !userDays.has(source),
+      defaultDays: defaultDays.get(source) ?? null,
+    }));
+  }
+
+  /** Upserts the given overrides; sources not listed keep their current setting. */
+  async saveRetentionPolicies(userId: string, updates: RetentionUpdate[]): Promise<RetentionPolicy[]> {
+    if (updates.length > 0) {
+      const now = new Date().toISOString();
+      const { error } = await supabaseAdmin
+        .from('memory_retention_policies')
+        .upsert(
+          updates.map((u) => ({ user_id: userId, source: u.source, retention_days: u.retentionDays, updated_at: now })),
+          { onConflict: 'user_id,source' },
+        );
+
+      if (error) throw new Error(`[MemoryPrivacy] Saving retention policies failed: ${error.message}`);
+    }
+
+    return this.getRetentionPolicies(userId);
+  }
+
+  // ── Export ────────────────────────────────────────────────────────────────
+
+  /** Builds the user's full archive and records the export. */
+  async exportArchive(userId: string): Promise<MemoryArchive> {
+    const [memories, commitments, retentionPolicies] = await Promise.all([
+      this.fetchAll('memory_entries', MEMORY_EXPORT_COLUMNS, userId, 'occurred_at'),
+      this.fetchAll('commitments', '*', userId, 'created_at'),
+      this.getRetentionPolicies(userId),
+    ]);
+
+    const { data, error } = await supabaseAdmin
+      .from('memory_privacy_log')
+      .insert({
+        user_id: userId,
+        action: 'export',
+        memory_count: memories.length,
+        details: { commitments: commitments.length },
+      })
+      .select('id, created_at')
+      .single();
+
+    if (error) throw new Error(`[MemoryPrivacy] Recording export failed: ${error.message}`);
+
+    return {
+      format: 'neuroadaptive-memory-archive',
+      version: 1,
+      exportId: data.id,
+      exportedAt: data.created_at,
+      userId,
+      memories,
+      commitments,
+      retentionPolicies,
+    };
+  }
+
+  // ── Erase ─────────────────────────────────────────────────────────────────
+
+  /**
+   * Deletes all of the user's memories and commitments. `exportId` must be
+   * one of their own exports from the last ERASE_WINDOW_MINUTES; returns
+   * null (and deletes nothing) when it isn't. Retention settings are kept.
+   */
+  async erase(userId: string, exportId: string): Promise<EraseResult | null> {
+    const since = new Date(Date.now() - ERASE_WINDOW_MINUTES * 60_000).toISOString();
+
+    const { data: exportRow, error: exportError } = await supabaseAdmin
+      .from('memory_privacy_log')
+      .select('id')
+      .eq('id', exportId)
+      .eq('user_id', userId)
+      .eq('action', 'export')
+      .gte('created_at', since)
+      .maybeSingle();
+
+    if (exportError) throw new Error(`[MemoryPrivacy] Checking export failed: ${exportError.message}`);
+    if (!exportRow) return null;
+
+    // Commitments first: those not tied to a memory would survive the cascade
+    const { data: commitments, error: commitmentError } = await supabaseAdmin
+      .from('commitments')
+      .delete()
+      .eq('user_id', userId)
+      .select('id');
+    if (commitmentError) throw new Error(`[MemoryPrivacy] Deleting commitments failed: ${commitmentError.message}`);
+
+    const { data: memories, error: memoryError } = await supabaseAdmin
+      .from('memory_entries')
+      .delete()
+      .eq('user_id', userId)
+      .select('id');
+    if (memoryError) throw new Error(`[MemoryPrivacy] Deleting memories failed: ${memoryError.message}`);
+
+    const result = { memoriesDeleted: memories?.length ?? 0, commitmentsDeleted: commitments?.length ?? 0 };
+
+    const { error: logError } = await supabaseAdmin.from('memory_privacy_log').insert({
+      user_id: userId,
+      action: 'erase',
+      memory_count: result.memoriesDeleted,
+      details: { exportId, commitments: result.commitmentsDeleted },
+    });
+    // The data is already gone; a missing log row shouldn't turn this into a failure
+    if (logError) console.warn('[MemoryPrivacy] Recording erase failed:', logError.message);
+
+    return result;
+  }
+
+  // ── Helpers ───────────────────────────────────────────────────────────────
+
+  /** Reads every row the user owns, a page at a time. */
+  private async fetchAll(table: string, columns: string, userId: string, orderBy: string): Promise<Record<string, unknown>[]> {
+    const rows: Record<string, unknown>[] = [];
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await supabaseAdmin
+        .from(table)
+        .select(columns)
+        .eq('user_id', userId)
+        .order(orderBy, { ascending: true })
+        .order('id', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) throw new Error(`[MemoryPrivacy] Reading ${table} failed: ${error.message}`);
+
+      const page = (data ?? []) as unknown as Record<string, unknown>[];
+      rows.push(...page);
+      if (page.length < PAGE_SIZE) return rows;
+    }
+  }
+}
+
+// ─── Singleton Export ─────────────────────────────────────────────────────────
+
+export const memoryPrivacy = new MemoryPrivacy();
@@ -0,0 +1,296 @@
+/**
+ * MemoryRetrieval.ts — Hybrid Lexical + Vector Search for Prosthetic Memory
+ *
+ * Embeddings are good at "meetings about the roadmap" and bad at "what did I
+ * promise Sarah last week": names and dates need exact matching. This
+ * service runs both kinds of search in one RPC and fuses them:
+ *
+ *   query ──▶ embed ─────────────┐
+ *         ──▶ words (OR tsquery) ─┼─▶ rpc('search_memory_candidates', filters)
+ *         ──▶ "last week" → dates ┘        │ vector rank + lexical rank
+ *                                          ▼
+ *              reciprocal rank fusion × recency boost × participant boost
+ *                                          ▼
+ *                         top-K results, each with an explanation
+ *
+ * Filters (source, participants, date range) are applied in SQL before
+ * either ranking. A relative date in the query ("yesterday", "last week",
+ * "past 3 days") becomes a date filter when no explicit range is given;
+ * day and week boundaries are UTC. If embedding fails the search degrades
+ * to lexical-only instead of failing.
+ *
+ * Required Supabase SQL: supabase/migrations/memory_hybrid_search.sql
+ */
+
+import { supabaseAdmin } from '../utils/supabaseAdmin';
+import { vectorStore, VectorStore } from './VectorStore';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type MemorySource = 'slack' | 'jira' | 'google_meet' | 'zoom';
+
+export const MEMORY_SOURCES: MemorySource[] = ['slack', 'jira', 'google_meet', 'zoom'];
+
+export interface MemoryFilters {
+  sources?: MemorySource[];
+  /** Matched case-insensitively against `metadata.participants`. */
+  participants?: string[];
+  /** ISO timestamps; `from` inclusive, `to` exclusive. */
+  from?: string;
+  to?: string;
+}
+
+export interface AppliedFilters extends MemoryFilters {
+  /** The query phrase a date range was inferred from, if any. */
+  inferredFrom?: string;
+}
+
+export interface HybridSearchOptions {
+  filters?: MemoryFilters;
+  topK?: number;
+  /** Minimum cosine similarity for a vector candidate. */
+  vectorThreshold?: number;
+  /** Age at which the recency boost halves; 0 disables it. */
+  recencyHalfLifeDays?: number;
+  now?: Date;
+}
+
+export interface MatchExplanation {
+  vector?: { rank: number; similarity: number };
+  lexical?: { rank: number; score: number; matchedTerms: string[] };
+  /** Participants of this memory who are named in the query. */
+  mentionedParticipants: string[];
+  /** Multiplier applied for how recent the memory is (1 = none). */
+  recencyBoost: number;
+  reasons: string[];
+}
+
+export interface HybridSearchResult {
+  id: string;
+  content: string;
+  summary: string;
+  metadata: Record<string, unknown>;
+  occurredAt: string;
+  score: number;
+  explanation: MatchExplanation;
+}
+
+/** One row of `search_memory_candidates`. */
+export interface MemoryCandidate {
+  id: string;
+  content: string;
+  summary: string | null;
+  metadata: Record<string, unknown> | null;
+  occurred_at: string;
+  vector_rank: number | null;
+  vector_similarity: number | null;
+  lexical_rank: number | null;
+  lexical_score: number | null;
+  matched_terms: string[] | null;
+}
+
+export interface TemporalHint {
+  from: string;
+  to: string;
+  phrase: string;
+}
+
+// ─── Configuration ────────────────────────────────────────────────────────────
+
+const RRF_K = 60;                      // Standard RRF damping constant
+const CANDIDATE_COUNT = 30;            // Per ranking, before fusion
+const DEFAULT_TOP_K = 5;
+const DEFAULT_VECTOR_THRESHOLD = 0.5;  // Looser than pure semantic search; fusion does the ranking
+const DEFAULT_HALF_LIFE_DAYS = 30;
+const RECENCY_WEIGHT = 0.3;            // A brand-new memory scores up to 1.3×
+const PARTICIPANT_BOOST = 1.2;         // Named in the query and present in the memory
+const MAX_QUERY_WORDS = 32;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ─── Query Parsing ────────────────────────────────────────────────────────────
+
+const startOfUtcDay = (date: Date) =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+/** Monday 00:00 UTC of the week containing `date`. */
+const startOfUtcWeek = (date: Date) => {
+  const day = startOfUtcDay(date);
+  return new Date(day.getTime() - ((day.getUTCDay() + 6) % 7) * DAY_MS);
+};
+
+const range = (from: Date, to: Date, phrase: string): TemporalHint =>
+  ({ from: from.toISOString(), to: to.toISOString(), phrase });
+
+/**
+ * Finds the first relative date phrase in a query and turns it into a
+ * [from, to) range. Returns null when the query names no period.
+ */
+export const parseTemporalHint = (query: string, now: Date = new Date()): TemporalHint | null => {
+  const text = query.toLowerCase();
+  const today = startOfUtcDay(now);
+  const tomorrow = new Date(today.getTime() + DAY_MS);
+
+  const days = text.match(/\b(?:last|past)\s+(\d{1,3})\s+days?\b/);
+  if (days) return range(new Date(today.getTime() - Number(days[1]) * DAY_MS), tomorrow, days[0]);
+
+  if (/\btoday\b/.test(text)) return range(today, tomorrow, 'today');
+  if (/\byesterday\b/.test(text)) return range(new Date(today.getTime() - DAY_MS), today, 'yesterday');
+
+  const week = startOfUtcWeek(now);
+  if (/\bthis\s+week\b/.test(text)) return range(week, new Date(week.getTime() + 7 * DAY_MS), 'this week');
+  if (/\blast\s+week\b/.test(text)) return range(new Date(week.getTime() - 7 * DAY_MS), week, 'last week');
+
+  const month = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  if (/\bthis\s+month\b/.test(text)) {
+    return range(month, new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)), 'this month');
+  }
+  if (/\blast\s+month\b/.test(text)) {
+    return range(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1)), month, 'last month');
+  }
+
+  return null;
+};
+
+/**
+ * Lower-cased letter/digit words of the query, minus the date phrase (which
+ * is a filter, not something to look for in the text). Safe to join into a
+ * tsquery: nothing but word characters survives.
+ */
+export const toQueryWords = (query: string, temporalPhrase?: string): string[] => {
+  let text = query.toLowerCase();
+  if (temporalPhrase) text = text.replace(temporalPhrase, ' ');
+
+  const words = [...(text.match(/[\p{L}\p{N}]+/gu) ?? [])].filter((w) => w.length > 1);
+  return [...new Set(words)].slice(0, MAX_QUERY_WORDS);
+};
+
+// ─── Fusion ───────────────────────────────────────────────────────────────────
+
+const participantsOf = (metadata: Record<string, unknown> | null): string[] =>
+  Array.isArray(metadata?.participants)
+    ? (metadata.participants as unknown[]).filter((p): p is string => typeof p === 'string')
+    : [];
+
+const describeAge = (days: number) =>
+  days < 1 ? 'the last 24 hours' : days < 2 ? '1 day ago' : `${Math.floor(days)} days ago`;
+
+/**
+ * Reciprocal rank fusion of the vector and lexical rankings, boosted for
+ * recency and for participants named in the query. Best first.
+ */
+export const fuseCandidates = (
+  candidates: MemoryCandidate[],
+  queryWords: string[],
+  { topK = DEFAULT_TOP_K, recencyHalfLifeDays = DEFAULT_HALF_LIFE_DAYS, now = new Date() }: HybridSearchOptions = {},
+): HybridSearchResult[] => {
+  const words = new Set(queryWords);
+
+  return candidates
+    .map((c) => {
+      const reasons: string[] = [];
+      let rrf = 0;
+
+      const explanation: MatchExplanation = { mentionedParticipants: [], recencyBoost: 1, reasons };
+
+      if (c.vector_rank !== null && c.vector_similarity !== null) {
+        rrf += 1 / (RRF_K + c.vector_rank);
+        explanation.vector = { rank: c.vector_rank, similarity: Number(c.vector_similarity.toFixed(3)) };
+        reasons.push(`Semantic match #${c.vector_rank} (similarity ${c.vector_similarity.toFixed(2)})`);
+      }
+
+      if (c.lexical_rank !== null && c.lexical_score !== null) {
+        rrf += 1 / (RRF_K + c.lexical_rank);
+        const matchedTerms = c.matched_terms ?? [];
+        explanation.lexical = { rank: c.lexical_rank, score: Number(c.lexical_score.toFixed(4)), matchedTerms };
+        reasons.push(matchedTerms.length > 0
+          ? `Keyword match #${c.lexical_rank} on ${matchedTerms.map((t) => `"${t}"`).join(', ')}`
+          : `Keyword match #${c.lexical_rank}`);
+      }
+
+      let boost = 1;
+
+      // "Sarah" in the query matches a participant listed as "Sarah Chen"
+      explanation.mentionedParticipants = participantsOf(c.metadata)
+        .filter((p) => p.toLowerCase().split(/\s+/).some((part) => words.has(part)));
+      if (explanation.mentionedParticipants.length > 0) {
+        boost *= PARTICIPANT_BOOST;
+        reasons.push(`Involves ${explanation.mentionedParticipants.join(', ')}, named in your question`);
+      }
+
+      if (recencyHalfLifeDays > 0) {
+        const ageDays = Math.max(0, (now.getTime() - Date.parse(c.occurred_at)) / DAY_MS);
+        const recencyBoost = 1 + RECENCY_WEIGHT * Math.pow(0.5, ageDays / recencyHalfLifeDays);
+        explanation.recencyBoost = Number(recencyBoost.toFixed(3));
+        boost *= recencyBoost;
+        reasons.push(`From ${describeAge(ageDays)} (×${recencyBoost.toFixed(2)} recency)`);
+      }
+
+      return {
+        id: c.id,
+        content: c.content,
+        summary: c.summary ?? '',
+        metadata: c.metadata ?? {},
+        occurredAt: c.occurred_at,
+        score: Number((rrf * boost).toFixed(6)),
+        explanation,
+      };
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK);
+};
+
+// ─── MemoryRetrieval Class ────────────────────────────────────────────────────
+
+export class MemoryRetrieval {
+  constructor(private store: VectorStore = vectorStore) {}
+
+  /**
+   * Hybrid search over one user's memories. Explicit `filters.from/to`
+   * take precedence over a date phrase in the query.
+   */
+  async search(
+    userId: string,
+    query: string,
+    options: HybridSearchOptions = {},
+  ): Promise<{ results: HybridSearchResult[]; filters: AppliedFilters }> {
+    const now = options.now ?? new Date();
+    const explicit = options.filters ?? {};
+    const hint = explicit.from || explicit.to ? null : parseTemporalHint(query, now);
+
+    const filters: AppliedFilters = {
+      ...explicit,
+      ...(hint && { from: hint.from, to: hint.to, inferredFrom: hint.phrase }),
+    };
+    const queryWords = toQueryWords(query, hint?.phrase);
+
+    let queryEmbedding: number[] | null = null;
+    try {
+      queryEmbedding = await this.store.embed(query);
+    } catch (err) {
+      console.warn('[MemoryRetrieval] Embedding failed, falling back to lexical only:', (err as Error).message);
+    }
+
+    const { data, error } = await supabaseAdmin.rpc('search_memory_candidates', {
+      query_embedding: queryEmbedding,
+      query_words: queryWords,
+      p_user_id: userId,
+      p_model: this.store.embeddingModel,
+      vector_threshold: options.vectorThreshold ?? DEFAULT_VECTOR_THRESHOLD,
+      candidate_count: CANDIDATE_COUNT,
+      filter_sources: filters.sources?.length ? filters.sources : null,
+      filter_participants: filters.participants?.length ? filters.participants.map((p) => p.toLowerCase()) : null,
+      occurred_after: filters.from ?? null,
+      occurred_before: filters.to ?? null,
+    });
+
+    if (error) throw new Error(`[MemoryRetrieval] Candidate search failed: ${error.message}`);
+
+    const results = fuseCandidates((data as MemoryCandidate[]) ?? [], queryWords, { ...options, now });
+    return { results, filters };
+  }
+}
+
+// ─── Singleton Export ─────────────────────────────────────────────────────────
+
+export const memoryRetrieval = new MemoryRetrieval();
@@ -0,0 +1,227 @@
+/**
+ * NotificationBuffer.ts — Flow-Aware Notification Buffering
+ *
+ * Interruptions during hyperfocus cost far more than the message is worth,
+ * and during overload they make things worse. The AgentOrchestrator drives
+ * this buffer through the user's policy rules (see PolicyEngine.ts):
+ *
+ *   buffer_notifications    startBuffering(): incoming items are persisted
+ *                           (Slack DND is the separate snooze_slack action)
+ *   release_notifications   release(): snooze off, Gmail received meanwhile
+ *                           is collected, and one prioritized digest goes
+ *                           out over Slack
+ *
+ * Items at or above NOTIFICATION_BYPASS_PRIORITY are never held back.
+ * The digest is sent as a Slack DM to the user's linked Slack identity
+ * (see integration_identities); without one, items stay pending. The open
+ * flow session lives in the OrchestratorStateStore, so buffering survives a
+ * restart and is seen by every server instance.
+ *
+ * Required Supabase SQL: supabase/migrations/notification_buffer.sql
+ */
+
+import { supabaseAdmin } from '../utils/supabaseAdmin';
+import { simplifyNotification, NotificationSource } from '../utils/simplifyNotification';
+import { slackIntegration } from '../integrations/slack';
+import { googleIntegration } from '../integrations/google';
+import { orchestratorStateStore, OrchestratorStateStore, FlowSession } from './OrchestratorStateStore';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type NotificationPriority = 'low' | 'medium' | 'high' | 'critical';
+
+export type FlowReason = FlowSession['reason'];
+
+export interface BufferableNotification {
+  source: NotificationSource;
+  /** Provider-side ID; de-duplicates retried deliveries. */
+  externalId?: string;
+  sender?: string;
+  title?: string;
+  rawContent: string;
+  priority: NotificationPriority;
+  receivedAt?: string;
+}
+
+export type OfferResult = { status: 'buffered' } | { status: 'passthrough' };
+
+interface BufferedRow {
+  id: string;
+  source: NotificationSource;
+  sender: string | null;
+  title: string | null;
+  raw_content: string;
+  priority: NotificationPriority;
+  received_at: string;
+}
+
+// ─── Configuration ────────────────────────────────────────────────────────────
+
+const PRIORITY_RANK: Record<NotificationPriority, number> = { low: 0, medium: 1, high: 2, critical: 3 };
+
+const isPriority = (value: unknown): value is NotificationPriority =>
+  typeof value === 'string' && value in PRIORITY_RANK;
+
+const BYPASS_PRIORITY: NotificationPriority = isPriority(process.env.NOTIFICATION_BYPASS_PRIORITY)
+  ? process.env.NOTIFICATION_BYPASS_PRIORITY
+  : 'critical';
+/** Slack section blocks cap out at 3000 chars — summarise the top items, list the rest by count. */
+const MAX_DIGEST_ITEMS = 10;
+
+const SOURCE_LABELS: Record<NotificationSource, string> = { slack: 'Slack', jira: 'Jira', gmail: 'Gmail' };
+
+// ─── NotificationBuffer Class ─────────────────────────────────────────────────
+
+export class NotificationBuffer {
+  constructor(private readonly store: OrchestratorStateStore = orchestratorStateStore) {}
+
+  async isBuffering(userId: string): Promise<boolean> {
+    return (await this.store.getFlowSession(userId)) !== null;
+  }
+
+  // ── State transitions ─────────────────────────────────────────────────────
+
+  /** Entering hyperfocus or overload. Re-entry only updates the reason. */
+  async startBuffering(userId: string, reason: FlowReason): Promise<void> {
+    const session = await this.store.getFlowSession(userId);
+    await this.store.setFlowSession(userId, { reason, since: session?.since ?? new Date().toISOString() });
+    if (session) return;
+
+    console.log(`[NotificationBuffer] Buffering for ${userId} (${reason}).`);
+  }
+
+  /** Back to normal: end the snooze, collect Gmail, deliver the digest. */
+  async release(userId: string): Promise<number> {
+    const session = await this.store.getFlowSession(userId);
+    if (session) {
+      await this.store.setFlowSession(userId, null);
+      try {
+        await slackIntegration.endCognitiveSnooze(userId);
+      } catch (err) {
+        console.warn(`[NotificationBuffer] Slack un-snooze skipped for ${userId}:`, (err as Error).message);
+      }
+      await this.collectGmail(userId, new Date(session.since));
+    }
+
+    return this.deliverDigest(userId);
+  }
+
+  // ── Intake ────────────────────────────────────────────────────────────────
+
+  /**
+   * Persists an item if the user is in flow and it isn't urgent enough to
+   * bypass the buffer. On 'passthrough' the caller delivers it normally.
+   */
+  async offer(userId: string, item: BufferableNotification): Promise<OfferResult> {
+    if (PRIORITY_RANK[item.priority] >= PRIORITY_RANK[BYPASS_PRIORITY] || !(await this.isBuffering(userId))) {
+      return { status: 'passthrough' };
+    }
+    await this.persist(userId, [item]);
+    return { status: 'buffered' };
+  }
+
+  private async persist(userId: string, items: BufferableNotification[]): Promise<void> {
+    if (items.length === 0) return;
+
+    const { error } = await supabaseAdmin.from('buffered_notifications').upsert(
+      items.map((item) => ({
+        user_id: userId,
+        source: item.source,
+        external_id: item.externalId ?? null,
+        sender: item.sender ?? null,
+        title: item.title ?? null,
+        raw_content: item.rawContent,
+        priority: item.priority,
+        received_at: item.receivedAt ?? new Date().toISOString(),
+      })),
+      { onConflict: 'user_id,source,external_id', ignoreDuplicates: true }
+    );
+    if (error) throw new Error(`[NotificationBuffer] Persist failed: ${error.message}`);
+  }
+
+  /** Gmail has no push here, so mail that arrived during the session is pulled on release. */
+  private async collectGmail(userId: string, since: Date): Promise<void> {
+    try {
+      const emails = await googleIntegration.listInboxSince(userId, since);
+      await this.persist(userId, emails.map((email) => ({
+        source: 'gmail' as const,
+        externalId: email.id,
+        sender: email.from,
+        title: email.subject,
+        rawContent: email.snippet || email.subject || '(no preview)',
+        priority: email.important ? 'high' as const : 'low' as const,
+        receivedAt: email.receivedAt,
+      })));
+    } catch (err) {
+      // Most often simply "Google not connected."
+      console.warn(`[NotificationBuffer] Gmail collection skipped for ${userId}:`, (err as Error).message);
+    }
+  }
+
+  // ── Delivery ──────────────────────────────────────────────────────────────
+
+  /**
+   * Sends every pending item as one digest, highest priority first, and
+   * marks them delivered. Returns the number of items delivered.
+   */
+  async deliverDigest(userId: string): Promise<number> {
+    const { data, error } = await supabaseAdmin
+      .from('buffered_notifications')
+      .select('id, source, sender, title, raw_content, priority, received_at')
+      .eq('user_id', userId)
+      .is('delivered_at', null)
+      .order('received_at', { ascending: true });
+
+    if (error) throw new Error(`[NotificationBuffer] Pending query failed: ${error.message}`);
+    const pending = (data as BufferedRow[]) ?? [];
+    if (pending.length === 0) return 0;
+
+    const slackUserId = await this.getSlackUserId(userId);
+    if (!slackUserId) {
+      console.warn(`[NotificationBuffer] ${pending.length} items held for ${userId}: no linked Slack identity.`);
+      return 0;
+    }
+
+    const ranked = [...pending].sort((a, b) => PRIORITY_RANK[b.priority] - PRIORITY_RANK[a.priority]);
+    const shown = ranked.slice(0, MAX_DIGEST_ITEMS);
+
+    // Sequential on purpose: a burst of parallel Gemini calls hits rate limits.
+    const sections: string[] = [];
+    for (const item of shown) {
+      const summary = await simplifyNotification(item.source, item.raw_content);
+      const heading = [SOURCE_LABELS[item.source], item.title ?? item.sender].filter(Boolean).join(' · ');
+      sections.push(`*${heading}* _(${item.priority})_\n${summary}`);
+    }
+    if (ranked.length > shown.length) {
+      sections.push(`_…and ${ranked.length - shown.length} lower-priority items._`);
+    }
+
+    await slackIntegration.sendBatchNotification(userId, slackUserId, sections.join('\n\n'));
+
+    const { error: updateError } = await supabaseAdmin
+      .from('buffered_notifications')
+      .update({ delivered_at: new Date().toISOString() })
+      .in('id', pending.map((item) => item.id));
+    if (updateError) console.error('[NotificationBuffer] Failed to mark digest delivered:', updateError.message);
+
+    console.log(`[NotificationBuffer] Delivered digest of ${pending.length} items to ${userId}.`);
+    return pending.length;
+  }
+
+  private async getSlackUserId(userId: string): Promise<string | null> {
+    const { data, error } = await supabaseAdmin
+      .from('integration_identities')
+      .select('external_id')
+      .eq('provider', 'slack')
+      .eq('user_id', userId)
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw new Error(`[NotificationBuffer] Slack identity lookup failed: ${error.message}`);
+    return (data?.external_id as string | undefined) ?? null;
+  }
+}
+
+// ─── Singleton Export ─────────────────────────────────────────────────────────
+
+export const notificationBuffer = new NotificationBuffer();
@@ -0,0 +1,139 @@
+/**
+ * OrchestratorStateStore.ts — Durable Per-User Orchestrator State
+ *
+ * The AgentOrchestrator's view of each user (current cognitive state, when
+ * it started, every policy rule's runtime, and the NotificationBuffer's open
+ * flow session) lives behind this interface
+ * so a restart or a second server instance picks up where the last one
+ * left off. Two adapters:
+ *
+ *   SupabaseOrchestratorStateStore   production — `orchestrator_user_states`
+ *   InMemoryOrchestratorStateStore   tests and local runs without Supabase
+ *
+ * Required Supabase SQL: supabase/migrations/orchestrator_policies.sql
+ */
+
+import { supabaseAdmin } from '../utils/supabaseAdmin';
+import { CognitiveClassification } from './TelemetryPipeline';
+import { RuleRuntime } from './PolicyEngine';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface OrchestratorUserState {
+  userId: string;
+  state: CognitiveClassification;
+  score: number;
+  /** When the current state began. */
+  stateSince: string;
+  updatedAt: string;
+  /** Keyed by policy rule ID. */
+  rules: Record<string, RuleRuntime>;
+}
+
+/** Open while notifications are being held back (see NotificationBuffer). */
+export interface FlowSession {
+  reason: 'hyperfocus' | 'overload';
+  since: string;
+}
+
+export interface OrchestratorStateStore {
+  get(userId: string): Promise<OrchestratorUserState | null>;
+  save(state: OrchestratorUserState): Promise<void>;
+  /** Kept apart from save() so a state write never clobbers the flow session. */
+  getFlowSession(userId: string): Promise<FlowSession | null>;
+  setFlowSession(userId: string, session: FlowSession | null): Promise<void>;
+}
+
+interface UserStateRow {
+  user_id: string;
+  state: CognitiveClassification;
+  score: number;
+  state_since: string;
+  updated_at: string;
+  rules: Record<string, RuleRuntime> | null;
+}
+
+// ─── Adapters ─────────────────────────────────────────────────────────────────
+
+export class SupabaseOrchestratorStateStore implements OrchestratorStateStore {
+  async get(userId: string): Promise<OrchestratorUserState | null> {
+    const { data, error } = await supabaseAdmin
+      .from('orchestrator_user_states')
+      .select('user_id, state, score, state_since, updated_at, rules')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw new Error(`[OrchestratorState] Load failed: ${error.message}`);
+    if (!data) return null;
+
+    const row = data as UserStateRow;
+    return {
+      userId: row.user_id,
+      state: row.state,
+      score: row.score,
+      stateSince: row.state_since,
+      updatedAt: row.updated_at,
+      rules: row.rules ?? {},
+    };
+  }
+
+  async save(state: OrchestratorUserState): Promise<void> {
+    const { error } = await supabaseAdmin.from('orchestrator_user_states').upsert({
+      user_id: state.userId,
+      state: state.state,
+      score: Math.round(state.score),
+      state_since: state.stateSince,
+      updated_at: state.updatedAt,
+      rules: state.rules,
+    });
+    if (error) throw new Error(`[OrchestratorState] Save failed: ${error.message}`);
+  }
+
+  async getFlowSession(userId: string): Promise<FlowSession | null> {
+    const { data, error } = await supabaseAdmin
+      .from('orchestrator_user_states')
+      .select('flow_session')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw new Error(`[OrchestratorState] Flow session load failed: ${error.message}`);
+    return (data?.flow_session as FlowSession | null | undefined) ?? null;
+  }
+
+  /** The row exists by now: the rule that opens or closes a session was saved first. */
+  async setFlowSession(userId: string, session: FlowSession | null): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('orchestrator_user_states')
+      .update({ flow_session: session })
+      .eq('user_id', userId);
+    if (error) throw new Error(`[OrchestratorState] Flow session save failed: ${error.message}`);
+  }
+}
+
+export class InMemoryOrchestratorStateStore implements OrchestratorStateStore {
+  private states: Map<string, OrchestratorUserState> = new Map();
+  private flowSessions: Map<string, FlowSession> = new Map();
+
+  async get(userId: string): Promise<OrchestratorUserState | null> {
+    const state = this.states.get(userId);
+    return state ? structuredClone(state) : null;
+  }
+
+  async save(state: OrchestratorUserState): Promise<void> {
+    this.states.set(state.userId, structuredClone(state));
+  }
+
+  async getFlowSession(userId: string): Promise<FlowSession | null> {
+    const session = this.flowSessions.get(userId);
+    return session ? { ...session } : null;
+  }
+
+  async setFlowSession(userId: string, session: FlowSession | null): Promise<void> {
+    if (session) this.flowSessions.set(userId, { ...session });
+    else this.flowSessions.delete(userId);
+  }
+}
+
+// ─── Singleton Export ─────────────────────────────────────────────────────────
+
+export const orchestratorStateStore: OrchestratorStateStore = new SupabaseOrchestratorStateStore();
@@ -0,0 +1,375 @@
+/**
+ * PolicyEngine.ts — User-Editable Ambient Trigger Policies
+ *
+ * Each user owns a list of rules of the form "while my state is X for at
+ * least N seconds, do these actions". Rules are evaluated against every
+ * telemetry sample the AgentOrchestrator receives:
+ *
+ *   idle ──match──▶ pending ──held forSeconds──▶ fired ──▶ holding
+ *     ▲                         (cooldown blocks)             │ no match
+ *     └──────── released ◀──clear hysteresisSeconds── clearing ◀┘
+ *
+ * `forSeconds` and `hysteresisSeconds` keep a noisy classifier from
+ * flapping the rule on and off; `cooldownSeconds` caps how often it can
+ * fire at all. Every evaluation goes to `policy_audit_log`; consecutive
+ * identical outcomes are coalesced into one row with an evaluation count,
+ * and rows are batch-written on an interval like the telemetry pipeline.
+ *
+ * Users without saved rules get DEFAULT_POLICIES.
+ *
+ * Required Supabase SQL: supabase/migrations/orchestrator_policies.sql
+ */
+
+import { z } from 'zod';
+import { supabaseAdmin } from '../utils/supabaseAdmin';
+import { CognitiveClassification } from './TelemetryPipeline';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type PolicyAction =
+  | { type: 'snooze_slack'; minutes: number }
+  | { type: 'buffer_notifications' }
+  | { type: 'release_notifications' }
+  | { type: 'dim_ui' }
+  | { type: 'defer_meetings' };
+
+export interface PolicyRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  when: {
+    states: CognitiveClassification[];
+    /** How long the condition must hold before the rule fires. */
+    forSeconds: number;
+  };
+  then: PolicyAction[];
+  /** How long the condition must stay false before an active rule releases. */
+  hysteresisSeconds: number;
+  /** Minimum time between two firings of this rule. */
+  cooldownSeconds: number;
+}
+
+/** Per-rule bookkeeping, persisted with the user's orchestrator state. */
+export interface RuleRuntime {
+  active: boolean;
+  conditionSince: string | null;
+  clearSince: string | null;
+  lastFiredAt: string | null;
+}
+
+export type RuleOutcome = 'idle' | 'pending' | 'cooldown' | 'fired' | 'holding' | 'clearing' | 'released' | 'disabled';
+
+export interface RuleEvaluation {
+  rule: PolicyRule;
+  outcome: RuleOutcome;
+  runtime: RuleRuntime;
+}
+
+export interface PolicySnapshot {
+  state: CognitiveClassification;
+  score: number;
+}
+
+export interface PolicyAuditEntry {
+  rule_id: string;
+  rule_name: string;
+  outcome: RuleOutcome;
+  state: CognitiveClassification;
+  score: number;
+  actions: PolicyAction[] | null;
+  evaluations: number;
+  first_evaluated_at: string;
+  last_evaluated_at: string;
+}
+
+interface PendingAuditRow extends PolicyAuditEntry {
+  user_id: string;
+}
+
+// ─── Validation ───────────────────────────────────────────────────────────────
+
+const MAX_RULES = 20;
+const DAY_SECONDS = 24 * 60 * 60;
+
+const actionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('snooze_slack'), minutes: z.number().int().min(1).max(24 * 60) }),
+  z.object({ type: z.literal('buffer_notifications') }),
+  z.object({ type: z.literal('release_notifications') }),
+  z.object({ type: z.literal('dim_ui') }),
+  z.object({ type: z.literal('defer_meetings') }),
+]);
+
+const ruleSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]{1,40}$/, 'id must be 1-40 lowercase letters, digits or dashes'),
+  name: z.string().min(1).max(80),
+  enabled: z.boolean(),
+  when: z.object({
+    states: z.array(z.enum(['hyperfocus', 'normal', 'approaching_overload', 'overload'])).min(1),
+    forSeconds: z.number().int().min(0).max(DAY_SECONDS),
+  }),
+  then: z.array(actionSchema).min(1).max(5),
+  hysteresisSeconds: z.number().int().min(0).max(DAY_SECONDS),
+  cooldownSeconds: z.number().int().min(0).max(DAY_SECONDS),
+});
+
+export const policyRulesSchema = z
+  .array(ruleSchema)
+  .max(MAX_RULES)
+  .refine((rules) => new Set(rules.map((r) => r.id)).size === rules.length, 'rule ids must be unique');
+
+// ─── Configuration ────────────────────────────────────────────────────────────
+
+const AUDIT_FLUSH_INTERVAL_MS = Number(process.env.POLICY_AUDIT_FLUSH_INTERVAL_MS) || 15_000;
+/** Saved rules are re-read at most this often per user, so edits reach every instance. */
+const POLICY_CACHE_TTL_MS = 60_000;
+/** Upper bound on audit rows kept for retry when the database is unreachable. */
+const MAX_AUDIT_BACKLOG = 5_000;
+
+/**
+ * Mirrors the behaviour the orchestrator had before rules were editable:
+ * hyperfocus holds notifications and meetings, sustained overload snoozes
+ * Slack and dims the UI, and a minute back at normal delivers the digest.
+ * The release rule's forSeconds is longer than the others' hysteresis so a
+ * new flow session can always re-arm them.
+ */
+export const DEFAULT_POLICIES: PolicyRule[] = [
+  {
+    id: 'protect-hyperfocus',
+    name: 'Protect hyperfocus',
+    enabled: true,
+    when: { states: ['hyperfocus'], forSeconds: 60 },
+    then: [
+      { type: 'snooze_slack', minutes: Number(process.env.NOTIFICATION_SNOOZE_MINUTES) || 120 },
+      { type: 'buffer_notifications' },
+      { type: 'defer_meetings' },
+    ],
+    hysteresisSeconds: 45,
+    cooldownSeconds: 5 * 60,
+  },
+  {
+    id: 'overload-recovery',
+    name: 'Overload recovery',
+    enabled: true,
+    when: { states: ['overload'], forSeconds: 3 * 60 },
+    then: [{ type: 'snooze_slack', minutes: 30 }, { type: 'dim_ui' }, { type: 'buffer_notifications' }],
+    hysteresisSeconds: 45,
+    cooldownSeconds: 10 * 60,
+  },
+  {
+    id: 'release-digest',
+    name: 'Deliver digest when back to normal',
+    enabled: true,
+    when: { states: ['normal'], forSeconds: 60 },
+    then: [{ type: 'release_notifications' }],
+    hysteresisSeconds: 0,
+    cooldownSeconds: 0,
+  },
+];
+
+const idleRuntime = (): RuleRuntime => ({ active: false, conditionSince: null, clearSince: null, lastFiredAt: null });
+
+const secondsSince = (iso: string | null, now: Date) =>
+  iso === null ? Infinity : (now.getTime() - Date.parse(iso)) / 1000;
+
+// ─── Rule Evaluation ──────────────────────────────────────────────────────────
+
+/**
+ * Advances one rule by one sample. Pure: returns the outcome and the new
+ * runtime without touching the input.
+ */
+export const evaluateRule = (
+  rule: PolicyRule,
+  previous: RuleRuntime | undefined,
+  snapshot: PolicySnapshot,
+  now: Date,
+): { outcome: RuleOutcome; runtime: RuleRuntime } => {
+  const runtime: RuleRuntime = { ...(previous ?? idleRuntime()) };
+  const nowIso = now.toISOString();
+
+  if (!rule.enabled) {
+    // Disabling an active rule releases it immediately
+    const wasActive = runtime.active;
+    return { outcome: wasActive ? 'released' : 'disabled', runtime: { ...idleRuntime(), lastFiredAt: runtime.lastFiredAt } };
+  }
+
+  if (rule.when.states.includes(snapshot.state)) {
+    runtime.clearSince = null;
+    runtime.conditionSince ??= nowIso;
+
+    if (runtime.active) return { outcome: 'holding', runtime };
+    if (secondsSince(runtime.conditionSince, now) < rule.when.forSeconds) return { outcome: 'pending', runtime };
+    if (secondsSince(runtime.lastFiredAt, now) < rule.cooldownSeconds) return { outcome: 'cooldown', runtime };
+
+    runtime.active = true;
+    runtime.lastFiredAt = nowIso;
+    return { outcome: 'fired', runtime };
+  }
+
+  runtime.conditionSince = null;
+  if (!runtime.active) return { outcome: 'idle', runtime };
+
+  runtime.clearSince ??= nowIso;
+  if (secondsSince(runtime.clearSince, now) < rule.hysteresisSeconds) return { outcome: 'clearing', runtime };
+
+  runtime.active = false;
+  runtime.clearSince = null;
+  return { outcome: 'released', runtime };
+};
+
+// ─── PolicyEngine Class ───────────────────────────────────────────────────────
+
+export class PolicyEngine {
+  private cache: Map<string, { rules: PolicyRule[]; loadedAt: number }> = new Map();
+  /** Audit rows not yet written, with the open (still coalescing) row per user+rule. */
+  private auditBuffer: PendingAuditRow[] = [];
+  private openAudit: Map<string, PendingAuditRow> = new Map();
+  private timer: NodeJS.Timeout | null = null;
+  private flushing: Promise<void> | null = null;
+
+  /** Starts the periodic audit flush. Safe to call more than once. */
+  start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => { void this.flushAudit(); }, AUDIT_FLUSH_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  /** Stops the loop and drains the audit buffer. */
+  async stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    await this.flushAudit();
+  }
+
+  // ── Rules ─────────────────────────────────────────────────────────────────
+
+  async getPolicies(userId: string): Promise<PolicyRule[]> {
+    const cached = this.cache.get(userId);
+    if (cached && Date.now() - cached.loadedAt < POLICY_CACHE_TTL_MS) return cached.rules;
+
+    const { data, error } = await supabaseAdmin
+      .from('orchestrator_policies')
+      .select('rules')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw new Error(`[Policies] Load failed: ${error.message}`);
+
+    // Rows are validated on write; re-check in case the schema has since tightened
+    const parsed = data ? policyRulesSchema.safeParse(data.rules) : null;
+    if (parsed && !parsed.success) console.warn(`[Policies] Stored rules for ${userId} are invalid; using defaults.`);
+
+    const rules: PolicyRule[] = parsed?.success ? parsed.data : DEFAULT_POLICIES;
+    this.cache.set(userId, { rules, loadedAt: Date.now() });
+    return rules;
+  }
+
+  async savePolicies(userId: string, rules: PolicyRule[]): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('orchestrator_policies')
+      .upsert({ user_id: userId, rules, updated_at: new Date().toISOString() });
+
+    if (error) throw new Error(`[Policies] Save failed: ${error.message}`);
+    this.cache.set(userId, { rules, loadedAt: Date.now() });
+  }
+
+  /** Deletes the user's rules so DEFAULT_POLICIES apply again. */
+  async resetPolicies(userId: string): Promise<void> {
+    const { error } = await supabaseAdmin.from('orchestrator_policies').delete().eq('user_id', userId);
+    if (error) throw new Error(`[Policies] Reset failed: ${error.message}`);
+    this.cache.delete(userId);
+  }
+
+  // ── Evaluation ────────────────────────────────────────────────────────────
+
+  /**
+   * Evaluates every rule against one sample and audits each outcome.
+   * Runtimes for rules that no longer exist are dropped by the caller.
+   */
+  evaluate(
+    userId: string,
+    rules: PolicyRule[],
+    runtimes: Record<string, RuleRuntime>,
+    snapshot: PolicySnapshot,
+    now: Date = new Date(),
+  ): RuleEvaluation[] {
+    return rules.map((rule) => {
+      const { outcome, runtime } = evaluateRule(rule, runtimes[rule.id], snapshot, now);
+      this.audit(userId, rule, outcome, snapshot, now);
+      return { rule, outcome, runtime };
+    });
+  }
+
+  private audit(userId: string, rule: PolicyRule, outcome: RuleOutcome, snapshot: PolicySnapshot, now: Date) {
+    const key = `${userId}|${rule.id}`;
+    const nowIso = now.toISOString();
+    const open = this.openAudit.get(key);
+
+    // Firings and releases always get their own row; steady states are coalesced
+    const coalesce = open && open.outcome === outcome && open.state === snapshot.state
+      && outcome !== 'fired' && outcome !== 'released';
+
+    if (coalesce) {
+      open.evaluations += 1;
+      open.score = Math.round(snapshot.score);
+      open.last_evaluated_at = nowIso;
+      return;
+    }
+
+    const row: PendingAuditRow = {
+      user_id: userId,
+      rule_id: rule.id,
+      rule_name: rule.name,
+      outcome,
+      state: snapshot.state,
+      score: Math.round(snapshot.score),
+      actions: outcome === 'fired' ? rule.then : null,
+      evaluations: 1,
+      first_evaluated_at: nowIso,
+      last_evaluated_at: nowIso,
+    };
+    this.auditBuffer.push(row);
+    this.openAudit.set(key, row);
+  }
+
+  /**
+   * Writes buffered audit rows. Rows that are still coalescing are written
+   * too; a later sample with the same outcome simply starts a new row.
+   */
+  async flushAudit(): Promise<void> {
+    if (this.flushing) return this.flushing;
+    if (this.auditBuffer.length === 0) return;
+
+    const batch = this.auditBuffer;
+    this.auditBuffer = [];
+    this.openAudit.clear();
+
+    this.flushing = (async () => {
+      const { error } = await supabaseAdmin.from('policy_audit_log').insert(batch);
+      if (error) throw new Error(error.message);
+    })()
+      .catch((err) => {
+        console.error(`[Policies] Audit flush of ${batch.length} rows failed, re-queueing:`, (err as Error).message);
+        this.auditBuffer = [...batch, ...this.auditBuffer].slice(-MAX_AUDIT_BACKLOG);
+      })
+      .finally(() => { this.flushing = null; });
+
+    return this.flushing;
+  }
+
+  /** Most recent audit rows for a user, newest first. */
+  async getAuditLog(userId: string, limit: number): Promise<PolicyAuditEntry[]> {
+    const { data, error } = await supabaseAdmin
+      .from('policy_audit_log')
+      .select('rule_id, rule_name, outcome, state, score, actions, evaluations, first_evaluated_at, last_evaluated_at')
+      .eq('user_id', userId)
+      .order('last_evaluated_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw new Error(`[Policies] Audit query failed: ${error.message}`);
+    return (data as PolicyAuditEntry[]) ?? [];
+  }
+}
+
+// ─── Singleton Export ─────────────────────────────────────────────────────────
+
+export const policyEngine = new PolicyEngine();
@@ -0,0 +1,362 @@
+/**
+ * PullRequestShield.ts — RSD Shield for Real GitHub Reviews
+ *
+ * Review comments reach the engineer already softened. Once a GitHub
+ * webhook has passed signature verification (middleware/webhookAuth.ts):
+ *
+ *   pull_request_review_comment ──▶ replay check ──▶ PR author → user
+ *        ──▶ sanitizePRComment (Gemini, pattern fallback)
+ *        ──▶ rsd_pull_requests + rsd_pr_comments ──▶ Realtime ──▶ RSDShield.tsx
+ *
+ * Each PR carries a safety score: the mean "safety" of its comments'
+ * sentiment (positive 100, neutral 85, mixed 60, critical 25), recomputed
+ * whenever a comment is added, edited or deleted. Comments the PR author
+ * writes on their own PR are not shielded. Events for PR authors without a
+ * linked GitHub identity are discarded.
+ *
+ * Rows are returned in the `PullRequest` / `PRComment` shapes of
+ * src/types/rsd.ts.
+ *
+ * Required Supabase SQL: supabase/migrations/rsd_github_reviews.sql
+ */
+
+import { supabaseAdmin } from '../utils/supabaseAdmin';
+import { sanitizePRComment, ReviewSentiment } from '../utils/sanitizePRComment';
+import { integrationEvents } from './IntegrationEvents';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type PullRequestState = 'open' | 'closed' | 'merged';
+
+/** The fields of a `pull_request` object the shield needs. */
+export interface GitHubPullRequestRef {
+  githubId: number;
+  number: number;
+  title: string;
+  repo: string;
+  state: PullRequestState;
+  authorGithubId: number;
+}
+
+/** A normalized `pull_request_review_comment` delivery. */
+export interface ReviewCommentEvent {
+  action: 'created' | 'edited' | 'deleted';
+  deliveryId: string;
+  commentId: number;
+  body: string;
+  author: string;
+  authorGithubId: number;
+  avatarUrl: string;
+  filePath?: string;
+  lineNumber?: number;
+  createdAt: string;
+  pullRequest: GitHubPullRequestRef;
+}
+
+export type ReviewCommentResult =
+  | { status: 'stored'; userId: string; commentId: string }
+  | { status: 'deleted'; userId: string }
+  | { status: 'ignored' }
+  | { status: 'replayed' }
+  | { status: 'unmapped' };
+
+/** src/types/rsd.ts `PullRequest`. `lastActivity` is an ISO timestamp. */
+export interface PullRequest {
+  id: string;
+  number: number;
+  title: string;
+  repo: string;
+  state: PullRequestState;
+  commentCount: number;
+  unreadCount: number;
+  lastActivity: string;
+  safetyScore: number;
+}
+
+/** src/types/rsd.ts `PRComment`. */
+export interface PRComment {
+  id: string;
+  prId: string;
+  prTitle: string;
+  originalText: string;
+  sanitizedText: string;
+  author: string;
+  avatarUrl: string;
+  filePath?: string;
+  lineNumber?: number;
+  sentiment: ReviewSentiment;
+  actionItems: string[];
+  createdAt: string;
+  isRead: boolean;
+  githubCommentId: number;
+}
+
+interface PullRequestRow {
+  id: string;
+  repo: string;
+  number: number;
+  title: string;
+  state: PullRequestState;
+  safety_score: number;
+  last_activity: string;
+}
+
+interface CommentRow {
+  id: string;
+  pr_id: string;
+  github_comment_id: number | string;
+  original_text: string;
+  sanitized_text: string;
+  author: string;
+  avatar_url: string;
+  file_path: string | null;
+  line_number: number | null;
+  sentiment: ReviewSentiment;
+  action_items: string[];
+  is_read: boolean;
+  created_at: string;
+}
+
+// ─── Configuration ────────────────────────────────────────────────────────────
+
+const SENTIMENT_SAFETY: Record<ReviewSentiment, number> = {
+  positive: 100,
+  neutral: 85,
+  mixed: 60,
+  critical: 25,
+};
+
+const MAX_PULL_REQUESTS = 50;
+
+const PR_COLUMNS = 'id, repo, number, title, state, safety_score, last_activity';
+const COMMENT_COLUMNS =
+  'id, pr_id, github_comment_id, original_text, sanitized_text, author, avatar_url, file_path, line_number, sentiment, action_items, is_read, created_at';
+
+// ─── Scoring ──────────────────────────────────────────────────────────────────
+
+/** 0–100, higher is gentler. A PR with no comments is fully safe. */
+export const computeSafetyScore = (sentiments: ReviewSentiment[]): number => {
+  if (sentiments.length === 0) return 100;
+  const total = sentiments.reduce((sum, s) => sum + SENTIMENT_SAFETY[s], 0);
+  return Math.round(total / sentiments.length);
+};
+
+const toComment = (row: CommentRow, prTitle: string): PRComment => ({
+  id: row.id,
+  prId: row.pr_id,
+  prTitle,
+  originalText: row.original_text,
+  sanitizedText: row.sanitized_text,
+  author: row.author,
+  avatarUrl: row.avatar_url,
+  ...(row.file_path && { filePath: row.file_path }),
+  ...(row.line_number !== null && { lineNumber: row.line_number }),
+  sentiment: row.sentiment,
+  actionItems: row.action_items ?? [],
+  createdAt: row.created_at,
+  isRead: row.is_read,
+  githubCommentId: Number(row.github_comment_id),
+});
+
+// ─── PullRequestShield Class ──────────────────────────────────────────────────
+
+export class PullRequestShield {
+  /**
+   * Sanitizes and stores (or removes) one review comment for the PR's
+   * author, then refreshes the PR's safety score. If any step fails the
+   * delivery claim is released, so GitHub's redelivery is shielded.
+   */
+  async handleReviewComment(event: ReviewCommentEvent): Promise<ReviewCommentResult> {
+    if (!(await integrationEvents.claimDelivery('github', event.deliveryId))) {
+      return { status: 'replayed' };
+    }
+
+    try {
+      return await this.shieldComment(event);
+    } catch (err) {
+      await integrationEvents.releaseDelivery('github', event.deliveryId);
+      throw err;
+    }
+  }
+
+  /**
+   * Applies a `pull_request` event (closed, merged, reopened, retitled) to
+   * every user tracking that PR. Returns the number of rows updated.
+   */
+  async updatePullRequest(pr: Omit<GitHubPullRequestRef, 'authorGithubId'>): Promise<number> {
+    const { data, error } = await supabaseAdmin
+      .from('rsd_pull_requests')
+      .update({ title: pr.title, state: pr.state, updated_at: new Date().toISOString() })
+      .eq('repo', pr.repo)
+      .eq('number', pr.number)
+      .select('id');
+
+    if (error) throw new Error(`[RSD Shield] PR update failed: ${error.message}`);
+    return (data ?? []).length;
+  }
+
+  /** The user's PRs, most recently active first, with all their comments. */
+  async list(userId: string): Promise<{ prs: PullRequest[]; comments: PRComment[] }> {
+    const { data: prRows, error: prError } = await supabaseAdmin
+      .from('rsd_pull_requests')
+      .select(PR_COLUMNS)
+      .eq('user_id', userId)
+      .order('last_activity', { ascending: false })
+      .limit(MAX_PULL_REQUESTS);
+
+    if (prError) throw new Error(`[RSD Shield] PR list failed: ${prError.message}`);
+    const prs = (prRows ?? []) as PullRequestRow[];
+    if (prs.length === 0) return { prs: [], comments: [] };
+
+    const { data: commentRows, error: commentError } = await supabaseAdmin
+      .from('rsd_pr_comments')
+      .select(COMMENT_COLUMNS)
+      .eq('user_id', userId)
+      .in('pr_id', prs.map((p) => p.id))
+      .order('created_at', { ascending: true });
+
+    if (commentError) throw new Error(`[RSD Shield] Comment list failed: ${commentError.message}`);
+
+    const titles = new Map(prs.map((p) => [p.id, p.title]));
+    const comments = ((commentRows ?? []) as CommentRow[]).map((row) => toComment(row, titles.get(row.pr_id) ?? ''));
+
+    return {
+      prs: prs.map((p) => {
+        const own = comments.filter((c) => c.prId === p.id);
+        return {
+          id: p.id,
+          number: p.number,
+          title: p.title,
+          repo: p.repo,
+          state: p.state,
+          commentCount: own.length,
+          unreadCount: own.filter((c) => !c.isRead).length,
+          lastActivity: p.last_activity,
+          safetyScore: p.safety_score,
+        };
+      }),
+      comments,
+    };
+  }
+
+  /** Marks one of the user's comments read. Returns false if it isn't theirs. */
+  async markRead(userId: string, commentId: string): Promise<boolean> {
+    const { data, error } = await supabaseAdmin
+      .from('rsd_pr_comments')
+      .update({ is_read: true, updated_at: new Date().toISOString() })
+      .eq('id', commentId)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) throw new Error(`[RSD Shield] Mark read failed: ${error.message}`);
+    return (data ?? []).length > 0;
+  }
+
+  /** Whether the user has linked a GitHub account (integration_identities). */
+  async isConnected(userId: string): Promise<boolean> {
+    const { count, error } = await supabaseAdmin
+      .from('integration_identities')
+      .select('external_id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .eq('provider', 'github');
+
+    if (error) throw new Error(`[RSD Shield] Identity lookup failed: ${error.message}`);
+    return (count ?? 0) > 0;
+  }
+
+  // ── Helpers ───────────────────────────────────────────────────────────────
+
+  /** The work of handleReviewComment once the delivery is claimed. */
+  private async shieldComment(event: ReviewCommentEvent): Promise<ReviewCommentResult> {
+    // Replies by the author on their own PR need no shielding
+    if (event.authorGithubId === event.pullRequest.authorGithubId) return { status: 'ignored' };
+
+    const userId = await integrationEvents.resolveUser('github', String(event.pullRequest.authorGithubId));
+    if (!userId) return { status: 'unmapped' };
+
+    const prId = await this.upsertPullRequest(userId, event.pullRequest);
+
+    if (event.action === 'deleted') {
+      const { error } = await supabaseAdmin
+        .from('rsd_pr_comments')
+        .delete()
+        .eq('user_id', userId)
+        .eq('github_comment_id', event.commentId);
+      if (error) throw new Error(`[RSD Shield] Comment delete failed: ${error.message}`);
+
+      await this.refreshSafetyScore(prId);
+      return { status: 'deleted', userId };
+    }
+
+    const { sanitized, actionItems, sentiment } = await sanitizePRComment(event.body);
+
+    // An edit is new content: it comes back as unread
+    const { data, error } = await supabaseAdmin
+      .from('rsd_pr_comments')
+      .upsert({
+        user_id: userId,
+        pr_id: prId,
+        github_comment_id: event.commentId,
+        original_text: event.body,
+        sanitized_text: sanitized,
+        author: event.author,
+        avatar_url: event.avatarUrl,
+        file_path: event.filePath ?? null,
+        line_number: event.lineNumber ?? null,
+        sentiment,
+        action_items: actionItems,
+        is_read: false,
+        created_at: event.createdAt,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'user_id,github_comment_id' })
+      .select('id')
+      .single();
+
+    if (error) throw new Error(`[RSD Shield] Comment upsert failed: ${error.message}`);
+
+    await this.refreshSafetyScore(prId);
+    return { status: 'stored', userId, commentId: data.id };
+  }
+
+  private async upsertPullRequest(userId: string, pr: GitHubPullRequestRef): Promise<string> {
+    const now = new Date().toISOString();
+    const { data, error } = await supabaseAdmin
+      .from('rsd_pull_requests')
+      .upsert({
+        user_id: userId,
+        repo: pr.repo,
+        number: pr.number,
+        github_pr_id: pr.githubId,
+        title: pr.title,
+        state: pr.state,
+        last_activity: now,
+        updated_at: now,
+      }, { onConflict: 'user_id,repo,number' })
+      .select('id')
+      .single();
+
+    if (error) throw new Error(`[RSD Shield] PR upsert failed: ${error.message}`);
+    return data.id;
+  }
+
+  private async refreshSafetyScore(prId: string): Promise<void> {
+    const { data, error } = await supabaseAdmin
+      .from('rsd_pr_comments')
+      .select('sentiment')
+      .eq('pr_id', prId);
+
+    if (error) throw new Error(`[RSD Shield] Score lookup failed: ${error.message}`);
+
+    const score = computeSafetyScore((data ?? []).map((r) => r.sentiment as ReviewSentiment));
+    const { error: updateError } = await supabaseAdmin
+      .from('rsd_pull_requests')
+      .update({ safety_score: score })
+      .eq('id', prId);
+
+    if (updateError) throw new Error(`[RSD Shield] Score update failed: ${updateError.message}`);
+  }
+}
+
+// ─── Singleton Export ─────────────────────────────────────────────────────────
+
+export const pullRequestShield = new PullRequestShield();
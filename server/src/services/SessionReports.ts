@@ -0,0 +1,276 @@
+/**
+ * SessionReports.ts — Local Kids Session Reports for the Parent Portal
+ *
+ * Builds a game session's report from that session's own rows only:
+ *
+ *   expression_logs      ──▶ emotion breakdown, dominant emotion,
+ *                            score trajectory (game_score per capture)
+ *   intervention_events  ──▶ intervention count, time-to-recovery
+ *
+ * Nothing leaves the server and no model is called: the same rows always
+ * produce the same report (apart from `generated_at`). A child "recovers"
+ * from an intervention at the first later capture whose expression is no
+ * longer frustration or confusion.
+ *
+ * Reports are cached in `game_sessions.ai_report` and rebuilt when newer
+ * rows arrive (a parent opening a report mid-game) or REPORT_VERSION changes.
+ * Only the child's owner (parent or teacher in child_profiles) or a
+ * SuperAdmin may read one.
+ *
+ * Required Supabase SQL: supabase/migrations/kids_session_reports.sql
+ */
+
+import { supabaseAdmin } from '../utils/supabaseAdmin';
+import type { AppRole } from '../middleware/auth';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface InterventionSummary {
+  /** Seconds from session start. */
+  atS: number;
+  triggerReason: string;
+  questionIndex: number | null;
+  /** Seconds until the first non-distressed capture; null if none followed. */
+  recoveryS: number | null;
+}
+
+export interface ScorePoint {
+  /** Seconds from session start. */
+  atS: number;
+  score: number;
+}
+
+/** Stored as JSONB in game_sessions.ai_report, hence snake_case. */
+export interface SessionReport {
+  report_version: number;
+  dominant_emotion: string;
+  /** Share of captures per expression label, 0-100. */
+  emotion_breakdown: Record<string, number>;
+  analyzed_frames: number;
+  session_duration_s: number;
+  interventions: {
+    count: number;
+    recovered: number;
+    avg_recovery_s: number | null;
+    events: InterventionSummary[];
+  };
+  /** Score at the first capture and at every capture where it changed. */
+  score_trajectory: ScorePoint[];
+  final_score: number | null;
+  /** Latest row the report was built from; newer rows invalidate the cache. */
+  last_observation_at: string | null;
+  generated_at: string;
+  inference_source: 'on-device-expressions';
+}
+
+export type SessionReportResult =
+  | { status: 'ready'; report: SessionReport }
+  | { status: 'pending' }
+  | { status: 'not_found' }
+  | { status: 'forbidden' };
+
+export interface ReportViewer {
+  userId: string;
+  role: AppRole;
+}
+
+interface SessionRow {
+  id: string;
+  child_id: string;
+  session_key: string;
+  played_at: string;
+  duration_seconds: number | null;
+  ai_report: SessionReport | null;
+}
+
+export interface ExpressionRow {
+  expression_label: string;
+  confidence_score: number | string;
+  game_score: number | null;
+  captured_at: string;
+}
+
+export interface InterventionRow {
+  trigger_reason: string;
+  question_index: number | null;
+  created_at: string;
+}
+
+// ─── Aggregation ──────────────────────────────────────────────────────────────
+
+const REPORT_VERSION = 2;
+
+/** Labels that mean the child has not yet recovered from an intervention. */
+const DISTRESS_LABELS = new Set(['frustration', 'confusion']);
+
+const secondsBetween = (from: string, to: string) =>
+  Math.max(0, Math.round((Date.parse(to) - Date.parse(from)) / 1000));
+
+const last = <T>(items: T[]): T | undefined => items[items.length - 1];
+
+const latest = (...timestamps: (string | undefined)[]) =>
+  timestamps.reduce<string | null>((max, t) => (t && (!max || Date.parse(t) > Date.parse(max)) ? t : max), null);
+
+/**
+ * Pure and deterministic: rows must be ordered by time. `startedAt` is the
+ * session's `played_at`, the zero point for every `atS`.
+ */
+export const buildSessionReport = (
+  startedAt: string,
+  durationSeconds: number | null,
+  expressions: ExpressionRow[],
+  interventions: InterventionRow[],
+): Omit<SessionReport, 'generated_at'> => {
+  // Emotion breakdown by share of captures; ties go to the higher total
+  // confidence, then alphabetically, so the dominant label is stable.
+  const counts = new Map<string, { frames: number; confidence: number }>();
+  for (const row of expressions) {
+    const entry = counts.get(row.expression_label) ?? { frames: 0, confidence: 0 };
+    entry.frames += 1;
+    entry.confidence += Number(row.confidence_score);
+    counts.set(row.expression_label, entry);
+  }
+  const ranked = [...counts.entries()].sort(([labelA, a], [labelB, b]) =>
+    b.frames - a.frames || b.confidence - a.confidence || labelA.localeCompare(labelB));
+
+  const emotionBreakdown: Record<string, number> = {};
+  for (const [label, { frames }] of ranked) {
+    emotionBreakdown[label] = Math.round((frames / expressions.length) * 100);
+  }
+
+  const events: InterventionSummary[] = interventions.map((event) => {
+    const triggeredAt = Date.parse(event.created_at);
+    const recovery = expressions.find((row) =>
+      Date.parse(row.captured_at) > triggeredAt && !DISTRESS_LABELS.has(row.expression_label));
+    return {
+      atS: secondsBetween(startedAt, event.created_at),
+      triggerReason: event.trigger_reason,
+      questionIndex: event.question_index,
+      recoveryS: recovery ? secondsBetween(event.created_at, recovery.captured_at) : null,
+    };
+  });
+  const recoveries = events.map((e) => e.recoveryS).filter((s): s is number => s !== null);
+
+  const scoreTrajectory: ScorePoint[] = [];
+  for (const row of expressions) {
+    if (row.game_score === null) continue;
+    if (last(scoreTrajectory)?.score === row.game_score) continue;
+    scoreTrajectory.push({ atS: secondsBetween(startedAt, row.captured_at), score: row.game_score });
+  }
+
+  const lastObservationAt = latest(last(expressions)?.captured_at, last(interventions)?.created_at);
+
+  return {
+    report_version: REPORT_VERSION,
+    dominant_emotion: ranked[0]?.[0] ?? 'neutral',
+    emotion_breakdown: emotionBreakdown,
+    analyzed_frames: expressions.length,
+    session_duration_s: durationSeconds ?? (lastObservationAt ? secondsBetween(startedAt, lastObservationAt) : 0),
+    interventions: {
+      count: events.length,
+      recovered: recoveries.length,
+      avg_recovery_s: recoveries.length > 0
+        ? Math.round(recoveries.reduce((sum, s) => sum + s, 0) / recoveries.length)
+        : null,
+      events,
+    },
+    score_trajectory: scoreTrajectory,
+    final_score: last(scoreTrajectory)?.score ?? null,
+    last_observation_at: lastObservationAt,
+    inference_source: 'on-device-expressions',
+  };
+};
+
+// ─── SessionReports Class ─────────────────────────────────────────────────────
+
+export class SessionReports {
+  /**
+   * The cached report for `sessionKey`, rebuilt first if rows were added
+   * since. 'forbidden' unless `viewer` owns the child or is a SuperAdmin.
+   */
+  async getReport(sessionKey: string, viewer: ReportViewer): Promise<SessionReportResult> {
+    const { data: session, error } = await supabaseAdmin
+      .from('game_sessions')
+      .select('id, child_id, session_key, played_at, duration_seconds, ai_report')
+      .eq('session_key', sessionKey)
+      .maybeSingle<SessionRow>();
+    if (error) throw new Error(`[SessionReports] Session lookup failed: ${error.message}`);
+    if (!session) return { status: 'not_found' };
+    if (viewer.role !== 'SuperAdmin' && (await this.childOwner(session.child_id)) !== viewer.userId) {
+      return { status: 'forbidden' };
+    }
+
+    const cached = session.ai_report;
+    if (cached?.report_version === REPORT_VERSION && cached.last_observation_at) {
+      const newest = await this.latestObservation(session);
+      if (newest && Date.parse(newest) <= Date.parse(cached.last_observation_at)) return { status: 'ready', report: cached };
+    }
+
+    const [expressions, interventions] = await Promise.all([
+      this.loadExpressions(session.id),
+      this.loadInterventions(session.session_key),
+    ]);
+    if (expressions.length === 0 && interventions.length === 0) return { status: 'pending' };
+
+    const report: SessionReport = {
+      ...buildSessionReport(session.played_at, session.duration_seconds, expressions, interventions),
+      generated_at: new Date().toISOString(),
+    };
+
+    const { error: cacheErr } = await supabaseAdmin
+      .from('game_sessions')
+      .update({ ai_report: report })
+      .eq('id', session.id);
+    if (cacheErr) console.warn('[SessionReports] Failed to cache ai_report; serving uncached:', cacheErr.message);
+
+    return { status: 'ready', report };
+  }
+
+  // ─── Internals ──────────────────────────────────────────────────────────────
+
+  private async childOwner(childId: string): Promise<string | null> {
+    const { data, error } = await supabaseAdmin
+      .from('child_profiles')
+      .select('parent_id')
+      .eq('id', childId)
+      .maybeSingle();
+    if (error) throw new Error(`[SessionReports] Child lookup failed: ${error.message}`);
+    return (data?.parent_id as string | undefined) ?? null;
+  }
+
+  private async loadExpressions(gameSessionId: string): Promise<ExpressionRow[]> {
+    const { data, error } = await supabaseAdmin
+      .from('expression_logs')
+      .select('expression_label, confidence_score, game_score, captured_at')
+      .eq('session_id', gameSessionId)
+      .order('captured_at', { ascending: true });
+    if (error) throw new Error(`[SessionReports] Expression query failed: ${error.message}`);
+    return (data as ExpressionRow[]) ?? [];
+  }
+
+  private async loadInterventions(sessionKey: string): Promise<InterventionRow[]> {
+    const { data, error } = await supabaseAdmin
+      .from('intervention_events')
+      .select('trigger_reason, question_index, created_at')
+      .eq('session_id', sessionKey)
+      .order('created_at', { ascending: true });
+    if (error) throw new Error(`[SessionReports] Intervention query failed: ${error.message}`);
+    return (data as InterventionRow[]) ?? [];
+  }
+
+  private async latestObservation(session: SessionRow): Promise<string | null> {
+    const [expression, intervention] = await Promise.all([
+      supabaseAdmin.from('expression_logs').select('captured_at')
+        .eq('session_id', session.id).order('captured_at', { ascending: false }).limit(1),
+      supabaseAdmin.from('intervention_events').select('created_at')
+        .eq('session_id', session.session_key).order('created_at', { ascending: false }).limit(1),
+    ]);
+    if (expression.error) throw new Error(`[SessionReports] Expression query failed: ${expression.error.message}`);
+    if (intervention.error) throw new Error(`[SessionReports] Intervention query failed: ${intervention.error.message}`);
+    return latest(expression.data?.[0]?.captured_at, intervention.data?.[0]?.created_at);
+  }
+}
+
+// ─── Singleton Export ─────────────────────────────────────────────────────────
+
+export const sessionReports = new SessionReports();
@@ -0,0 +1,193 @@
+/**
+ * SpellingReview.ts — Spaced-Repetition Review Queue for Drag & Spell
+ *
+ * A puzzle the child gets wrong on their first drop joins their review
+ * queue, keyed by the solved word. Each later attempt at that word — as a
+ * review or because fresh content happened to include it — is scheduled
+ * with SM-2:
+ *
+ *   quality   = CORRECT_QUALITY if the first drop was right, else MISSED_QUALITY
+ *   quality ≥ 3   repetitions += 1; interval = 1 day, then 6, then interval · ease
+ *   quality < 3   repetitions = 0;  interval = 1 day (a lapse)
+ *   ease     += 0.1 − (5 − quality) · (0.08 + (5 − quality) · 0.02), never below 1.3
+ *
+ * A correct drop keeps the ease factor unchanged, so words the child keeps
+ * getting right spread out quickly and words they keep missing come back
+ * every day. Words answered correctly that were never missed are not queued.
+ *
+ * At session start the game asks for the child's due items and mixes them in
+ * with fresh content; parents read the queue (with upcoming review dates)
+ * directly through RLS.
+ *
+ * Required Supabase SQL: supabase/migrations/kids_spelling_review.sql
+ */
+
+import { supabaseAdmin } from '../utils/supabaseAdmin';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** A Drag & Spell puzzle, as played. */
+export interface SpellingPuzzle {
+  /** The word with `_` for the missing letter, e.g. "Ca_". */
+  puzzle: string;
+  correctLetter: string;
+  options: string[];
+  image: string | null;
+  /** Difficulty level 1–5 when the backend tagged the puzzle. */
+  difficulty: number | null;
+}
+
+export interface ReviewItem extends SpellingPuzzle {
+  /** The solved word, lowercase. */
+  word: string;
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  lapses: number;
+  dueAt: string;
+  lastReviewedAt: string | null;
+}
+
+export interface ReviewRow {
+  word: string;
+  puzzle: string;
+  correct_letter: string;
+  options: string[];
+  image: string | null;
+  difficulty: number | null;
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+  lapses: number;
+  due_at: string;
+  last_reviewed_at: string | null;
+}
+
+export type ReviewSchedule = Pick<ReviewRow, 'ease_factor' | 'interval_days' | 'repetitions' | 'lapses'>;
+
+// ─── SM-2 ─────────────────────────────────────────────────────────────────────
+
+export const PUZZLE_PATTERN = /^[A-Za-z]*_[A-Za-z]*$/;
+export const LETTER_PATTERN = /^[A-Za-z]$/;
+export const MAX_PUZZLE_LENGTH = 20;
+
+/** SM-2 quality grades (0–5) for a first drop. */
+const CORRECT_QUALITY = 4;
+const MISSED_QUALITY = 1;
+const PASSING_QUALITY = 3;
+
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+const FIRST_INTERVAL_DAYS = 1;
+const SECOND_INTERVAL_DAYS = 6;
+
+/** Due items handed to one session at most. */
+export const MAX_DUE_ITEMS = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export const NEW_SCHEDULE: ReviewSchedule = { ease_factor: INITIAL_EASE, interval_days: 0, repetitions: 0, lapses: 0 };
+
+/** The solved word a puzzle is keyed by, e.g. "Ca_" + "t" → "cat". */
+export const solvedWord = (puzzle: string, correctLetter: string) =>
+  puzzle.replace('_', correctLetter).toLowerCase();
+
+/** Pure: the schedule after one more attempt. */
+export const nextSchedule = (current: ReviewSchedule, correct: boolean): ReviewSchedule => {
+  const quality = correct ? CORRECT_QUALITY : MISSED_QUALITY;
+  const ease = Math.max(MIN_EASE, current.ease_factor + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+
+  if (quality < PASSING_QUALITY) {
+    return { ease_factor: round2(ease), interval_days: FIRST_INTERVAL_DAYS, repetitions: 0, lapses: current.lapses + 1 };
+  }
+
+  const interval =
+    current.repetitions === 0 ? FIRST_INTERVAL_DAYS
+      : current.repetitions === 1 ? SECOND_INTERVAL_DAYS
+        : Math.round(current.interval_days * current.ease_factor);
+  return { ease_factor: round2(ease), interval_days: interval, repetitions: current.repetitions + 1, lapses: current.lapses };
+};
+
+const toItem = (row: ReviewRow): ReviewItem => ({
+  word: row.word,
+  puzzle: row.puzzle,
+  correctLetter: row.correct_letter,
+  options: row.options,
+  image: row.image,
+  difficulty: row.difficulty,
+  easeFactor: Number(row.ease_factor),
+  intervalDays: row.interval_days,
+  repetitions: row.repetitions,
+  lapses: row.lapses,
+  dueAt: row.due_at,
+  lastReviewedAt: row.last_reviewed_at,
+});
+
+const REVIEW_COLUMNS =
+  'word, puzzle, correct_letter, options, image, difficulty, ease_factor, interval_days, repetitions, lapses, due_at, last_reviewed_at';
+
+// ─── SpellingReview Class ─────────────────────────────────────────────────────
+
+export class SpellingReview {
+  /** The child's items due now, most overdue first. */
+  async getDue(childId: string, limit = MAX_DUE_ITEMS): Promise<ReviewItem[]> {
+    const { data, error } = await supabaseAdmin
+      .from('spelling_review_items')
+      .select(REVIEW_COLUMNS)
+      .eq('child_id', childId)
+      .lte('due_at', new Date().toISOString())
+      .order('due_at', { ascending: true })
+      .limit(Math.min(limit, MAX_DUE_ITEMS));
+    if (error) throw new Error(`[SpellingReview] Due query failed: ${error.message}`);
+    return ((data as ReviewRow[]) ?? []).map(toItem);
+  }
+
+  /**
+   * Schedules the child's first drop on a puzzle. Returns the queued item,
+   * or null when the word was right and isn't in the queue.
+   */
+  async recordAttempt(childId: string, puzzle: SpellingPuzzle, correct: boolean): Promise<ReviewItem | null> {
+    const word = solvedWord(puzzle.puzzle, puzzle.correctLetter);
+
+    const { data: existing, error: lookupError } = await supabaseAdmin
+      .from('spelling_review_items')
+      .select('ease_factor, interval_days, repetitions, lapses')
+      .eq('child_id', childId)
+      .eq('word', word)
+      .maybeSingle();
+    if (lookupError) throw new Error(`[SpellingReview] Item lookup failed: ${lookupError.message}`);
+    if (!existing && correct) return null;
+
+    const current: ReviewSchedule = existing
+      ? { ...(existing as ReviewSchedule), ease_factor: Number(existing.ease_factor) }
+      : NEW_SCHEDULE;
+    const schedule = nextSchedule(current, correct);
+    const now = new Date();
+
+    const { data, error } = await supabaseAdmin
+      .from('spelling_review_items')
+      .upsert({
+        child_id: childId,
+        word,
+        puzzle: puzzle.puzzle,
+        correct_letter: puzzle.correctLetter.toLowerCase(),
+        options: puzzle.options,
+        image: puzzle.image,
+        difficulty: puzzle.difficulty,
+        ...schedule,
+        due_at: new Date(now.getTime() + schedule.interval_days * DAY_MS).toISOString(),
+        last_reviewed_at: now.toISOString(),
+        updated_at: now.toISOString(),
+      }, { onConflict: 'child_id,word' })
+      .select(REVIEW_COLUMNS)
+      .single();
+    if (error) throw new Error(`[SpellingReview] Item upsert failed: ${error.message}`);
+    return toItem(data as ReviewRow);
+  }
+}
+
+// ─── Singleton Export ─────────────────────────────────────────────────────────
+
+export const spellingReview = new SpellingReview();
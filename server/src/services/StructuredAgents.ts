@@ -0,0 +1,92 @@
+/**
+ * StructuredAgents.ts — Schema-Validated Agent Calls
+ *
+ * Runs a named agent from utils/agentRegistry.ts and only ever hands back
+ * output that matches the agent's zod schema:
+ *
+ *   input ──▶ input schema ──▶ prompt ──▶ LlmProvider ──▶ sanitizeGeminiJson
+ *         ──▶ output schema ──✗──▶ re-ask with the issues (up to 3 attempts)
+ *                           ──✓──▶ typed data
+ *
+ * A re-ask continues the same conversation: the model sees its previous
+ * answer and the exact validation issues, which fixes most drift (missing
+ * fields, a string where an array belongs) in one extra round trip. When
+ * every attempt fails the caller gets `invalid_output` with the last
+ * attempt's issues; Gemini/network errors are thrown.
+ */
+
+import { sanitizeGeminiJson } from '../utils/sanitizeGeminiJson';
+import {
+  agentRegistry,
+  formatIssues,
+  type AgentDefinition,
+  type AgentName,
+  type AgentOutput,
+} from '../utils/agentRegistry';
+import { llmProvider, type LlmMessage, type LlmProvider } from './LlmProvider';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type StructuredAgentResult<N extends AgentName> =
+  | { status: 'ok'; data: AgentOutput<N>; attempts: number }
+  | { status: 'invalid_input'; issues: string[] }
+  | { status: 'invalid_output'; issues: string[]; attempts: number };
+
+// ─── Configuration ────────────────────────────────────────────────────────────
+
+const MAX_ATTEMPTS = 3;
+
+const buildReask = (issues: string[]) => `Your previous response did not match the required JSON schema:
+${issues.map((issue) => `- ${issue}`).join('\n')}
+
+Respond again with ONLY the corrected JSON — no markdown, no code fences, no explanation.`;
+
+// ─── StructuredAgents Class ───────────────────────────────────────────────────
+
+export class StructuredAgents {
+  constructor(private readonly llm: LlmProvider = llmProvider) {}
+
+  /**
+   * Validates `input`, prompts the agent, and re-asks until the output
+   * matches its schema or attempts run out.
+   */
+  async run<N extends AgentName>(name: N, input: unknown): Promise<StructuredAgentResult<N>> {
+    // TypeScript can't correlate an entry's input, prompt and output types
+    // through a generic key, so the entry is widened and the output re-narrowed
+    const agent = agentRegistry[name] as unknown as AgentDefinition;
+
+    const parsedInput = agent.input.safeParse(input);
+    if (!parsedInput.success) return { status: 'invalid_input', issues: formatIssues(parsedInput.error) };
+
+    const messages: LlmMessage[] = [{ role: 'user', text: agent.prompt(parsedInput.data) }];
+    const mock = () => JSON.stringify(agent.mock(parsedInput.data));
+    let issues: string[] = [];
+
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+      const { text: rawText } = await this.llm.generate({
+        purpose: `agent:${name}`,
+        prompt: [...messages],
+        secondaryKey: true,
+        mock,
+      });
+
+      const json = sanitizeGeminiJson(rawText);
+      const parsed = json === null ? null : agent.output.safeParse(json);
+      if (parsed?.success) return { status: 'ok', data: parsed.data as AgentOutput<N>, attempts: attempt };
+
+      issues = parsed ? formatIssues(parsed.error) : ['(root): Response was not valid JSON'];
+      console.warn(`[StructuredAgents] ${name} attempt ${attempt}/${MAX_ATTEMPTS} failed validation:`, issues.join('; '));
+
+      messages.push(
+        { role: 'model', text: rawText },
+        { role: 'user', text: buildReask(issues) },
+      );
+    }
+
+    return { status: 'invalid_output', issues, attempts: MAX_ATTEMPTS };
+  }
+}
+
+// ─── Singleton Export ─────────────────────────────────────────────────────────
+
+export const structuredAgents = new StructuredAgents();
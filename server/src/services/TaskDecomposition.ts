@@ -0,0 +1,206 @@
+/**
+ * TaskDecomposition.ts — Micro-Task Breakdown with Personal Time Correction
+ *
+ * Turns an overwhelming task into 5–7 tiny steps (the schema-validated
+ * `chunkTask` agent, utils/agentRegistry.ts) and, for orchestrated requests,
+ * pads every step by the user's personal time-blindness multiplier:
+ *
+ *   task_time_records ──▶ calculatePaddingMultiplier() ──▶ × Gemini estimates
+ *                                                         ──▶ task_breakdowns
+ *
+ * The multiplier is the same recency-weighted actual/estimated ratio as
+ * src/lib/algorithms/timeCorrection.ts, computed from timings the client
+ * reports after each completed step. Steps keep the unpadded Gemini
+ * estimate in `raw_estimated_minutes`; timings are recorded against it so
+ * the correction never compounds on itself.
+ *
+ * Required Supabase SQL: supabase/migrations/task_breakdowns.sql
+ */
+
+import { supabaseAdmin } from '../utils/supabaseAdmin';
+import type { AgentOutput } from '../utils/agentRegistry';
+import { structuredAgents } from './StructuredAgents';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface MicroTask {
+  id: string;
+  step: string;
+  estimated_minutes: number;
+  friction_point: string;
+  /** Gemini's estimate before time-blindness padding. */
+  raw_estimated_minutes?: number;
+}
+
+export interface TaskBreakdown {
+  id: string;
+  description: string;
+  baseEstimateMinutes: number;
+  paddingMultiplier: number;
+  paddedEstimateMinutes: number;
+  steps: MicroTask[];
+  /** True when Gemini failed and the generic fallback steps were used. */
+  fallback: boolean;
+  createdAt: string;
+}
+
+export interface TaskTimingRecord {
+  taskId: string;
+  estimatedSeconds: number;
+  actualSeconds: number;
+}
+
+// ─── Configuration ────────────────────────────────────────────────────────────
+
+const MAX_HISTORY_LENGTH = 50;
+const MIN_RECORDS_FOR_CALIB = 5;
+const DEFAULT_MULTIPLIER = 1.35; // Default padding while calibrating
+const MAX_MULTIPLIER = 3.0;
+const MIN_MULTIPLIER = 1.0;
+
+const FALLBACK_STEPS: MicroTask[] = [
+  { id: 'step-1', step: 'Open a blank document or workspace.', estimated_minutes: 1, friction_point: 'Starting feels hard' },
+  { id: 'step-2', step: 'Write a single-sentence summary of what you need to do.', estimated_minutes: 2, friction_point: 'Clarity paralysis' },
+  { id: 'step-3', step: 'List the 3 most obvious sub-tasks.', estimated_minutes: 3, friction_point: 'Overwhelming scope' },
+  { id: 'step-4', step: 'Complete sub-task #1 only.', estimated_minutes: 5, friction_point: 'Perfectionism trap' },
+  { id: 'step-5', step: 'Take a 30-second stretch break, then start sub-task #2.', estimated_minutes: 5, friction_point: 'Momentum loss' },
+];
+
+/** Schema-valid steps still need unique IDs: Gemini often repeats its example slug. */
+const normalizeSteps = (steps: AgentOutput<'chunkTask'>): MicroTask[] =>
+  steps.map((s, i) => ({
+    id: `${s.id || 'step'}-${i + 1}`,
+    step: s.step,
+    estimated_minutes: s.estimated_minutes,
+    friction_point: s.friction_point,
+  }));
+
+/**
+ * Recency-weighted actual/estimated ratio, clamped to [1.0, 3.0].
+ * Expects records oldest first; returns 1.35 until five exist.
+ */
+export const calculatePaddingMultiplier = (history: TaskTimingRecord[]): number => {
+  if (history.length < MIN_RECORDS_FOR_CALIB) return DEFAULT_MULTIPLIER;
+
+  let weightedSum = 0;
+  let weightTotal = 0;
+
+  // Most recent first: weight 1.0, then 0.9, 0.81, ...
+  history.slice().reverse().forEach((record, index) => {
+    const weight = Math.pow(0.9, index);
+    weightedSum += (record.actualSeconds / record.estimatedSeconds) * weight;
+    weightTotal += weight;
+  });
+
+  if (weightTotal === 0) return DEFAULT_MULTIPLIER;
+
+  const multiplier = Math.max(MIN_MULTIPLIER, Math.min(MAX_MULTIPLIER, weightedSum / weightTotal));
+  return Number(multiplier.toFixed(2));
+};
+
+// ─── TaskDecomposition Class ──────────────────────────────────────────────────
+
+export class TaskDecomposition {
+  /**
+   * Gemini breakdown of a task. Never throws — falls back to generic steps.
+   */
+  async decompose(task: string): Promise<{ steps: MicroTask[]; fallback: boolean }> {
+    try {
+      const result = await structuredAgents.run('chunkTask', { task });
+      if (result.status === 'ok') return { steps: normalizeSteps(result.data), fallback: false };
+
+      console.warn(`[TaskDecomposition] Unusable Gemini output (${result.status}):`, result.issues.join('; '));
+    } catch (err) {
+      console.error('[TaskDecomposition] Gemini API error:', (err as Error).message);
+    }
+
+    return { steps: FALLBACK_STEPS.map((s) => ({ ...s })), fallback: true };
+  }
+
+  /** The user's multiplier from their most recent step timings. */
+  async getPaddingMultiplier(userId: string): Promise<number> {
+    const { data, error } = await supabaseAdmin
+      .from('task_time_records')
+      .select('task_id, estimated_seconds, actual_seconds')
+      .eq('user_id', userId)
+      .order('recorded_at', { ascending: false })
+      .limit(MAX_HISTORY_LENGTH);
+
+    if (error) throw new Error(`[TaskDecomposition] Timing history query failed: ${error.message}`);
+
+    const history: TaskTimingRecord[] = (data ?? [])
+      .map((row) => ({
+        taskId: row.task_id as string,
+        estimatedSeconds: row.estimated_seconds as number,
+        actualSeconds: row.actual_seconds as number,
+      }))
+      .reverse();
+
+    return calculatePaddingMultiplier(history);
+  }
+
+  /**
+   * Stores one completed step. Ignores obvious outliers (timer left running
+   * for more than 10× the estimate), as the client does.
+   */
+  async recordTiming(userId: string, record: TaskTimingRecord): Promise<boolean> {
+    if (record.estimatedSeconds <= 0 || record.actualSeconds <= 0) return false;
+    if (record.actualSeconds > record.estimatedSeconds * 10) return false;
+
+    const { error } = await supabaseAdmin.from('task_time_records').insert({
+      user_id: userId,
+      task_id: record.taskId,
+      estimated_seconds: Math.round(record.estimatedSeconds),
+      actual_seconds: Math.round(record.actualSeconds),
+    });
+    if (error) throw new Error(`[TaskDecomposition] Timing insert failed: ${error.message}`);
+    return true;
+  }
+
+  /**
+   * Decomposes, pads by the user's multiplier, and stores the breakdown.
+   */
+  async createBreakdown(userId: string, description: string, baseEstimateMinutes: number): Promise<TaskBreakdown> {
+    const [multiplier, { steps, fallback }] = await Promise.all([
+      this.getPaddingMultiplier(userId),
+      this.decompose(description),
+    ]);
+
+    const padded = steps.map((s) => ({
+      ...s,
+      raw_estimated_minutes: s.estimated_minutes,
+      estimated_minutes: Math.ceil(s.estimated_minutes * multiplier),
+    }));
+
+    const { data, error } = await supabaseAdmin
+      .from('task_breakdowns')
+      .insert({
+        user_id: userId,
+        description,
+        base_estimate_minutes: baseEstimateMinutes,
+        padding_multiplier: multiplier,
+        padded_estimate_minutes: Math.ceil(baseEstimateMinutes * multiplier),
+        steps: padded,
+        fallback,
+      })
+      .select('id, created_at')
+      .single();
+
+    if (error) throw new Error(`[TaskDecomposition] Breakdown insert failed: ${error.message}`);
+
+    return {
+      id: data.id as string,
+      description,
+      baseEstimateMinutes,
+      paddingMultiplier: multiplier,
+      paddedEstimateMinutes: Math.ceil(baseEstimateMinutes * multiplier),
+      steps: padded,
+      fallback,
+      createdAt: data.created_at as string,
+    };
+  }
+}
+
+// ─── Singleton Export ─────────────────────────────────────────────────────────
+
+export const taskDecomposition = new TaskDecomposition();
@@ -0,0 +1,295 @@
+/**
+ * TelemetryPipeline.ts — Buffered Cognitive Telemetry Ingestion
+ *
+ * Every connected client streams `ingest_cognitive_state` over Socket.io.
+ * Writing each sample individually would hammer Postgres, so samples are
+ * held in memory and flushed on a fixed interval (or early, once the
+ * buffer fills):
+ *
+ *   socket → ingest() → buffer ──flush──▶ cognitive_snapshots   (raw rows, batched)
+ *                                   └──▶ cognitive_rollups    (minute/hour/day)
+ *
+ * Rollups are merged atomically by the `merge_cognitive_rollups` RPC, so
+ * several server instances can flush into the same buckets safely.
+ *
+ * Each step retries on its own. Snapshots carry a `sample_key` and are
+ * upserted on it, so a re-queued batch never inserts a row twice; rollup
+ * deltas whose merge failed are kept and folded into the next flush instead
+ * of re-inserting their samples. Rows the database rejects (e.g. a deleted
+ * user) are dropped rather than retried forever.
+ *
+ * Required Supabase SQL: supabase/migrations/cognitive_telemetry_rollups.sql
+ */
+
+import crypto from 'crypto';
+import { supabaseAdmin } from '../utils/supabaseAdmin';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type CognitiveClassification = 'hyperfocus' | 'normal' | 'approaching_overload' | 'overload';
+
+export type RollupGranularity = 'minute' | 'hour' | 'day';
+
+export interface TelemetrySample {
+  userId: string;
+  score: number;
+  classification: CognitiveClassification;
+  contextSwitches: number;
+  timestamp: string;
+}
+
+export interface CognitiveRollup {
+  bucket_start: string;
+  granularity: RollupGranularity;
+  sample_count: number;
+  mean_load: number;
+  max_load: number;
+  time_hyperfocus_s: number;
+  time_normal_s: number;
+  time_approaching_overload_s: number;
+  time_overload_s: number;
+  context_switches: number;
+}
+
+/** A queued sample plus the wall-clock time it represents. */
+interface BufferedSample extends TelemetrySample {
+  /** `cognitive_snapshots.sample_key` — makes re-inserting a retried sample a no-op. */
+  sampleKey: string;
+  elapsedSeconds: number;
+}
+
+/** Partial rollup for one (user, granularity, bucket) built from a single flush. */
+interface RollupDelta {
+  user_id: string;
+  granularity: RollupGranularity;
+  bucket_start: string;
+  sample_count: number;
+  load_sum: number;
+  max_load: number;
+  time_hyperfocus_s: number;
+  time_normal_s: number;
+  time_approaching_overload_s: number;
+  time_overload_s: number;
+  context_switches: number;
+}
+
+// ─── Configuration ────────────────────────────────────────────────────────────
+
+const FLUSH_INTERVAL_MS = Number(process.env.TELEMETRY_FLUSH_INTERVAL_MS) || 10_000;
+const MAX_BUFFER_SIZE = Number(process.env.TELEMETRY_MAX_BUFFER) || 500;
+/** Upper bound on samples (and on rollup deltas) kept for retry when the database is unreachable. */
+const MAX_RETRY_BACKLOG = MAX_BUFFER_SIZE * 10;
+/** Clients emit roughly every 5s; the first sample of a session is credited this much time. */
+const DEFAULT_SAMPLE_SECONDS = 5;
+/** Longer gaps mean the user was away — don't credit the whole gap to one state. */
+const MAX_SAMPLE_GAP_SECONDS = 30;
+
+const GRANULARITIES: RollupGranularity[] = ['minute', 'hour', 'day'];
+
+const CLASSIFICATIONS: CognitiveClassification[] = ['hyperfocus', 'normal', 'approaching_overload', 'overload'];
+
+const TIME_COLUMN: Record<CognitiveClassification, keyof RollupDelta & `time_${string}`> = {
+  hyperfocus: 'time_hyperfocus_s',
+  normal: 'time_normal_s',
+  approaching_overload: 'time_approaching_overload_s',
+  overload: 'time_overload_s',
+};
+
+export const isCognitiveClassification = (value: unknown): value is CognitiveClassification =>
+  CLASSIFICATIONS.includes(value as CognitiveClassification);
+
+/** Truncates a timestamp to the start of its UTC minute/hour/day bucket. */
+const bucketStart = (ts: Date, granularity: RollupGranularity): string => {
+  const d = new Date(ts);
+  d.setUTCSeconds(0, 0);
+  if (granularity !== 'minute') d.setUTCMinutes(0);
+  if (granularity === 'day') d.setUTCHours(0);
+  return d.toISOString();
+};
+
+/** Postgres data (22xxx) and integrity (23xxx) errors: retrying the same rows can't succeed. */
+const isRejectedByDatabase = (error: { code?: string }) =>
+  !!error.code && (error.code.startsWith('22') || error.code.startsWith('23'));
+
+const toSnapshotRow = (s: BufferedSample) => ({
+  sample_key: s.sampleKey,
+  user_id: s.userId,
+  score: Math.round(s.score),
+  classification: s.classification,
+  context_switches: s.contextSwitches,
+  created_at: s.timestamp,
+});
+
+// ─── TelemetryPipeline Class ──────────────────────────────────────────────────
+
+export class TelemetryPipeline {
+  private buffer: BufferedSample[] = [];
+  /** Rollup deltas whose merge failed, keyed by user|granularity|bucket. */
+  private pendingDeltas: Map<string, RollupDelta> = new Map();
+  private lastSampleAt: Map<string, number> = new Map();
+  private timer: NodeJS.Timeout | null = null;
+  private flushing: Promise<void> | null = null;
+
+  /** Starts the periodic flush loop. Safe to call more than once. */
+  start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => { void this.flush(); }, FLUSH_INTERVAL_MS);
+    // Don't keep the process alive just for telemetry
+    this.timer.unref();
+    console.log(`[Telemetry] Pipeline started (flush every ${FLUSH_INTERVAL_MS}ms).`);
+  }
+
+  /** Stops the loop and drains whatever is still buffered. */
+  async stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    await this.flush();
+  }
+
+  /**
+   * Queues one sample, crediting it with the time since that user's previous
+   * sample. Flushes early if the buffer is full.
+   */
+  ingest(sample: TelemetrySample) {
+    const at = Date.parse(sample.timestamp);
+    const previous = this.lastSampleAt.get(sample.userId);
+    const elapsedSeconds = previous === undefined
+      ? DEFAULT_SAMPLE_SECONDS
+      : Math.max(0, Math.min(MAX_SAMPLE_GAP_SECONDS, (at - previous) / 1000));
+    this.lastSampleAt.set(sample.userId, Math.max(previous ?? 0, at));
+
+    this.buffer.push({ ...sample, sampleKey: crypto.randomUUID(), elapsedSeconds });
+    if (this.buffer.length >= MAX_BUFFER_SIZE) void this.flush();
+  }
+
+  // ── Flushing ──────────────────────────────────────────────────────────────
+
+  /**
+   * Writes buffered samples as one batch upsert plus one rollup merge.
+   * Only one flush runs at a time; each step re-queues only its own work
+   * (bounded).
+   */
+  async flush(): Promise<void> {
+    if (this.flushing) return this.flushing;
+    if (this.buffer.length === 0 && this.pendingDeltas.size === 0) return;
+
+    const batch = this.buffer;
+    this.buffer = [];
+
+    this.flushing = this.writeBatch(batch).finally(() => { this.flushing = null; });
+    return this.flushing;
+  }
+
+  private async writeBatch(batch: BufferedSample[]): Promise<void> {
+    let stored: BufferedSample[] = [];
+    try {
+      stored = await this.storeSnapshots(batch);
+    } catch (err) {
+      console.error(`[Telemetry] Snapshot insert of ${batch.length} samples failed, re-queueing:`, (err as Error).message);
+      this.buffer = [...batch, ...this.buffer].slice(-MAX_RETRY_BACKLOG);
+    }
+
+    const deltas = this.buildRollupDeltas(stored, this.pendingDeltas);
+    this.pendingDeltas = new Map();
+    if (deltas.size === 0) return;
+
+    const { error } = await supabaseAdmin.rpc('merge_cognitive_rollups', { deltas: [...deltas.values()] });
+    if (error) {
+      console.error(`[Telemetry] Rollup merge of ${deltas.size} buckets failed, keeping them for the next flush:`, error.message);
+      this.pendingDeltas = new Map([...deltas].slice(-MAX_RETRY_BACKLOG));
+    }
+  }
+
+  /**
+   * Upserts the batch on `sample_key` and returns the samples now stored.
+   * If the database rejects the batch, rows are retried one by one and the
+   * rejected ones dropped. Throws only for errors worth retrying.
+   */
+  private async storeSnapshots(batch: BufferedSample[]): Promise<BufferedSample[]> {
+    if (batch.length === 0) return [];
+
+    const { error } = await supabaseAdmin
+      .from('cognitive_snapshots')
+      .upsert(batch.map(toSnapshotRow), { onConflict: 'sample_key', ignoreDuplicates: true });
+    if (!error) return batch;
+    if (!isRejectedByDatabase(error)) throw error;
+
+    const stored: BufferedSample[] = [];
+    for (const sample of batch) {
+      const { error: rowError } = await supabaseAdmin
+        .from('cognitive_snapshots')
+        .upsert(toSnapshotRow(sample), { onConflict: 'sample_key', ignoreDuplicates: true });
+      if (!rowError) stored.push(sample);
+      else if (isRejectedByDatabase(rowError)) console.warn(`[Telemetry] Dropped a sample for ${sample.userId}:`, rowError.message);
+      else throw rowError;
+    }
+    return stored;
+  }
+
+  /**
+   * Folds a batch into per-(user, granularity, bucket) partial aggregates,
+   * on top of `carried` (one delta per key: the merge can't touch a row twice).
+   */
+  private buildRollupDeltas(batch: BufferedSample[], carried: Map<string, RollupDelta>): Map<string, RollupDelta> {
+    const deltas = new Map(carried);
+
+    for (const sample of batch) {
+      const at = new Date(sample.timestamp);
+
+      for (const granularity of GRANULARITIES) {
+        const bucket = bucketStart(at, granularity);
+        const key = `${sample.userId}|${granularity}|${bucket}`;
+        const delta = deltas.get(key) ?? {
+          user_id: sample.userId,
+          granularity,
+          bucket_start: bucket,
+          sample_count: 0,
+          load_sum: 0,
+          max_load: 0,
+          time_hyperfocus_s: 0,
+          time_normal_s: 0,
+          time_approaching_overload_s: 0,
+          time_overload_s: 0,
+          context_switches: 0,
+        };
+
+        delta.sample_count += 1;
+        delta.load_sum += sample.score;
+        delta.max_load = Math.max(delta.max_load, sample.score);
+        delta[TIME_COLUMN[sample.classification]] += sample.elapsedSeconds;
+        delta.context_switches += sample.contextSwitches;
+        deltas.set(key, delta);
+      }
+    }
+
+    return deltas;
+  }
+
+  // ── Query API ─────────────────────────────────────────────────────────────
+
+  /**
+   * Reads a user's rollups for a time range, oldest bucket first.
+   */
+  async getRollups(
+    userId: string,
+    granularity: RollupGranularity,
+    from: Date,
+    to: Date = new Date(),
+  ): Promise<CognitiveRollup[]> {
+    const { data, error } = await supabaseAdmin
+      .from('cognitive_rollups')
+      .select('bucket_start, granularity, sample_count, mean_load, max_load, time_hyperfocus_s, time_normal_s, time_approaching_overload_s, time_overload_s, context_switches')
+      .eq('user_id', userId)
+      .eq('granularity', granularity)
+      .gte('bucket_start', bucketStart(from, granularity))
+      .lte('bucket_start', to.toISOString())
+      .order('bucket_start', { ascending: true });
+
+    if (error) throw new Error(`[Telemetry] Rollup query failed: ${error.message}`);
+    return (data as CognitiveRollup[]) ?? [];
+  }
+}
+
+// ─── Singleton Export ─────────────────────────────────────────────────────────
+
+export const telemetryPipeline = new TelemetryPipeline();
@@ -0,0 +1,354 @@
+/**
+ * UsageMeter.ts — Per-User LLM Token Accounting & Daily Quotas
+ *
+ * Every /api/agents/* request runs inside a usage context (see
+ * middleware/usageMeter.ts). The MeteredLlmProvider hooks registered here
+ * add each LLM call's tokens to the active context, and when the response
+ * closes the request is written to `llm_usage_events` as one row.
+ *
+ *   request ──▶ caller + role ──▶ today's tokens vs. role quota
+ *           ──▶ handler ──▶ llmProvider ──▶ afterCall adds tokens
+ *           ──▶ response closed ──▶ usage row
+ *
+ * Quotas are daily (UTC) token budgets per `app_role`, overridable with
+ * LLM_DAILY_TOKEN_QUOTAS; unauthenticated callers get the small `anonymous`
+ * quota per client IP (stored only as a hash), and 0 means unlimited. A caller already over quota isn't refused:
+ * `beforeCall` throws, so routes with an offline path (fallback quizzes,
+ * hardcoded micro-steps, RSD pattern matching) answer from it, and routes
+ * without one return 429 `quota_exceeded` so the client can use offlineNLP.
+ * Metering fails open: if the usage table is unreachable, only tokens counted
+ * by this instance since it last read the table count toward the quota.
+ *
+ * Required Supabase SQL: supabase/migrations/llm_usage.sql
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import crypto from 'crypto';
+import { supabaseAdmin } from '../utils/supabaseAdmin';
+import { getAppRole, type AppRole } from '../middleware/auth';
+import { llmProvider, type LlmCallEvent, type MeteredLlmProvider } from './LlmProvider';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type UsageRole = AppRole | 'anonymous';
+
+export type UsageStatus = 'ok' | 'error' | 'degraded';
+
+export interface UsageContext {
+  userId: string | null;
+  /** Hashed client IP for unauthenticated callers; null when signed in. */
+  clientKey: string | null;
+  role: UsageRole;
+  agent: string;
+  /** The caller's daily quota was already spent when the request arrived. */
+  overQuota: boolean;
+  inputTokens: number;
+  outputTokens: number;
+  llmCalls: number;
+  llmErrors: number;
+  startedAt: number;
+}
+
+export interface AgentUsage {
+  agent: string;
+  requests: number;
+  users: number;
+  inputTokens: number;
+  outputTokens: number;
+  avgLatencyMs: number;
+  p95LatencyMs: number;
+  /** Share of requests that failed or hit an LLM error, 0-1. */
+  errorRate: number;
+  degradedRequests: number;
+}
+
+export interface RoleUsage {
+  role: UsageRole;
+  users: number;
+  tokens: number;
+  degradedRequests: number;
+  /** Tokens per caller per UTC day; null when unlimited. */
+  dailyQuota: number | null;
+}
+
+export interface UsageReport {
+  windowDays: number;
+  provider: string;
+  agents: AgentUsage[];
+  roles: RoleUsage[];
+  totals: { requests: number; tokens: number; errorRate: number; degradedRequests: number };
+}
+
+interface SubjectState {
+  role: UsageRole;
+  day: string;
+  tokensToday: number;
+  refreshedAt: number;
+}
+
+interface AgentUsageRow {
+  agent: string;
+  requests: number;
+  users: number;
+  input_tokens: number;
+  output_tokens: number;
+  avg_latency_ms: number;
+  p95_latency_ms: number;
+  errors: number;
+  degraded: number;
+}
+
+interface RoleUsageRow {
+  app_role: UsageRole;
+  users: number;
+  tokens: number;
+  degraded: number;
+}
+
+// ─── Configuration ────────────────────────────────────────────────────────────
+
+export const DEFAULT_DAILY_TOKEN_QUOTAS: Record<UsageRole, number> = {
+  SuperAdmin: 0,
+  Teacher: 200_000,
+  Parent: 100_000,
+  Adult_User: 200_000,
+  Child_User: 50_000,
+  // Per client IP, not shared: enough to try the app signed out
+  anonymous: 20_000,
+};
+
+/** Today's totals are re-read from the table this often, to include other instances. */
+const SUBJECT_TTL_MS = 5 * 60_000;
+const ANONYMOUS_SUBJECT = 'anonymous';
+/** Above this many cached callers, entries past their TTL are dropped. */
+const MAX_CACHED_SUBJECTS = 10_000;
+const MS_PER_DAY = 86_400_000;
+
+/** Parses LLM_DAILY_TOKEN_QUOTAS over the defaults; invalid entries are skipped with a warning. */
+export const parseDailyQuotas = (raw: string | undefined): Record<UsageRole, number> => {
+  const quotas = { ...DEFAULT_DAILY_TOKEN_QUOTAS };
+  if (!raw) return quotas;
+
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) throw new Error('expected a JSON object');
+
+    for (const [role, quota] of Object.entries(parsed)) {
+      if (!(role in quotas) || typeof quota !== 'number' || !Number.isInteger(quota) || quota < 0) {
+        console.warn(`[Usage] Skipping quota "${role}": expected a known role and a non-negative integer.`);
+        continue;
+      }
+      quotas[role as UsageRole] = quota;
+    }
+  } catch (err) {
+    console.warn('[Usage] Ignoring LLM_DAILY_TOKEN_QUOTAS:', (err as Error).message);
+  }
+  return quotas;
+};
+
+const utcDay = (now = Date.now()) => new Date(now).toISOString().slice(0, 10);
+
+const windowStart = (days: number) => {
+  const from = new Date(Date.now() - days * MS_PER_DAY);
+  from.setUTCHours(0, 0, 0, 0);
+  return from.toISOString();
+};
+
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
+
+const subjectKey = (userId: string | null, clientKey: string | null) =>
+  userId ?? `${ANONYMOUS_SUBJECT}:${clientKey}`;
+
+const hashClientIp = (ip: string) => crypto.createHash('sha256').update(ip).digest('hex').slice(0, 32);
+
+// ─── UsageMeter Class ─────────────────────────────────────────────────────────
+
+export class UsageMeter {
+  private readonly storage = new AsyncLocalStorage<UsageContext>();
+  private readonly subjects = new Map<string, SubjectState>();
+
+  constructor(
+    private readonly llm: MeteredLlmProvider = llmProvider,
+    private readonly quotas = parseDailyQuotas(process.env.LLM_DAILY_TOKEN_QUOTAS),
+  ) {
+    llm.use({
+      beforeCall: (request) => {
+        const context = this.current();
+        if (context?.overQuota) {
+          throw new Error(`[Usage] Daily LLM quota spent for ${context.role}; skipping ${request.purpose}.`);
+        }
+      },
+      afterCall: (event) => this.record(event),
+    });
+  }
+
+  /** The usage context of the request being handled, if any. */
+  current(): UsageContext | undefined {
+    return this.storage.getStore();
+  }
+
+  /** Tokens per caller per UTC day for `role`; null when unlimited. */
+  quotaFor(role: UsageRole): number | null {
+    return this.quotas[role] || null;
+  }
+
+  /**
+   * Resolves the caller's role and today's spend, and opens a context for
+   * one request. Unauthenticated callers are metered by `clientIp`. Never
+   * throws: lookups that fail fall back to local totals.
+   */
+  async begin(userId: string | null, agent: string, clientIp = 'unknown'): Promise<UsageContext> {
+    const clientKey = userId ? null : hashClientIp(clientIp);
+    const subject = await this.loadSubject(userId, clientKey);
+    const quota = this.quotaFor(subject.role);
+
+    return {
+      userId,
+      clientKey,
+      role: subject.role,
+      agent,
+      overQuota: quota !== null && subject.tokensToday >= quota,
+      inputTokens: 0,
+      outputTokens: 0,
+      llmCalls: 0,
+      llmErrors: 0,
+      startedAt: Date.now(),
+    };
+  }
+
+  /** Runs `fn` (and everything it awaits) inside `context`. */
+  run<T>(context: UsageContext, fn: () => T): T {
+    return this.storage.run(context, fn);
+  }
+
+  /** Stores the finished request and adds its tokens to the caller's day. */
+  async finish(context: UsageContext, httpStatus: number): Promise<void> {
+    const tokens = context.inputTokens + context.outputTokens;
+    const status: UsageStatus = context.overQuota
+      ? 'degraded'
+      : httpStatus >= 500 || context.llmErrors > 0 ? 'error' : 'ok';
+
+    const subject = this.subjects.get(subjectKey(context.userId, context.clientKey));
+    if (subject?.day === utcDay()) subject.tokensToday += tokens;
+
+    const { error } = await supabaseAdmin.from('llm_usage_events').insert({
+      user_id: context.userId,
+      client_key: context.clientKey,
+      app_role: context.role,
+      agent: context.agent,
+      input_tokens: context.inputTokens,
+      output_tokens: context.outputTokens,
+      llm_calls: context.llmCalls,
+      latency_ms: Date.now() - context.startedAt,
+      status,
+    });
+    if (error) console.error('[Usage] Failed to store usage event:', error.message);
+  }
+
+  /** Per-agent and per-role usage over the last `days` days, for the admin view. */
+  async getReport(days: number): Promise<UsageReport> {
+    const [agentsResult, rolesResult] = await Promise.all([
+      supabaseAdmin.rpc('llm_usage_by_agent', { p_from: windowStart(days) }),
+      supabaseAdmin.rpc('llm_usage_by_role', { p_from: windowStart(days) }),
+    ]);
+    if (agentsResult.error) throw new Error(`[Usage] Agent usage query failed: ${agentsResult.error.message}`);
+    if (rolesResult.error) throw new Error(`[Usage] Role usage query failed: ${rolesResult.error.message}`);
+
+    const agentRows = (agentsResult.data as AgentUsageRow[]) ?? [];
+    const roleRows = (rolesResult.data as RoleUsageRow[]) ?? [];
+
+    const agents: AgentUsage[] = agentRows.map((row) => ({
+      agent: row.agent,
+      requests: row.requests,
+      users: row.users,
+      inputTokens: Number(row.input_tokens),
+      outputTokens: Number(row.output_tokens),
+      avgLatencyMs: Math.round(row.avg_latency_ms),
+      p95LatencyMs: Math.round(row.p95_latency_ms),
+      errorRate: row.requests > 0 ? round3(row.errors / row.requests) : 0,
+      degradedRequests: row.degraded,
+    }));
+
+    const roles: RoleUsage[] = (Object.keys(this.quotas) as UsageRole[]).map((role) => {
+      const row = roleRows.find((r) => r.app_role === role);
+      return {
+        role,
+        users: row?.users ?? 0,
+        tokens: Number(row?.tokens ?? 0),
+        degradedRequests: row?.degraded ?? 0,
+        dailyQuota: this.quotaFor(role),
+      };
+    });
+
+    const requests = agentRows.reduce((sum, row) => sum + row.requests, 0);
+    const errors = agentRows.reduce((sum, row) => sum + row.errors, 0);
+
+    return {
+      windowDays: days,
+      provider: this.llm.name,
+      agents,
+      roles,
+      totals: {
+        requests,
+        tokens: agents.reduce((sum, a) => sum + a.inputTokens + a.outputTokens, 0),
+        errorRate: requests > 0 ? round3(errors / requests) : 0,
+        degradedRequests: agents.reduce((sum, a) => sum + a.degradedRequests, 0),
+      },
+    };
+  }
+
+  // ─── Internals ──────────────────────────────────────────────────────────────
+
+  private record(event: LlmCallEvent) {
+    const context = this.current();
+    if (!context) return;
+
+    context.llmCalls += 1;
+    context.inputTokens += event.inputTokens;
+    context.outputTokens += event.outputTokens;
+    if (event.error) context.llmErrors += 1;
+  }
+
+  private async loadSubject(userId: string | null, clientKey: string | null): Promise<SubjectState> {
+    const key = subjectKey(userId, clientKey);
+    const today = utcDay();
+    const cached = this.subjects.get(key);
+    if (cached && cached.day === today && Date.now() - cached.refreshedAt < SUBJECT_TTL_MS) return cached;
+    if (this.subjects.size >= MAX_CACHED_SUBJECTS) this.pruneSubjects(today);
+
+    try {
+      const [role, spent] = await Promise.all([
+        userId ? getAppRole(userId) : Promise.resolve<UsageRole>(ANONYMOUS_SUBJECT),
+        supabaseAdmin.rpc('llm_tokens_used_since', {
+          p_user_id: userId,
+          p_client_key: clientKey,
+          p_since: `${today}T00:00:00.000Z`,
+        }),
+      ]);
+      if (spent.error) throw new Error(spent.error.message);
+
+      const subject: SubjectState = { role, day: today, tokensToday: Number(spent.data ?? 0), refreshedAt: Date.now() };
+      this.subjects.set(key, subject);
+      return subject;
+    } catch (err) {
+      console.warn('[Usage] Could not load today\'s usage; using local totals:', (err as Error).message);
+      // refreshedAt 0: retry on the next request rather than after a full TTL
+      const subject: SubjectState = cached?.day === today
+        ? { ...cached, refreshedAt: 0 }
+        : { role: cached?.role ?? (userId ? 'Adult_User' : ANONYMOUS_SUBJECT), day: today, tokensToday: 0, refreshedAt: 0 };
+      this.subjects.set(key, subject);
+      return subject;
+    }
+  }
+
+  private pruneSubjects(today: string) {
+    const now = Date.now();
+    for (const [key, subject] of this.subjects) {
+      if (subject.day !== today || now - subject.refreshedAt >= SUBJECT_TTL_MS) this.subjects.delete(key);
+    }
+  }
+}
+
+// ─── Singleton Export ─────────────────────────────────────────────────────────
+
+export const usageMeter = new UsageMeter();
@@ -1,16 +1,20 @@
 /**
  * VectorStore.ts — Prosthetic Memory Vector Database
  *
- * Combines Google Generative AI Embeddings (via LangChain) with Supabase
- * pgvector for semantic similarity search. This is the backbone of the
+ * Combines a pluggable EmbeddingProvider (Gemini by default, see
+ * EmbeddingProvider.ts) with Supabase pgvector for semantic similarity search. This is the backbone of the
  * "Prosthetic Memory Agent" — it answers questions like:
  *    "What did I promise in last week's standup?"
  *
  * Architecture:
- *   Text → GoogleGenerativeAIEmbeddings → 768-dim vector → Supabase pgvector
- *   Query → Embed query → rpc('match_documents') → Top-K ranked results
+ *   Text → EmbeddingProvider → 768-dim vector (+ model tag) → Supabase pgvector
+ *   Query → Embed query → rpc('match_documents', model) → Top-K ranked results
  *
- * Required Supabase SQL (run once):
+ * Rows embedded by another model are invisible to search until
+ * reembedStale() migrates them (see server/src/jobs/reembedMemories.ts).
+ *
+ * Required Supabase SQL (applied by supabase/migrations/memory_api.sql and
+ * supabase/migrations/memory_embedding_provider.sql):
  *
  *   CREATE EXTENSION IF NOT EXISTS vector;
  *
@@ -21,6 +25,9 @@
  *     summary    TEXT,
  *     metadata   JSONB DEFAULT '{}'::jsonb,
  *     embedding  vector(768),
+ *     embedding_model TEXT,
+ *     embedding_dim   INTEGER,
+ *     occurred_at TIMESTAMPTZ DEFAULT now() NOT NULL,
  *     created_at TIMESTAMPTZ DEFAULT now() NOT NULL
  *   );
  *
@@ -31,7 +38,8 @@
  *     query_embedding vector(768),
  *     match_threshold float DEFAULT 0.72,
  *     match_count     int   DEFAULT 5,
- *     filter_user_id  uuid  DEFAULT NULL
+ *     filter_user_id  uuid  DEFAULT NULL,
+ *     filter_model    text  DEFAULT NULL
  *   )
  *   RETURNS TABLE (
  *     id         uuid,
@@ -52,6 +60,7 @@
  *       1 - (me.embedding <=> query_embedding) AS similarity
  *     FROM public.memory_entries me
  *     WHERE (filter_user_id IS NULL OR me.user_id = filter_user_id)
+ *       AND (filter_model IS NULL OR me.embedding_model = filter_model)
  *       AND 1 - (me.embedding <=> query_embedding) > match_threshold
  *     ORDER BY me.embedding <=> query_embedding
  *     LIMIT match_count;
@@ -59,8 +68,8 @@
  *   $$;
  */
 
-import { GoogleGenerativeAIEmbeddings } from '@langchain/google-genai';
 import { supabaseAdmin } from '../utils/supabaseAdmin';
+import { EmbeddingProvider, EMBEDDING_DIMENSION, createEmbeddingProvider } from './EmbeddingProvider';
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -71,6 +80,8 @@ export interface MemoryEntry {
   summary?: string;
   metadata?: Record<string, unknown>;
   embedding?: number[];
+  /** When the underlying meeting/thread happened. Defaults to now. */
+  occurred_at?: string;
   created_at?: string;
 }
 
@@ -82,21 +93,31 @@ export interface MemorySearchResult {
   similarity: number;
 }
 
+export interface ReembedResult {
+  model: string;
+  reembedded: number;
+  /** Rows still tagged with another model (more batches to run). */
+  remaining: number;
+}
+
+const REEMBED_BATCH_SIZE = 50;
+
 // ─── VectorStore Class ────────────────────────────────────────────────────────
 
 export class VectorStore {
-  private embeddings: GoogleGenerativeAIEmbeddings;
+  private provider: EmbeddingProvider;
 
-  constructor() {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      console.warn('[VectorStore] ⚠ GEMINI_API_KEY not set. Embeddings will fail.');
+  constructor(provider: EmbeddingProvider = createEmbeddingProvider()) {
+    // The column is vector(768); a provider of any other size can't be stored
+    if (provider.dimension !== EMBEDDING_DIMENSION) {
+      throw new Error(`[VectorStore] ${provider.model} produces ${provider.dimension}-dim vectors; memory_entries stores ${EMBEDDING_DIMENSION}.`);
     }
+    this.provider = provider;
+  }
 
-    this.embeddings = new GoogleGenerativeAIEmbeddings({
-      apiKey: apiKey || '',
-      modelName: 'text-embedding-004',  // Google's latest text embedding model
-    });
+  /** Model identifier stored with, and required of, every vector. */
+  get embeddingModel(): string {
+    return this.provider.model;
   }
 
   // ── Embedding ─────────────────────────────────────────────────────────────
@@ -110,7 +131,7 @@ export class VectorStore {
     }
 
     try {
-      const vector = await this.embeddings.embedQuery(text);
+      const vector = await this.provider.embed(text);
       return vector;
     } catch (err: any) {
       console.error('[VectorStore] Embedding failed:', err.message);
@@ -125,7 +146,7 @@ export class VectorStore {
     if (!texts.length) return [];
 
     try {
-      const vectors = await this.embeddings.embedDocuments(texts);
+      const vectors = await this.provider.embedBatch(texts);
       return vectors;
     } catch (err: any) {
       console.error('[VectorStore] Batch embedding failed:', err.message);
@@ -139,7 +160,8 @@ export class VectorStore {
    * Store a new memory entry with its embedding in Supabase pgvector.
    *
    * If `embedding` is not provided in the entry, the content will be
-   * automatically embedded via the Gemini text-embedding model.
+   * automatically embedded by the active provider. A provided embedding is
+   * assumed to come from that same provider.
    */
   async upsertMemory(entry: MemoryEntry): Promise<string> {
     // Auto-embed if no embedding provided
@@ -151,6 +173,9 @@ export class VectorStore {
       summary: entry.summary || entry.content.substring(0, 200),
       metadata: entry.metadata || {},
       embedding,
+      embedding_model: this.provider.model,
+      embedding_dim: embedding.length,
+      ...(entry.occurred_at && { occurred_at: entry.occurred_at }),
     };
 
     // If an ID is provided, upsert (update or insert). Otherwise, insert new.
@@ -176,13 +201,13 @@ export class VectorStore {
   /**
    * Batch-upsert multiple memory entries.
    * Auto-embeds any entries missing an embedding vector.
+   * IDs are returned in the same order as `entries`.
    */
   async upsertMemories(entries: MemoryEntry[]): Promise<string[]> {
     if (!entries.length) return [];
 
-    // Separate entries that need embedding from those that already have one
+    // Only the entries without a vector need embedding
     const needsEmbedding = entries.filter(e => !e.embedding);
-    const hasEmbedding = entries.filter(e => !!e.embedding);
 
     // Batch-embed the ones that need it
     if (needsEmbedding.length > 0) {
@@ -193,12 +218,11 @@ export class VectorStore {
       });
     }
 
-    const allEntries = [...hasEmbedding, ...needsEmbedding];
     const ids: string[] = [];
 
     // Upsert one at a time to capture individual IDs
     // (Supabase batch insert with .select() returns all rows)
-    for (const entry of allEntries) {
+    for (const entry of entries) {
       const id = await this.upsertMemory(entry);
       ids.push(id);
     }
@@ -212,7 +236,8 @@ export class VectorStore {
    * Perform a semantic similarity search against the memory_entries table.
    *
    * Uses the Supabase RPC function `match_documents` which computes
-   * cosine similarity between the query embedding and stored vectors.
+   * cosine similarity between the query embedding and stored vectors
+   * embedded by the same model.
    *
    * @param query       Natural language search query
    * @param userId      Optional — filter results to a specific user
@@ -239,6 +264,7 @@ export class VectorStore {
         match_threshold: threshold,
         match_count: topK,
         filter_user_id: userId || null,
+        filter_model: this.provider.model,
       });
 
       if (error) {
@@ -253,6 +279,34 @@ export class VectorStore {
     }
   }
 
+  /**
+   * Action-weighted variant for "what do I need to do?" queries: the
+   * `match_action_items` RPC boosts memories containing commitment verbs.
+   * Always scoped to one user.
+   */
+  async searchActionItems(
+    query: string,
+    userId: string,
+    threshold = 0.65,
+    topK = 5,
+  ): Promise<MemorySearchResult[]> {
+    if (!query || query.trim().length === 0) {
+      return [];
+    }
+
+    const queryEmbedding = await this.embed(query);
+    const { data, error } = await supabaseAdmin.rpc('match_action_items', {
+      query_embedding: queryEmbedding,
+      p_user_id: userId,
+      match_threshold: threshold,
+      match_count: topK,
+      p_model: this.provider.model,
+    });
+
+    if (error) throw new Error(`Action item search failed: ${error.message}`);
+    return ((data as Omit<MemorySearchResult, 'metadata'>[]) || []).map(r => ({ ...r, metadata: {} }));
+  }
+
   /**
    * Convenience method: search and return just the content strings.
    * Used by the Prosthetic Memory Agent for RAG context injection.
@@ -266,18 +320,65 @@ export class VectorStore {
     return results.map(r => r.content);
   }
 
+  // ── Re-embedding ──────────────────────────────────────────────────────────
+
+  /**
+   * Re-embeds up to `batchSize` rows tagged with a different (or no) model
+   * using the active provider. Run repeatedly until `remaining` is 0 after
+   * switching EMBEDDING_PROVIDER; until then those rows are skipped by search.
+   */
+  async reembedStale(batchSize = REEMBED_BATCH_SIZE): Promise<ReembedResult> {
+    const model = this.provider.model;
+
+    const { data, error } = await supabaseAdmin
+      .from('memory_entries')
+      .select('id, content')
+      .or(`embedding_model.is.null,embedding_model.neq."${model}"`)
+      .order('created_at', { ascending: true })
+      .limit(batchSize);
+
+    if (error) throw new Error(`[VectorStore] Stale memory query failed: ${error.message}`);
+
+    const rows = (data ?? []) as { id: string; content: string }[];
+    if (rows.length > 0) {
+      const vectors = await this.embedBatch(rows.map(r => r.content));
+
+      for (const [i, row] of rows.entries()) {
+        const { error: updateError } = await supabaseAdmin
+          .from('memory_entries')
+          .update({ embedding: vectors[i], embedding_model: model, embedding_dim: vectors[i].length })
+          .eq('id', row.id);
+
+        if (updateError) throw new Error(`[VectorStore] Re-embed update failed: ${updateError.message}`);
+      }
+    }
+
+    const { count, error: countError } = await supabaseAdmin
+      .from('memory_entries')
+      .select('id', { count: 'exact', head: true })
+      .or(`embedding_model.is.null,embedding_model.neq."${model}"`);
+
+    if (countError) throw new Error(`[VectorStore] Stale memory count failed: ${countError.message}`);
+    return { model, reembedded: rows.length, remaining: count ?? 0 };
+  }
+
   // ── Deletion ──────────────────────────────────────────────────────────────
 
   /**
-   * Delete a specific memory entry by ID.
+   * Delete a specific memory entry by ID. When `userId` is given the entry
+   * must belong to that user. Returns false if nothing matched.
    */
-  async deleteMemory(memoryId: string): Promise<void> {
-    const { error } = await supabaseAdmin
+  async deleteMemory(memoryId: string, userId?: string): Promise<boolean> {
+    let request = supabaseAdmin
       .from('memory_entries')
       .delete()
       .eq('id', memoryId);
+    if (userId) request = request.eq('user_id', userId);
+
+    const { data, error } = await request.select('id');
 
     if (error) throw new Error(`[VectorStore] Delete failed: ${error.message}`);
+    return (data ?? []).length > 0;
   }
 
   /**
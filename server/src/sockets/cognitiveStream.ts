@@ -1,39 +1,176 @@
 import { Server, Socket } from 'socket.io';
+import { telemetryPipeline, isCognitiveClassification, CognitiveClassification } from '../services/TelemetryPipeline';
+import { orchestrator } from '../services/AgentOrchestrator';
+import { commitmentTracker } from '../services/CommitmentTracker';
+import { verifySupabaseToken, getAppRole } from '../middleware/auth';
+import {
+  authorizeRoom,
+  getChildOwner,
+  childRoom,
+  classRoom,
+  userRoom,
+  MANAGER_ROOM,
+  SocketIdentity,
+} from './roomAccess';
 
 interface CognitivePayload {
-  userId: string;
   score: number;
   classification: string;
   context_switches: number;
   timestamp: string;
 }
 
+interface ChildCognitivePayload extends CognitivePayload {
+  childId: string;
+}
+
+type JoinAck = (result: { success: boolean; error?: string }) => void;
+
+const identityOf = (socket: Socket): SocketIdentity => socket.data.identity as SocketIdentity;
+
+const normalizeTimestamp = (timestamp: string) =>
+  Number.isNaN(Date.parse(timestamp)) ? new Date().toISOString() : timestamp;
+
+/** Load scores are 0–100; fractions are fine here and rounded where stored as integers. */
+const isValidScore = (score: unknown): score is number =>
+  typeof score === 'number' && Number.isFinite(score) && score >= 0 && score <= 100;
+
+const isValidPayload = <T extends CognitivePayload>(
+  payload: T | undefined
+): payload is T & { classification: CognitiveClassification } =>
+  !!payload && isValidScore(payload.score) && isCognitiveClassification(payload.classification);
+
 export const setupSocketHandlers = (io: Server) => {
+  // Policy rules with client-side effects (dim_ui, defer_meetings) reach every open tab
+  orchestrator.setClientNotifier((userId, action) => io.to(userRoom(userId)).emit('ambient_action', action));
+  commitmentTracker.setReminderNotifier((userId, commitment) => io.to(userRoom(userId)).emit('commitment_reminder', commitment));
+
+  // Handshake: every connection must present a Supabase access token, sent by
+  // the client as `io(url, { auth: { token } })`.
+  io.use(async (socket, next) => {
+    const header = socket.handshake.headers.authorization ?? '';
+    const token = (socket.handshake.auth?.token as string | undefined)
+      ?? (header.startsWith('Bearer ') ? header.slice(7) : undefined);
+
+    try {
+      const userId = await verifySupabaseToken(token);
+      if (!userId) return next(new Error('Unauthorized'));
+
+      const identity: SocketIdentity = { userId, role: await getAppRole(userId) };
+      socket.data.identity = identity;
+      next();
+    } catch (err) {
+      console.error('[Socket] Handshake verification failed:', (err as Error).message);
+      next(new Error('Authentication service unavailable'));
+    }
+  });
+
   io.on('connection', (socket: Socket) => {
-    console.log(`[Socket] Client connected: ${socket.id}`);
+    const identity = identityOf(socket);
+    // Children whose ownership this socket has already proven, for the high-frequency ingest path.
+    const verifiedChildren = new Set<string>();
+
+    socket.join(userRoom(identity.userId));
+    console.log(`[Socket] ${identity.role} ${identity.userId} connected: ${socket.id}`);
+
+    socket.on('join_room', async (room: string, ack?: JoinAck) => {
+      if (typeof room !== 'string') {
+        ack?.({ success: false, error: 'Room must be a string.' });
+        return;
+      }
+
+      try {
+        const decision = await authorizeRoom(identity, room);
+        if (decision.status === 'denied') {
+          console.warn(`[Socket] ${identity.userId} denied room ${room}: ${decision.reason}`);
+          ack?.({ success: false, error: decision.reason });
+          return;
+        }
+
+        socket.join(room);
+        console.log(`[Socket] ${identity.userId} joined room: ${room}`);
+        ack?.({ success: true });
+      } catch (err) {
+        console.error(`[Socket] Room check failed for ${room}:`, (err as Error).message);
+        ack?.({ success: false, error: 'Could not verify room access.' });
+      }
+    });
 
-    // Join specific rooms based on roles (e.g., 'manager_dashboard' vs 'user_session')
-    socket.on('join_room', (room: string) => {
-      socket.join(room);
-      console.log(`[Socket] Client ${socket.id} joined room: ${room}`);
+    socket.on('leave_room', (room: string) => {
+      if (typeof room === 'string' && room !== userRoom(identity.userId)) socket.leave(room);
     });
 
-    // Ingest the 5-second interval telemetry from the useCognitiveMonitor hook
+    // Ingest the 5-second interval telemetry from the useCognitiveMonitor hook.
+    // The user is always the authenticated caller — never a client-supplied ID.
     socket.on('ingest_cognitive_state', (payload: CognitivePayload) => {
-      // In a production environment, you might buffer this in Redis before batch-inserting 
-      // to Postgres to save database I/O. For the hackathon, we stream it directly to listeners.
-      
+      if (!isValidPayload(payload)) {
+        console.warn(`[Socket] Dropped malformed telemetry from ${socket.id}`);
+        return;
+      }
+
+      const timestamp = normalizeTimestamp(payload.timestamp);
+
+      // Buffered in memory and batch-inserted by the telemetry pipeline to save database I/O
+      telemetryPipeline.ingest({
+        userId: identity.userId,
+        score: payload.score,
+        classification: payload.classification,
+        contextSwitches: Number(payload.context_switches) || 0,
+        timestamp,
+      });
+
+      // Evaluates the user's ambient trigger policies (see PolicyEngine.ts)
+      // policy_audit_log.score is an INTEGER column
+      orchestrator.updateState({ userId: identity.userId, state: payload.classification, score: Math.round(payload.score) });
+
+      // Echo to the user's own private room (other tabs/devices)
+      socket.to(userRoom(identity.userId)).emit('cognitive_state_update', {
+        score: payload.score,
+        classification: payload.classification,
+        timestamp,
+      });
+
       // Broadcast to the anonymized aggregation room (B2B Dashboard)
       // Note: We strip the userId here to maintain strict privacy at the socket distribution level
-      io.to('manager_dashboard').emit('anonymized_telemetry_update', {
+      io.to(MANAGER_ROOM).emit('anonymized_telemetry_update', {
         score: payload.score,
         classification: payload.classification,
-        timestamp: payload.timestamp
+        timestamp
       });
     });
 
+    // Kids-module sessions run on a caregiver's device: relay the child's state
+    // to the child's room and, for teachers, to their class room. Not persisted.
+    socket.on('ingest_child_state', async (payload: ChildCognitivePayload) => {
+      if (!isValidPayload(payload) || typeof payload.childId !== 'string') return;
+
+      if (!verifiedChildren.has(payload.childId)) {
+        try {
+          const owner = await getChildOwner(payload.childId);
+          if (owner !== identity.userId) {
+            console.warn(`[Socket] ${identity.userId} tried to stream for unrelated child ${payload.childId}`);
+            return;
+          }
+          verifiedChildren.add(payload.childId);
+        } catch (err) {
+          console.error('[Socket] Child ownership check failed:', (err as Error).message);
+          return;
+        }
+      }
+
+      const update = {
+        childId: payload.childId,
+        score: payload.score,
+        classification: payload.classification,
+        timestamp: normalizeTimestamp(payload.timestamp),
+      };
+      const rooms = [childRoom(payload.childId)];
+      if (identity.role === 'Teacher') rooms.push(classRoom(identity.userId));
+      io.to(rooms).emit('child_state_update', update);
+    });
+
     socket.on('disconnect', () => {
       console.log(`[Socket] Client disconnected: ${socket.id}`);
     });
   });
-};
\ No newline at end of file
+};
@@ -0,0 +1,94 @@
+/**
+ * roomAccess.ts — Socket.io Room Naming & Authorization
+ *
+ * Every socket is authenticated during the handshake (see cognitiveStream.ts),
+ * so each join request is checked against the caller's verified identity:
+ *
+ *   user:<userId>        → only that user (joined automatically on connect)
+ *   child:<childId>      → Parent/Teacher who owns the child in child_profiles
+ *   class:<teacherId>    → that Teacher only; receives every child they own
+ *   manager_dashboard    → SuperAdmin; anonymized aggregate telemetry only
+ *
+ * Anything else is denied. Relationships are re-read from child_profiles on
+ * each check rather than cached, so revoking a child takes effect immediately.
+ */
+
+import { supabaseAdmin } from '../utils/supabaseAdmin';
+import type { AppRole } from '../middleware/auth';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface SocketIdentity {
+  userId: string;
+  role: AppRole;
+}
+
+export type RoomDecision =
+  | { status: 'granted' }
+  | { status: 'denied'; reason: string };
+
+// ─── Room Names ───────────────────────────────────────────────────────────────
+
+export const MANAGER_ROOM = 'manager_dashboard';
+
+export const userRoom = (userId: string) => `user:${userId}`;
+export const childRoom = (childId: string) => `child:${childId}`;
+export const classRoom = (teacherId: string) => `class:${teacherId}`;
+
+const MANAGER_ROLES: AppRole[] = ['SuperAdmin'];
+const CAREGIVER_ROLES: AppRole[] = ['Parent', 'Teacher'];
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const granted: RoomDecision = { status: 'granted' };
+const denied = (reason: string): RoomDecision => ({ status: 'denied', reason });
+
+// ─── Relationship Lookups ─────────────────────────────────────────────────────
+
+/**
+ * Returns the owning parent/teacher of an active child, or null if the
+ * child doesn't exist (or has been deactivated).
+ */
+export const getChildOwner = async (childId: string): Promise<string | null> => {
+  if (!UUID_PATTERN.test(childId)) return null;
+
+  const { data, error } = await supabaseAdmin
+    .from('child_profiles')
+    .select('parent_id')
+    .eq('id', childId)
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (error) throw new Error(`[Sockets] Child lookup failed: ${error.message}`);
+  return (data?.parent_id as string | undefined) ?? null;
+};
+
+// ─── Authorization ────────────────────────────────────────────────────────────
+
+export const authorizeRoom = async (identity: SocketIdentity, room: string): Promise<RoomDecision> => {
+  if (room === MANAGER_ROOM) {
+    return MANAGER_ROLES.includes(identity.role) ? granted : denied('Manager dashboard requires an admin role.');
+  }
+
+  const [kind, id] = room.split(':', 2);
+  if (!id) return denied(`Unknown room: ${room}`);
+
+  switch (kind) {
+    case 'user':
+      return id === identity.userId ? granted : denied('Private rooms are owner-only.');
+
+    case 'child': {
+      if (!CAREGIVER_ROLES.includes(identity.role)) return denied('Only parents and teachers can follow a child.');
+      const owner = await getChildOwner(id);
+      return owner === identity.userId ? granted : denied('No caregiver relationship with this child.');
+    }
+
+    case 'class':
+      return identity.role === 'Teacher' && id === identity.userId
+        ? granted
+        : denied('Only the owning teacher can follow a class.');
+
+    default:
+      return denied(`Unknown room: ${room}`);
+  }
+};
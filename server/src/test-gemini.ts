@@ -1,19 +1,19 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import dotenv from 'dotenv';
 import path from 'path';
 
 dotenv.config({ path: path.resolve(__dirname, '../.env') });
 
+// After dotenv (see server.ts): the provider reads LLM_PROVIDER / GEMINI_API_KEY on import
+import { llmProvider } from './services/LlmProvider';
+
 const apiKey = process.env.GEMINI_API_KEY || '';
-console.log("Using API Key starting with:", apiKey.substring(0, 10));
+console.log("Using provider:", llmProvider.name, "— API Key starting with:", apiKey.substring(0, 10));
 const prompt = "Say hello to test the API.";
 
 async function run() {
   try {
-    const genAI = new GoogleGenerativeAI(apiKey);
-    const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash" });
-    const result = await model.generateContent(prompt);
-    console.log("Success:", result.response.text());
+    const result = await llmProvider.generate({ purpose: 'test-gemini', prompt });
+    console.log("Success:", result.text);
   } catch (error: any) {
     console.error("Gemini Failure:", error.message);
   }
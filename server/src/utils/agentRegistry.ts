@@ -0,0 +1,314 @@
+import { z } from 'zod';
+
+/**
+ * Structured-output agents, keyed by name. Each entry owns its prompt, the
+ * shape of the input the client sends, and the zod schema the model's JSON
+ * must satisfy. Clients call agents by name through POST /api/agents/run/:name
+ * (see services/StructuredAgents.ts); prompts never leave the server.
+ *
+ * Each entry also carries a `mock` answer built from its input, so every
+ * agent works end to end under LLM_PROVIDER=mock.
+ *
+ * Schemas are what the UI renders: arrays are always arrays, strings are
+ * never empty, so a component can map over a field without guarding it.
+ */
+
+const MAX_INPUT_LENGTH = 20_000;
+
+const text = () => z.string().trim().min(1).max(MAX_INPUT_LENGTH);
+const line = () => z.string().trim().min(1);
+const lines = () => z.array(line());
+
+/** First non-empty lines of `value`, whitespace-collapsed and capped, for mock answers. */
+const firstLines = (value: string, count: number, max = 120): string[] =>
+  value.split('\n').map((l) => l.replace(/\s+/g, ' ').trim()).filter(Boolean).slice(0, count).map((l) => l.slice(0, max));
+
+// ─── Output schemas ───────────────────────────────────────────────────────────
+
+export const microTaskStepSchema = z.object({
+  id: z.string().trim().default('step'),
+  step: line(),
+  estimated_minutes: z.coerce.number().int().min(1).max(60),
+  friction_point: z.string().trim().default(''),
+});
+
+const hyperfocusSummarySchema = z.object({
+  core_insight: line(),
+  action_items: lines(),
+});
+
+const reentryBriefSchema = z.object({
+  what_you_were_doing: line(),
+  where_you_left_off: line(),
+  immediate_next_step: line(),
+});
+
+const reframedTraitSchema = z.object({
+  traditional_view: line(),
+  reframed_strength: line(),
+  resume_bullet: line(),
+  interview_talking_point: line(),
+});
+
+const roleAnalysisSchema = z.object({
+  green_flags: lines(),
+  cognitive_friction_points: lines(),
+  clarifying_questions_to_ask: lines(),
+});
+
+const threadAnalysisSchema = z.object({
+  summary: line(),
+  decisions_made: lines(),
+  action_items: z.array(z.object({ owner: z.string().trim().min(1).default('Unassigned'), task: line() })),
+  emotional_temperature: line(),
+});
+
+const socialAnalysisSchema = z.object({
+  likely_interpretations: lines().min(1),
+  subtext_analysis: line(),
+  what_not_to_assume: lines(),
+  recommended_responses: lines().min(1),
+});
+
+const cognitiveExerciseSchema = z.object({
+  title: line(),
+  focus_area: line(),
+  scenario: line(),
+  steps: lines().min(1),
+  success_metric: line(),
+});
+
+// ─── Registry ─────────────────────────────────────────────────────────────────
+
+export interface AgentDefinition<I extends z.ZodType = z.ZodType, O extends z.ZodType = z.ZodType> {
+  input: I;
+  output: O;
+  prompt: (input: z.infer<I>) => string;
+  /** Deterministic answer for the mock LLM provider (services/LlmProvider.ts). */
+  mock: (input: z.infer<I>) => z.input<O>;
+}
+
+const defineAgent = <I extends z.ZodType, O extends z.ZodType>(definition: AgentDefinition<I, O>) => definition;
+
+export const agentRegistry = {
+  chunkTask: defineAgent({
+    input: z.object({ task: text() }),
+    output: z.array(microTaskStepSchema).min(1).max(10),
+    prompt: ({ task }) => `
+You are an executive function augmentation engine designed to bypass task paralysis for neurodivergent users.
+
+Break the following task into exactly 5–7 sequential micro-steps. Each step MUST be completable in 5 minutes or less.
+The FIRST step must be trivially easy — no cognitive friction at all (e.g., "Open a blank document").
+
+Return ONLY a raw JSON array — NO markdown, NO code fences, NO explanation.
+The response must start with [ and end with ].
+
+[
+  {
+    "id": "unique-slug-id",
+    "step": "The precise, physical micro-action",
+    "estimated_minutes": 3,
+    "friction_point": "3-word reason this feels hard"
+  }
+]
+
+Task: "${task}"
+`.trim(),
+    mock: ({ task }) => [
+      { id: 'open-workspace', step: `Open everything you need for: ${firstLines(task, 1, 60)[0]}`, estimated_minutes: 1, friction_point: 'Starting feels hard' },
+      { id: 'define-done', step: 'Write one sentence describing what "done" looks like.', estimated_minutes: 2, friction_point: 'Clarity paralysis' },
+      { id: 'smallest-piece', step: 'Do the smallest first piece, and only that piece.', estimated_minutes: 5, friction_point: 'Overwhelming scope' },
+      { id: 'stretch-break', step: 'Stand up and stretch for 30 seconds.', estimated_minutes: 1, friction_point: 'Momentum loss' },
+      { id: 'pick-next', step: 'Review what you did and pick the next smallest piece.', estimated_minutes: 3, friction_point: 'Decision fatigue' },
+    ],
+  }),
+
+  summarizeHyperfocus: defineAgent({
+    input: z.object({ notes: text() }),
+    output: hyperfocusSummarySchema,
+    prompt: ({ notes }) => `
+You are a cognitive capture agent. The user has just exited a 'Hyperfocus' state.
+Review their raw, unstructured scratchpad notes and distill the core value.
+
+Output strictly as a JSON object matching this schema:
+{
+  "core_insight": "A 1-2 sentence summary of the main breakthrough or work accomplished.",
+  "action_items": ["Concrete next steps extracted from the notes"]
+}
+
+Raw Notes: "${notes}"
+`.trim(),
+    mock: ({ notes }) => ({
+      core_insight: `You captured notes starting with "${firstLines(notes, 1)[0]}".`,
+      action_items: firstLines(notes, 3),
+    }),
+  }),
+
+  generateReentryBrief: defineAgent({
+    input: z.object({ taskName: text(), contextNotes: z.string().max(MAX_INPUT_LENGTH).default('') }),
+    output: reentryBriefSchema,
+    prompt: ({ taskName, contextNotes }) => `
+You are a Prosthetic Working Memory agent. The user is returning to a paused task and is experiencing context-switching friction.
+Using the provided task name and historical context, generate a "Re-entry Brief" to instantly restore their working memory.
+
+Output strictly as a JSON object matching this schema:
+{
+  "what_you_were_doing": "1 sentence summarizing the overall goal.",
+  "where_you_left_off": "1 sentence detailing the exact last state.",
+  "immediate_next_step": "The single, highly concrete physical/digital action to take right now to resume momentum."
+}
+
+Task: "${taskName}"
+Historical Context: "${contextNotes}"
+`.trim(),
+    mock: ({ taskName, contextNotes }) => ({
+      what_you_were_doing: `You were working on "${taskName}".`,
+      where_you_left_off: firstLines(contextNotes, 1)[0] ?? 'No notes were saved before the pause.',
+      immediate_next_step: `Reopen "${taskName}" and reread your last note.`,
+    }),
+  }),
+
+  reframeTrait: defineAgent({
+    input: z.object({ trait: text() }),
+    output: reframedTraitSchema,
+    prompt: ({ trait }) => `
+You are an elite executive coach specializing in neurodivergent talent.
+Your client has provided a cognitive trait or work habit that is often misunderstood in traditional corporate settings.
+Translate this trait into a high-value professional strength.
+
+Output strictly as a JSON object matching this schema:
+{
+  "traditional_view": "How this is normally (and often negatively) perceived",
+  "reframed_strength": "The actual underlying superpower or value",
+  "resume_bullet": "A powerful, action-oriented resume bullet point utilizing this strength",
+  "interview_talking_point": "A 2-sentence script on how to pitch this authentically in an interview without apologizing for it"
+}
+
+Trait to reframe: "${trait}"
+`.trim(),
+    mock: ({ trait }) => ({
+      traditional_view: `"${trait}" is often read as a weakness in traditional settings.`,
+      reframed_strength: `"${trait}" reflects a distinctive way of processing work.`,
+      resume_bullet: `Applied a distinctive working style (${trait}) to deliver focused, high-quality results.`,
+      interview_talking_point: `I work best when I lean into ${trait}. Here is how that has helped my teams.`,
+    }),
+  }),
+
+  analyzeJobDescription: defineAgent({
+    input: z.object({ jobDescription: text() }),
+    output: roleAnalysisSchema,
+    prompt: ({ jobDescription }) => `
+You are an advocate for neurodivergent professionals. Analyze the following job description.
+Look past the marketing fluff and identify the actual cognitive demands of the role.
+
+Output strictly as a JSON object matching this schema:
+{
+  "green_flags": ["Elements that suggest high autonomy, clear expectations, or deep-focus opportunities"],
+  "cognitive_friction_points": ["Hidden demands for high context-switching, vague social navigation, or ambiguous metrics"],
+  "clarifying_questions_to_ask": ["Questions the candidate should ask to uncover the true sensory or cognitive load of the environment"]
+}
+
+Job Description: "${jobDescription}"
+`.trim(),
+    mock: () => ({
+      green_flags: ['Clearly described responsibilities'],
+      cognitive_friction_points: ['Unclear expectations around meetings and communication'],
+      clarifying_questions_to_ask: ['What does a typical week look like in this role?'],
+    }),
+  }),
+
+  analyzeThread: defineAgent({
+    input: z.object({ threadText: text() }),
+    output: threadAnalysisSchema,
+    prompt: ({ threadText }) => `
+You are an elite cognitive translator. Your user struggles with processing dense, unstructured, or emotionally charged corporate Slack threads.
+Take the following thread and extract the core signal from the noise.
+
+Output strictly as a JSON object matching this schema:
+{
+  "summary": "A 2-sentence objective summary of the thread.",
+  "decisions_made": ["Array of finalized decisions. Empty if none."],
+  "action_items": [{"owner": "Name or 'Unassigned'", "task": "Explicit task description"}],
+  "emotional_temperature": "Neutral assessment of the thread's tone (e.g., 'Collaborative', 'Tense', 'Urgent')."
+}
+
+Thread to analyze:
+"${threadText}"
+`.trim(),
+    mock: ({ threadText }) => ({
+      summary: firstLines(threadText, 2).join(' '),
+      decisions_made: [],
+      action_items: [],
+      emotional_temperature: 'Neutral',
+    }),
+  }),
+
+  decodeSocialInteraction: defineAgent({
+    input: z.object({ interactionText: text() }),
+    output: socialAnalysisSchema,
+    prompt: ({ interactionText }) => `
+You are a workplace communication decoder. Your user has a neurodivergent cognitive style and sometimes struggles to parse ambiguous subtext, implied meanings, or neurotypical social signaling.
+Analyze the following interaction. Be objective, compassionate, and logical. Do not pathologize the user.
+
+Output strictly as a JSON object matching this schema:
+{
+  "likely_interpretations": ["2-3 most probable, logical meanings behind what was said"],
+  "subtext_analysis": "A brief explanation of any underlying corporate or social dynamics at play",
+  "what_not_to_assume": ["1-2 catastrophic or overly negative assumptions the user should actively avoid making"],
+  "recommended_responses": ["2 highly professional, low-friction ways to reply"]
+}
+
+Interaction to decode:
+"${interactionText}"
+`.trim(),
+    mock: () => ({
+      likely_interpretations: ['They were busy and replied briefly.', 'They have no objections.'],
+      subtext_analysis: 'Short replies at work usually reflect time pressure, not displeasure.',
+      what_not_to_assume: ['That they are upset with you.'],
+      recommended_responses: ['Thanks! I will go ahead as planned.', 'Happy to walk through any part of it if useful.'],
+    }),
+  }),
+
+  generateSkillExercise: defineAgent({
+    input: z.object({ cognitiveStyle: text(), focusArea: text() }),
+    output: cognitiveExerciseSchema,
+    prompt: ({ cognitiveStyle, focusArea }) => `
+You are a cognitive enhancement coach. Your user wants to train a specific executive function or leverage their unique cognitive style (e.g., hyperfocus, pattern recognition, systematic thinking) into a professional superpower.
+
+Generate a 5-minute practical, professional mini-game or exercise for them based on the requested focus area.
+DO NOT use medical or deficit-based language. Frame this as elite professional training.
+
+Output strictly as a JSON object matching this schema:
+{
+  "title": "Catchy, empowering title of the exercise",
+  "focus_area": "The specific skill being trained",
+  "scenario": "A 2-sentence corporate or creative scenario where this skill is needed",
+  "steps": ["Step 1...", "Step 2...", "Step 3..."],
+  "success_metric": "How the user knows they won the game/completed the exercise"
+}
+
+User Cognitive Profile / Preference: "${cognitiveStyle}"
+Desired Training Area: "${focusArea}"
+`.trim(),
+    mock: ({ cognitiveStyle, focusArea }) => ({
+      title: `${focusArea} Sprint`,
+      focus_area: focusArea,
+      scenario: `A teammate needs your help with a problem that calls for ${focusArea}. You approach it with your ${cognitiveStyle} style.`,
+      steps: ['Set a 5-minute timer.', `Write down three ways ${focusArea} applies to your current work.`, 'Pick one and act on it.'],
+      success_metric: 'You finish one concrete action before the timer ends.',
+    }),
+  }),
+};
+
+export type AgentName = keyof typeof agentRegistry;
+
+export type AgentInput<N extends AgentName> = z.input<typeof agentRegistry[N]['input']>;
+
+export type AgentOutput<N extends AgentName> = z.infer<typeof agentRegistry[N]['output']>;
+
+export const isAgentName = (name: string): name is AgentName =>
+  Object.prototype.hasOwnProperty.call(agentRegistry, name);
+
+/** One line per issue, e.g. `action_items.0.task: Invalid input: expected string`. */
+export const formatIssues = (error: z.ZodError): string[] =>
+  error.issues.map((issue) => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`);
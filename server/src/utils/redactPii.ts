@@ -0,0 +1,83 @@
+/**
+ * PII and secret scrubbing for text headed into long-term storage.
+ *
+ * Built-in rules cover emails, phone numbers and common credential shapes.
+ * Extra rules come from MEMORY_REDACTION_PATTERNS, a JSON array such as:
+ *
+ *   [{ "name": "employee_id", "pattern": "EMP-\\d{6}", "flags": "gi" }]
+ *
+ * Matches become `[REDACTED:<NAME>]`, which no rule matches again, so
+ * redacting twice is harmless.
+ */
+
+export interface RedactionRule {
+  name: string;
+  pattern: RegExp;
+}
+
+export interface RedactionResult {
+  text: string;
+  /** Matches replaced, keyed by rule name. Empty when nothing was found. */
+  counts: Record<string, number>;
+}
+
+// Order matters: credentials first, so a token's digits are never mistaken
+// for a phone number.
+export const BUILT_IN_REDACTION_RULES: RedactionRule[] = [
+  { name: 'private_key', pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g },
+  { name: 'jwt', pattern: /\beyJ[\w-]{10,}\.[\w-]{10,}\.[\w-]{10,}\b/g },
+  { name: 'slack_token', pattern: /\bxox[abposr]-[\w-]{10,}\b/g },
+  { name: 'github_token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{30,}|github_pat_\w{40,})\b/g },
+  { name: 'aws_key', pattern: /\b(?:AKIA|ASIA)[A-Z0-9]{16}\b/g },
+  { name: 'google_api_key', pattern: /\bAIza[\w-]{35}\b/g },
+  { name: 'bearer_token', pattern: /\bBearer\s+[\w.~+/-]{20,}=*/g },
+  { name: 'secret_assignment', pattern: /\b(?:api[_-]?key|secret|password|passwd|token)\b\s*[:=]\s*["']?[^\s"',;]{6,}/gi },
+  { name: 'email', pattern: /\b[\w.+-]+@[\w-]+(?:\.[\w-]+)*\.[a-z]{2,}\b/gi },
+  { name: 'credit_card', pattern: /(?<![\d-])(?:\d{4}[ -]?){3}\d{4}(?![\d-])/g },
+  { name: 'phone', pattern: /(?<![\w-])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)[\s.-]?)?\d{3,4}[\s.-]\d{3,4}(?:[\s.-]\d{2,4})?(?![\w-])/g },
+];
+
+/** Parses MEMORY_REDACTION_PATTERNS; invalid entries are skipped with a warning. */
+export const parseRedactionRules = (raw: string | undefined): RedactionRule[] => {
+  if (!raw) return [];
+
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!Array.isArray(parsed)) throw new Error('expected a JSON array');
+
+    return parsed.flatMap((entry) => {
+      const { name, pattern, flags } = (entry ?? {}) as Record<string, unknown>;
+      if (typeof name !== 'string' || typeof pattern !== 'string') {
+        console.warn('[Redaction] Skipping rule without a string name and pattern:', entry);
+        return [];
+      }
+      try {
+        // Always global: every occurrence is replaced
+        const normalizedFlags = typeof flags === 'string' && flags.includes('g') ? flags : `${flags ?? ''}g`;
+        return [{ name, pattern: new RegExp(pattern, normalizedFlags) }];
+      } catch (err) {
+        console.warn(`[Redaction] Skipping invalid pattern "${name}":`, (err as Error).message);
+        return [];
+      }
+    });
+  } catch (err) {
+    console.warn('[Redaction] Ignoring MEMORY_REDACTION_PATTERNS:', (err as Error).message);
+    return [];
+  }
+};
+
+const ACTIVE_RULES = [...BUILT_IN_REDACTION_RULES, ...parseRedactionRules(process.env.MEMORY_REDACTION_PATTERNS)];
+
+export const redactPii = (text: string, rules: RedactionRule[] = ACTIVE_RULES): RedactionResult => {
+  const counts: Record<string, number> = {};
+  let redacted = text;
+
+  for (const { name, pattern } of rules) {
+    redacted = redacted.replace(pattern, () => {
+      counts[name] = (counts[name] ?? 0) + 1;
+      return `[REDACTED:${name.toUpperCase()}]`;
+    });
+  }
+
+  return { text: redacted, counts };
+};
@@ -0,0 +1,65 @@
+/**
+ * Gemini (especially 2.0-flash) frequently wraps output in markdown code
+ * fences, comments, trailing commas, or random pre/post text even when the
+ * prompt explicitly says "JSON only". This utility surgically extracts valid
+ * JSON from a messy LLM response string.
+ */
+
+/**
+ * Strip markdown code fences, comments, trailing commas, and any surrounding
+ * prose from a raw Gemini response, then JSON.parse() the result.
+ *
+ * Returns `null` if parsing still fails after all sanitisation passes.
+ */
+export function sanitizeGeminiJson<T = unknown>(raw: string): T | null {
+  if (!raw || typeof raw !== 'string') return null;
+
+  let cleaned = raw;
+
+  try {
+    // Pass 1: Strip markdown code fence wrappers (```json ... ``` or ``` ... ```)
+    //         Handles any language tag after the opening triple backticks.
+    cleaned = cleaned.replace(/^[\s\S]*?```(?:json|JSON|js|javascript)?\s*\n?/m, '');
+    cleaned = cleaned.replace(/```[\s\S]*?$/m, '');
+
+    // Pass 2: If still contains backticks (e.g. ` ``` ` inside), remove all
+    cleaned = cleaned.replace(/`/g, '');
+
+    // Pass 3: Trim leading/trailing whitespace and stray prose
+    cleaned = cleaned.trim();
+
+    // Pass 4: Extract the JSON array/object — find the first [ or { and
+    //         the corresponding last ] or }
+    const firstBracket = cleaned.search(/[\[{]/);
+    const lastBracket = Math.max(cleaned.lastIndexOf(']'), cleaned.lastIndexOf('}'));
+
+    if (firstBracket !== -1 && lastBracket > firstBracket) {
+      cleaned = cleaned.substring(firstBracket, lastBracket + 1);
+    }
+
+    // Pass 5: Remove trailing commas before closing brackets/braces
+    //         e.g. { "a": 1, } → { "a": 1 }
+    cleaned = cleaned.replace(/,\s*([}\]])/g, '$1');
+
+    // Pass 6: Remove JS-style single-line comments ( // ... )
+    cleaned = cleaned.replace(/\/\/.*$/gm, '');
+
+    // Pass 7: Remove control characters except \n, \r, \t
+    cleaned = cleaned.replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '');
+
+    return JSON.parse(cleaned) as T;
+  } catch {
+    // Final desperate attempt: try to find JSON array inside the messy string
+    try {
+      const arrayMatch = raw.match(/\[[\s\S]*\]/);
+      if (arrayMatch) {
+        const withoutTrailing = arrayMatch[0].replace(/,\s*([}\]])/g, '$1');
+        return JSON.parse(withoutTrailing) as T;
+      }
+    } catch { /* give up */ }
+
+    console.error('[sanitizeGeminiJson] All parsing attempts failed. Raw (first 500 chars):', raw.substring(0, 500));
+    return null;
+  }
+}
+
@@ -0,0 +1,125 @@
+import { z } from 'zod';
+import { sanitizeGeminiJson } from './sanitizeGeminiJson';
+import { llmProvider } from '../services/LlmProvider';
+
+/**
+ * The one RSD pipeline: GitHub review comments (PullRequestShield), the RSD
+ * Shield sandbox and the chat-message shield (`analyzeRsdRisk`) all go
+ * through here via POST /api/agents/rsd/sanitize, so they share one set of
+ * sentiment labels. Gemini output is schema-checked; anything invalid, or
+ * no Gemini at all, falls back to pattern matching. Uses GEMINI_API_KEY_2
+ * when set, keeping RSD load off the primary key's quota.
+ */
+
+export const REVIEW_SENTIMENTS = ['critical', 'neutral', 'positive', 'mixed'] as const;
+
+export type ReviewSentiment = typeof REVIEW_SENTIMENTS[number];
+
+export const sanitizedCommentSchema = z.object({
+  sanitized: z.string().trim().min(1),
+  actionItems: z.array(z.string().trim().min(1)).max(10).default([]),
+  sentiment: z.enum(REVIEW_SENTIMENTS),
+});
+
+export interface SanitizedComment {
+  sanitized: string;
+  actionItems: string[];
+  sentiment: ReviewSentiment;
+  /** Set when the pattern-matching fallback produced this result. */
+  fallback?: true;
+}
+
+const buildPrompt = (rawComment: string, senderContext?: string) => `You are the RSD Shield, an AI that helps neurodivergent software engineers by rewriting code review comments and workplace messages.
+
+Your task:
+1. Remove ALL sarcasm, passive-aggressiveness, condescension, and bluntness
+2. Preserve 100% of the technical content and required changes
+3. Reframe criticism as collaborative problem-solving
+4. Extract specific actionable items as a bulleted list
+5. Classify sentiment: "critical" | "neutral" | "positive" | "mixed"
+   A brief or curt message that could read as cold (e.g. "ok", "fine", "see me") is "mixed" unless clearly positive;
+   rewrite it with a gentle, logical reading of the likely intent.
+${senderContext ? `\nSENDER CONTEXT:\n${senderContext}\n` : ''}
+INPUT COMMENT:
+${rawComment}
+
+Respond ONLY with valid JSON, no markdown fences:
+{
+  "sanitized": "rewritten comment text here",
+  "actionItems": ["action 1", "action 2"],
+  "sentiment": "critical"
+}`;
+
+/** Pattern-matching fallback for when Gemini is unavailable. */
+export const buildFallbackSanitization = (raw: string): SanitizedComment => {
+  const aggressiveWords = [
+    'obviously', 'rookie', "can't believe", 'never', 'wrong',
+    "didn't you", 'why would you', 'completely', 'seriously',
+  ];
+  const isAggressive = aggressiveWords.some((w) => raw.toLowerCase().includes(w));
+
+  const technicalPatterns = [
+    { pattern: /race condition|async|await|thread/i, action: 'Address race condition in async/await handling' },
+    { pattern: /mobile|responsive|screen size/i, action: 'Test and fix mobile/responsive behavior' },
+    { pattern: /business logic|component|separation/i, action: 'Move business logic out of UI components' },
+    { pattern: /performance|slow|memory leak/i, action: 'Investigate and optimize performance issue' },
+    { pattern: /duplicate|DRY|repeated/i, action: 'Refactor to eliminate duplicate code' },
+    { pattern: /variable name|naming|unclear/i, action: 'Improve variable naming for clarity' },
+    { pattern: /error handling|try.*catch|exception/i, action: 'Add proper error handling' },
+    { pattern: /authentication|auth|login/i, action: 'Review authentication flow implementation' },
+    { pattern: /database|db|query|connection/i, action: 'Optimize database connection/query logic' },
+    { pattern: /websocket|socket|realtime/i, action: 'Fix WebSocket/real-time connection issue' },
+  ];
+
+  const actionItems: string[] = [];
+  technicalPatterns.forEach(({ pattern, action }) => {
+    if (pattern.test(raw) && !actionItems.includes(action)) {
+      actionItems.push(action);
+    }
+  });
+
+  const sanitized = isAggressive
+    ? raw
+        .replace(/obviously|rookie|can't believe/gi, '')
+        .replace(/why would you/gi, 'Please consider why')
+        .replace(/you (missed|failed|forgot)/gi, 'This needs attention:')
+        .trim()
+    : raw;
+
+  return {
+    sanitized: sanitized || raw,
+    actionItems: actionItems.length > 0 ? actionItems : ['Review and address the mentioned concerns'],
+    sentiment: isAggressive ? 'critical' : 'neutral',
+    fallback: true,
+  };
+};
+
+/**
+ * RSD Shield: de-weaponize a PR review comment or message. `senderContext`
+ * (who sent it, how they usually write) helps read curt messages kindly.
+ * Never throws — falls back to pattern matching if Gemini fails or its
+ * output doesn't match `sanitizedCommentSchema`.
+ */
+export const sanitizePRComment = async (rawComment: string, senderContext?: string): Promise<SanitizedComment> => {
+  try {
+    const { text: rawText } = await llmProvider.generate({
+      purpose: 'rsd:sanitize',
+      prompt: buildPrompt(rawComment, senderContext),
+      temperature: 0.3,
+      maxOutputTokens: 1024,
+      secondaryKey: true,
+      mock: () => {
+        const { sanitized, actionItems, sentiment } = buildFallbackSanitization(rawComment);
+        return JSON.stringify({ sanitized, actionItems, sentiment });
+      },
+    });
+    const parsed = sanitizedCommentSchema.safeParse(sanitizeGeminiJson(rawText));
+
+    if (parsed.success) return parsed.data;
+    console.warn('[RSD Shield] Gemini output failed validation — using fallback:', parsed.error.issues[0]?.message);
+  } catch (err) {
+    console.warn('[RSD Shield] Gemini API failed — using fallback:', (err as Error).message);
+  }
+
+  return buildFallbackSanitization(rawComment);
+};
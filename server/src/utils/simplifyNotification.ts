@@ -0,0 +1,49 @@
+import { llmProvider } from '../services/LlmProvider';
+
+/**
+ * Server-side twin of `simplifyNotification` in src/lib/api.ts — same
+ * prompt, so a digest reads exactly like the summaries in the dashboard.
+ * Falls back to a trimmed excerpt if Gemini is unavailable.
+ */
+
+export type NotificationSource = 'slack' | 'jira' | 'gmail';
+
+const SOURCE_LABELS: Record<NotificationSource, string> = {
+  slack: 'Slack message',
+  jira: 'Jira ticket',
+  gmail: 'email',
+};
+
+const excerpt = (raw: string) => raw.substring(0, 120) + (raw.length > 120 ? '…' : '');
+
+export const simplifyNotification = async (source: NotificationSource, rawContent: string): Promise<string> => {
+  const prompt = `
+You are a cognitive accessibility assistant that simplifies complex work notifications for neurodivergent users (ADHD, dyslexia, autism).
+
+Transform the following ${SOURCE_LABELS[source]} into a CLEAR, SHORT, calming summary.
+
+Rules:
+- Maximum 3 bullet points, each ≤ 15 words
+- First bullet: WHO sent it or WHAT it is about
+- Second bullet: the ONE action needed from the reader (if any)
+- Third bullet: urgency / deadline (if any), otherwise omit
+- Use plain English — no jargon, no acronyms unless unavoidable
+- Calming, supportive tone — no ALL CAPS, no exclamation marks
+
+Raw notification:
+"${rawContent}"
+
+Plain summary:`.trim();
+
+  try {
+    const { text } = await llmProvider.generate({
+      purpose: 'notifications:simplify',
+      prompt,
+      mock: () => `- ${excerpt(rawContent)}`,
+    });
+    return text.trim();
+  } catch (err) {
+    console.warn('[simplifyNotification] Gemini unavailable, using excerpt:', (err as Error).message);
+    return excerpt(rawContent);
+  }
+};
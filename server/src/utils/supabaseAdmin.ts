@@ -33,4 +33,16 @@ export const supabaseAdmin = createClient(supabaseUrl, supabaseKey, {
     autoRefreshToken: false,
     persistSession: false,
   },
-});
\ No newline at end of file
+});
+/**
+ * A separate client for checking a user's password (signInWithPassword).
+ * Signing in on `supabaseAdmin` would replace its service-role auth with the
+ * user's session, so every check gets its own throwaway client.
+ */
+export const createPasswordCheckClient = () =>
+  createClient(supabaseUrl, supabaseKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  });
@@ -1,8 +1,9 @@
 import React, { useEffect, useState, useCallback } from 'react';
-import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
+import { BrowserRouter as Router, Routes, Route, Navigate, useLocation } from 'react-router-dom';
 import { supabase } from './lib/supabase';
 import { Loader2 } from 'lucide-react';
 import { useCognitiveStore, UserRole } from './stores/cognitiveStore';
+import { isChildRoute, useChildSessionStore } from './stores/childSessionStore';
 
 // Pages & Components
 import { AuthPage as Auth } from './pages/Auth';
@@ -21,6 +22,7 @@ import Settings from './pages/Settings';
 
 // Kids Module
 import ParentDashboard from './pages/ParentDashboard';
+import ChildLogin from './pages/ChildLogin';
 import TeacherDashboard from './pages/TeacherDashboard';
 import GameSelection from './components/kids-module/GameSelection';
 import Game from './components/kids-module/Game';
@@ -44,6 +46,22 @@ const RoleGuard: React.FC<{
   return <>{children}</>;
 };
 
+// ─── Child Session Lock ──────────────────────────────────────────────────────
+
+/**
+ * ChildSessionLock — while a child is logged in on this device (PIN login),
+ * only the game picker and games are reachable; every other path goes back
+ * to /kids/games until a grown-up ends the child session with "Switch player"
+ * (password-gated). An expired token keeps the lock: it only stops the games
+ * from saving.
+ */
+const ChildSessionLock: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { pathname } = useLocation();
+  const childSession = useChildSessionStore(s => s.session);
+  if (childSession && !isChildRoute(pathname)) return <Navigate to="/kids/games" replace />;
+  return <>{children}</>;
+};
+
 // ─── Auth Guard ──────────────────────────────────────────────────────────────
 
 interface AuthGuardProps {
@@ -210,12 +228,28 @@ const RoleHomeRedirect: React.FC<{
   }
 };
 
+// ─── Low-Stimulation Veil ────────────────────────────────────────────────────
+
+/**
+ * How strongly the "dim_ui" veil mutes the screen. The community's
+ * colorMutingEfficacy (global federated model) nudges it stronger where
+ * muting has tended to lower load, lighter where it hasn't.
+ */
+const veilTint = (colorMutingEfficacy: number | undefined) => {
+  if (colorMutingEfficacy === undefined) return 'bg-slate-900/25';
+  if (colorMutingEfficacy > 0.5) return 'bg-slate-900/35';
+  if (colorMutingEfficacy < -0.5) return 'bg-slate-900/15';
+  return 'bg-slate-900/25';
+};
+
 // ─── Main App ─────────────────────────────────────────────────────────────────
 
 import { SensoryEqualizer } from './components/shared/SensoryEqualizer';
 
 export default function App() {
   const cognitiveLoadScore = useCognitiveStore((state) => state.cognitiveLoadScore);
+  const isUiDimmed = useCognitiveStore((state) => state.isUiDimmed);
+  const colorMutingEfficacy = useCognitiveStore((state) => state.communityWeights?.colorMutingEfficacy);
   const setOfflineMode = useCognitiveStore((state) => state.setOfflineMode);
   const setGlobalAudioContext = useCognitiveStore((state) => state.setGlobalAudioContext);
   const setHardwareMuted = useCognitiveStore((state) => state.setHardwareMuted);
@@ -313,142 +347,155 @@ export default function App() {
       {/* Global Crisis Mode Takeover */}
       {cognitiveLoadScore >= 90 && <CrisisMode />}
 
+      {/* Policy-driven low-stimulation veil (server "dim_ui" action) */}
+      {isUiDimmed && <div aria-hidden className={`fixed inset-0 z-[90] pointer-events-none ${veilTint(colorMutingEfficacy)} transition-opacity duration-1000`} />}
+
       {/* Global Sensory Equalizer */}
       <SensoryEqualizer />
 
       <AuthGuard>
         {(session, onboardingComplete, userRole) => (
-          <Routes>
-            {/* ── Public Routes ────────────────────────────────────────── */}
-            <Route path="/auth" element={<Auth session={session} userRole={userRole} />} />
-            <Route path="/unauthorized" element={<Unauthorized />} />
-
-            {/* ── Onboarding (Employee/Admin only) ─────────────────────── */}
-            <Route path="/onboarding" element={
-              session ? (
-                !userRole ? <Navigate to="/auth" replace /> :
-                (!onboardingComplete ? <Onboarding userId={session.user.id} /> : <Navigate to="/" replace />)
-              ) : <Navigate to="/auth" replace />
-            } />
-
-            {/* ── Home Route (Role-aware redirect) ──────────────────── */}
-            <Route path="/" element={
-              session
-                ? (userRole ? <RoleHomeRedirect userRole={userRole} onboardingComplete={onboardingComplete} userId={session.user.id} /> : <Navigate to="/auth" replace />)
-                : <Navigate to="/auth" replace />
-            } />
-
-            {/* ── Employee/Admin Routes ────────────────────────────── */}
-            <Route path="/dashboard" element={
-              session ? (
-                <RoleGuard userRole={userRole} allowed={['employee', 'admin']}>
-                  {onboardingComplete ? <Dashboard userId={session.user.id} /> : <Navigate to="/onboarding" replace />}
-                </RoleGuard>
-              ) : <Navigate to="/auth" replace />
-            } />
-
-            <Route path="/memory" element={
-              session ? (
-                <RoleGuard userRole={userRole} allowed={['employee', 'admin']}>
-                  {onboardingComplete ? <Memory userId={session.user.id} /> : <Navigate to="/onboarding" replace />}
-                </RoleGuard>
-              ) : <Navigate to="/auth" replace />
-            } />
-
-            <Route path="/body-doubling" element={
-              session ? (
-                <RoleGuard userRole={userRole} allowed={['employee', 'admin']}>
-                  {onboardingComplete ? <BodyDoubling /> : <Navigate to="/onboarding" replace />}
-                </RoleGuard>
-              ) : <Navigate to="/auth" replace />
-            } />
-
-            {/* ── Stage B: External Feature Routes ────────────────── */}
-            <Route path="/acoustic-sandbox" element={
-              session ? (
-                <RoleGuard userRole={userRole} allowed={['employee', 'admin']}>
-                  <AcousticSandbox />
-                </RoleGuard>
-              ) : <Navigate to="/auth" replace />
-            } />
-
-            <Route path="/rsd-shield" element={
-              session ? (
-                <RoleGuard userRole={userRole} allowed={['employee', 'admin']}>
-                  <RSDShield />
-                </RoleGuard>
-              ) : <Navigate to="/auth" replace />
-            } />
-
-            <Route path="/reading" element={
-              session ? (
-                <RoleGuard userRole={userRole} allowed={['employee', 'admin', 'child', 'parent']}>
-                  <ReadingMode />
-                </RoleGuard>
-              ) : <Navigate to="/auth" replace />
-            } />
-
-            <Route path="/settings" element={
-              session ? (
-                <RoleGuard userRole={userRole} allowed={['employee', 'admin', 'child', 'parent']}>
-                  <Settings />
-                </RoleGuard>
-              ) : <Navigate to="/auth" replace />
-            } />
-
-            {/* ── Admin-Only Routes ───────────────────────────────── */}
-            <Route path="/manager" element={
-              session ? (
-                <RoleGuard userRole={userRole} allowed={['admin']}>
-                  <ManagerDashboard />
-                </RoleGuard>
-              ) : <Navigate to="/auth" replace />
-            } />
-
-            {/* ── Kids Module Routes (Parent, Child, Teacher, Admin) ─ */}
-            <Route path="/kids/parent" element={
-              session ? (
-                <RoleGuard userRole={userRole} allowed={['parent', 'admin']}>
-                  <ParentDashboard />
-                </RoleGuard>
-              ) : <Navigate to="/auth" replace />
-            } />
-
-            <Route path="/kids/teacher" element={
-              session ? (
-                <RoleGuard userRole={userRole} allowed={['parent', 'admin']}>
-                  <TeacherDashboard />
-                </RoleGuard>
-              ) : <Navigate to="/auth" replace />
-            } />
-
-            <Route path="/kids/games" element={
-              session ? (
-                <RoleGuard userRole={userRole} allowed={['child', 'parent', 'admin']}>
-                  <GameSelection />
-                </RoleGuard>
-              ) : <Navigate to="/auth" replace />
-            } />
-
-            <Route path="/kids/play/1" element={
-              session ? (
-                <RoleGuard userRole={userRole} allowed={['child', 'parent', 'admin']}>
-                  <Game />
-                </RoleGuard>
-              ) : <Navigate to="/auth" replace />
-            } />
-
-            <Route path="/kids/play/2" element={
-              session ? (
-                <RoleGuard userRole={userRole} allowed={['child', 'parent', 'admin']}>
-                  <GameTwo />
-                </RoleGuard>
-              ) : <Navigate to="/auth" replace />
-            } />
-
-            {/* ── Fallback ────────────────────────────────────────── */}
-            <Route path="*" element={<Navigate to="/" replace />} />
-          </Routes>
+          <ChildSessionLock>
+            <Routes>
+              {/* ── Public Routes ────────────────────────────────────────── */}
+              <Route path="/auth" element={<Auth session={session} userRole={userRole} />} />
+              <Route path="/unauthorized" element={<Unauthorized />} />
+
+              {/* ── Onboarding (Employee/Admin only) ─────────────────────── */}
+              <Route path="/onboarding" element={
+                session ? (
+                  !userRole ? <Navigate to="/auth" replace /> :
+                  (!onboardingComplete ? <Onboarding userId={session.user.id} /> : <Navigate to="/" replace />)
+                ) : <Navigate to="/auth" replace />
+              } />
+
+              {/* ── Home Route (Role-aware redirect) ──────────────────── */}
+              <Route path="/" element={
+                session
+                  ? (userRole ? <RoleHomeRedirect userRole={userRole} onboardingComplete={onboardingComplete} userId={session.user.id} /> : <Navigate to="/auth" replace />)
+                  : <Navigate to="/auth" replace />
+              } />
+
+              {/* ── Employee/Admin Routes ────────────────────────────── */}
+              <Route path="/dashboard" element={
+                session ? (
+                  <RoleGuard userRole={userRole} allowed={['employee', 'admin']}>
+                    {onboardingComplete ? <Dashboard userId={session.user.id} /> : <Navigate to="/onboarding" replace />}
+                  </RoleGuard>
+                ) : <Navigate to="/auth" replace />
+              } />
+
+              <Route path="/memory" element={
+                session ? (
+                  <RoleGuard userRole={userRole} allowed={['employee', 'admin']}>
+                    {onboardingComplete ? <Memory userId={session.user.id} /> : <Navigate to="/onboarding" replace />}
+                  </RoleGuard>
+                ) : <Navigate to="/auth" replace />
+              } />
+
+              <Route path="/body-doubling" element={
+                session ? (
+                  <RoleGuard userRole={userRole} allowed={['employee', 'admin']}>
+                    {onboardingComplete ? <BodyDoubling /> : <Navigate to="/onboarding" replace />}
+                  </RoleGuard>
+                ) : <Navigate to="/auth" replace />
+              } />
+
+              {/* ── Stage B: External Feature Routes ────────────────── */}
+              <Route path="/acoustic-sandbox" element={
+                session ? (
+                  <RoleGuard userRole={userRole} allowed={['employee', 'admin']}>
+                    <AcousticSandbox />
+                  </RoleGuard>
+                ) : <Navigate to="/auth" replace />
+              } />
+
+              <Route path="/rsd-shield" element={
+                session ? (
+                  <RoleGuard userRole={userRole} allowed={['employee', 'admin']}>
+                    <RSDShield userId={session.user.id} />
+                  </RoleGuard>
+                ) : <Navigate to="/auth" replace />
+              } />
+
+              <Route path="/reading" element={
+                session ? (
+                  <RoleGuard userRole={userRole} allowed={['employee', 'admin', 'child', 'parent']}>
+                    <ReadingMode />
+                  </RoleGuard>
+                ) : <Navigate to="/auth" replace />
+              } />
+
+              <Route path="/settings" element={
+                session ? (
+                  <RoleGuard userRole={userRole} allowed={['employee', 'admin', 'child', 'parent']}>
+                    <Settings />
+                  </RoleGuard>
+                ) : <Navigate to="/auth" replace />
+              } />
+
+              {/* ── Admin-Only Routes ───────────────────────────────── */}
+              <Route path="/manager" element={
+                session ? (
+                  <RoleGuard userRole={userRole} allowed={['admin']}>
+                    <ManagerDashboard />
+                  </RoleGuard>
+                ) : <Navigate to="/auth" replace />
+              } />
+
+              {/* ── Kids Module Routes (Parent, Child, Teacher, Admin) ─ */}
+              <Route path="/kids/parent" element={
+                session ? (
+                  <RoleGuard userRole={userRole} allowed={['parent', 'admin']}>
+                    <ParentDashboard />
+                  </RoleGuard>
+                ) : <Navigate to="/auth" replace />
+              } />
+
+              <Route path="/kids/login" element={
+                session ? (
+                  <RoleGuard userRole={userRole} allowed={['parent', 'admin']}>
+                    <ChildLogin />
+                  </RoleGuard>
+                ) : <Navigate to="/auth" replace />
+              } />
+
+              <Route path="/kids/teacher" element={
+                session ? (
+                  <RoleGuard userRole={userRole} allowed={['parent', 'admin']}>
+                    <TeacherDashboard />
+                  </RoleGuard>
+                ) : <Navigate to="/auth" replace />
+              } />
+
+              <Route path="/kids/games" element={
+                session ? (
+                  <RoleGuard userRole={userRole} allowed={['child', 'parent', 'admin']}>
+                    <GameSelection />
+                  </RoleGuard>
+                ) : <Navigate to="/auth" replace />
+              } />
+
+              <Route path="/kids/play/1" element={
+                session ? (
+                  <RoleGuard userRole={userRole} allowed={['child', 'parent', 'admin']}>
+                    <Game />
+                  </RoleGuard>
+                ) : <Navigate to="/auth" replace />
+              } />
+
+              <Route path="/kids/play/2" element={
+                session ? (
+                  <RoleGuard userRole={userRole} allowed={['child', 'parent', 'admin']}>
+                    <GameTwo />
+                  </RoleGuard>
+                ) : <Navigate to="/auth" replace />
+              } />
+
+              {/* ── Fallback ────────────────────────────────────────── */}
+              <Route path="*" element={<Navigate to="/" replace />} />
+            </Routes>
+          </ChildSessionLock>
         )}
       </AuthGuard>
     </Router>
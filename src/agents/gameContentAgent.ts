@@ -4,9 +4,12 @@
  * with automatic fallback to Supabase seed data if the request fails.
  * 
  * Age is now threaded through to the backend so Gemini calibrates
- * vocabulary and complexity to the child's developmental level.
+ * vocabulary and complexity to the child's developmental level, along with
+ * the child's adaptive difficulty plan (target level, skills to practise and
+ * skills already mastered) when one is available.
  */
 import { supabase } from '../lib/supabase';
+import { authHeaders } from '../lib/api';
 
 // ─── Types (shared with Game.tsx and GameTwo.tsx) ─────────────────────────────
 
@@ -19,6 +22,10 @@ export interface QuizQuestion {
   question: string;
   image?: string | null;
   answers: QuizAnswer[];
+  /** `topic:<topic>`, tagged by the backend; absent on Supabase seed data. */
+  skill?: string;
+  /** Difficulty level 1–5, tagged by the backend. */
+  difficulty?: number;
 }
 
 export interface SpellingQuestion {
@@ -26,6 +33,17 @@ export interface SpellingQuestion {
   correctLetter: string;
   image: string | null;
   options: string[];
+  /** `letter:<missing letter>`, tagged by the backend. */
+  skill?: string;
+  /** Difficulty level 1–5, tagged by the backend. */
+  difficulty?: number;
+}
+
+/** What to generate, from the child's adaptive difficulty plan. */
+export interface ContentPlan {
+  difficulty?: number;
+  focusSkills?: string[];
+  avoidSkills?: string[];
 }
 
 // ─── Backend URL ──────────────────────────────────────────────────────────────
@@ -113,16 +131,18 @@ async function logDegradedState(context: string, errorDetails: any) {
  *
  * @param theme  Topic/theme for question generation (default: emotions and everyday life)
  * @param age    Child's age in years — used to calibrate language complexity (default: 7)
+ * @param plan   Target difficulty and skills from the child's adaptive difficulty plan
  */
 export async function fetchQuizQuestions(
   theme = 'emotions and everyday life',
   age = 7,
+  plan: ContentPlan = {},
 ): Promise<QuizQuestion[]> {
   try {
     const res = await fetch(`${BACKEND_URL}/api/agents/generate-game-content`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ gameType: 'quiz', theme, count: 5, age, seed: Math.random() }),
+      headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+      body: JSON.stringify({ gameType: 'quiz', theme, count: 5, age, ...plan, seed: Math.random() }),
       signal: AbortSignal.timeout(4_000), // Strict 4s timeout prevents kids waiting on LLM
     });
 
@@ -169,16 +189,18 @@ export async function fetchQuizQuestionsFromSupabase(): Promise<QuizQuestion[]>
  *
  * @param theme  Topic/theme for question generation
  * @param age    Child's age in years — used to calibrate word length/difficulty
+ * @param plan   Target difficulty and skills from the child's adaptive difficulty plan
  */
 export async function fetchSpellingQuestions(
   theme = 'animals and simple objects',
   age = 7,
+  plan: ContentPlan = {},
 ): Promise<SpellingQuestion[]> {
   try {
     const res = await fetch(`${BACKEND_URL}/api/agents/generate-game-content`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ gameType: 'spelling', theme, count: 5, age, seed: Math.random() }),
+      headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+      body: JSON.stringify({ gameType: 'spelling', theme, count: 5, age, ...plan, seed: Math.random() }),
       signal: AbortSignal.timeout(4_000), // Strict 4s timeout prevents kids waiting on LLM
     });
 
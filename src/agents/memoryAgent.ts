@@ -1,5 +1,4 @@
-import { callAgent } from '../lib/api';
-import { supabase } from '../lib/supabase'; // Assumes standard Supabase client initialization
+import { callAgent, ingestMemoryEntry, hybridSearchMemories } from '../lib/api';
 
 export interface MemoryIngestResult {
   success: boolean;
@@ -8,8 +7,11 @@ export interface MemoryIngestResult {
 
 /**
  * Step 1: Ingest, Summarize, Embed, and Store
+ *
+ * Embedding and storage happen on the server (POST /api/memory), scoped to
+ * the signed-in user.
  */
-export async function ingestMemory(text: string, userId: string): Promise<MemoryIngestResult> {
+export async function ingestMemory(text: string, metadata?: Record<string, unknown>, occurredAt?: string): Promise<MemoryIngestResult> {
   try {
     // 1. Generate a concise summary and action items
     const summaryPrompt = `
@@ -21,32 +23,12 @@ export async function ingestMemory(text: string, userId: string): Promise<Memory
     `;
     const parsedSummary = await callAgent<{ summary: string, action_items: string[] }>({ prompt: summaryPrompt, jsonMode: true });
     
-    // Combine for storage
+    // Combine for storage. The server separately tracks each action item as a
+    // commitment (owner, due date, reminders); here they only aid search.
     const richSummary = `${parsedSummary.summary} Actions: ${parsedSummary.action_items.join(', ')}`;
 
-    // 2. Generate vector embeddings for the raw content
-    // (This would be handled by a backend API endpoint)
-    const embeddingResponse = await fetch('http://localhost:3000/api/embed', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ text: text })
-    });
-    
-    if (!embeddingResponse.ok) {
-      throw new Error(`Embedding failed: ${embeddingResponse.status}`);
-    }
-    
-    const { embedding } = await embeddingResponse.json();
-
-    // 3. Store in Supabase pgvector
-    const { error } = await supabase.from('memory_entries').insert({
-      user_id: userId,
-      content: text,
-      summary: richSummary,
-      embedding: embedding,
-    });
-
-    if (error) throw error;
+    // 2. Embed and store server-side
+    await ingestMemoryEntry({ content: text, summary: richSummary, metadata, occurredAt });
 
     return { success: true, summary: richSummary };
   } catch (error) {
@@ -58,37 +40,19 @@ export async function ingestMemory(text: string, userId: string): Promise<Memory
 /**
  * Step 2: Retrieve, Augment, and Synthesize (RAG)
  */
-export async function recallMemory(query: string, userId: string): Promise<string> {
+export async function recallMemory(query: string): Promise<string> {
   try {
-    // 1. Embed the natural language query
-    const embeddingResponse = await fetch('http://localhost:3000/api/embed', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ text: query })
-    });
-    
-    if (!embeddingResponse.ok) {
-      throw new Error(`Embedding failed: ${embeddingResponse.status}`);
-    }
-    
-    const { embedding } = await embeddingResponse.json();
-    const queryEmbedding = embedding;
-
-    // 2. Perform Vector Similarity Search via Supabase RPC
-    const { data: matches, error } = await supabase.rpc('match_memories', {
-      query_embedding: queryEmbedding,
-      match_threshold: 0.65, // Adjust for strictness
-      match_count: 5,
-      p_user_id: userId,
-    });
+    // 1. Hybrid keyword + semantic search over the caller's memories
+    const { results: matches } = await hybridSearchMemories(query, { topK: 5 });
 
-    if (error) throw error;
-    if (!matches || matches.length === 0) {
+    if (matches.length === 0) {
       return "I couldn't find any relevant context in your digital memory.";
     }
 
     // 3. Construct Context for the LLM
-    const contextStr = matches.map((m: any) => `Memory: ${m.content}\nSummary: ${m.summary}`).join('\n\n');
+    const contextStr = matches
+      .map((m) => `Memory (${new Date(m.occurredAt).toLocaleDateString()}): ${m.content}\nSummary: ${m.summary}`)
+      .join('\n\n');
 
     // 4. Synthesize the final answer
     const synthesisPrompt = `
@@ -103,8 +67,9 @@ export async function recallMemory(query: string, userId: string): Promise<strin
       User Query: "${query}"
     `;
 
-    const result = await callAgent<{ text: string }>({ prompt: synthesisPrompt, jsonMode: false });
-    return result.text;
+    // Non-JSON calls resolve to the raw model text
+    const result = await callAgent<string>({ prompt: synthesisPrompt, jsonMode: false });
+    return result;
   } catch (error) {
     console.error("Memory Recall Error:", error);
     throw new Error("Failed to retrieve information.");
@@ -1,65 +1,75 @@
-import { callAgent } from '../lib/api';
+import { API_BASE_URL, authHeaders } from '../lib/api';
 import { chunkTaskLocally } from '../lib/algorithms/offlineNLP';
+import { calculatePaddingMultiplier } from '../lib/algorithms/timeCorrection';
 
 export interface MicroTask {
   id: string;
   step: string;
   estimated_minutes: number;
   friction_point: string;
+  /** Estimate before time-blindness padding; timings are recorded against this. */
+  raw_estimated_minutes?: number;
 }
 
-const SYSTEM_INSTRUCTION = `
-You are an executive function augmentation engine designed to bypass task paralysis.
-Your user is facing a massive, vague, or overwhelming task. Your goal is to map a path of zero resistance.
+export interface TaskBreakdown {
+  steps: MicroTask[];
+  paddingMultiplier: number;
+  paddedEstimateMinutes: number;
+  /** True when produced on-device (offline, or the backend was unreachable). */
+  local: boolean;
+}
 
-CRITICAL RULES:
-1. The FIRST step must be ridiculously, almost insultingly easy. It must require zero cognitive effort (e.g., "Open a new browser tab", "Create a blank folder", "Pick up a pen").
-2. EVERY step must take 5 minutes or less.
-3. Use highly literal, physical, or digital action verbs.
-4. Break the task down into exactly 5 to 7 sequential micro-steps to build momentum without overwhelming them with a huge list.
+export type TaskBreakdownResult =
+  | { status: 'ready'; breakdown: TaskBreakdown }
+  | { status: 'blocked'; message: string };
 
-Output strictly as a JSON array of objects matching this schema:
-[
-  {
-    "id": "unique-string-id",
-    "step": "The highly literal, micro-action",
-    "estimated_minutes": number (1 to 5),
-    "friction_point": "A 3-word note on why this feels hard (e.g., 'Perfectionism', 'Blank page anxiety')"
-  }
-]
-`;
+/** On-device breakdown, padded with the locally stored multiplier. */
+const breakDownLocally = (taskDescription: string, estimatedTimeMinutes: number): TaskBreakdown => {
+  const multiplier = calculatePaddingMultiplier();
+  const paddedEstimateMinutes = Math.ceil(estimatedTimeMinutes * multiplier);
+  return {
+    steps: chunkTaskLocally(taskDescription, paddedEstimateMinutes),
+    paddingMultiplier: multiplier,
+    paddedEstimateMinutes,
+    local: true,
+  };
+};
 
-export async function generateMicroTasks(taskDescription: string, estimatedTimeMinutes: number = 30): Promise<MicroTask[]> {
+/**
+ * Breaks a task into micro-steps through the server orchestrator
+ * (POST /api/tasks), which pads estimates by the user's personal
+ * time-blindness multiplier and refuses new tasks during overload.
+ */
+export async function generateMicroTasks(taskDescription: string, estimatedTimeMinutes: number = 30): Promise<TaskBreakdownResult> {
   if (!navigator.onLine) {
     console.warn('[taskAgent] Network offline. Routing to offlineNLP.');
-    return chunkTaskLocally(taskDescription, estimatedTimeMinutes);
+    return { status: 'ready', breakdown: breakDownLocally(taskDescription, estimatedTimeMinutes) };
   }
 
-  const BACKEND_URL = import.meta.env.VITE_BACKEND_URL ?? 'http://localhost:3000';
-  
   try {
-    // Use the dedicated /chunk-task endpoint for explicit semantic routing.
-    // That route has the full neurodivergent-optimised prompt built into the backend.
-    const res = await fetch(`${BACKEND_URL}/api/agents/chunk-task`, {
+    const res = await fetch(`${API_BASE_URL}/tasks`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
       body: JSON.stringify({ task: taskDescription, estimatedMinutes: estimatedTimeMinutes }),
-      signal: AbortSignal.timeout(12_000),
+      signal: AbortSignal.timeout(15_000),
     });
-
-    if (!res.ok) throw new Error(`HTTP ${res.status}`);
     const json = await res.json();
-    if (!json.success || !Array.isArray(json.steps)) throw new Error('Invalid response shape');
-    return json.steps as MicroTask[];
+
+    // Overload gate: the orchestrator is protecting the user, not failing
+    if (res.status === 423) return { status: 'blocked', message: json.error };
+
+    if (!res.ok || !json.success || !Array.isArray(json.breakdown?.steps)) throw new Error(json.error || `HTTP ${res.status}`);
+    return {
+      status: 'ready',
+      breakdown: {
+        steps: json.breakdown.steps as MicroTask[],
+        paddingMultiplier: json.breakdown.paddingMultiplier,
+        paddedEstimateMinutes: json.breakdown.paddedEstimateMinutes,
+        local: false,
+      },
+    };
   } catch (error) {
-    // Fallback: route through the generic /generate endpoint
-    console.warn('[taskAgent] /chunk-task failed, falling back to /generate:', error);
-    const prompt = `${SYSTEM_INSTRUCTION}\n\nOverwhelming Task:\n"${taskDescription}"\n\nJSON Output:`;
-    const result = await callAgent<MicroTask[]>({
-      prompt,
-      model: 'gemini-2.0-flash',
-      jsonMode: true,
-    });
-    return result;
+    console.warn('[taskAgent] /tasks failed, falling back to offlineNLP:', error);
+    return { status: 'ready', breakdown: breakDownLocally(taskDescription, estimatedTimeMinutes) };
   }
 }
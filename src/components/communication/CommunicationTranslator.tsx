@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { callAgent } from '../../lib/api';
+import { logAccommodationUse } from '../../lib/accommodationUsage';
 import {
   Loader2,
   ArrowRight,
@@ -37,6 +38,7 @@ export const CommunicationTranslator: React.FC = () => {
         typeof result === 'string' ? JSON.parse(result) : result;
 
       setOutboundResult(parsed);
+      void logAccommodationUse('communication_proxy', Number(parsed?.masking_energy_saved_minutes) || 0);
     } catch (error) {
       console.error('Translation failed:', error);
     } finally {
@@ -1,20 +1,25 @@
 import React, { useState } from 'react';
-import { decodeSocialInteraction, SocialAnalysis } from '../../agents/communicationAgents';
+import { decodeSocialInteraction, type SocialAnalysis } from '../../agents/communicationAgents';
+import { AgentCallError } from '../../lib/api';
 import { Loader2, Ear, ShieldAlert, Lightbulb, MessageCircle } from 'lucide-react';
 
 export const SocialDecoder: React.FC = () => {
   const [input, setInput] = useState('');
   const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
   const [result, setResult] = useState<SocialAnalysis | null>(null);
 
   const handleDecode = async () => {
     if (!input.trim()) return;
     setLoading(true);
+    setError('');
     try {
       const data = await decodeSocialInteraction(input);
       setResult(data);
-    } catch (error) {
-      console.error(error);
+    } catch (err) {
+      console.error(err);
+      setResult(null);
+      setError(err instanceof AgentCallError ? err.message : 'Something went wrong. Please try again.');
     } finally {
       setLoading(false);
     }
@@ -48,6 +53,8 @@ export const SocialDecoder: React.FC = () => {
         {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Decode Subtext'}
       </button>
 
+      {error && <p className="text-sm text-rose-500 mb-6">{error}</p>}
+
       {result && (
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6 animate-in fade-in duration-500">
           
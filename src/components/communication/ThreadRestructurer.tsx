@@ -1,20 +1,25 @@
 import React, { useState } from 'react';
-import { analyzeThread, ThreadAnalysis } from '../../agents/communicationAgents';
+import { analyzeThread, type ThreadAnalysis } from '../../agents/communicationAgents';
+import { AgentCallError } from '../../lib/api';
 import { Loader2, MessageSquare, CheckSquare, Users, Thermometer } from 'lucide-react';
 
 export const ThreadRestructurer: React.FC = () => {
   const [input, setInput] = useState('');
   const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
   const [result, setResult] = useState<ThreadAnalysis | null>(null);
 
   const handleProcess = async () => {
     if (!input.trim()) return;
     setLoading(true);
+    setError('');
     try {
       const data = await analyzeThread(input);
       setResult(data);
-    } catch (error) {
-      console.error(error);
+    } catch (err) {
+      console.error(err);
+      setResult(null);
+      setError(err instanceof AgentCallError ? err.message : 'Something went wrong. Please try again.');
     } finally {
       setLoading(false);
     }
@@ -48,6 +53,8 @@ export const ThreadRestructurer: React.FC = () => {
         {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Extract Signal'}
       </button>
 
+      {error && <p className="text-sm text-rose-500 mb-6">{error}</p>}
+
       {result && (
         <div className="space-y-6 animate-in fade-in duration-500">
           <div className="flex items-start gap-4 p-4 bg-slate-50 rounded-xl border border-slate-100">
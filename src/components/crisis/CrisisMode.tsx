@@ -11,11 +11,13 @@
  *  ✅ Auto re-arms after dismissal once score drops below 80
  *  ✅ Foolproof double-click dismissal to prevent accidental exit
  *  ✅ Writes `crisisActive` flag to Zustand so other UI layers can yield
+ *  ✅ Dismissal is fed back to the personal model as a "grounded" label
  */
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useCognitiveStore } from '../../stores/cognitiveStore';
+import { submitCognitiveLabel } from '../../lib/ml/personalTrainer';
 
 // ─── Constants ────────────────────────────────────────────────────────────────
 
@@ -162,6 +164,13 @@ export const CrisisMode: React.FC = () => {
 
   const isTriggered = loadScore > CRISIS_THRESHOLD && !isDismissed;
 
+  // "I am grounded" — the takeover fired on features the user says no longer
+  // reflect their state, so the recent window becomes a training sample.
+  const handleDismiss = useCallback(() => {
+    setIsDismissed(true);
+    submitCognitiveLabel('crisis_dismissed');
+  }, []);
+
   // Breath phase label
   const phase = useBreathPhase();
 
@@ -256,7 +265,7 @@ export const CrisisMode: React.FC = () => {
                   <span>Load: {(Math.min(loadScore, 100)).toFixed(0)}%</span>
                 </div>
                 <button 
-                  onDoubleClick={() => setIsDismissed(true)} 
+                  onDoubleClick={handleDismiss} 
                   className="flex items-center justify-center w-10 h-10 rounded-full bg-white/5 hover:bg-white/10 text-slate-100 transition-colors"
                   title="Double-click to close"
                 >
@@ -332,7 +341,7 @@ export const CrisisMode: React.FC = () => {
                     </button>
                   ) : (
                     <button 
-                      onDoubleClick={() => setIsDismissed(true)}
+                      onDoubleClick={handleDismiss}
                       title="Double-click to dismiss"
                       className="group relative mt-8 overflow-hidden rounded-full crisis-glass-panel px-8 py-4 transition-all duration-300 hover:bg-white/10 hover:shadow-[0_0_20px_rgba(91,19,236,0.2)] active:scale-95 select-none"
                     >
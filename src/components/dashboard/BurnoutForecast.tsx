@@ -1,46 +1,94 @@
-import React, { useMemo } from 'react';
-import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell } from 'recharts';
-import { useCognitiveStore } from '../../stores/cognitiveStore';
+import React, { useEffect, useState } from 'react';
+import { ComposedChart, Area, Line, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { supabase } from '../../lib/supabase';
+import { fetchTelemetryRollups, type CognitiveRollup } from '../../lib/api';
+import {
+  forecastBurnout,
+  type BurnoutForecastResult,
+  type DailyObservation,
+} from '../../lib/algorithms/burnoutForecast';
 import { TrendingUp, AlertCircle } from 'lucide-react';
 
-interface ForecastData {
+const HISTORY_WINDOW_MS = 8 * 7 * 24 * 60 * 60 * 1000;
+const HIGH_RISK_THRESHOLD = 80;
+
+interface ChartPoint {
   day: string;
-  fatigueRisk: number;
+  risk: number;
+  band: [number, number];
 }
 
-export const BurnoutForecast: React.FC = () => {
-  const currentLoad = useCognitiveStore((state) => state.cognitiveLoadScore);
+/**
+ * Joins server-side day rollups with masking minutes into one observation
+ * per UTC day. Days with masking logged but no telemetry are skipped —
+ * load is the dominant term and can't be inferred.
+ */
+const buildHistory = (
+  rollups: CognitiveRollup[],
+  masking: { created_at: string; duration_minutes: number | null }[]
+): DailyObservation[] => {
+  const maskingByDay = new Map<string, number>();
+  masking.forEach(event => {
+    const date = event.created_at.slice(0, 10);
+    maskingByDay.set(date, (maskingByDay.get(date) ?? 0) + (event.duration_minutes ?? 0));
+  });
 
-  // Generate a predictive rolling 7-day forecast.
-  // In a production environment, this would pull historical moving averages from Supabase pgvector/telemetry.
-  const forecastData = useMemo<ForecastData[]>(() => {
-    const days = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
-    const todayIndex = new Date().getDay() === 0 ? 6 : new Date().getDay() - 1; 
-    
-    return days.map((day, index) => {
-      let baseRisk = 40 + Math.random() * 20; // Baseline friction
-      
-      // Project higher risk if current load is continuously high
-      if (index >= todayIndex) {
-         baseRisk += (currentLoad * 0.3) * (index - todayIndex);
-      }
-      
+  return rollups
+    .filter(rollup => rollup.sample_count > 0)
+    .map(rollup => {
+      const date = new Date(rollup.bucket_start).toISOString().slice(0, 10);
+      const trackedSeconds =
+        rollup.time_hyperfocus_s + rollup.time_normal_s + rollup.time_approaching_overload_s + rollup.time_overload_s;
+      const overloadSeconds = rollup.time_approaching_overload_s + rollup.time_overload_s;
       return {
-        day,
-        fatigueRisk: Math.min(100, Math.max(0, Math.round(baseRisk)))
+        date,
+        meanLoad: rollup.mean_load,
+        overloadShare: trackedSeconds > 0 ? overloadSeconds / trackedSeconds : 0,
+        contextSwitches: rollup.context_switches,
+        maskingMinutes: maskingByDay.get(date) ?? 0,
       };
     });
-  }, [currentLoad]);
+};
+
+export const BurnoutForecast: React.FC = () => {
+  const [forecast, setForecast] = useState<BurnoutForecastResult | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadForecast = async () => {
+      try {
+        const from = new Date(Date.now() - HISTORY_WINDOW_MS);
+        const [rollups, masking] = await Promise.all([
+          fetchTelemetryRollups('day', from),
+          supabase
+            .from('masking_events')
+            .select('created_at, duration_minutes')
+            .gte('created_at', from.toISOString()),
+        ]);
+        if (masking.error) throw masking.error;
+
+        // Forecast starts tomorrow (UTC), the first day with no observations yet.
+        const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+        setForecast(forecastBurnout(buildHistory(rollups, masking.data ?? []), { startDate: tomorrow }));
+      } catch (err) {
+        console.error("Error building burnout forecast:", err);
+      } finally {
+        setLoading(false);
+      }
+    };
 
-  // Color mapping logic based on severity
-  const getBarColor = (risk: number) => {
-    if (risk < 50) return '#2DD4BF'; // Teal (Safe)
-    if (risk < 75) return '#FBBF24'; // Amber (Warning)
-    return '#F87171'; // Red (High Risk)
-  };
+    loadForecast();
+  }, []);
 
-  const peakRisk = Math.max(...forecastData.map(d => d.fatigueRisk));
-  const requiresIntervention = peakRisk > 80;
+  const chartData: ChartPoint[] = (forecast?.points ?? []).map(point => ({
+    day: point.day,
+    risk: point.risk,
+    band: [point.lower, point.upper],
+  }));
+
+  const peakRisk = Math.max(0, ...chartData.map(d => d.risk));
+  const requiresIntervention = peakRisk > HIGH_RISK_THRESHOLD;
+  const topFactors = (forecast?.factors ?? []).filter(f => f.impact > 0).slice(0, 3);
 
   return (
     <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-100 w-full">
@@ -50,9 +98,11 @@ export const BurnoutForecast: React.FC = () => {
             <TrendingUp className="w-4 h-4 text-slate-400" />
             7-Day Burnout Forecast
           </h3>
-          <p className="text-xs text-slate-500 mt-1">Predictive cognitive fatigue based on current momentum.</p>
+          <p className="text-xs text-slate-500 mt-1">
+            Seasonal trend of your load, overload time, switching and masking · shaded band is the 80% range.
+          </p>
         </div>
-        
+
         {requiresIntervention && (
           <div className="flex items-center gap-1.5 px-3 py-1.5 bg-red-50 text-red-600 rounded-lg text-xs font-semibold border border-red-100 animate-pulse">
             <AlertCircle className="w-3.5 h-3.5" /> High Risk Detected
@@ -60,38 +110,71 @@ export const BurnoutForecast: React.FC = () => {
         )}
       </div>
 
-      <div className="w-full mt-2 h-64">
-        <ResponsiveContainer width="100%" height="100%" minWidth={0}>
-          <BarChart data={forecastData} margin={{ top: 10, right: 0, left: -20, bottom: 0 }}>
-            <XAxis 
-              dataKey="day" 
-              axisLine={false} 
-              tickLine={false} 
-              tick={{ fontSize: 11, fill: '#64748B' }} 
-              dy={10}
-            />
-            <YAxis 
-              hide 
-              domain={[0, 100]} 
-            />
-            <Tooltip
-              cursor={{ fill: '#F1F5F9' }}
-              contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
-              itemStyle={{ color: '#0F172A', fontWeight: 600 }}
-            />
-            <Bar 
-              dataKey="fatigueRisk" 
-              radius={[6, 6, 6, 6]}
-              barSize={32}
-              animationDuration={1500}
-            >
-              {forecastData.map((entry, index) => (
-                <Cell key={`cell-${index}`} fill={getBarColor(entry.fatigueRisk)} />
+      {loading ? (
+        <div className="h-64 flex items-center justify-center">
+          <div className="w-5 h-5 border-2 border-slate-200 border-t-slate-400 rounded-full animate-spin" />
+        </div>
+      ) : chartData.length === 0 ? (
+        <div className="h-64 flex items-center justify-center text-center">
+          <p className="text-xs text-slate-500 max-w-xs">
+            Not enough history yet. The forecast appears after a few days of tracked sessions
+            {forecast ? ` (${forecast.observedDays} so far)` : ''}.
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="w-full mt-2 h-64">
+            <ResponsiveContainer width="100%" height="100%" minWidth={0}>
+              <ComposedChart data={chartData} margin={{ top: 10, right: 0, left: -20, bottom: 0 }}>
+                <XAxis
+                  dataKey="day"
+                  axisLine={false}
+                  tickLine={false}
+                  tick={{ fontSize: 11, fill: '#64748B' }}
+                  dy={10}
+                />
+                <YAxis
+                  hide
+                  domain={[0, 100]}
+                />
+                <Tooltip
+                  contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+                  itemStyle={{ color: '#0F172A', fontWeight: 600 }}
+                />
+                <Area
+                  dataKey="band"
+                  name="80% range"
+                  stroke="none"
+                  fill="#FBBF24"
+                  fillOpacity={0.2}
+                  animationDuration={1500}
+                />
+                <Line
+                  dataKey="risk"
+                  name="Forecast risk"
+                  stroke="#F87171"
+                  strokeWidth={2}
+                  dot={{ r: 3, fill: '#F87171' }}
+                  animationDuration={1500}
+                />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+
+          {topFactors.length > 0 && (
+            <div className="mt-4 flex flex-wrap gap-2">
+              {topFactors.map(factor => (
+                <span
+                  key={factor.key}
+                  className="px-2.5 py-1 bg-slate-50 text-slate-600 rounded-lg text-xs font-medium border border-slate-100"
+                >
+                  {factor.label} +{factor.impact}
+                </span>
               ))}
-            </Bar>
-          </BarChart>
-        </ResponsiveContainer>
-      </div>
+            </div>
+          )}
+        </>
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -1,5 +1,5 @@
 import React, { useEffect, useState } from 'react';
-import { supabase } from '../../lib/supabase';
+import { fetchTelemetryRollups, type CognitiveRollup } from '../../lib/api';
 import { Brain, Clock, Zap, AlertTriangle } from 'lucide-react';
 
 interface TwinInsights {
@@ -8,6 +8,60 @@ interface TwinInsights {
   averageLoad: number;
 }
 
+const TWIN_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+const formatHour = (hour: number) =>
+  new Date(0, 0, 0, hour, 0, 0).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+/**
+ * Folds 7 days of hourly rollups into hour-of-day patterns (local time):
+ *  - peak flow   → hour with the lowest sample-weighted mean load
+ *  - friction    → hour with the most time spent in overload
+ *  - baseline    → sample-weighted mean load across the whole window
+ */
+const calculateInsights = (rollups: CognitiveRollup[]): TwinInsights | null => {
+  const byHour: Record<number, { loadSum: number; samples: number; overloadSeconds: number }> = {};
+  let totalLoad = 0;
+  let totalSamples = 0;
+
+  rollups.forEach(rollup => {
+    if (rollup.sample_count === 0) return;
+    const hour = new Date(rollup.bucket_start).getHours();
+    const slot = byHour[hour] ?? (byHour[hour] = { loadSum: 0, samples: 0, overloadSeconds: 0 });
+    slot.loadSum += rollup.mean_load * rollup.sample_count;
+    slot.samples += rollup.sample_count;
+    slot.overloadSeconds += rollup.time_overload_s + rollup.time_approaching_overload_s;
+
+    totalLoad += rollup.mean_load * rollup.sample_count;
+    totalSamples += rollup.sample_count;
+  });
+
+  if (totalSamples === 0) return null;
+
+  let bestHour = 0;
+  let lowestAvgLoad = Infinity;
+  let worstHour: number | null = null;
+  let mostOverload = 0;
+  Object.entries(byHour).forEach(([hourStr, slot]) => {
+    const hour = parseInt(hourStr);
+    const avg = slot.loadSum / slot.samples;
+    if (avg < lowestAvgLoad) {
+      lowestAvgLoad = avg;
+      bestHour = hour;
+    }
+    if (slot.overloadSeconds > mostOverload) {
+      mostOverload = slot.overloadSeconds;
+      worstHour = hour;
+    }
+  });
+
+  return {
+    peakFocusHour: formatHour(bestHour),
+    overloadTrigger: worstHour === null ? 'None yet' : formatHour(worstHour),
+    averageLoad: Math.round(totalLoad / totalSamples),
+  };
+};
+
 export const CognitiveTwin: React.FC<{ userId: string }> = ({ userId }) => {
   const [insights, setInsights] = useState<TwinInsights | null>(null);
   const [loading, setLoading] = useState(true);
@@ -15,23 +69,12 @@ export const CognitiveTwin: React.FC<{ userId: string }> = ({ userId }) => {
   useEffect(() => {
     const fetchCognitiveData = async () => {
       try {
-        // Fetch the last 7 days of snapshots (limit for hackathon demo purposes)
-        const { data, error } = await supabase
-          .from('cognitive_snapshots')
-          .select('timestamp, load_score, context_type')
-          .eq('user_id', userId)
-          .order('timestamp', { ascending: false })
-          .limit(1000);
-
-        if (error) throw error;
-
-        if (data && data.length > 0) {
-          calculateInsights(data);
-        } else {
-          setLoading(false); // No data yet
-        }
+        // Server-side hourly rollups for the signed-in user (see TelemetryPipeline)
+        const rollups = await fetchTelemetryRollups('hour', new Date(Date.now() - TWIN_WINDOW_MS));
+        setInsights(calculateInsights(rollups));
       } catch (err) {
         console.error("Error fetching cognitive twin data:", err);
+      } finally {
         setLoading(false);
       }
     };
@@ -39,58 +82,6 @@ export const CognitiveTwin: React.FC<{ userId: string }> = ({ userId }) => {
     fetchCognitiveData();
   }, [userId]);
 
-  const calculateInsights = (data: any[]) => {
-    // 1. Find Peak Focus Window (Lowest average load score per hour)
-    const hourlyLoads: Record<number, number[]> = {};
-    const contextLoads: Record<string, number[]> = {};
-    let totalLoad = 0;
-
-    data.forEach(snapshot => {
-      const hour = new Date(snapshot.timestamp).getHours();
-      if (!hourlyLoads[hour]) hourlyLoads[hour] = [];
-      hourlyLoads[hour].push(snapshot.load_score);
-
-      const ctx = snapshot.context_type;
-      if (!contextLoads[ctx]) contextLoads[ctx] = [];
-      contextLoads[ctx].push(snapshot.load_score);
-
-      totalLoad += snapshot.load_score;
-    });
-
-    let bestHour = 0;
-    let lowestAvgLoad = Infinity;
-    Object.keys(hourlyLoads).forEach(hourStr => {
-      const hour = parseInt(hourStr);
-      const avg = hourlyLoads[hour].reduce((a, b) => a + b, 0) / hourlyLoads[hour].length;
-      if (avg < lowestAvgLoad) {
-        lowestAvgLoad = avg;
-        bestHour = hour;
-      }
-    });
-
-    // Format hour nicely (e.g., "10:00 AM")
-    const formattedHour = new Date(0, 0, 0, bestHour, 0, 0).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
-
-    // 2. Find Overload Triggers (Highest average load by context)
-    let worstContext = 'Unknown';
-    let highestAvgLoad = 0;
-    Object.keys(contextLoads).forEach(ctx => {
-      const avg = contextLoads[ctx].reduce((a, b) => a + b, 0) / contextLoads[ctx].length;
-      if (avg > highestAvgLoad) {
-        highestAvgLoad = avg;
-        worstContext = ctx;
-      }
-    });
-
-    setInsights({
-      peakFocusHour: formattedHour,
-      overloadTrigger: worstContext,
-      averageLoad: Math.round(totalLoad / data.length)
-    });
-    
-    setLoading(false);
-  };
-
   if (loading) {
     return <div className="animate-pulse h-48 bg-slate-100 rounded-2xl w-full"></div>;
   }
@@ -144,8 +135,8 @@ export const CognitiveTwin: React.FC<{ userId: string }> = ({ userId }) => {
             <AlertTriangle className="w-4 h-4 text-amber-600" />
             <h3 className="text-xs font-semibold text-amber-800 uppercase tracking-wider">Primary Friction Point</h3>
           </div>
-          <p className="text-2xl font-light text-amber-900 mt-2 capitalize">{insights.overloadTrigger.replace('_', ' ')}</p>
-          <p className="text-xs text-amber-700 mt-1 opacity-80">Routinely causes load spikes</p>
+          <p className="text-2xl font-light text-amber-900 mt-2">{insights.overloadTrigger}</p>
+          <p className="text-xs text-amber-700 mt-1 opacity-80">Most time spent near overload</p>
         </div>
 
       </div>
@@ -1,6 +1,14 @@
 import React, { useState, useEffect } from 'react';
-import { analyzeRsdRisk, RsdAnalysis } from '../../agents/flowAgents';
+import { analyzeRsdRisk, type RsdAnalysis } from '../../agents/flowAgents';
 import { ShieldCheck, ShieldAlert, User } from 'lucide-react';
+import type { ReviewSentiment } from '../../types/rsd';
+
+const SENTIMENT_CHIP: Record<ReviewSentiment, { className: string; label: string }> = {
+  critical: { className: 'bg-rose-50 text-rose-600',       label: 'Critical' },
+  neutral:  { className: 'bg-slate-100 text-slate-500',    label: 'Neutral' },
+  positive: { className: 'bg-emerald-50 text-emerald-600', label: 'Positive' },
+  mixed:    { className: 'bg-amber-50 text-amber-600',     label: 'Mixed' },
+};
 
 interface RsdShieldProps {
   senderName: string;
@@ -80,6 +88,12 @@ export const RsdShield: React.FC<RsdShieldProps> = ({
                 <ShieldCheck className="w-3.5 h-3.5 text-emerald-400" />
               </div>
             )}
+
+            {analysis && (
+              <span className={`px-1.5 py-0.5 rounded text-[10px] font-semibold uppercase tracking-wider ${SENTIMENT_CHIP[analysis.sentiment].className}`}>
+                {SENTIMENT_CHIP[analysis.sentiment].label}
+              </span>
+            )}
           </div>
 
           <p className="text-slate-700 text-sm leading-relaxed">
@@ -6,20 +6,24 @@
  * to rewrite the raw notification into plain, neurodivergent-friendly language.
  *
  * Used on the Dashboard to demonstrate the integration to judges without
- * requiring real Slack/Jira API keys.
+ * requiring real Slack/Jira API keys. The accounts row links the user's own
+ * accounts so real webhook events are delivered to them.
  */
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
   Sparkles, Loader2, ChevronDown, ChevronUp, Radio,
-  AlertCircle, AlertTriangle, Info, Zap,
+  AlertCircle, AlertTriangle, Info, Zap, Link2, CheckCircle2,
 } from 'lucide-react';
 import {
   MOCK_SLACK_NOTIFICATIONS,
   MOCK_JIRA_TICKETS,
   simplifyNotification,
+  fetchLinkedIntegrations,
+  linkIntegration,
   IntegrationNotification,
   IntegrationSource,
+  type LinkProvider,
 } from '../../lib/api';
 import { supabase } from '../../lib/supabase';
 import ReactFlow, { Background, Controls, Node, Edge, MarkerType } from 'reactflow';
@@ -184,6 +188,59 @@ const NotificationCard: React.FC<{ notification: IntegrationNotification }> = ({
   );
 };
 
+// ─── Linked accounts row ──────────────────────────────────────────────────────
+const LINKABLE: { provider: LinkProvider; label: string }[] = [
+  { provider: 'google', label: 'Google' },
+  { provider: 'slack',  label: 'Slack' },
+  { provider: 'jira',   label: 'Jira' },
+];
+
+const LinkedAccounts: React.FC = () => {
+  const [linked, setLinked]   = useState<string[]>([]);
+  const [linking, setLinking] = useState<LinkProvider | null>(null);
+  const [error, setError]     = useState('');
+
+  useEffect(() => {
+    fetchLinkedIntegrations()
+      .then(setLinked)
+      .catch(() => setError('Could not load linked accounts.'));
+  }, []);
+
+  const handleLink = async (provider: LinkProvider) => {
+    setLinking(provider);
+    setError('');
+    try {
+      await linkIntegration(provider);
+    } catch (err) {
+      setError((err as Error).message);
+      setLinking(null);
+    }
+  };
+
+  return (
+    <div className="px-4 py-2 border-b border-slate-100 flex items-center gap-2 flex-wrap shrink-0">
+      <span className="text-[10px] font-semibold text-slate-400 uppercase tracking-wider">Accounts</span>
+      {LINKABLE.map(({ provider, label }) => linked.includes(provider) ? (
+        <span key={provider} className="flex items-center gap-1 text-[11px] font-semibold text-teal-600">
+          <CheckCircle2 className="w-3 h-3" /> {label}
+        </span>
+      ) : (
+        <button
+          key={provider}
+          onClick={() => handleLink(provider)}
+          disabled={linking !== null}
+          className="flex items-center gap-1 text-[11px] font-semibold px-2 py-0.5 rounded-full border border-slate-200
+                     text-slate-500 hover:text-teal-600 hover:border-teal-300 transition disabled:opacity-50"
+        >
+          {linking === provider ? <Loader2 className="w-3 h-3 animate-spin" /> : <Link2 className="w-3 h-3" />}
+          Connect {label}
+        </button>
+      ))}
+      {error && <span className="text-[10px] text-rose-500">{error}</span>}
+    </div>
+  );
+};
+
 // ─── Tab selector ─────────────────────────────────────────────────────────────
 type Tab = 'slack' | 'jira';
 
@@ -270,6 +327,8 @@ export const IntegrationDemoPanel: React.FC = () => {
         </div>
       </div>
 
+      <LinkedAccounts />
+
       {/* Tab bar */}
       <div className="flex border-b border-slate-100 shrink-0">
         {(['slack', 'jira'] as Tab[]).map(t => (
@@ -5,9 +5,13 @@
  * ✅ Age gate — asks age if not passed from ParentDashboard
  * ✅ Webcam permission → start game → 2 min timer
  * ✅ Gemini AI–generated age-calibrated questions (fallback: Supabase seed)
+ * ✅ Adaptive difficulty: a logged-in child's questions are generated at their
+ *      mastery level, and each answer (with response time and frustration/confusion)
+ *      picks the next question's level — see useAdaptiveDifficulty
  * ✅ Per-answer correct/wrong state colouring + speech feedback
  * ✅ canvas-confetti celebration on game end
  * ✅ captureImage + captureScreenshot every 10s via interval
+ *      • Expression classified on-device → `expression_logs`; frames uploaded only with parental opt-in
  * ✅ BiometricVisionEngine multi-class emotion tracking (joy / frustration / confusion)
  * ✅ Automated Intervention: if frustration OR confusion > 80 for 5s:
  *      • Timer pauses
@@ -30,6 +34,9 @@ import TimerBar from './TimerBar';
 import useSessionId from '../../hooks/kids/useSessionId';
 import useWebcam from '../../hooks/kids/useWebcam';
 import useCapture from '../../hooks/kids/useCapture';
+import useGameSession from '../../hooks/kids/useGameSession';
+import useAdaptiveDifficulty from '../../hooks/kids/useAdaptiveDifficulty';
+import { activeChildSession, useChildSessionStore } from '../../stores/childSessionStore';
 
 // ─── Confusion Pause Constants ─────────────────────────────────────────────────
 /** Frustration OR tension above this triggers a confusion pause. */
@@ -41,7 +48,7 @@ const CONFUSION_PAUSE_COOLDOWN_MS = 15_000;
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 interface Answer { text: string; correct: boolean; }
-interface Question { question: string; image?: string; answers: Answer[]; }
+interface Question { question: string; image?: string; answers: Answer[]; skill?: string; difficulty?: number; }
 type AnswerState = 'correct' | 'wrong' | '';
 
 // ─── Constants ────────────────────────────────────────────────────────────────
@@ -149,9 +156,12 @@ function BreathingOverlay({ onDismiss }: { onDismiss: () => void }) {
 export default function Game() {
   const location = useLocation();
   const navigate = useNavigate();
-  const { username, gameName, childAge } = (location.state as {
-    username?: string; gameName?: string; childAge?: number;
-  }) ?? {};
+  const routeState = (location.state as { username?: string; gameName?: string; childAge?: number }) ?? {};
+  const { gameName } = routeState;
+  // A PIN-logged-in child is the player; route state covers grown-ups trying a game
+  const childSession = useChildSessionStore(s => activeChildSession(s.session));
+  const username = childSession?.childName ?? routeState.username;
+  const childAge = childSession?.age ?? routeState.childAge;
   const sessionName = username ?? 'Player';
 
   // Age gate state
@@ -162,9 +172,18 @@ export default function Game() {
   // Kids module hooks
   const { sessionId } = useSessionId();
   const { videoRef, webcamGranted, webcamError, requestWebcamAccess, stopWebcam } = useWebcam();
-  const { canvasRef, captureImage, captureScreenshot } = useCapture({ videoRef });
+  const { startGameSession } = useGameSession({
+    sessionKey: sessionId, gameName: gameName ?? '',
+  });
+
+  // Singleton engine ref — also sampled by useCapture for on-device expression logs
+  const visionEngineRef = useRef<BiometricVisionEngine | null>(null);
+  const { canvasRef, captureImage, captureScreenshot } = useCapture({ videoRef, visionEngineRef });
+  const adaptive = useAdaptiveDifficulty({ gameType: 'quiz', visionEngineRef });
 
   const captureIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  // Latest score for capture ticks, which run outside React's render cycle
+  const scoreRef = useRef(0);
 
   // Game state
   const [questions, setQuestions] = useState<Question[]>([]);
@@ -178,6 +197,8 @@ export default function Game() {
   const [isLoading, setIsLoading] = useState(true);
   const [flashClass, setFlashClass] = useState<'correct' | 'wrong' | null>(null);
 
+  useEffect(() => { scoreRef.current = score; }, [score]);
+
   // ── Emotion + Intervention state ──────────────────────────────────────────
   const [emotions, setEmotions] = useState<EmotionMetrics>({
     tension: 0, gazeWander: 0, joy: 0, frustration: 0, confusion: 0,
@@ -190,9 +211,6 @@ export default function Game() {
   const interventionLoggedRef = useRef(false);
   const gameStateRef = useRef<'idle' | 'wrong_answer_streak' | 'correct_answer_streak'>('idle');
 
-  // Singleton engine ref
-  const visionEngineRef = useRef<BiometricVisionEngine | null>(null);
-
   // ── Confusion Pause (useCognitiveStore-driven) ───────────────────────────────
   const [confusionPauseActive, setConfusionPauseActive] = useState(false);
   const confusionCooldownRef = useRef<number>(0);
@@ -222,8 +240,8 @@ export default function Game() {
 
   // ── Fetch questions (Gemini first, Supabase fallback) ─────────────────────
   useEffect(() => {
-    if (!localAge) return;
-    fetchQuizQuestions('emotions, animals, and everyday life', ageForGemini)
+    if (!localAge || !adaptive.ready) return;
+    fetchQuizQuestions('emotions, animals, and everyday life', ageForGemini, adaptive.contentPlan)
       .then(qs => { 
         // Shuffle the answers so the correct one isn't always first
         const shuffledQs = qs.map(q => ({
@@ -234,7 +252,7 @@ export default function Game() {
         setIsLoading(false); 
       })
       .catch(() => setIsLoading(false));
-  }, [localAge, ageForGemini]);
+  }, [localAge, ageForGemini, adaptive.ready, adaptive.contentPlan]);
 
   // ── Countdown timer (pause-aware: Vision Engine distress OR store confusion pause) ──
   useEffect(() => {
@@ -326,7 +344,8 @@ export default function Game() {
     }
 
     const shuffled = [...questions].sort(() => Math.random() - 0.5);
-    setQuestions(shuffled);
+    setQuestions(adaptive.arrangeNext(shuffled, 0));
+    adaptive.markItemShown();
     setCurrentIdx(0);
     setScore(0);
     setTimeRemaining(TOTAL_SECONDS);
@@ -341,9 +360,17 @@ export default function Game() {
     interventionLoggedRef.current = false;
 
     if (webcamGranted && sessionId) {
+      const gameSession = await startGameSession();
+      const meta = {
+        sessionId,
+        sessionName,
+        gameName: gameName ?? '',
+        gameSessionId: gameSession?.id,
+        allowFrameUploads: gameSession?.allowFrameUploads ?? false,
+      };
       captureIntervalRef.current = setInterval(() => {
-        captureImage({ sessionId, sessionName, gameName: gameName ?? '' });
-        captureScreenshot({ sessionId, sessionName, gameName: gameName ?? '' });
+        captureImage({ ...meta, score: scoreRef.current });
+        captureScreenshot(meta);
       }, CAPTURE_INTERVAL_MS);
     }
   };
@@ -375,8 +402,11 @@ export default function Game() {
       }, 3000);
     }
 
-    const correctIdx = questions[currentIdx].answers.findIndex(a => a.correct);
-    const states: AnswerState[] = questions[currentIdx].answers.map((_, i) =>
+    const question = questions[currentIdx];
+    adaptive.recordAnswer({ skill: question.skill ?? 'topic:general', difficulty: question.difficulty }, correct);
+
+    const correctIdx = question.answers.findIndex(a => a.correct);
+    const states: AnswerState[] = question.answers.map((_, i) =>
       i === correctIdx ? 'correct' : i === index ? (correct ? 'correct' : 'wrong') : 'wrong',
     );
     setSelectedIdx(index);
@@ -388,9 +418,11 @@ export default function Game() {
     setTimeout(() => {
       setFlashClass(null);
       if (currentIdx + 1 < questions.length) {
+        setQuestions(qs => adaptive.arrangeNext(qs, currentIdx + 1));
         setCurrentIdx(p => p + 1);
         setSelectedIdx(null);
         setAnswerStates([]);
+        adaptive.markItemShown();
       } else {
         endGame();
       }
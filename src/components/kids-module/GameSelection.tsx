@@ -1,23 +1,30 @@
 /**
  * GameSelection — Kids Module
  *
- * Game-picker screen shown to a child after login.
- * All functional logic preserved: username from localStorage,
- * logout handler, game navigation with state.
+ * Game-picker screen shown to a child after PIN login.
+ * The player's name comes from the child session; "Switch player" ends it
+ * and returns to the avatar picker. Without a child session (a grown-up
+ * trying the games) the footer shows the usual Logout.
  */
 import React, { useEffect, useState, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import { supabase } from '../../lib/supabase';
 import { useCognitiveStore } from '../../stores/cognitiveStore';
+import { useChildSessionStore } from '../../stores/childSessionStore';
+import ParentGate from './ParentGate';
 
 // ─── Component ────────────────────────────────────────────────────────────────
 export default function GameSelection() {
   const navigate = useNavigate();
-  const [username, setUsername] = useState('Player');
-  const [avatarUrl, setAvatarUrl] = useState<string | null>(null);
+  // Expired or not, only a grown-up ends the child's session
+  const childSession = useChildSessionStore(s => s.session);
+  const endChildSession = useChildSessionStore(s => s.endSession);
+  const username = childSession?.childName ?? 'Player';
+  const avatarUrl = childSession?.avatarUrl ?? null;
   const [showBreathe, setShowBreathe] = useState(false);
   const [breathePhase, setBreathePhase] = useState<'inhale'|'hold'|'exhale'>('inhale');
+  const [showParentGate, setShowParentGate] = useState(false);
   const breatheAudioRef = useRef<OscillatorNode | null>(null);
   const breatheGainRef = useRef<GainNode | null>(null);
 
@@ -81,12 +88,6 @@ export default function GameSelection() {
     return () => clearInterval(interval);
   }, [showBreathe]);
 
-  // Username is now handled purely via the store or local storage to prevent 
-  // Supabase NavigatorLock contention.
-  useEffect(() => {
-    // Falls back to 'Player' if not manually set
-  }, []);
-
   const handlePanicButton = () => {
     // Forcefully set the global Zustand store load score to 100 to instantly trigger CrisisMode
     useCognitiveStore.setState({ cognitiveLoadScore: 100, classification: 'overload' });
@@ -96,6 +97,12 @@ export default function GameSelection() {
     navigate(`/kids/play/${gameId}`, { state: { username, gameName } });
   };
 
+  const handleSwitchPlayer = () => {
+    setShowParentGate(false);
+    endChildSession();
+    navigate('/kids/login');
+  };
+
   // Fallback avatar if none provided in metadata
   const fallbackAvatar = "https://lh3.googleusercontent.com/aida-public/AB6AXuA97EvgOcs-ahbkLsIJ8AabsBZ_ibHEQUVJtD6v_w2R5iVYUHhdvj2r2pvYY_nTQvmQ5zSGuHyubpZTAysOAASUPpOQ0tYYLYN4pFbpdQC_sXhGcbbdCAgoGqO7XXRaS7uFtSe2t1uCpjd4skTyq0IDW_EVVDWOuShowq_mc-Kk0WiGrWNNJHs_8C2BVWY-_8xO-ZN5_xzR9mOv9ueFJBvLZkRWJUj8rj3n6VSNjvfdcsS0H6A7LBBL8lAr8bL5pVddzjV2_tGflRk";
 
@@ -261,17 +268,28 @@ export default function GameSelection() {
                 <button className="p-3 rounded-full bg-[#fffdf5] dark:bg-[#2d2616] border border-[#f3f0e7] dark:border-[#3d341e] text-[#422006] hover:bg-[#fcfbf8] dark:hover:bg-[#1b180d] transition-colors" title="Settings">
                   <span className="material-symbols-outlined text-lg">settings</span>
                 </button>
-                <button 
-                  onClick={async () => {
-                    await supabase.auth.signOut();
-                    navigate('/');
-                  }}
-                  className="p-3 rounded-full bg-red-50 dark:bg-red-900/20 border border-red-100 dark:border-red-900/30 text-red-600 transition-colors flex items-center gap-2 px-5 font-bold text-sm" 
-                  title="Logout"
-                >
-                  <span className="material-symbols-outlined text-lg">logout</span>
-                  Logout
-                </button>
+                {childSession ? (
+                  <button
+                    onClick={() => setShowParentGate(true)}
+                    className="p-3 rounded-full bg-[#fffdf5] dark:bg-[#2d2616] border border-[#f3f0e7] dark:border-[#3d341e] text-[#422006] dark:text-yellow-100 transition-colors flex items-center gap-2 px-5 font-bold text-sm"
+                    title="Switch player"
+                  >
+                    <span className="material-symbols-outlined text-lg">switch_account</span>
+                    Switch player
+                  </button>
+                ) : (
+                  <button 
+                    onClick={async () => {
+                      await supabase.auth.signOut();
+                      navigate('/');
+                    }}
+                    className="p-3 rounded-full bg-red-50 dark:bg-red-900/20 border border-red-100 dark:border-red-900/30 text-red-600 transition-colors flex items-center gap-2 px-5 font-bold text-sm" 
+                    title="Logout"
+                  >
+                    <span className="material-symbols-outlined text-lg">logout</span>
+                    Logout
+                  </button>
+                )}
               </div>
             </div>
             
@@ -279,6 +297,13 @@ export default function GameSelection() {
         </main>
       </div>
 
+      <ParentGate
+        open={showParentGate}
+        action="switch player"
+        onVerified={handleSwitchPlayer}
+        onCancel={() => setShowParentGate(false)}
+      />
+
       {/* Breathe With Bear Modal */}
       <AnimatePresence>
         {showBreathe && (
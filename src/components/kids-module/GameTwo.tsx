@@ -9,7 +9,13 @@
  * ✅ Correct / wrong feedback with background colour change + thumbs-up emoji
  * ✅ speechSynthesis "Correct!" / "Try again!" feedback
  * ✅ Level progression, end screen with react-confetti
+ * ✅ Adaptive difficulty: a logged-in child's words are generated at their
+ *      mastery level, and the first drop on each word (with response time and
+ *      frustration/confusion) picks the next word's level — see useAdaptiveDifficulty
+ * ✅ Spaced-repetition review: words the child missed come back on an SM-2
+ *      schedule, mixed in with the fresh words — see useSpellingReview
  * ✅ captureImage + captureScreenshot every 10s via interval
+ *      • Expression classified on-device → `expression_logs`; frames uploaded only with parental opt-in
  * ✅ Webcam stream cleanup on game end
  * ✅ Interval cleanup on unmount
  *
@@ -23,11 +29,16 @@ import Confetti from 'react-confetti';
 import { Camera, Heart } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import { fetchSpellingQuestions, SpellingQuestion } from '../../agents/gameContentAgent';
+import { BiometricVisionEngine } from '../../lib/biometrics/faceMesh';
 import { useCognitiveStore } from '../../stores/cognitiveStore';
 
 import useSessionId from '../../hooks/kids/useSessionId';
 import useWebcam from '../../hooks/kids/useWebcam';
 import useCapture from '../../hooks/kids/useCapture';
+import useGameSession from '../../hooks/kids/useGameSession';
+import useAdaptiveDifficulty from '../../hooks/kids/useAdaptiveDifficulty';
+import useSpellingReview from '../../hooks/kids/useSpellingReview';
+import { activeChildSession, useChildSessionStore } from '../../stores/childSessionStore';
 
 const CONFUSION_PAUSE_THRESHOLD = 70;
 const CONFUSION_PAUSE_DURATION_MS = 5_000;
@@ -156,12 +167,30 @@ function EndScreen() {
 // ─── Main Component ───────────────────────────────────────────────────────────
 export default function GameTwo() {
   const location = useLocation();
-  const { username, gameName, childAge } = (location.state as { username?: string; gameName?: string; childAge?: number }) ?? {};
+  const routeState = (location.state as { username?: string; gameName?: string; childAge?: number }) ?? {};
+  const { gameName } = routeState;
+  // A PIN-logged-in child is the player; route state covers grown-ups trying a game
+  const childSession = useChildSessionStore(s => activeChildSession(s.session));
+  const username = childSession?.childName ?? routeState.username;
+  const childAge = childSession?.age ?? routeState.childAge;
   const ageForGemini = childAge ?? 7;
 
   const { sessionId } = useSessionId();
+  const sessionName = username ?? `Child_${sessionId}`;
   const { videoRef, webcamGranted, webcamError, requestWebcamAccess, stopWebcam } = useWebcam();
-  const { canvasRef, captureImage, captureScreenshot } = useCapture({ videoRef });
+  const { startGameSession } = useGameSession({
+    sessionKey: sessionId, gameName: gameName ?? '',
+  });
+
+  // Sampled by useCapture for on-device expression logs
+  const visionEngineRef = useRef<BiometricVisionEngine | null>(null);
+  const { canvasRef, captureImage, captureScreenshot } = useCapture({ videoRef, visionEngineRef });
+  const adaptive = useAdaptiveDifficulty({ gameType: 'spelling', visionEngineRef });
+  const { arrangeNext } = adaptive;
+  const review = useSpellingReview();
+  const { mixIn } = review;
+  // Only the first drop on a word counts towards mastery and the review schedule
+  const answeredLevelRef = useRef(-1);
 
   // Cognitive Store — real-time ML metrics for confusion detection
   const metrics = useCognitiveStore(s => s.metrics);
@@ -173,6 +202,8 @@ export default function GameTwo() {
   const [isCorrect, setIsCorrect] = useState<boolean | null>(null);
   const [showEndScreen, setShowEndScreen] = useState(false);
   const [intervalId, setIntervalId] = useState<ReturnType<typeof setInterval> | null>(null);
+  // Words spelled correctly, read by capture ticks for the session report
+  const scoreRef = useRef(0);
   const [isLoading, setIsLoading] = useState(true);
 
   // ── Confusion Pause state ─────────────────────────────────────────────────
@@ -197,36 +228,60 @@ export default function GameTwo() {
     }
   }, [metrics, gameStarted, showEndScreen, handleConfusionPause]);
 
-  // Fetch questions — Gemini first (age-calibrated), Supabase seed fallback
+  // Fetch questions — Gemini first (age-calibrated), Supabase seed fallback — with due review words mixed in
   useEffect(() => {
-    fetchSpellingQuestions('animals, fruits, and simple household objects', ageForGemini)
+    if (!adaptive.ready || !review.ready) return;
+    fetchSpellingQuestions('animals, fruits, and simple household objects', ageForGemini, adaptive.contentPlan)
       .then(qs => {
-        const shuffledQs = qs.map(q => ({
+        const shuffledQs = arrangeNext(mixIn(qs).map(q => ({
           ...q,
           options: [...q.options].sort(() => Math.random() - 0.5)
-        }));
+        })), 0);
         setQuestions(shuffledQs);
         if (shuffledQs.length > 0) setCompletedWord(shuffledQs[0].word ?? '');
         setIsLoading(false);
       })
       .catch(() => setIsLoading(false));
-  }, [ageForGemini]);
+  }, [ageForGemini, adaptive.ready, adaptive.contentPlan, arrangeNext, review.ready, mixIn]);
 
   // Cleanup interval on unmount
   useEffect(() => () => { if (intervalId) clearInterval(intervalId); }, [intervalId]);
 
+  // Run the vision engine while playing so captures can classify expressions
+  useEffect(() => {
+    if (!gameStarted || showEndScreen || !webcamGranted || !videoRef.current) return;
+
+    const engine = new BiometricVisionEngine();
+    visionEngineRef.current = engine;
+    engine.startAnalysis(videoRef.current, () => {});
+
+    return () => {
+      engine.close();
+      visionEngineRef.current = null;
+    };
+  }, [gameStarted, showEndScreen, webcamGranted, videoRef]);
+
   // Cleanup webcam on unmount
   useEffect(() => () => stopWebcam(), [stopWebcam]);
 
   const stopWebcamStream = useCallback(() => stopWebcam(), [stopWebcam]);
 
-  const startGame = () => {
+  const startGame = async () => {
     setGameStarted(true);
+    adaptive.markItemShown();
+    if (!sessionId) return;
+
+    const gameSession = await startGameSession();
+    const meta = {
+      sessionId,
+      sessionName,
+      gameName: gameName ?? '',
+      gameSessionId: gameSession?.id,
+      allowFrameUploads: gameSession?.allowFrameUploads ?? false,
+    };
     const id = setInterval(() => {
-      if (sessionId) {
-        captureImage({ sessionId, sessionName: username ?? `Child_${sessionId}`, gameName: gameName ?? '' });
-        captureScreenshot({ sessionId, sessionName: username ?? `Child_${sessionId}`, gameName: gameName ?? '' });
-      }
+      captureImage({ ...meta, score: scoreRef.current });
+      captureScreenshot(meta);
     }, CAPTURE_INTERVAL_MS);
     setIntervalId(id);
   };
@@ -236,16 +291,29 @@ export default function GameTwo() {
     if (!currentQuestion) return;
 
     const { correctLetter, word } = currentQuestion;
+    if (answeredLevelRef.current !== currentLevel) {
+      answeredLevelRef.current = currentLevel;
+      adaptive.recordAnswer({
+        skill: currentQuestion.skill ?? `letter:${correctLetter.toLowerCase()}`,
+        difficulty: currentQuestion.difficulty,
+      }, letter === correctLetter);
+      review.recordAttempt(currentQuestion, letter === correctLetter);
+    }
+
     if (letter === correctLetter) {
       setIsCorrect(true);
+      scoreRef.current += 1;
       setCompletedWord(word.replace('_', letter));
       speak('Correct!');
 
       setTimeout(() => {
         if (currentLevel < questions.length - 1) {
+          const arranged = arrangeNext(questions, currentLevel + 1);
+          setQuestions(arranged);
           setCurrentLevel(l => l + 1);
-          setCompletedWord(questions[currentLevel + 1]?.word ?? '');
+          setCompletedWord(arranged[currentLevel + 1]?.word ?? '');
           setIsCorrect(null);
+          adaptive.markItemShown();
         } else {
           if (intervalId) clearInterval(intervalId);
           setShowEndScreen(true);
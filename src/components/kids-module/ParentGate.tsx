@@ -0,0 +1,108 @@
+/**
+ * ParentGate — Kids Module
+ *
+ * "Grown-ups only" dialog: asks for the parent's account password and only
+ * calls `onVerified` once the server accepts it (POST /api/kids/parent/verify).
+ * Guards every way out of the games on a shared device — "Switch player" in
+ * GameSelection and "Grown-ups" on ChildLogin — so a child can't end their
+ * own session or open the Parent Dashboard.
+ *
+ * Styling: Tailwind + Framer Motion. Zero CSS file imports.
+ */
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Loader2, Lock, X } from 'lucide-react';
+import { verifyParentPassword } from '../../lib/api';
+
+interface ParentGateProps {
+  open: boolean;
+  /** What the grown-up is unlocking, e.g. "switch player". */
+  action: string;
+  onVerified: () => void;
+  onCancel: () => void;
+}
+
+// ─── Component ────────────────────────────────────────────────────────────────
+export default function ParentGate({ open, action, onVerified, onCancel }: ParentGateProps) {
+  const [password, setPassword] = useState('');
+  const [message, setMessage] = useState('');
+  const [checking, setChecking] = useState(false);
+
+  const close = () => {
+    setPassword('');
+    setMessage('');
+    onCancel();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!password) return;
+    setChecking(true);
+    const result = await verifyParentPassword(password);
+    setChecking(false);
+    setPassword('');
+
+    switch (result.status) {
+      case 'ok':
+        setMessage('');
+        onVerified();
+        return;
+      case 'wrong_password':
+        setMessage('That password is not right.');
+        return;
+      case 'error':
+        setMessage(result.error);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-[200] flex items-center justify-center bg-amber-950/80 backdrop-blur-md"
+        >
+          <motion.form
+            initial={{ scale: 0.9, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.9, opacity: 0 }}
+            onSubmit={handleSubmit}
+            className="bg-[#fffdf5] dark:bg-[#2d2616] rounded-3xl p-8 flex flex-col gap-4 max-w-sm w-full mx-4 relative shadow-2xl text-[#422006] dark:text-yellow-100"
+          >
+            <button type="button" onClick={close} aria-label="Cancel" className="absolute top-4 right-4 text-[#9a864c] hover:text-[#422006] transition-colors">
+              <X className="w-5 h-5" />
+            </button>
+
+            <Lock className="w-8 h-8 text-[#eebd2b]" />
+            <div>
+              <h2 className="text-xl font-bold">Grown-ups only</h2>
+              <p className="text-sm text-[#9a864c] mt-1">Enter your account password to {action}.</p>
+            </div>
+
+            <input
+              type="password"
+              autoComplete="current-password"
+              autoFocus
+              value={password}
+              onChange={e => { setPassword(e.target.value); setMessage(''); }}
+              className="h-12 rounded-xl px-4 bg-[#fcfbf8] dark:bg-[#221d10] border border-[#f3f0e7] dark:border-[#3d341e] focus:outline-none focus:border-[#eebd2b]"
+              aria-label="Password"
+            />
+
+            {message && <p className="text-sm font-semibold text-red-600">{message}</p>}
+
+            <button
+              type="submit"
+              disabled={checking || !password}
+              className="h-12 rounded-xl bg-[#eebd2b] hover:bg-yellow-400 text-[#422006] font-bold flex items-center justify-center transition disabled:opacity-40"
+            >
+              {checking ? <Loader2 className="w-5 h-5 animate-spin" /> : 'Continue'}
+            </button>
+          </motion.form>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
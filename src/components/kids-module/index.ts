@@ -2,10 +2,11 @@
  * Kids Module Components — Barrel Export
  *
  * ```tsx
- * import { Game, GameTwo, GameSelection, TimerBar } from '@/components/kids-module';
+ * import { Game, GameTwo, GameSelection, ParentGate, TimerBar } from '@/components/kids-module';
  * ```
  */
 export { default as TimerBar }      from './TimerBar';
 export { default as GameSelection } from './GameSelection';
 export { default as Game }          from './Game';
 export { default as GameTwo }       from './GameTwo';
+export { default as ParentGate }    from './ParentGate';
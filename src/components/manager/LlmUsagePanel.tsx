@@ -0,0 +1,190 @@
+import React, { useEffect, useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid } from 'recharts';
+import { AlertTriangle, Cpu, Gauge, Timer, Zap } from 'lucide-react';
+import { fetchManagerLlmUsage, type LlmUsageReport } from '../../lib/api';
+
+// Token, latency and error figures per /api/agents/* route, plus each
+// role's consumption against its daily quota (server/src/services/UsageMeter.ts).
+
+const WINDOWS = [7, 14, 28];
+
+const ROLE_LABELS: Record<LlmUsageReport['roles'][number]['role'], string> = {
+  SuperAdmin: 'Admins',
+  Teacher: 'Teachers',
+  Parent: 'Parents',
+  Adult_User: 'Adults',
+  Child_User: 'Children',
+  anonymous: 'Signed out',
+};
+
+const formatTokens = (tokens: number) =>
+  tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(1)}M`
+    : tokens >= 1_000 ? `${(tokens / 1_000).toFixed(1)}k`
+    : String(tokens);
+
+const formatPercent = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+
+export const LlmUsagePanel: React.FC = () => {
+  const [days, setDays] = useState(7);
+  const [report, setReport] = useState<LlmUsageReport | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchManagerLlmUsage(days)
+      .then(data => { if (!cancelled) setReport(data); })
+      .catch((err: Error) => {
+        console.error('[LlmUsagePanel] Failed to load usage:', err);
+        if (!cancelled) setLoadError(err.message);
+      });
+    return () => { cancelled = true; };
+  }, [days]);
+
+  if (loadError) {
+    return (
+      <div className="p-8 bg-white rounded-3xl border border-slate-200 text-center">
+        <AlertTriangle className="w-12 h-12 text-slate-300 mx-auto mb-4" />
+        <h2 className="text-xl font-medium text-slate-700">Usage Unavailable</h2>
+        <p className="text-slate-500 mt-2">{loadError}</p>
+      </div>
+    );
+  }
+
+  if (!report) {
+    return (
+      <div className="p-12 flex items-center justify-center">
+        <div className="w-6 h-6 border-2 border-slate-200 border-t-indigo-500 rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  const chartData = report.agents.map(agent => ({
+    agent: agent.agent,
+    input: agent.inputTokens,
+    output: agent.outputTokens,
+  }));
+
+  return (
+    <div className="flex flex-col gap-8 animate-in fade-in duration-500">
+
+      <div className="flex items-center justify-between">
+        <span className="flex items-center gap-1.5 text-xs font-bold text-slate-500 uppercase tracking-wider">
+          <Cpu className="w-4 h-4" /> Provider: {report.provider}
+        </span>
+        <div className="flex gap-2">
+          {WINDOWS.map(window => (
+            <button
+              key={window}
+              onClick={() => { setLoadError(null); setDays(window); }}
+              className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${days === window ? 'bg-indigo-600 text-white' : 'bg-white text-slate-500 border border-slate-200 hover:text-slate-700'}`}
+            >
+              {window} days
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Totals */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="p-6 bg-white border border-slate-100 rounded-3xl shadow-sm">
+          <h4 className="text-sm font-semibold text-slate-500 mb-1">Requests</h4>
+          <span className="text-3xl font-light text-slate-800">{report.totals.requests.toLocaleString()}</span>
+        </div>
+        <div className="p-6 bg-white border border-slate-100 rounded-3xl shadow-sm">
+          <h4 className="text-sm font-semibold text-slate-500 mb-1">Tokens</h4>
+          <span className="text-3xl font-light text-slate-800">{formatTokens(report.totals.tokens)}</span>
+        </div>
+        <div className="p-6 bg-white border border-slate-100 rounded-3xl shadow-sm">
+          <h4 className="text-sm font-semibold text-slate-500 mb-1">Error Rate</h4>
+          <span className={`text-3xl font-light ${report.totals.errorRate > 0.05 ? 'text-rose-500' : 'text-slate-800'}`}>
+            {formatPercent(report.totals.errorRate)}
+          </span>
+        </div>
+        <div className="p-6 bg-amber-50 border border-amber-100 rounded-3xl">
+          <h4 className="text-sm font-semibold text-amber-800 mb-1">Served Offline (Over Quota)</h4>
+          <span className="text-3xl font-light text-amber-700">{report.totals.degradedRequests.toLocaleString()}</span>
+        </div>
+      </div>
+
+      {/* Per agent */}
+      <div className="bg-white p-6 md:p-8 rounded-3xl shadow-sm border border-slate-100">
+        <h3 className="text-lg font-semibold flex items-center gap-2 mb-6 text-slate-800">
+          <Zap className="w-5 h-5 text-indigo-500" /> Tokens by Agent
+        </h3>
+
+        {report.agents.length === 0 ? (
+          <p className="p-8 text-center text-slate-500">No agent calls in the last {report.windowDays} days.</p>
+        ) : (
+          <>
+            <ResponsiveContainer width="100%" height={Math.max(160, chartData.length * 36)} minWidth={0}>
+              <BarChart data={chartData} layout="vertical" margin={{ top: 0, right: 16, left: 40, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#F1F5F9" />
+                <XAxis type="number" tickFormatter={formatTokens} axisLine={false} tickLine={false} tick={{ fill: '#94A3B8', fontSize: 12 }} />
+                <YAxis type="category" dataKey="agent" width={160} axisLine={false} tickLine={false} tick={{ fill: '#475569', fontSize: 11 }} />
+                <Tooltip
+                  formatter={(value) => formatTokens(Number(value))}
+                  cursor={{ fill: '#F8FAFC' }}
+                  contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+                />
+                <Bar dataKey="input" name="Input tokens" stackId="tokens" fill="#6366F1" />
+                <Bar dataKey="output" name="Output tokens" stackId="tokens" fill="#A5B4FC" radius={[0, 6, 6, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+
+            <div className="overflow-x-auto mt-6">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs font-bold text-slate-500 uppercase tracking-wider border-b border-slate-100">
+                    <th className="py-2 pr-4">Agent</th>
+                    <th className="py-2 pr-4 text-right">Requests</th>
+                    <th className="py-2 pr-4 text-right">Tokens</th>
+                    <th className="py-2 pr-4 text-right"><Timer className="w-3.5 h-3.5 inline mr-1" />Avg / p95</th>
+                    <th className="py-2 pr-4 text-right">Errors</th>
+                    <th className="py-2 text-right">Over Quota</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.agents.map(agent => (
+                    <tr key={agent.agent} className="border-b border-slate-50 text-slate-700">
+                      <td className="py-2 pr-4 font-mono text-xs">{agent.agent}</td>
+                      <td className="py-2 pr-4 text-right">{agent.requests.toLocaleString()}</td>
+                      <td className="py-2 pr-4 text-right">{formatTokens(agent.inputTokens + agent.outputTokens)}</td>
+                      <td className="py-2 pr-4 text-right">{agent.avgLatencyMs.toLocaleString()} / {agent.p95LatencyMs.toLocaleString()} ms</td>
+                      <td className={`py-2 pr-4 text-right ${agent.errorRate > 0.05 ? 'text-rose-500 font-medium' : ''}`}>{formatPercent(agent.errorRate)}</td>
+                      <td className="py-2 text-right">{agent.degradedRequests.toLocaleString()}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Per role vs quota */}
+      <div className="bg-white p-6 md:p-8 rounded-3xl shadow-sm border border-slate-100">
+        <h3 className="text-lg font-semibold flex items-center gap-2 mb-2 text-slate-800">
+          <Gauge className="w-5 h-5 text-emerald-500" /> Daily Quotas by Role
+        </h3>
+        <p className="text-sm text-slate-500 mb-6">
+          Each user gets the daily token budget for their role; signed-out callers get a small budget per IP. Quotas reset at midnight UTC.
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {report.roles.map(role => (
+            <div key={role.role} className="p-5 bg-slate-50 border border-slate-100 rounded-2xl">
+              <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">{ROLE_LABELS[role.role]}</h4>
+              <div className="text-2xl font-light text-slate-800">{formatTokens(role.tokens)} <span className="text-sm text-slate-400">tokens</span></div>
+              <p className="text-xs text-slate-500 mt-1">
+                {role.dailyQuota === null ? 'Unlimited' : `${formatTokens(role.dailyQuota)} / day quota${role.role === 'anonymous' ? ' per IP' : ''}`}
+                {role.role !== 'anonymous' && ` • ${role.users} user${role.users === 1 ? '' : 's'}`}
+                {role.degradedRequests > 0 && ` • ${role.degradedRequests} over quota`}
+              </p>
+            </div>
+          ))}
+        </div>
+      </div>
+
+    </div>
+  );
+};
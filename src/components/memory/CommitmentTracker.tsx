@@ -0,0 +1,124 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  fetchCommitments,
+  completeCommitment,
+  snoozeCommitment,
+  subscribeToCommitments,
+  type Commitment,
+} from '../../lib/api';
+import { onCommitmentReminder } from '../../lib/telemetrySocket';
+import { BellRing, Check, Clock, ListChecks } from 'lucide-react';
+
+const SNOOZE_MINUTES = 24 * 60;
+
+const formatDue = (dueAt: string | null) => {
+  if (!dueAt) return 'No deadline';
+  const due = new Date(dueAt);
+  const overdue = due.getTime() < Date.now();
+  return `${overdue ? 'Overdue · ' : 'Due '}${due.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })}`;
+};
+
+/**
+ * Promises and action items the server pulled out of ingested memories.
+ * Stays live through Realtime and surfaces reminders pushed over the socket.
+ */
+export const CommitmentTracker: React.FC<{ userId: string }> = ({ userId }) => {
+  const [commitments, setCommitments] = useState<Commitment[]>([]);
+  const [reminder, setReminder] = useState<Commitment | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(() => {
+    fetchCommitments('open')
+      .then((list) => {
+        setCommitments(list);
+        setError(null);
+      })
+      .catch((err) => {
+        console.warn('[CommitmentTracker] Load failed:', err);
+        setError('Commitments are unavailable right now.');
+      });
+  }, []);
+
+  useEffect(() => {
+    load();
+    const unsubscribe = subscribeToCommitments(userId, load);
+    const offReminder = onCommitmentReminder((commitment) => setReminder(commitment));
+    return () => {
+      unsubscribe();
+      offReminder();
+    };
+  }, [userId, load]);
+
+  const handleComplete = async (id: string) => {
+    setCommitments((prev) => prev.filter((c) => c.id !== id));
+    if (reminder?.id === id) setReminder(null);
+    try {
+      await completeCommitment(id);
+    } catch (err) {
+      console.warn('[CommitmentTracker] Complete failed:', err);
+      load();
+    }
+  };
+
+  const handleSnooze = async (id: string) => {
+    setCommitments((prev) => prev.filter((c) => c.id !== id));
+    if (reminder?.id === id) setReminder(null);
+    try {
+      await snoozeCommitment(id, SNOOZE_MINUTES);
+    } catch (err) {
+      console.warn('[CommitmentTracker] Snooze failed:', err);
+      load();
+    }
+  };
+
+  if (!error && commitments.length === 0 && !reminder) return null;
+
+  return (
+    <section className="mt-10">
+      <h2 className="text-sm font-semibold text-slate-700 tracking-wide flex items-center gap-2 mb-4">
+        <ListChecks className="w-4 h-4 text-teal-500" /> Promises you're tracking
+      </h2>
+
+      {reminder && (
+        <div className="p-4 mb-4 bg-amber-50 border border-amber-100 rounded-xl text-amber-800 flex items-start gap-3">
+          <BellRing className="w-5 h-5 shrink-0 mt-0.5" />
+          <div className="flex-1">
+            <p className="font-medium">{reminder.description}</p>
+            <p className="text-xs mt-1">{formatDue(reminder.dueAt)}</p>
+          </div>
+          <button onClick={() => setReminder(null)} className="text-xs text-amber-700 hover:underline">Dismiss</button>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-slate-400">{error}</p>}
+
+      <ul className="space-y-3">
+        {commitments.map((c) => (
+          <li key={c.id} className="p-4 bg-white border border-slate-200 rounded-xl shadow-sm flex items-start gap-4">
+            <div className="flex-1">
+              <p className="text-slate-800">{c.description}</p>
+              <p className="text-xs text-slate-400 mt-1">
+                {c.owner ? `${c.owner} · ` : ''}{formatDue(c.dueAt)}
+                {c.confidence < 0.5 && ' · unsure, please check'}
+              </p>
+            </div>
+            <button
+              onClick={() => handleSnooze(c.id)}
+              title="Remind me tomorrow"
+              className="p-2 rounded-lg text-slate-400 hover:text-slate-700 hover:bg-slate-50 transition-colors"
+            >
+              <Clock className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => handleComplete(c.id)}
+              title="Done"
+              className="p-2 rounded-lg text-teal-600 hover:bg-teal-50 transition-colors"
+            >
+              <Check className="w-4 h-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+};
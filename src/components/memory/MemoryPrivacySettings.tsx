@@ -0,0 +1,180 @@
+import React, { useEffect, useState } from 'react';
+import {
+  fetchMemoryRetention,
+  saveMemoryRetention,
+  exportMemoryArchive,
+  eraseAllMemories,
+  type MemoryArchive,
+  type RetentionPolicy,
+  type RetentionSource,
+} from '../../lib/api';
+
+const SOURCE_LABELS: Record<RetentionSource, string> = {
+  slack: 'Slack',
+  jira: 'Jira',
+  google_meet: 'Google Meet',
+  zoom: 'Zoom',
+  other: 'Everything else',
+};
+
+const FOREVER = 'forever';
+const DAY_OPTIONS = [30, 90, 180, 365, 730];
+
+const describeDays = (days: number | null) => (days === null ? 'Forever' : days % 365 === 0 ? `${days / 365} year${days > 365 ? 's' : ''}` : `${days} days`);
+
+const downloadArchive = (archive: MemoryArchive) => {
+  const blob = new Blob([JSON.stringify(archive, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `memory-archive-${archive.exportedAt.slice(0, 10)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Settings panel for prosthetic memory privacy: how long each source is
+ * kept, a full JSON archive download, and download-then-erase.
+ */
+export const MemoryPrivacySettings: React.FC = () => {
+  const [policies, setPolicies] = useState<RetentionPolicy[]>([]);
+  const [draft, setDraft] = useState<Partial<Record<RetentionSource, number | null>>>({});
+  const [busy, setBusy] = useState<'save' | 'export' | 'erase' | null>(null);
+  const [confirmErase, setConfirmErase] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchMemoryRetention()
+      .then(setPolicies)
+      .catch((err) => {
+        console.warn('[MemoryPrivacy] Load failed:', err);
+        setStatus('Retention settings are unavailable right now.');
+      });
+  }, []);
+
+  const changes = policies
+    .filter((p) => p.source in draft && draft[p.source] !== p.retentionDays)
+    .map((p) => ({ source: p.source, retentionDays: draft[p.source] ?? null }));
+
+  const handleSave = async () => {
+    setBusy('save');
+    try {
+      setPolicies(await saveMemoryRetention(changes));
+      setDraft({});
+      setStatus('Saved. Older memories are removed at the next daily purge.');
+    } catch (err) {
+      setStatus(`Couldn't save: ${(err as Error).message}`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleExport = async () => {
+    setBusy('export');
+    try {
+      const archive = await exportMemoryArchive();
+      downloadArchive(archive);
+      setStatus(`Downloaded ${archive.memories.length} memories and ${archive.commitments.length} commitments.`);
+    } catch (err) {
+      setStatus(`Couldn't export: ${(err as Error).message}`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleErase = async () => {
+    setBusy('erase');
+    setConfirmErase(false);
+    try {
+      // Erasing is only allowed right after an export, so the archive always lands first
+      const archive = await exportMemoryArchive();
+      downloadArchive(archive);
+      const { memoriesDeleted, commitmentsDeleted } = await eraseAllMemories(archive.exportId);
+      setStatus(`Archive downloaded. Erased ${memoriesDeleted} memories and ${commitmentsDeleted} commitments.`);
+    } catch (err) {
+      setStatus(`Couldn't erase: ${(err as Error).message}`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <section className="bg-white border border-slate-100 rounded-2xl p-6 shadow-sm">
+      <h2 className="text-lg font-bold text-slate-900 mb-1 flex items-center gap-2">
+        <span className="material-symbols-outlined text-teal-500">shield_lock</span>
+        Memory Privacy
+      </h2>
+      <p className="text-xs text-slate-500 mb-4">
+        Emails, phone numbers and secrets are redacted before anything is stored.
+      </p>
+
+      <div className="space-y-3">
+        {policies.map((p) => {
+          const value = p.source in draft ? draft[p.source] ?? null : p.retentionDays;
+          return (
+            <div key={p.source} className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-slate-700">{SOURCE_LABELS[p.source]}</p>
+                <p className="text-xs text-slate-500 mt-0.5">Default: {describeDays(p.defaultDays)}</p>
+              </div>
+              <select
+                value={value === null ? FOREVER : String(value)}
+                onChange={(e) => setDraft((prev) => ({
+                  ...prev,
+                  [p.source]: e.target.value === FOREVER ? null : Number(e.target.value),
+                }))}
+                className="px-3 py-2 rounded-xl text-sm bg-slate-50 border border-slate-100 text-slate-700"
+              >
+                {[...new Set([...DAY_OPTIONS, ...(value === null ? [] : [value])])].sort((a, b) => a - b).map((days) => (
+                  <option key={days} value={days}>Keep {describeDays(days)}</option>
+                ))}
+                <option value={FOREVER}>Keep forever</option>
+              </select>
+            </div>
+          );
+        })}
+      </div>
+
+      {changes.length > 0 && (
+        <button
+          onClick={handleSave}
+          disabled={busy !== null}
+          className="mt-4 px-4 py-2 rounded-xl text-sm font-semibold bg-teal-50 text-teal-700 border border-teal-100 hover:bg-teal-100 transition-all disabled:opacity-40"
+        >
+          {busy === 'save' ? 'Saving…' : 'Save retention'}
+        </button>
+      )}
+
+      <div className="flex items-center justify-between mt-6 pt-4 border-t border-slate-100">
+        <div>
+          <p className="text-sm font-medium text-slate-700">Your Memory Archive</p>
+          <p className="text-xs text-slate-500 mt-0.5">Every memory and commitment, as JSON</p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={handleExport}
+            disabled={busy !== null}
+            className="px-4 py-2 rounded-xl text-sm font-semibold bg-slate-50 text-slate-600 border border-slate-100 hover:bg-slate-100 transition-all disabled:opacity-40"
+          >
+            {busy === 'export' ? 'Preparing…' : 'Download'}
+          </button>
+          <button
+            onClick={() => (confirmErase ? handleErase() : setConfirmErase(true))}
+            disabled={busy !== null}
+            className="px-4 py-2 rounded-xl text-sm font-semibold bg-red-50 text-red-600 border border-red-100 hover:bg-red-100 transition-all disabled:opacity-40"
+          >
+            {busy === 'erase' ? 'Erasing…' : confirmErase ? 'Confirm: download & erase' : 'Download & erase'}
+          </button>
+        </div>
+      </div>
+      {confirmErase && (
+        <p className="text-xs text-red-600 mt-2">
+          This downloads your archive, then permanently deletes all memories and commitments.{' '}
+          <button onClick={() => setConfirmErase(false)} className="underline">Cancel</button>
+        </p>
+      )}
+
+      {status && <p className="text-xs text-slate-500 mt-3">{status}</p>}
+    </section>
+  );
+};
@@ -1,6 +1,7 @@
 import React, { useState, useRef, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { applyLexicalAnchorFormatting } from '../../lib/algorithms/offlineNLP';
+import { authHeaders } from '../../lib/api';
 import * as pdfjsLib from 'pdfjs-dist';
 
 // Use jsdelivr CDN to exactly match the npm package structure for the worker
@@ -58,13 +59,15 @@ export function ReadingMode() {
 
       const res = await fetch(`${BACKEND_URL}/api/agents/generate`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
         body: JSON.stringify({ prompt, model: 'gemini-2.0-flash' }),
       });
 
       const data = await res.json();
       if (data.success) {
         setChatLog(prev => [...prev, { role: 'ai', text: data.data }]);
+      } else if (data.code === 'quota_exceeded') {
+        setChatLog(prev => [...prev, { role: 'ai', text: data.error }]);
       } else {
         setChatLog(prev => [...prev, { role: 'ai', text: "I'm having trouble analyzing this right now. Please try again." }]);
       }
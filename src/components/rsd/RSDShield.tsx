@@ -8,10 +8,11 @@
  *   Fully refactored from raw inline styles to Tailwind "Calm Tech" palette.
  */
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { sanitizePRComment } from '../../lib/gemini';
-import type { PRComment, PullRequest, ReviewSentiment } from '../../types/rsd';
+import { fetchShieldedReviews, linkIntegration, markReviewCommentRead, subscribeToShieldedReviews } from '../../lib/api';
+import type { PRComment, PullRequest, RSDState, ReviewSentiment } from '../../types/rsd';
 
 // ─── Sentiment colours ────────────────────────────────────────────────────────
 
@@ -22,18 +23,25 @@ const SENTIMENT_CONFIG: Record<ReviewSentiment, { bg: string; text: string; labe
   mixed:    { bg: 'bg-amber-500/15',   text: 'text-amber-300',   label: 'Mixed' },
 };
 
-// ─── Demo data (shown when no webhook is configured) ─────────────────────────
+const formatActivity = (iso: string) => {
+  const minutes = Math.max(0, Math.round((Date.now() - Date.parse(iso)) / 60_000));
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h ago`;
+  return `${Math.floor(minutes / (24 * 60))}d ago`;
+};
+
+// ─── Demo data (shown until GitHub delivers real reviews) ─────────────────────
 
 const DEMO_PRS: PullRequest[] = [
   {
     id: 'pr-1', number: 47, title: 'feat: add cognitive load threshold alerts',
     repo: 'NeuroAdaptive/neuro-adaptive-os', state: 'open',
-    commentCount: 3, unreadCount: 2, lastActivity: '2h ago', safetyScore: 62,
+    commentCount: 3, unreadCount: 2, lastActivity: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(), safetyScore: 62,
   },
   {
     id: 'pr-2', number: 43, title: 'fix: resolve AudioContext suspension on iOS',
     repo: 'NeuroAdaptive/neuro-adaptive-os', state: 'open',
-    commentCount: 1, unreadCount: 1, lastActivity: '1d ago', safetyScore: 78,
+    commentCount: 1, unreadCount: 1, lastActivity: new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString(), safetyScore: 78,
   },
 ];
 
@@ -64,21 +72,67 @@ const DEMO_COMMENTS: PRComment[] = [
 
 // ─── Component ────────────────────────────────────────────────────────────────
 
-export function RSDShield() {
-  const [prs] = useState<PullRequest[]>(DEMO_PRS);
-  const [comments, setComments] = useState<PRComment[]>(DEMO_COMMENTS);
-  const [selectedPRId, setSelectedPRId] = useState<string | null>(DEMO_PRS[0].id);
+export function RSDShield({ userId }: { userId: string }) {
+  const [{ prs, comments, selectedPRId, isConnected, webhookUrl }, setState] = useState<RSDState>({
+    prs: DEMO_PRS,
+    comments: DEMO_COMMENTS,
+    selectedPRId: DEMO_PRS[0].id,
+    isConnected: false,
+    webhookUrl: '',
+  });
+  // Demo data stays up until the server has real reviews or a linked account
+  const [isLive, setIsLive] = useState(false);
   const [sandboxText, setSandboxText] = useState('');
   const [sandboxResult, setSandboxResult] = useState<Awaited<ReturnType<typeof sanitizePRComment>> | null>(null);
   const [isSandboxLoading, setIsSandboxLoading] = useState(false);
   const [showOriginal, setShowOriginal] = useState<string | null>(null);
+  const [isLinking, setIsLinking] = useState(false);
 
   const selectedPR = prs.find((p) => p.id === selectedPRId);
   const visibleComments = comments.filter((c) => c.prId === selectedPRId);
   const unreadCount = comments.filter((c) => !c.isRead).length;
 
+  const load = useCallback(() => {
+    fetchShieldedReviews()
+      .then((reviews) => {
+        if (!reviews.isConnected && reviews.prs.length === 0) {
+          setState((prev) => ({ ...prev, webhookUrl: reviews.webhookUrl }));
+          return;
+        }
+        setIsLive(true);
+        setState((prev) => ({
+          prs: reviews.prs,
+          comments: reviews.comments,
+          selectedPRId: reviews.prs.some((p) => p.id === prev.selectedPRId) ? prev.selectedPRId : reviews.prs[0]?.id ?? null,
+          isConnected: reviews.isConnected,
+          webhookUrl: reviews.webhookUrl,
+        }));
+      })
+      .catch((err) => console.warn('[RSD Shield] Live reviews unavailable, staying in demo mode:', err));
+  }, []);
+
+  useEffect(() => {
+    load();
+    return subscribeToShieldedReviews(userId, load);
+  }, [userId, load]);
+
+  const setSelectedPRId = (id: string) => setState((prev) => ({ ...prev, selectedPRId: id }));
+
   const markRead = useCallback((id: string) => {
-    setComments((prev) => prev.map((c) => c.id === id ? { ...c, isRead: true } : c));
+    setState((prev) => ({ ...prev, comments: prev.comments.map((c) => c.id === id ? { ...c, isRead: true } : c) }));
+    if (isLive) {
+      markReviewCommentRead(id).catch((err) => console.warn('[RSD Shield] Mark read failed:', err));
+    }
+  }, [isLive]);
+
+  const linkGitHub = useCallback(async () => {
+    setIsLinking(true);
+    try {
+      await linkIntegration('github');
+    } catch (err) {
+      console.warn('[RSD Shield] GitHub link failed:', err);
+      setIsLinking(false);
+    }
   }, []);
 
   const runSandbox = useCallback(async () => {
@@ -114,9 +168,27 @@ export function RSDShield() {
               {unreadCount} unread
             </span>
           )}
-          <span className="text-xs bg-amber-500/15 text-amber-300 border border-amber-500/20 px-3 py-1 rounded-full">
-            Demo mode
-          </span>
+          {!isConnected && (
+            <button
+              onClick={linkGitHub}
+              disabled={isLinking}
+              className="text-xs bg-indigo-500/15 text-indigo-300 border border-indigo-500/30 px-3 py-1 rounded-full hover:bg-indigo-500/25 transition-all disabled:opacity-50"
+            >
+              {isLinking ? 'Opening GitHub…' : 'Link GitHub'}
+            </button>
+          )}
+          {isLive ? (
+            <span className="text-xs bg-emerald-500/15 text-emerald-300 border border-emerald-500/20 px-3 py-1 rounded-full">
+              {isConnected ? 'Live · GitHub' : 'GitHub not linked'}
+            </span>
+          ) : (
+            <span
+              title={webhookUrl ? `Point a GitHub webhook at ${webhookUrl} to shield real reviews` : undefined}
+              className="text-xs bg-amber-500/15 text-amber-300 border border-amber-500/20 px-3 py-1 rounded-full"
+            >
+              Demo mode
+            </span>
+          )}
         </div>
       </motion.header>
 
@@ -152,7 +224,7 @@ export function RSDShield() {
                   <div className="flex items-center gap-2 mt-1">
                     <span className="text-xs text-slate-600">#{pr.number}</span>
                     <span className="text-xs text-slate-600">·</span>
-                    <span className="text-xs text-slate-600">{pr.lastActivity}</span>
+                    <span className="text-xs text-slate-600">{formatActivity(pr.lastActivity)}</span>
                   </div>
                   {/* Safety score bar */}
                   <div className="mt-2 h-1 w-full bg-white/5 rounded-full overflow-hidden">
@@ -328,8 +400,8 @@ export function RSDShield() {
                       ))}
                     </div>
                   )}
-                  <div className={`px-3 py-2 rounded-xl text-xs font-semibold ${SENTIMENT_CONFIG[sandboxResult.sentiment as ReviewSentiment]?.bg ?? 'bg-slate-500/15'} ${SENTIMENT_CONFIG[sandboxResult.sentiment as ReviewSentiment]?.text ?? 'text-slate-300'}`}>
-                    Sentiment: {sandboxResult.sentiment}
+                  <div className={`px-3 py-2 rounded-xl text-xs font-semibold ${SENTIMENT_CONFIG[sandboxResult.sentiment].bg} ${SENTIMENT_CONFIG[sandboxResult.sentiment].text}`}>
+                    Sentiment: {SENTIMENT_CONFIG[sandboxResult.sentiment].label}
                   </div>
                 </motion.div>
               )}
@@ -10,6 +10,7 @@ import {
   X 
 } from 'lucide-react';
 import { useCognitiveStore } from '../../stores/cognitiveStore';
+import { logAccommodationUse } from '../../lib/accommodationUsage';
 
 export const SensoryEqualizer: React.FC = () => {
   const [isOpen, setIsOpen] = React.useState(false);
@@ -25,11 +26,21 @@ export const SensoryEqualizer: React.FC = () => {
     return localStorage.getItem('neuroadapt_calibration_completed') === 'true';
   });
 
+  // One usage event per panel opening that actually changes something
+  const usageLogged = React.useRef(false);
+  const markUsed = () => {
+    if (usageLogged.current) return;
+    usageLogged.current = true;
+    void logAccommodationUse('sensory_equalizer');
+  };
+
   const handleToggleMute = () => {
+    markUsed();
     updateAudioSettings({ isMuted: !audioSettings.isMuted });
   };
 
   const handleSliderChange = (key: keyof typeof audioSettings, value: string) => {
+    markUsed();
     updateAudioSettings({ [key]: parseFloat(value) });
   };
 
@@ -217,7 +228,10 @@ export const SensoryEqualizer: React.FC = () => {
       </AnimatePresence>
 
       <button
-        onClick={() => setIsOpen(!isOpen)}
+        onClick={() => {
+          if (!isOpen) usageLogged.current = false;
+          setIsOpen(!isOpen);
+        }}
         className={`w-14 h-14 rounded-2xl flex items-center justify-center transition-all shadow-2xl border 
           ${isOpen 
             ? 'bg-indigo-500 border-white/20 rotate-90 scale-90' 
@@ -2,8 +2,10 @@ import React, { useState, useMemo, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import confetti from 'canvas-confetti';
 import { generateMicroTasks, MicroTask } from '../../agents/taskAgent';
-import { calculatePaddingMultiplier, recordTaskCompletion } from '../../lib/algorithms/timeCorrection';
+import { recordTaskCompletion } from '../../lib/algorithms/timeCorrection';
+import { recordTaskTiming } from '../../lib/api';
 import { useCognitiveStore } from '../../stores/cognitiveStore';
+import { logAccommodationUse } from '../../lib/accommodationUsage';
 
 export const MicroTasker: React.FC = () => {
   const [input, setInput] = useState('');
@@ -11,6 +13,8 @@ export const MicroTasker: React.FC = () => {
   const [estimatedTime, setEstimatedTime] = useState<string>('');
   const [loading, setLoading] = useState(false);
   const [tasks, setTasks] = useState<MicroTask[]>([]);
+  // Set when the orchestrator refuses a new task because load is critical
+  const [blockedMessage, setBlockedMessage] = useState<string | null>(null);
   const [completed, setCompleted] = useState<Set<string>>(new Set());
   const isOfflineMode = useCognitiveStore(s => s.isOfflineMode);
   
@@ -55,15 +59,21 @@ export const MicroTasker: React.FC = () => {
   const handleDeconstruct = async () => {
     if (!input.trim()) return;
     setLoading(true);
+    setBlockedMessage(null);
     try {
-      const multiplier = calculatePaddingMultiplier();
       const baseEstimate = parseInt(estimatedTime) || 30;
-      const paddedEstimate = Math.ceil(baseEstimate * multiplier);
-      
-      console.log(`[TimeBlindness] Base: ${baseEstimate}m * ${multiplier}x = ${paddedEstimate}m`);
-      
-      const data = await generateMicroTasks(input, paddedEstimate);
-      setTasks(data);
+      const result = await generateMicroTasks(input, baseEstimate);
+
+      if (result.status === 'blocked') {
+        setBlockedMessage(result.message);
+        return;
+      }
+
+      const { steps, paddingMultiplier, paddedEstimateMinutes } = result.breakdown;
+      console.log(`[TimeBlindness] Base: ${baseEstimate}m * ${paddingMultiplier}x = ${paddedEstimateMinutes}m`);
+      if (paddedEstimateMinutes > baseEstimate) void logAccommodationUse('time_blindness_buffer');
+
+      setTasks(steps);
       setCompleted(new Set());
       setTaskElapsedSeconds({});
       startTimes.current = {};
@@ -103,7 +113,10 @@ export const MicroTasker: React.FC = () => {
         // Record the time it took to complete this task for the algorithm
         const task = tasks.find(t => t.id === id);
         if (task && taskElapsedSeconds[id] !== undefined) {
-          recordTaskCompletion(id, task.estimated_minutes, taskElapsedSeconds[id]);
+          // Measure against the unpadded estimate so the correction doesn't compound
+          const estimate = task.raw_estimated_minutes ?? task.estimated_minutes;
+          recordTaskCompletion(id, estimate, taskElapsedSeconds[id]);
+          void recordTaskTiming(id, estimate, taskElapsedSeconds[id]);
         }
         
         triggerConfetti(e);
@@ -233,6 +246,12 @@ export const MicroTasker: React.FC = () => {
             </div>
           </div>
 
+          {blockedMessage && (
+            <div role="status" className="rounded-2xl border border-amber-200 bg-amber-50 px-5 py-4 text-sm font-medium text-amber-800 dark:border-amber-900/50 dark:bg-amber-950/40 dark:text-amber-200">
+              {blockedMessage}
+            </div>
+          )}
+
           {/* Decomposed Tasks Section */}
           <AnimatePresence>
             {tasks.length > 0 && (
@@ -10,20 +10,39 @@
  */
 
 // Hooks (default exports re-exported as named)
-export { default as useCapture }   from './useCapture';
-export { default as useSessionId } from './useSessionId';
-export { default as useWebcam }    from './useWebcam';
+export { default as useAdaptiveDifficulty } from './useAdaptiveDifficulty';
+export { default as useCapture }     from './useCapture';
+export { default as useGameSession } from './useGameSession';
+export { default as useSessionId }   from './useSessionId';
+export { default as useSpellingReview } from './useSpellingReview';
+export { default as useWebcam }      from './useWebcam';
 
 // Types — each file owns its own interfaces; all surfaced here for convenience
+export type {
+  AdaptiveItem,
+  UseAdaptiveDifficultyOptions,
+  UseAdaptiveDifficultyReturn,
+} from './useAdaptiveDifficulty';
+
 export type {
   CaptureMetadata,
   CaptureUploader,
+  ExpressionLogEntry,
+  ExpressionLogger,
   UseCaptureOptions,
   UseCaptureReturn,
 } from './useCapture';
 
+export type {
+  GameSession,
+  UseGameSessionOptions,
+  UseGameSessionReturn,
+} from './useGameSession';
+
 export type { UseSessionIdReturn } from './useSessionId';
 
+export type { UseSpellingReviewReturn } from './useSpellingReview';
+
 export type {
   UseWebcamOptions,
   UseWebcamReturn,
@@ -0,0 +1,181 @@
+/**
+ * useAdaptiveDifficulty  — Kids Module
+ *
+ * Connects a game to the logged-in child's adaptive difficulty plan
+ * (server/src/services/AdaptiveDifficulty.ts):
+ *
+ *   1. Loads the saved plan before content is fetched, so new items are
+ *      generated at the child's level, around the skills they are still
+ *      learning and away from skills they have mastered (`contentPlan`).
+ *   2. Reports each answer — correctness, response time and the
+ *      BiometricVisionEngine's frustration/confusion at that moment — which
+ *      updates the child's ratings and returns the next target level.
+ *   3. Picks the next item from the fetched batch closest to that level,
+ *      mastered skills last (`arrangeNext`).
+ *
+ * Without a child session (a grown-up trying a game) nothing is loaded or
+ * recorded and items play in the order they were fetched.
+ *
+ * Required Supabase SQL: supabase/migrations/kids_adaptive_difficulty.sql
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  fetchDifficultyPlan,
+  recordSkillAnswer,
+  type DifficultyPlan,
+  type KidsGameType,
+  type SkillAnswer,
+} from '../../lib/api';
+import type { ContentPlan } from '../../agents/gameContentAgent';
+import type { BiometricVisionEngine } from '../../lib/biometrics/faceMesh';
+import { activeChildSession, useChildSessionStore } from '../../stores/childSessionStore';
+
+// Face metrics older than this don't describe the answer moment
+const AFFECT_MAX_AGE_MS = 2000;
+
+// Sorts items on an already-mastered skill after every other item
+const MASTERED_PENALTY = 5;
+
+// ---------------------------------------------------------------------------
+// Interfaces
+// ---------------------------------------------------------------------------
+
+/** Any game item the backend tagged with a skill and difficulty level. */
+export interface AdaptiveItem {
+  skill?: string;
+  difficulty?: number;
+}
+
+/** Configuration passed to `useAdaptiveDifficulty`. */
+export interface UseAdaptiveDifficultyOptions {
+  gameType: KidsGameType;
+  /** Sampled for frustration/confusion when an answer is recorded. */
+  visionEngineRef?: React.RefObject<BiometricVisionEngine | null>;
+}
+
+/** Return type of the `useAdaptiveDifficulty` hook. */
+export interface UseAdaptiveDifficultyReturn {
+  /** False while the child's saved plan is loading; fetch content once true. */
+  ready: boolean;
+  /** Difficulty and skills for this session's content; fixed once loaded. */
+  contentPlan: ContentPlan;
+  /** Starts the response timer for the item now on screen. */
+  markItemShown: () => void;
+  /** Reports the first answer to the item on screen. */
+  recordAnswer: (item: { skill: string; difficulty?: number }, correct: boolean) => void;
+  /** Returns `items` with the best remaining item (index ≥ `nextIdx`) moved to `nextIdx`. */
+  arrangeNext: <T extends AdaptiveItem>(items: T[], nextIdx: number) => T[];
+}
+
+// ---------------------------------------------------------------------------
+// Item selection
+// ---------------------------------------------------------------------------
+
+/** Pure: swaps the remaining item closest to the plan's target level into `nextIdx`. */
+export const arrangeForPlan = <T extends AdaptiveItem>(items: T[], nextIdx: number, plan: DifficultyPlan | null): T[] => {
+  if (!plan || nextIdx >= items.length - 1) return items;
+
+  const mastered = new Set(plan.masteredSkills);
+  const cost = (item: T) =>
+    Math.abs((item.difficulty ?? plan.targetDifficulty) - plan.targetDifficulty) +
+    (item.skill && mastered.has(item.skill) ? MASTERED_PENALTY : 0);
+
+  let best = nextIdx;
+  for (let i = nextIdx + 1; i < items.length; i++) {
+    if (cost(items[i]) < cost(items[best])) best = i;
+  }
+  if (best === nextIdx) return items;
+
+  const arranged = [...items];
+  [arranged[nextIdx], arranged[best]] = [arranged[best], arranged[nextIdx]];
+  return arranged;
+};
+
+// ---------------------------------------------------------------------------
+// Hook
+// ---------------------------------------------------------------------------
+
+/**
+ * Usage:
+ * ```tsx
+ * const adaptive = useAdaptiveDifficulty({ gameType: 'spelling', visionEngineRef });
+ *
+ * useEffect(() => {
+ *   if (!adaptive.ready) return;
+ *   fetchSpellingQuestions(theme, age, adaptive.contentPlan).then(qs => setQuestions(adaptive.arrangeNext(qs, 0)));
+ * }, [adaptive.ready, adaptive.contentPlan]);
+ *
+ * adaptive.recordAnswer({ skill: q.skill, difficulty: q.difficulty }, correct);
+ * setQuestions(qs => adaptive.arrangeNext(qs, idx + 1));
+ * ```
+ */
+const useAdaptiveDifficulty = ({
+  gameType,
+  visionEngineRef,
+}: UseAdaptiveDifficultyOptions): UseAdaptiveDifficultyReturn => {
+  const childToken = useChildSessionStore(s => activeChildSession(s.session)?.token);
+
+  const [initialPlan, setInitialPlan] = useState<DifficultyPlan | null>(null);
+  const [loaded, setLoaded] = useState(false);
+  // Latest plan, replaced after every answer; read outside React's render cycle
+  const planRef = useRef<DifficultyPlan | null>(null);
+  const shownAtRef = useRef(0);
+
+  useEffect(() => {
+    if (!childToken) return;
+    let cancelled = false;
+    fetchDifficultyPlan(childToken, gameType)
+      .then(plan => {
+        if (cancelled) return;
+        planRef.current = plan;
+        setInitialPlan(plan);
+      })
+      .catch((err: Error) => console.warn('[useAdaptiveDifficulty/kids] Plan not loaded; using default difficulty:', err.message))
+      .finally(() => { if (!cancelled) setLoaded(true); });
+    return () => { cancelled = true; };
+  }, [childToken, gameType]);
+
+  const contentPlan = useMemo<ContentPlan>(() => (initialPlan
+    ? {
+        difficulty: initialPlan.targetDifficulty,
+        focusSkills: initialPlan.focusSkills,
+        avoidSkills: initialPlan.masteredSkills,
+      }
+    : {}), [initialPlan]);
+
+  const markItemShown = useCallback(() => {
+    shownAtRef.current = performance.now();
+  }, []);
+
+  const recordAnswer = useCallback((item: { skill: string; difficulty?: number }, correct: boolean) => {
+    if (!childToken) return;
+
+    const face = visionEngineRef?.current?.getRecentFaceMetrics(AFFECT_MAX_AGE_MS);
+    const score = (value: number) => Math.round(Math.min(100, Math.max(0, value)));
+    const answer: SkillAnswer = {
+      skill: item.skill,
+      difficulty: item.difficulty ?? planRef.current?.targetDifficulty ?? contentPlan.difficulty ?? 2,
+      correct,
+      responseMs: Math.max(0, Math.round(performance.now() - shownAtRef.current)),
+      ...(face && { frustration: score(face.frustration), confusion: score(face.confusion) }),
+    };
+
+    recordSkillAnswer(childToken, gameType, answer)
+      .then(plan => { planRef.current = plan; })
+      .catch((err: Error) => console.warn('[useAdaptiveDifficulty/kids] Answer not recorded:', err.message));
+  }, [childToken, gameType, visionEngineRef, contentPlan]);
+
+  const arrangeNext = useCallback(<T extends AdaptiveItem>(items: T[], nextIdx: number) =>
+    arrangeForPlan(items, nextIdx, planRef.current), []);
+
+  return {
+    ready: !childToken || loaded,
+    contentPlan,
+    markItemShown,
+    recordAnswer,
+    arrangeNext,
+  };
+};
+
+export default useAdaptiveDifficulty;
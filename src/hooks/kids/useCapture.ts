@@ -1,31 +1,43 @@
 /**
  * useCapture  — Kids Module
  *
- * Captures frames from a live video element and DOM screenshots, then uploads
- * them to Supabase Storage for expression analysis.
+ * On each capture tick, classifies the child's expression on-device from the
+ * running BiometricVisionEngine's blendshape scores and writes one
+ * `expression_logs` row (label, confidence, captured_at). Webcam frames never
+ * leave the browser unless the parent opted in (`allowFrameUploads`); DOM
+ * screenshots skip the video element, so they never contain the child's face.
  *
  * ─── STORAGE LAYOUT ─────────────────────────────────────────────────────────
- *   Bucket: kids-captures     → webcam frame PNGs
+ *   Bucket: kids-captures     → webcam frame PNGs (parent opt-in only)
  *     Path: {sessionId}/frames/{timestamp}.png
  *
  *   Bucket: kids-captures     → DOM screenshot PNGs
  *     Path: {sessionId}/screenshots/{timestamp}.png
  *
- * After each upload the public URL is appended to the matching
- * `game_sessions` row via `array_append` on `image_paths` / `screenshot_paths`.
+ * After each upload the storage path is appended to the matching
+ * `game_sessions` row (`image_paths` / `screenshot_paths`) via the
+ * `append_game_session_capture` RPC, and an uploaded frame's path is stored
+ * as the expression row's `source_image_path`.
  *
- * TODO: Integrate with local MediaPipe faceMesh.ts pipeline before upload
- *       to generate expression_logs rows in-process.
+ * Required Supabase SQL: supabase/migrations/kids_on_device_expressions.sql
  * ────────────────────────────────────────────────────────────────────────────
  */
 
 import { useRef, useCallback } from 'react';
 import html2canvas from 'html2canvas';
 import { supabase } from '../../lib/supabase';
+import {
+  classifyExpression,
+  type BiometricVisionEngine,
+  type ExpressionLabel,
+} from '../../lib/biometrics/faceMesh';
 
 // Rate-limit canvas-ref warnings so they don't flood the console
 let _canvasWarnedOnce = false;
 
+// Face metrics older than this (face lost, engine stalled) are not logged
+const FACE_METRICS_MAX_AGE_MS = 1000;
+
 // ---------------------------------------------------------------------------
 // Interfaces
 // ---------------------------------------------------------------------------
@@ -38,6 +50,35 @@ export interface CaptureMetadata {
   sessionName: string;
   /** Maps to `game_sessions.session_game_name` */
   gameName: string;
+  /**
+   * `game_sessions.id` of the row created by `useGameSession`. Without it,
+   * nothing is logged or appended to a session.
+   */
+  gameSessionId?: string;
+  /** Parent opted in to storing webcam frames (`child_profiles.allow_frame_uploads`). */
+  allowFrameUploads?: boolean;
+  /** The game's running score at this tick, for the session report's score trajectory. */
+  score?: number;
+}
+
+/** One on-device expression classification — maps to an `expression_logs` row. */
+export interface ExpressionLogEntry {
+  /** `expression_logs.session_id` (`game_sessions.id`) */
+  gameSessionId: string;
+  label: ExpressionLabel;
+  /** 0.0 → 1.0 */
+  confidence: number;
+  /** Storage path of the uploaded frame, when the parent allowed uploads. */
+  sourceImagePath: string | null;
+  /** `expression_logs.game_score` */
+  gameScore: number | null;
+  /** ISO timestamp of the capture tick. */
+  capturedAt: string;
+}
+
+/** Injectable sink for expression rows — swap for a no-op in tests. */
+export interface ExpressionLogger {
+  logExpression(entry: ExpressionLogEntry): Promise<void>;
 }
 
 /**
@@ -50,11 +91,13 @@ export interface CaptureMetadata {
  */
 export interface CaptureUploader {
   /**
-   * Upload a raw image frame captured from the video element.
+   * Upload a raw image frame captured from the video element. Only called
+   * when `meta.allowFrameUploads` is set.
    * @param blob   - PNG blob from `canvas.toBlob`
    * @param meta   - Session metadata for the upload
+   * @returns The stored frame's path, or null if it was not stored.
    */
-  uploadFrame(blob: Blob, meta: CaptureMetadata): Promise<void>;
+  uploadFrame(blob: Blob, meta: CaptureMetadata): Promise<string | null>;
 
   /**
    * Upload a full-page DOM screenshot.
@@ -69,10 +112,14 @@ export interface UseCaptureOptions {
   /** Ref pointing to the `<video>` element to capture frames from. */
   videoRef: React.RefObject<HTMLVideoElement>;
   /**
-   * Injectable uploader. Defaults to the legacy Express uploader.
-   * Pass `supabaseUploader` (see TODO below) for production.
+   * The game's running vision engine. Expressions are classified from its
+   * latest face metrics; heuristic (mouse-tracking) metrics are never logged.
    */
+  visionEngineRef?: React.RefObject<BiometricVisionEngine | null>;
+  /** Injectable uploader. Defaults to Supabase Storage. */
   uploader?: CaptureUploader;
+  /** Injectable expression sink. Defaults to the `expression_logs` table. */
+  expressionLogger?: ExpressionLogger;
 }
 
 /** Return type of the `useCapture` hook. */
@@ -80,8 +127,9 @@ export interface UseCaptureReturn {
   /** Attach this ref to a hidden `<canvas>` element in the component tree. */
   canvasRef: React.RefObject<HTMLCanvasElement>;
   /**
-   * Capture a single video frame and upload it.
-   * @param meta - Session metadata for the upload.
+   * Log the current on-device expression, uploading the video frame only
+   * when `meta.allowFrameUploads` is set.
+   * @param meta - Session metadata for the capture.
    */
   captureImage: (meta: CaptureMetadata) => void;
   /**
@@ -91,14 +139,21 @@ export interface UseCaptureReturn {
   captureScreenshot: (meta: CaptureMetadata) => Promise<void>;
 }
 
-// ---------------------------------------------------------------------------
-// Default legacy uploader (calls old Express endpoints — preserved for compat)
-// ---------------------------------------------------------------------------
-
 // ---------------------------------------------------------------------------
 // Supabase Storage uploader (production default)
 // ---------------------------------------------------------------------------
 
+/** Appends a stored path to the session row; ownership and consent are checked in SQL. */
+const appendSessionCapture = async (meta: CaptureMetadata, kind: 'frame' | 'screenshot', path: string) => {
+  if (!meta.gameSessionId) return;
+  const { error } = await supabase.rpc('append_game_session_capture', {
+    p_session_id: meta.gameSessionId,
+    p_kind: kind,
+    p_path: path,
+  });
+  if (error) console.warn(`[useCapture/kids] Could not link ${kind} to session: ${error.message}`);
+};
+
 /**
  * Uploads captured blobs to Supabase Storage (`kids-captures` bucket).
  *
@@ -109,33 +164,12 @@ export interface UseCaptureReturn {
  * After each upload, the storage path is appended to the corresponding
  * `game_sessions` row via the `image_paths` / `screenshot_paths` array column.
  *
- * Bucket: `kids-captures` — must be created in the Supabase Dashboard with
- * RLS policies allowing authenticated inserts.
- *
- * TODO: Integrate with local MediaPipe faceMesh.ts pipeline before upload
- *       to populate `expression_logs` rows in-process.
+ * Bucket: `kids-captures` — storage RLS (kids_on_device_expressions.sql)
+ * accepts only the parent's own sessions, and frames only with consent.
  */
 const supabaseUploader: CaptureUploader = {
-  async uploadFrame(blob: Blob, meta: CaptureMetadata): Promise<void> {
-    // TODO: Integrate with local MediaPipe faceMesh.ts pipeline
-    // Pass the blob through BiometricVisionEngine.detectForVideo() before
-    // uploading so expression_logs rows can be created in-process.
-    const ts = Date.now();
-    const path = `${meta.sessionId}/frames/${ts}.png`;
-
-    // Write locally to dist/uploads as requested (Do this FIRST so bucket RLS errors don't stop it)
-    try {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const b64 = reader.result as string;
-        fetch('http://localhost:3000/api/save-capture', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ imageBase64: b64, type: 'upload', filename: `${ts}.png` })
-        }).catch(() => {});
-      };
-      reader.readAsDataURL(blob);
-    } catch (e) {}
+  async uploadFrame(blob: Blob, meta: CaptureMetadata): Promise<string | null> {
+    const path = `${meta.sessionId}/frames/${Date.now()}.png`;
 
     const { error: uploadErr } = await supabase.storage
       .from('kids-captures')
@@ -143,21 +177,14 @@ const supabaseUploader: CaptureUploader = {
 
     if (uploadErr) {
       console.warn(`[useCapture/kids] Supabase Frame upload skipped: ${uploadErr.message}`);
-      // Proceed without returning so the DB is aware of the capture
+      return null;
     }
 
-    // Append path to game_sessions.image_paths[] by matching session_key
-    await supabase
-      .from('game_sessions')
-      .update({
-        image_paths: supabase.rpc('array_append_text', { arr_col: 'image_paths', new_val: path }),
-      })
-      .eq('session_key', meta.sessionId);
+    await appendSessionCapture(meta, 'frame', path);
+    return path;
   },
 
   async uploadScreenshot(blob: Blob, meta: CaptureMetadata): Promise<void> {
-    // TODO: Integrate with local MediaPipe faceMesh.ts pipeline
-    // Consider passing screenshots through expression analysis before persisting.
     const ts = Date.now();
     const path = `${meta.sessionId}/screenshots/${ts}.png`;
 
@@ -181,23 +208,32 @@ const supabaseUploader: CaptureUploader = {
 
     if (uploadErr) {
       console.warn(`[useCapture/kids] Supabase Screenshot upload skipped: ${uploadErr.message}`);
-      // Proceed without returning
+      return;
     }
 
-    // Append path to game_sessions.screenshot_paths[]
-    await supabase
-      .from('game_sessions')
-      .update({
-        screenshot_paths: supabase.rpc('array_append_text', { arr_col: 'screenshot_paths', new_val: path }),
-      })
-      .eq('session_key', meta.sessionId);
+    await appendSessionCapture(meta, 'screenshot', path);
+  },
+};
+
+/** Writes each on-device classification to `expression_logs`. */
+const supabaseExpressionLogger: ExpressionLogger = {
+  async logExpression(entry: ExpressionLogEntry): Promise<void> {
+    const { error } = await supabase.from('expression_logs').insert({
+      session_id: entry.gameSessionId,
+      expression_label: entry.label,
+      confidence_score: entry.confidence,
+      source_image_path: entry.sourceImagePath,
+      game_score: entry.gameScore,
+      captured_at: entry.capturedAt,
+    });
+    if (error) console.warn(`[useCapture/kids] Expression log skipped: ${error.message}`);
   },
 };
 
 // Legacy Express uploader — preserved for local dev fallback.
 // Swap `uploader` prop in useCapture({ uploader: legacyExpressUploader }) to use.
 const legacyExpressUploader: CaptureUploader = {
-  async uploadFrame(blob: Blob, meta: CaptureMetadata): Promise<void> {
+  async uploadFrame(blob: Blob, meta: CaptureMetadata): Promise<string | null> {
     const formData = new FormData();
     formData.append('image', blob, 'capture.png');
     formData.append('newSessionId', meta.sessionId);
@@ -205,6 +241,7 @@ const legacyExpressUploader: CaptureUploader = {
     formData.append('gameName', meta.gameName);
     const response = await fetch('http://localhost:5000/child/uploads', { method: 'POST', body: formData });
     if (!response.ok) throw new Error(`[useCapture/kids] Frame upload failed: ${response.statusText}`);
+    return null;
   },
   async uploadScreenshot(blob: Blob, meta: CaptureMetadata): Promise<void> {
     const formData = new FormData();
@@ -237,21 +274,52 @@ export { legacyExpressUploader };
  * ```tsx
  * const { videoRef } = useWebcam();
  * const { sessionId } = useSessionId();
- * const { canvasRef, captureImage, captureScreenshot } = useCapture({ videoRef });
+ * const visionEngineRef = useRef<BiometricVisionEngine | null>(null);
+ * const { canvasRef, captureImage, captureScreenshot } = useCapture({ videoRef, visionEngineRef });
  *
- * // On an interval or user gesture:
- * captureImage({ sessionId: sessionId!, sessionName: 'Alice', gameName: 'emotion-match' });
+ * // On an interval or user gesture, with the row from useGameSession:
+ * captureImage({ sessionId: sessionId!, sessionName: 'Alice', gameName: 'emotion-match',
+ *                gameSessionId: gameSession.id, allowFrameUploads: gameSession.allowFrameUploads });
  * ```
  */
 const useCapture = ({
   videoRef,
+  visionEngineRef,
   uploader = supabaseUploader,
+  expressionLogger = supabaseExpressionLogger,
 }: UseCaptureOptions): UseCaptureReturn => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
 
-  /** Draws the current video frame to the canvas and uploads the resulting PNG blob. */
+  /**
+   * Classifies the current expression and logs it; with parental consent,
+   * also draws the video frame to the canvas and uploads the PNG first so the
+   * row can link to it.
+   */
   const captureImage = useCallback(
     (meta: CaptureMetadata): void => {
+      const capturedAt = new Date().toISOString();
+      const metrics = visionEngineRef?.current?.getRecentFaceMetrics(FACE_METRICS_MAX_AGE_MS) ?? null;
+      const expression = metrics ? classifyExpression(metrics) : null;
+
+      const logExpression = (sourceImagePath: string | null) => {
+        if (!expression || !meta.gameSessionId) return;
+        expressionLogger
+          .logExpression({
+            gameSessionId: meta.gameSessionId,
+            ...expression,
+            sourceImagePath,
+            gameScore: meta.score ?? null,
+            capturedAt,
+          })
+          .catch(err => console.error('[useCapture/kids] Expression log error:', err));
+      };
+
+      // Default: only the label leaves the device
+      if (!meta.allowFrameUploads || !meta.gameSessionId) {
+        logExpression(null);
+        return;
+      }
+
       const video = videoRef.current;
       const canvas = canvasRef.current;
 
@@ -260,16 +328,19 @@ const useCapture = ({
           console.warn('[useCapture/kids] Canvas ref is not attached yet — will retry on next interval.');
           _canvasWarnedOnce = true;
         }
+        logExpression(null);
         return;
       }
       if (!video) {
         console.error('[useCapture/kids] Video ref is not attached.');
+        logExpression(null);
         return;
       }
 
       const context = canvas.getContext('2d');
       if (!context) {
         console.error('[useCapture/kids] Could not get 2D canvas context.');
+        logExpression(null);
         return;
       }
 
@@ -278,19 +349,19 @@ const useCapture = ({
       canvas.toBlob(async (blob) => {
         if (!blob) {
           console.error('[useCapture/kids] Failed to create Blob from canvas frame.');
+          logExpression(null);
           return;
         }
+        let sourceImagePath: string | null = null;
         try {
-          // TODO: Integrate with local MediaPipe faceMesh.ts pipeline
-          // Pass the blob through BiometricVisionEngine.detectForVideo() before
-          // uploading, so expression_logs rows can be created in-process.
-          await uploader.uploadFrame(blob, meta);
+          sourceImagePath = await uploader.uploadFrame(blob, meta);
         } catch (err) {
           console.error('[useCapture/kids] captureImage upload error:', err);
         }
+        logExpression(sourceImagePath);
       }, 'image/png');
     },
-    [videoRef, uploader],
+    [videoRef, visionEngineRef, uploader, expressionLogger],
   );
 
   /** Renders the full document.body to a canvas via html2canvas, then uploads. */
@@ -310,9 +381,6 @@ const useCapture = ({
             return;
           }
           try {
-            // TODO: Integrate with local MediaPipe faceMesh.ts pipeline
-            // Consider whether screenshots should also be passed through
-            // expression analysis before being persisted to Storage.
             await uploader.uploadScreenshot(blob, meta);
           } catch (err) {
             console.error('[useCapture/kids] captureScreenshot upload error:', err);
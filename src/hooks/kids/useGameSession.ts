@@ -0,0 +1,87 @@
+/**
+ * useGameSession  — Kids Module
+ *
+ * Opens the `game_sessions` row for a play-through so capture ticks have a
+ * session to attach `expression_logs` rows to, along with the child's
+ * frame-upload consent (`child_profiles.allow_frame_uploads`).
+ *
+ * The row is created by the server (POST /api/kids/sessions) for the child
+ * named in the child session token from PIN login, so it always belongs to
+ * the child who is actually playing. Without a child session no row is
+ * created and captures only drive the in-game interventions.
+ *
+ * Required Supabase SQL: supabase/migrations/kids_child_login.sql
+ */
+
+import { useCallback, useRef } from 'react';
+import { openKidsGameSession } from '../../lib/api';
+import { activeChildSession, useChildSessionStore } from '../../stores/childSessionStore';
+
+// ---------------------------------------------------------------------------
+// Interfaces
+// ---------------------------------------------------------------------------
+
+/** A created `game_sessions` row and the consent captured with it. */
+export interface GameSession {
+  /** `game_sessions.id` — the FK used by `expression_logs.session_id`. */
+  id: string;
+  /** Snapshot of `child_profiles.allow_frame_uploads` when the session started. */
+  allowFrameUploads: boolean;
+}
+
+/** Configuration passed to `useGameSession`. */
+export interface UseGameSessionOptions {
+  /** `game_sessions.session_key` — the id from `useSessionId`. */
+  sessionKey: string | null;
+  /** `game_sessions.session_game_name` */
+  gameName: string;
+}
+
+/** Return type of the `useGameSession` hook. */
+export interface UseGameSessionReturn {
+  /**
+   * Creates the session row on first call and returns it; later calls return
+   * the same session. Resolves to null without a child session or when the server refuses.
+   */
+  startGameSession: () => Promise<GameSession | null>;
+}
+
+// ---------------------------------------------------------------------------
+// Hook
+// ---------------------------------------------------------------------------
+
+/**
+ * Usage:
+ * ```tsx
+ * const { sessionId } = useSessionId();
+ * const { startGameSession } = useGameSession({ sessionKey: sessionId, gameName });
+ *
+ * const gameSession = await startGameSession();
+ * captureImage({ sessionId, sessionName, gameName, gameSessionId: gameSession?.id });
+ * ```
+ */
+const useGameSession = ({
+  sessionKey,
+  gameName,
+}: UseGameSessionOptions): UseGameSessionReturn => {
+  const pendingRef = useRef<{ key: string; session: Promise<GameSession | null> } | null>(null);
+
+  const childToken = useChildSessionStore(s => activeChildSession(s.session)?.token);
+
+  const startGameSession = useCallback((): Promise<GameSession | null> => {
+    if (!sessionKey || !childToken) return Promise.resolve(null);
+    if (pendingRef.current?.key === sessionKey) return pendingRef.current.session;
+
+    const session = openKidsGameSession(childToken, sessionKey, gameName).catch((err: Error) => {
+      console.warn('[useGameSession/kids] Session row not created; expressions will not be logged:', err.message);
+      return null;
+    });
+
+    pendingRef.current = { key: sessionKey, session };
+    return session;
+  }, [sessionKey, childToken, gameName]);
+
+  return { startGameSession };
+};
+
+export default useGameSession;
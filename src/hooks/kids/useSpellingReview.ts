@@ -0,0 +1,128 @@
+/**
+ * useSpellingReview  — Kids Module
+ *
+ * Drag & Spell side of the child's spaced-repetition review queue
+ * (server/src/services/SpellingReview.ts):
+ *
+ *   1. Loads the words due for review before content is fetched.
+ *   2. `mixIn` spreads those puzzles through the fresh batch, dropping any
+ *      fresh puzzle for a word that is already being reviewed.
+ *   3. `recordAttempt` reports the first drop on each puzzle; a miss queues
+ *      the word, and any attempt at a queued word schedules its next review.
+ *
+ * Without a child session nothing is loaded or recorded and `mixIn` returns
+ * the fresh batch unchanged.
+ *
+ * Required Supabase SQL: supabase/migrations/kids_spelling_review.sql
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { fetchDueSpellingReviews, recordSpellingAttempt, type SpellingReviewItem } from '../../lib/api';
+import type { SpellingQuestion } from '../../agents/gameContentAgent';
+import { activeChildSession, useChildSessionStore } from '../../stores/childSessionStore';
+
+// A review puzzle after every this many fresh ones
+const FRESH_PER_REVIEW = 2;
+
+// ---------------------------------------------------------------------------
+// Interfaces
+// ---------------------------------------------------------------------------
+
+/** Return type of the `useSpellingReview` hook. */
+export interface UseSpellingReviewReturn {
+  /** False while the due words are loading; fetch content once true. */
+  ready: boolean;
+  /** Returns the fresh batch with the due review puzzles spread through it. */
+  mixIn: (fresh: SpellingQuestion[]) => SpellingQuestion[];
+  /** Reports the first drop on a puzzle. */
+  recordAttempt: (question: SpellingQuestion, correct: boolean) => void;
+}
+
+// ---------------------------------------------------------------------------
+// Mixing
+// ---------------------------------------------------------------------------
+
+const solvedWord = (q: { word: string; correctLetter: string }) =>
+  q.word.replace('_', q.correctLetter).toLowerCase();
+
+const toQuestion = (item: SpellingReviewItem): SpellingQuestion => ({
+  word: item.puzzle,
+  correctLetter: item.correctLetter,
+  image: item.image,
+  options: item.options,
+  skill: `letter:${item.correctLetter}`,
+  difficulty: item.difficulty ?? undefined,
+});
+
+/** Pure: `fresh` with one review puzzle after every FRESH_PER_REVIEW fresh ones; leftovers go last. */
+export const mixReviews = (fresh: SpellingQuestion[], due: SpellingReviewItem[]): SpellingQuestion[] => {
+  if (due.length === 0) return fresh;
+
+  const reviewing = new Set(due.map(item => item.word));
+  const reviews = due.map(toQuestion);
+  const mixed: SpellingQuestion[] = [];
+
+  fresh
+    .filter(q => !reviewing.has(solvedWord(q)))
+    .forEach((q, i) => {
+      if (i % FRESH_PER_REVIEW === 1 && reviews.length > 0) mixed.push(reviews.shift()!);
+      mixed.push(q);
+    });
+  return [...mixed, ...reviews];
+};
+
+// ---------------------------------------------------------------------------
+// Hook
+// ---------------------------------------------------------------------------
+
+/**
+ * Usage:
+ * ```tsx
+ * const review = useSpellingReview();
+ *
+ * useEffect(() => {
+ *   if (!review.ready) return;
+ *   fetchSpellingQuestions(theme, age).then(qs => setQuestions(review.mixIn(qs)));
+ * }, [review.ready]);
+ *
+ * review.recordAttempt(question, letter === question.correctLetter);
+ * ```
+ */
+const useSpellingReview = (): UseSpellingReviewReturn => {
+  const childToken = useChildSessionStore(s => activeChildSession(s.session)?.token);
+
+  const [due, setDue] = useState<SpellingReviewItem[]>([]);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    if (!childToken) return;
+    let cancelled = false;
+    fetchDueSpellingReviews(childToken)
+      .then(items => { if (!cancelled) setDue(items); })
+      .catch((err: Error) => console.warn('[useSpellingReview/kids] Review queue not loaded:', err.message))
+      .finally(() => { if (!cancelled) setLoaded(true); });
+    return () => { cancelled = true; };
+  }, [childToken]);
+
+  const mixIn = useCallback((fresh: SpellingQuestion[]) => mixReviews(fresh, due), [due]);
+
+  const recordAttempt = useCallback((question: SpellingQuestion, correct: boolean) => {
+    if (!childToken) return;
+    recordSpellingAttempt(childToken, {
+      word: question.word,
+      correctLetter: question.correctLetter,
+      options: question.options,
+      image: question.image,
+      difficulty: question.difficulty,
+      correct,
+    }).catch((err: Error) => console.warn('[useSpellingReview/kids] Attempt not recorded:', err.message));
+  }, [childToken]);
+
+  return {
+    ready: !childToken || loaded,
+    mixIn,
+    recordAttempt,
+  };
+};
+
+export default useSpellingReview;
@@ -1,6 +1,8 @@
 import { useEffect, useRef, useCallback } from 'react';
 import { useCognitiveStore, CognitiveClassification } from '../stores/cognitiveStore';
 import { initCognitiveModel, predictLoadScore } from '../lib/ml/cognitiveModel';
+import { recordFeatureSnapshot } from '../lib/ml/personalTrainer';
+import { emitCognitiveState, disconnectTelemetrySocket, onAmbientAction } from '../lib/telemetrySocket';
 import { BiometricVisionEngine } from '../lib/biometrics/faceMesh';
 import { VoiceBiomarkerEngine } from '../lib/biometrics/voiceBiomarkers';
 
@@ -8,8 +10,8 @@ const EVALUATION_INTERVAL_MS = 2000;
 const PAUSE_THRESHOLD_MS = 3000;
 const ROLLING_WINDOW_MS = 60000;
 
-export const useCognitiveMonitor = () => {
-  const { updateMetrics, permissionsGranted, setPermissionsGranted } = useCognitiveStore();
+export const useCognitiveMonitor = (userId?: string) => {
+  const { updateMetrics, permissionsGranted, setPermissionsGranted, setUiDimmed } = useCognitiveStore();
 
   const metrics = useRef({
     totalKeystrokes: 0,
@@ -48,6 +50,8 @@ export const useCognitiveMonitor = () => {
     ];
 
     const score = predictLoadScore(features);
+    // Keep the raw window so a later self-report can label it for training
+    recordFeatureSnapshot(features);
 
     let classification: CognitiveClassification = 'normal';
     if (score <= 25) classification = 'hyperfocus';
@@ -62,11 +66,33 @@ export const useCognitiveMonitor = () => {
       contextSwitches: currentMetrics.contextSwitches,
     }, score, classification, isHeuristicRef.current);
 
+    // Stream to the backend telemetry pipeline (buffered + rolled up server-side)
+    if (userId) {
+      emitCognitiveState({
+        score,
+        classification,
+        context_switches: currentMetrics.contextSwitches,
+        timestamp: new Date(now).toISOString(),
+      });
+    }
+
     metrics.current.pauseFrequency = 0;
     metrics.current.contextSwitches = 0;
     metrics.current.totalKeystrokes = 0;
     metrics.current.backspaces = 0;
-  }, [updateMetrics]);
+  }, [updateMetrics, userId]);
+
+  // Server-side policy rules (e.g. sustained overload) can dim the UI
+  useEffect(() => {
+    if (!permissionsGranted || !userId) return;
+    const unsubscribe = onAmbientAction((action) => {
+      if (action.type === 'dim_ui') setUiDimmed(action.active);
+    });
+    return () => {
+      unsubscribe();
+      setUiDimmed(false);
+    };
+  }, [permissionsGranted, userId, setUiDimmed]);
 
   useEffect(() => {
     if (!permissionsGranted) return;
@@ -182,6 +208,8 @@ export const useCognitiveMonitor = () => {
         voiceEngine.current.stop();
         voiceEngine.current = null;
       }
+
+      disconnectTelemetrySocket();
     };
   }, [calculateCognitiveLoad, permissionsGranted]);
 };
\ No newline at end of file
@@ -0,0 +1,58 @@
+/**
+ * useFederatedLearning.ts — Wires the FederatedLearningClient into the app
+ *
+ *  - Pulls the global FedAvg weights on mount and every GLOBAL_SYNC_INTERVAL_MS
+ *    into cognitiveStore.communityWeights (App.tsx sizes the low-stimulation
+ *    veil from them). A new version also lets a client whose last update was
+ *    refused contribute to the next round.
+ *  - Logs how adaptations played out as local interaction deltas:
+ *      Crisis Mode takeover ends → layoutSimplificationEfficacy
+ *        +1 when load fell below the takeover threshold, −1 when dismissed
+ *      "dim_ui" veil lifts       → colorMutingEfficacy, the load relief
+ *        (start − end) / 100 while it was on
+ *
+ * The client adds differential-privacy noise and transmits once a batch is
+ * full; nothing here leaves the device directly.
+ */
+
+import { useEffect } from 'react';
+import { useCognitiveStore } from '../stores/cognitiveStore';
+import { flClient } from '../lib/ml/federatedClient';
+
+const GLOBAL_SYNC_INTERVAL_MS = 5 * 60_000;
+/** Same score CrisisMode takes over at (App.tsx mounts it from 90). */
+const CRISIS_THRESHOLD = 90;
+
+export const useFederatedLearning = (userId?: string) => {
+  const setCommunityWeights = useCognitiveStore((s) => s.setCommunityWeights);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const sync = () => {
+      void flClient.syncGlobalModel().then((weights) => {
+        if (weights) setCommunityWeights(weights);
+      });
+    };
+    sync();
+    const interval = setInterval(sync, GLOBAL_SYNC_INTERVAL_MS);
+
+    let dimStartLoad: number | null = null;
+    const unsubscribe = useCognitiveStore.subscribe((state, prev) => {
+      if (prev.crisisActive && !state.crisisActive) {
+        flClient.logInteraction('layoutSimplificationEfficacy', state.cognitiveLoadScore < CRISIS_THRESHOLD ? 1 : -1);
+      }
+
+      if (!prev.isUiDimmed && state.isUiDimmed) dimStartLoad = state.cognitiveLoadScore;
+      if (prev.isUiDimmed && !state.isUiDimmed && dimStartLoad !== null) {
+        flClient.logInteraction('colorMutingEfficacy', (dimStartLoad - state.cognitiveLoadScore) / 100);
+        dimStartLoad = null;
+      }
+    });
+
+    return () => {
+      clearInterval(interval);
+      unsubscribe();
+    };
+  }, [userId, setCommunityWeights]);
+};
@@ -0,0 +1,30 @@
+/**
+ * accommodationUsage.ts — Accommodation Usage Events
+ *
+ * Records that the signed-in user used an accommodation, so the manager
+ * dashboard can report team-wide adoption. Only the feature name, minutes
+ * saved and a timestamp are stored; managers see k-anonymous aggregates
+ * (server/src/services/ManagerAnalytics.ts), never these rows.
+ *
+ * Fire-and-forget: failures are logged and never block the UI.
+ */
+
+import { supabase } from './supabase';
+
+export type AccommodationFeature = 'communication_proxy' | 'sensory_equalizer' | 'time_blindness_buffer';
+
+export const logAccommodationUse = async (feature: AccommodationFeature, minutesSaved = 0) => {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) return;
+
+    const { error } = await supabase.from('accommodation_events').insert({
+      user_id: session.user.id,
+      feature,
+      minutes_saved: Math.max(0, Math.round(minutesSaved)),
+    });
+    if (error) throw error;
+  } catch (err) {
+    console.warn(`[Accommodations] Could not log ${feature} usage:`, err);
+  }
+};
@@ -0,0 +1,242 @@
+/**
+ * burnoutForecast.ts — Seasonal/Trend Burnout Risk Forecasting
+ *
+ * Turns a user's daily cognitive history into a 7-day burnout risk forecast
+ * with uncertainty bands. Pure and deterministic: no I/O, no clock, no
+ * randomness — the caller supplies the history and the first forecast date.
+ *
+ * Algorithm:
+ *  1. Score each observed day 0-100 from a weighted blend of mean load,
+ *     share of time spent (approaching) overload, context switching and
+ *     minutes spent masking.
+ *  2. Walk the days in order, fitting an additive Holt-Winters style model:
+ *       - level    → exponentially weighted mean of deseasonalised risk
+ *       - trend    → exponentially weighted day-over-day change in level
+ *       - season   → exponentially weighted day-of-week offset
+ *     Missing days are allowed; the trend is projected across the gap.
+ *  3. Collect one-step-ahead errors; their RMS sets the interval width,
+ *     which widens with the horizon. Fewer than MIN_RESIDUALS errors fall
+ *     back to a conservative default spread.
+ *  4. Forecast = level + damped trend + weekday offset, clamped to 0-100.
+ *  5. Contributing factors compare each input's recent (weighted) value
+ *     with the user's own long-run mean, in risk points.
+ *
+ * Exports:
+ *  - scoreDailyRisk(observation)           → 0-100 risk for one day
+ *  - forecastBurnout(history, options)     → points, intervals, factors
+ */
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface DailyObservation {
+  /** Calendar day, `YYYY-MM-DD` (UTC, matching the server's day rollups). */
+  date: string;
+  /** Mean cognitive load for the day, 0-100. */
+  meanLoad: number;
+  /** Fraction (0-1) of tracked time classified approaching_overload/overload. */
+  overloadShare: number;
+  contextSwitches: number;
+  maskingMinutes: number;
+}
+
+export type BurnoutFactorKey = 'sustained_load' | 'overload_time' | 'context_switching' | 'masking' | 'trend' | 'weekday_pattern';
+
+export interface BurnoutFactor {
+  key: BurnoutFactorKey;
+  label: string;
+  /** Risk points this factor adds to the forecast (negative = protective). */
+  impact: number;
+}
+
+export interface ForecastPoint {
+  date: string;
+  /** Short weekday label, e.g. "Mon". */
+  day: string;
+  risk: number;
+  lower: number;
+  upper: number;
+}
+
+export interface BurnoutForecastResult {
+  points: ForecastPoint[];
+  /** Largest positive contributors first; empty when there is too little history. */
+  factors: BurnoutFactor[];
+  observedDays: number;
+  /** Fitted level at the end of history (deseasonalised risk). */
+  level: number;
+  /** Fitted change in risk per day at the end of history. */
+  trendPerDay: number;
+}
+
+export interface ForecastOptions {
+  /** First forecast day, `YYYY-MM-DD`. */
+  startDate: string;
+  horizonDays?: number;
+  /** Two-sided interval coverage; only 0.8, 0.9 and 0.95 are supported. */
+  coverage?: 0.8 | 0.9 | 0.95;
+}
+
+// ─── Configuration ────────────────────────────────────────────────────────────
+
+const RISK_WEIGHTS = {
+  meanLoad: 0.5,
+  overloadShare: 0.25,
+  contextSwitches: 0.1,
+  maskingMinutes: 0.15,
+};
+/** Daily context switches / masking minutes at which their risk term saturates. */
+const SWITCH_SATURATION = 150;
+const MASKING_SATURATION_MINUTES = 240;
+
+const LEVEL_ALPHA = 0.3;
+const TREND_BETA = 0.1;
+const SEASON_GAMMA = 0.2;
+/** Trend damping per forecast day — stops a short streak from running away. */
+const TREND_DAMPING = 0.85;
+
+const MIN_OBSERVED_DAYS = 3;
+const MIN_RESIDUALS = 5;
+const DEFAULT_SIGMA = 15;
+const Z_SCORES = { 0.8: 1.2816, 0.9: 1.6449, 0.95: 1.96 };
+
+const MS_PER_DAY = 86_400_000;
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const clamp = (value: number, min = 0, max = 100) => Math.max(min, Math.min(max, value));
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const toDayNumber = (date: string) => Math.floor(Date.parse(`${date}T00:00:00Z`) / MS_PER_DAY);
+const fromDayNumber = (day: number) => new Date(day * MS_PER_DAY).toISOString().slice(0, 10);
+/** 0 = Sunday; day 0 of the epoch (1970-01-01) was a Thursday. */
+const weekdayOf = (day: number) => (((day + 4) % 7) + 7) % 7;
+
+// ─── Risk Scoring ─────────────────────────────────────────────────────────────
+
+/** Per-input risk terms, already weighted, so they sum to the daily risk. */
+const riskTerms = (obs: DailyObservation) => ({
+  sustained_load: RISK_WEIGHTS.meanLoad * clamp(obs.meanLoad),
+  overload_time: RISK_WEIGHTS.overloadShare * clamp(obs.overloadShare, 0, 1) * 100,
+  context_switching: RISK_WEIGHTS.contextSwitches * clamp(obs.contextSwitches / SWITCH_SATURATION, 0, 1) * 100,
+  masking: RISK_WEIGHTS.maskingMinutes * clamp(obs.maskingMinutes / MASKING_SATURATION_MINUTES, 0, 1) * 100,
+});
+
+type InputFactorKey = keyof ReturnType<typeof riskTerms>;
+
+const INPUT_FACTORS: InputFactorKey[] = ['sustained_load', 'overload_time', 'context_switching', 'masking'];
+
+const FACTOR_LABELS: Record<BurnoutFactorKey, string> = {
+  sustained_load: 'Sustained cognitive load',
+  overload_time: 'Time spent near overload',
+  context_switching: 'Context switching',
+  masking: 'Masking',
+  trend: 'Recent trajectory',
+  weekday_pattern: 'Day-of-week pattern',
+};
+
+/**
+ * Scores a single day 0-100.
+ */
+export function scoreDailyRisk(observation: DailyObservation): number {
+  const terms = riskTerms(observation);
+  return clamp(INPUT_FACTORS.reduce((sum, key) => sum + terms[key], 0));
+}
+
+// ─── Forecasting ──────────────────────────────────────────────────────────────
+
+/**
+ * Fits the seasonal/trend model to `history` and forecasts `horizonDays`
+ * days from `options.startDate`. Returns no points until at least
+ * MIN_OBSERVED_DAYS distinct days have been observed.
+ */
+export function forecastBurnout(history: DailyObservation[], options: ForecastOptions): BurnoutForecastResult {
+  const horizonDays = options.horizonDays ?? 7;
+  const z = Z_SCORES[options.coverage ?? 0.8];
+
+  // One observation per day (last one wins), oldest first.
+  const byDay = new Map<number, DailyObservation>();
+  history.forEach((obs) => byDay.set(toDayNumber(obs.date), obs));
+  const days = [...byDay.keys()].filter(Number.isFinite).sort((a, b) => a - b);
+
+  if (days.length < MIN_OBSERVED_DAYS) {
+    return { points: [], factors: [], observedDays: days.length, level: 0, trendPerDay: 0 };
+  }
+
+  const season = new Array(7).fill(0);
+  const errors: number[] = [];
+  let level = scoreDailyRisk(byDay.get(days[0])!);
+  let trend = 0;
+  let lastDay = days[0];
+
+  // Recent (exponentially weighted) and long-run means of each input term.
+  const terms = days.map((d) => riskTerms(byDay.get(d)!));
+  const recent = { ...terms[0] };
+  const longRun = { sustained_load: 0, overload_time: 0, context_switching: 0, masking: 0 };
+
+  days.forEach((day, i) => {
+    INPUT_FACTORS.forEach((key) => {
+      longRun[key] += terms[i][key] / days.length;
+      if (i > 0) recent[key] = LEVEL_ALPHA * terms[i][key] + (1 - LEVEL_ALPHA) * recent[key];
+    });
+    if (i === 0) return;
+
+    const risk = scoreDailyRisk(byDay.get(day)!);
+    const weekday = weekdayOf(day);
+    const gap = day - lastDay;
+    const projectedLevel = level + trend * gap;
+
+    errors.push(risk - (projectedLevel + season[weekday]));
+
+    const nextLevel = LEVEL_ALPHA * (risk - season[weekday]) + (1 - LEVEL_ALPHA) * projectedLevel;
+    trend = TREND_BETA * ((nextLevel - level) / gap) + (1 - TREND_BETA) * trend;
+    season[weekday] = SEASON_GAMMA * (risk - nextLevel) + (1 - SEASON_GAMMA) * season[weekday];
+    level = nextLevel;
+    lastDay = day;
+  });
+
+  const sigma = errors.length >= MIN_RESIDUALS
+    ? Math.sqrt(errors.reduce((sum, e) => sum + e * e, 0) / errors.length)
+    : DEFAULT_SIGMA;
+
+  const startDay = toDayNumber(options.startDate);
+  const points: ForecastPoint[] = [];
+  let totalTrendEffect = 0;
+  let totalSeasonEffect = 0;
+
+  for (let h = 0; h < horizonDays; h++) {
+    const day = startDay + h;
+    // Damped trend: Σ φ^k for k = 1..steps since the last observation.
+    const steps = Math.max(1, day - lastDay);
+    const dampedSteps = (TREND_DAMPING * (1 - Math.pow(TREND_DAMPING, steps))) / (1 - TREND_DAMPING);
+    const trendEffect = trend * dampedSteps;
+    const seasonEffect = season[weekdayOf(day)];
+    const risk = clamp(level + trendEffect + seasonEffect);
+    // Simple-exponential-smoothing variance growth: σ²(1 + (h-1)α²)
+    const spread = z * sigma * Math.sqrt(1 + (steps - 1) * LEVEL_ALPHA * LEVEL_ALPHA);
+
+    totalTrendEffect += trendEffect;
+    totalSeasonEffect += seasonEffect;
+    points.push({
+      date: fromDayNumber(day),
+      day: WEEKDAYS[weekdayOf(day)],
+      risk: round1(risk),
+      lower: round1(clamp(risk - spread)),
+      upper: round1(clamp(risk + spread)),
+    });
+  }
+
+  const factors: BurnoutFactor[] = [
+    ...INPUT_FACTORS.map((key) => ({ key, impact: recent[key] - longRun[key] })),
+    { key: 'trend' as const, impact: horizonDays > 0 ? totalTrendEffect / horizonDays : 0 },
+    { key: 'weekday_pattern' as const, impact: horizonDays > 0 ? totalSeasonEffect / horizonDays : 0 },
+  ]
+    .map(({ key, impact }) => ({ key, label: FACTOR_LABELS[key], impact: round1(impact) }))
+    .sort((a, b) => b.impact - a.impact);
+
+  return {
+    points,
+    factors,
+    observedDays: days.length,
+    level: round1(level),
+    trendPerDay: round1(trend),
+  };
+}
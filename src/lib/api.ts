@@ -1,7 +1,10 @@
 /// <reference types="vite/client" />
 
-const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000/api';
+export const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000/api';
 import { simplifyNotificationLocally } from './algorithms/offlineNLP';
+import { supabase } from './supabase';
+import type { CognitiveClassification } from '../stores/cognitiveStore';
+import type { PRComment, PullRequest } from '../types/rsd';
 
 // =============================================================================
 // CORE AGENT CALL
@@ -22,7 +25,7 @@ export const callAgent = async <T>(request: AgentRequest): Promise<T> => {
   try {
     const response = await fetch(`${API_BASE_URL}/agents/generate`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
       body: JSON.stringify({
         prompt: request.prompt,
         model: request.model || 'gemini-2.0-flash',
@@ -54,6 +57,72 @@ export const callAgent = async <T>(request: AgentRequest): Promise<T> => {
   }
 };
 
+// =============================================================================
+// STRUCTURED AGENTS
+// =============================================================================
+
+/** Agents registered in server/src/utils/agentRegistry.ts. */
+export type AgentName =
+  | 'summarizeHyperfocus'
+  | 'generateReentryBrief'
+  | 'reframeTrait'
+  | 'analyzeJobDescription'
+  | 'analyzeThread'
+  | 'decodeSocialInteraction'
+  | 'generateSkillExercise';
+
+export type AgentErrorCode = 'unknown_agent' | 'invalid_input' | 'invalid_output' | 'quota_exceeded' | 'unavailable';
+
+/**
+ * Thrown by `runAgent`. `invalid_output` means the server re-asked the model
+ * and it still didn't match the agent's schema; `issues` lists why.
+ * `quota_exceeded` means the caller's daily AI allowance is spent.
+ */
+export class AgentCallError extends Error {
+  readonly agent: AgentName;
+  readonly code: AgentErrorCode;
+  readonly issues: string[];
+
+  constructor(agent: AgentName, code: AgentErrorCode, message: string, issues: string[] = []) {
+    super(message);
+    this.name = 'AgentCallError';
+    this.agent = agent;
+    this.code = code;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Calls a named agent (POST /api/agents/run/:name). The server validates the
+ * model's JSON against the agent's schema and re-asks on failure, so a
+ * resolved value always has the documented shape. Signed-in calls count
+ * toward the user's own daily token quota rather than the anonymous pool.
+ */
+export const runAgent = async <T>(agent: AgentName, input: Record<string, string>): Promise<T> => {
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE_URL}/agents/run/${agent}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+      body: JSON.stringify({ input }),
+    });
+  } catch {
+    throw new AgentCallError(agent, 'unavailable', 'Could not reach the cognitive engine. Check your connection and try again.');
+  }
+
+  const result = await response.json().catch(() => null);
+  if (!response.ok || !result?.success) {
+    throw new AgentCallError(
+      agent,
+      result?.code ?? 'unavailable',
+      result?.error || `HTTP error! status: ${response.status}`,
+      result?.issues,
+    );
+  }
+
+  return result.data as T;
+};
+
 // =============================================================================
 // MOCK SLACK / JIRA INTEGRATION — DEMO MODE
 // =============================================================================
@@ -153,7 +222,7 @@ export const MOCK_JIRA_TICKETS: IntegrationNotification[] = [
 /**
  * Sends a raw notification to Gemini and returns a plain-language summary
  * optimised for neurodivergent users (clear, short, action-focused).
- * Falls back gracefully to a trimmed raw excerpt if the backend is unavailable.
+ * Falls back to offlineNLP when offline, over quota, or the backend is unavailable.
  */
 export async function simplifyNotification(notification: IntegrationNotification): Promise<string> {
   const prompt = `
@@ -187,8 +256,685 @@ Plain summary:`.trim();
     });
     return typeof result === 'string' ? result.trim() : String(result).trim();
   } catch {
-    // Graceful fallback — show a trimmed version of the raw content
-    const raw = notification.rawContent;
-    return raw.substring(0, 120) + (raw.length > 120 ? '…' : '');
+    return simplifyNotificationLocally(notification.rawContent);
+  }
+}
+
+// =============================================================================
+// AUTHENTICATED BACKEND CALLS
+// =============================================================================
+
+/**
+ * Bearer header for routes guarded by the server's `requireUser` middleware.
+ * The server derives the user ID from this token — never send it in the body.
+ */
+export const authHeaders = async (): Promise<Record<string, string>> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.access_token ? { Authorization: `Bearer ${session.access_token}` } : {};
+};
+
+// =============================================================================
+// TELEMETRY ROLLUPS
+// =============================================================================
+
+export type RollupGranularity = 'minute' | 'hour' | 'day';
+
+export interface CognitiveRollup {
+  bucket_start: string;
+  granularity: RollupGranularity;
+  sample_count: number;
+  mean_load: number;
+  max_load: number;
+  time_hyperfocus_s: number;
+  time_normal_s: number;
+  time_approaching_overload_s: number;
+  time_overload_s: number;
+  context_switches: number;
+}
+
+/**
+ * Reads the caller's server-side cognitive rollups (oldest bucket first).
+ * `from`/`to` default server-side to a sensible window per granularity.
+ */
+export const fetchTelemetryRollups = async (
+  granularity: RollupGranularity,
+  from?: Date,
+  to?: Date
+): Promise<CognitiveRollup[]> => {
+  const params = new URLSearchParams({ granularity });
+  if (from) params.set('from', from.toISOString());
+  if (to) params.set('to', to.toISOString());
+
+  const response = await fetch(`${API_BASE_URL}/telemetry/rollups?${params}`, {
+    headers: await authHeaders(),
+  });
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || `HTTP error! status: ${response.status}`);
+  }
+  return result.rollups as CognitiveRollup[];
+};
+
+// =============================================================================
+// PROSTHETIC MEMORY
+// =============================================================================
+
+export interface MemoryInput {
+  content: string;
+  summary?: string;
+  metadata?: Record<string, unknown>;
+  /** When the meeting/thread happened (ISO). Defaults to ingestion time. */
+  occurredAt?: string;
+}
+
+export interface MemorySearchResult {
+  id: string;
+  content: string;
+  summary: string;
+  metadata: Record<string, unknown>;
+  similarity: number;
+}
+
+export type MemorySearchMode = 'semantic' | 'action_items';
+
+export type MemorySource = 'slack' | 'jira' | 'google_meet' | 'zoom';
+
+export interface MemoryFilters {
+  sources?: MemorySource[];
+  participants?: string[];
+  /** ISO timestamps; `from` inclusive, `to` exclusive. */
+  from?: string;
+  to?: string;
+}
+
+export interface HybridMemoryResult {
+  id: string;
+  content: string;
+  summary: string;
+  metadata: Record<string, unknown>;
+  occurredAt: string;
+  score: number;
+  explanation: {
+    vector?: { rank: number; similarity: number };
+    lexical?: { rank: number; score: number; matchedTerms: string[] };
+    mentionedParticipants: string[];
+    recencyBoost: number;
+    /** Human-readable, e.g. 'Keyword match #1 on "sarah"'. */
+    reasons: string[];
+  };
+}
+
+/** Embedding happens server-side; memories are always the caller's own. */
+const memoryRequest = async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+  const response = await fetch(`${API_BASE_URL}/memory${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+  });
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || `HTTP error! status: ${response.status}`);
+  }
+  return result as T;
+};
+
+export const ingestMemoryEntry = async (entry: MemoryInput) =>
+  (await memoryRequest<{ id: string }>('', { method: 'POST', body: JSON.stringify(entry) })).id;
+
+export const ingestMemoryEntries = async (entries: MemoryInput[]) =>
+  (await memoryRequest<{ ids: string[] }>('/batch', { method: 'POST', body: JSON.stringify({ entries }) })).ids;
+
+export const searchMemories = async (
+  query: string,
+  options: { mode?: MemorySearchMode; threshold?: number; topK?: number; signal?: AbortSignal } = {}
+) => {
+  const { signal, mode = 'semantic', ...params } = options;
+  const result = await memoryRequest<{ results: MemorySearchResult[] }>('/search', {
+    method: 'POST',
+    body: JSON.stringify({ query, mode, ...params }),
+    signal,
+  });
+  return result.results;
+};
+
+/**
+ * Keyword + semantic search with source/participant/date filters. A date
+ * phrase in the query ("last week") becomes a filter unless `from`/`to` are
+ * given; the applied filters come back alongside the results.
+ */
+export const hybridSearchMemories = async (
+  query: string,
+  options: { filters?: MemoryFilters; topK?: number; recencyHalfLifeDays?: number; signal?: AbortSignal } = {}
+) => {
+  const { signal, ...params } = options;
+  return memoryRequest<{ results: HybridMemoryResult[]; filters: MemoryFilters & { inferredFrom?: string } }>('/search', {
+    method: 'POST',
+    body: JSON.stringify({ query, mode: 'hybrid', ...params }),
+    signal,
+  });
+};
+
+export const deleteMemory = async (id: string) => {
+  await memoryRequest(`/${encodeURIComponent(id)}`, { method: 'DELETE' });
+};
+
+export const deleteAllMemories = async () => {
+  await memoryRequest('?confirm=all', { method: 'DELETE' });
+};
+
+// ─── Retention, Export & Erase ────────────────────────────────────────────────
+
+export type RetentionSource = MemorySource | 'other';
+
+export interface RetentionPolicy {
+  source: RetentionSource;
+  /** null keeps memories from this source forever. */
+  retentionDays: number | null;
+  isDefault: boolean;
+  defaultDays: number | null;
+}
+
+export interface MemoryArchive {
+  format: 'neuroadaptive-memory-archive';
+  version: 1;
+  exportId: string;
+  exportedAt: string;
+  userId: string;
+  memories: Record<string, unknown>[];
+  commitments: Record<string, unknown>[];
+  retentionPolicies: RetentionPolicy[];
+}
+
+export const fetchMemoryRetention = async () =>
+  (await memoryRequest<{ policies: RetentionPolicy[] }>('/retention')).policies;
+
+export const saveMemoryRetention = async (policies: { source: RetentionSource; retentionDays: number | null }[]) =>
+  (await memoryRequest<{ policies: RetentionPolicy[] }>('/retention', {
+    method: 'PUT',
+    body: JSON.stringify({ policies }),
+  })).policies;
+
+/** Full JSON archive of the caller's memories. Its exportId unlocks eraseAllMemories. */
+export const exportMemoryArchive = async () =>
+  (await memoryRequest<{ archive: MemoryArchive }>('/export')).archive;
+
+/** Right to be forgotten: needs an exportId from the last 15 minutes. */
+export const eraseAllMemories = async (exportId: string) =>
+  memoryRequest<{ memoriesDeleted: number; commitmentsDeleted: number }>('/erase', {
+    method: 'POST',
+    body: JSON.stringify({ exportId }),
+  });
+
+// =============================================================================
+// COMMITMENTS
+// =============================================================================
+
+export type CommitmentStatus = 'open' | 'snoozed' | 'done';
+
+/** A promise or action item the server extracted from an ingested memory. */
+export interface Commitment {
+  id: string;
+  memoryId: string | null;
+  description: string;
+  owner: string | null;
+  dueAt: string | null;
+  status: CommitmentStatus;
+  /** 0–1 extraction confidence. */
+  confidence: number;
+  sourceQuote: string | null;
+  remindAt: string | null;
+  snoozedUntil: string | null;
+  completedAt: string | null;
+  createdAt: string;
+}
+
+const commitmentRequest = async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+  const response = await fetch(`${API_BASE_URL}/commitments${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+  });
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || `HTTP error! status: ${response.status}`);
+  }
+  return result as T;
+};
+
+export const fetchCommitments = async (status?: CommitmentStatus) =>
+  (await commitmentRequest<{ commitments: Commitment[] }>(status ? `?status=${status}` : '')).commitments;
+
+export const completeCommitment = async (id: string) =>
+  (await commitmentRequest<{ commitment: Commitment }>(`/${encodeURIComponent(id)}/complete`, { method: 'POST' })).commitment;
+
+export const snoozeCommitment = async (id: string, minutes: number) =>
+  (await commitmentRequest<{ commitment: Commitment }>(`/${encodeURIComponent(id)}/snooze`, {
+    method: 'POST',
+    body: JSON.stringify({ minutes }),
+  })).commitment;
+
+/**
+ * Calls `onChange` whenever one of the user's commitments is created or
+ * updated (Supabase Realtime; RLS limits events to the signed-in user).
+ * Returns the unsubscribe function.
+ */
+export const subscribeToCommitments = (userId: string, onChange: () => void) => {
+  const channel = supabase.channel(`commitments:${userId}`)
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'commitments', filter: `user_id=eq.${userId}` }, onChange)
+    .subscribe();
+  return () => { void supabase.removeChannel(channel); };
+};
+
+// =============================================================================
+// ACCOUNT LINKING
+// =============================================================================
+
+export type LinkProvider = 'google' | 'slack' | 'jira' | 'github';
+
+const integrationsRequest = async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+  const response = await fetch(`${API_BASE_URL}/integrations${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+  });
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || `HTTP error! status: ${response.status}`);
+  }
+  return result as T;
+};
+
+/** Providers the signed-in user has linked. */
+export const fetchLinkedIntegrations = async () =>
+  (await integrationsRequest<{ linked: string[] }>('')).linked;
+
+/**
+ * Sends the browser to `provider`'s consent screen. The server binds the
+ * link to the signed-in user with a single-use state; the callback returns
+ * to /dashboard?integration=success|error.
+ */
+export const linkIntegration = async (provider: LinkProvider) => {
+  const { url } = await integrationsRequest<{ url: string }>(`/${provider}/link`, { method: 'POST' });
+  window.location.assign(url);
+};
+
+// =============================================================================
+// RSD SHIELD
+// =============================================================================
+
+/** GitHub review comments, sanitized server-side as the webhook delivers them. */
+export interface ShieldedReviews {
+  prs: PullRequest[];
+  comments: PRComment[];
+  /** A GitHub account is linked, so reviews on the user's PRs are delivered. */
+  isConnected: boolean;
+  webhookUrl: string;
+}
+
+const rsdRequest = async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+  const response = await fetch(`${API_BASE_URL}/rsd${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+  });
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || `HTTP error! status: ${response.status}`);
+  }
+  return result as T;
+};
+
+export const fetchShieldedReviews = async () => rsdRequest<ShieldedReviews>('/pull-requests');
+
+export const markReviewCommentRead = async (id: string) => {
+  await rsdRequest(`/comments/${encodeURIComponent(id)}/read`, { method: 'POST' });
+};
+
+/**
+ * Calls `onChange` whenever one of the user's shielded PRs or review
+ * comments changes (Supabase Realtime). Returns the unsubscribe function.
+ */
+export const subscribeToShieldedReviews = (userId: string, onChange: () => void) => {
+  const channel = supabase.channel(`rsd-reviews:${userId}`)
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'rsd_pull_requests', filter: `user_id=eq.${userId}` }, onChange)
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'rsd_pr_comments', filter: `user_id=eq.${userId}` }, onChange)
+    .subscribe();
+  return () => { void supabase.removeChannel(channel); };
+};
+
+// =============================================================================
+// TASK TIMINGS
+// =============================================================================
+
+/**
+ * Reports how long a completed micro-step took, so the server can calibrate
+ * the padding it applies to future breakdowns. Best-effort: the local
+ * history in timeCorrection.ts keeps working offline.
+ */
+export const recordTaskTiming = async (taskId: string, estimatedMinutes: number, actualSeconds: number) => {
+  try {
+    await fetch(`${API_BASE_URL}/tasks/timings`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+      body: JSON.stringify({ taskId, estimatedMinutes, actualSeconds }),
+    });
+  } catch (err) {
+    console.warn('[api] Task timing not sent:', err);
   }
-}
\ No newline at end of file
+};
+
+// =============================================================================
+// MANAGER AGGREGATES (k-anonymous)
+// =============================================================================
+
+/** Any figure drawn from fewer than k users comes back as null. */
+export interface ManagerBurnoutTrend {
+  windowDays: number;
+  kAnonymityThreshold: number;
+  points: { date: string; riskScore: number | null; contributors: number | null }[];
+}
+
+export interface ManagerAccommodationReport {
+  windowDays: number;
+  kAnonymityThreshold: number;
+  activeUsers: number | null;
+  features: { feature: string; label: string; usagePercent: number | null; users: number | null }[];
+  maskingHoursSaved: number | null;
+}
+
+export interface ManagerRoiReport {
+  clusterName: string;
+  windowDays: number;
+  kAnonymityThreshold: number;
+  activeUsers: number | null;
+  baselineTurnoverRate: number;
+  costPerTurnover: number;
+  burnoutRiskReduction: number | null;
+  preventedDepartures: number | null;
+  annualSavings: number | null;
+}
+
+const fetchManager = async <T>(path: string, days: number): Promise<T> => {
+  const response = await fetch(`${API_BASE_URL}/manager/${path}?days=${days}`, {
+    headers: await authHeaders(),
+  });
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || `HTTP error! status: ${response.status}`);
+  }
+  return result as T;
+};
+
+export const fetchManagerBurnoutTrend = (days = 14) => fetchManager<ManagerBurnoutTrend>('burnout-trend', days);
+export const fetchManagerAccommodations = (days = 28) => fetchManager<ManagerAccommodationReport>('accommodations', days);
+export const fetchManagerRoi = (days = 28) => fetchManager<ManagerRoiReport>('roi', days);
+
+// =============================================================================
+// LLM USAGE & QUOTAS (admin)
+// =============================================================================
+
+export type LlmUsageRole = 'SuperAdmin' | 'Teacher' | 'Parent' | 'Adult_User' | 'Child_User' | 'anonymous';
+
+/** Operational figures per agent route — no per-user breakdown. */
+export interface LlmUsageReport {
+  windowDays: number;
+  provider: string;
+  agents: {
+    agent: string;
+    requests: number;
+    users: number;
+    inputTokens: number;
+    outputTokens: number;
+    avgLatencyMs: number;
+    p95LatencyMs: number;
+    /** 0-1 */
+    errorRate: number;
+    degradedRequests: number;
+  }[];
+  roles: { role: LlmUsageRole; users: number; tokens: number; degradedRequests: number; dailyQuota: number | null }[];
+  totals: { requests: number; tokens: number; errorRate: number; degradedRequests: number };
+}
+
+export const fetchManagerLlmUsage = (days = 7) => fetchManager<LlmUsageReport>('llm-usage', days);
+
+// =============================================================================
+// AMBIENT TRIGGER POLICIES
+// =============================================================================
+
+export type PolicyAction =
+  | { type: 'snooze_slack'; minutes: number }
+  | { type: 'buffer_notifications' }
+  | { type: 'release_notifications' }
+  | { type: 'dim_ui' }
+  | { type: 'defer_meetings' };
+
+/** Mirrors server/src/services/PolicyEngine.ts — the server validates every field. */
+export interface PolicyRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  when: { states: CognitiveClassification[]; forSeconds: number };
+  then: PolicyAction[];
+  hysteresisSeconds: number;
+  cooldownSeconds: number;
+}
+
+export interface PolicyAuditEntry {
+  rule_id: string;
+  rule_name: string;
+  outcome: 'idle' | 'pending' | 'cooldown' | 'fired' | 'holding' | 'clearing' | 'released' | 'disabled';
+  state: CognitiveClassification;
+  score: number;
+  actions: PolicyAction[] | null;
+  evaluations: number;
+  first_evaluated_at: string;
+  last_evaluated_at: string;
+}
+
+const orchestratorRequest = async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+  const response = await fetch(`${API_BASE_URL}/orchestrator/${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+  });
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || `HTTP error! status: ${response.status}`);
+  }
+  return result as T;
+};
+
+export const fetchPolicies = () =>
+  orchestratorRequest<{ rules: PolicyRule[]; defaults: PolicyRule[] }>('policies');
+
+export const savePolicies = async (rules: PolicyRule[]) =>
+  (await orchestratorRequest<{ rules: PolicyRule[] }>('policies', { method: 'PUT', body: JSON.stringify({ rules }) })).rules;
+
+export const resetPolicies = async () =>
+  (await orchestratorRequest<{ rules: PolicyRule[] }>('policies', { method: 'DELETE' })).rules;
+
+export const fetchPolicyAudit = async (limit = 100) =>
+  (await orchestratorRequest<{ entries: PolicyAuditEntry[] }>(`audit?limit=${limit}`)).entries;
+
+// =============================================================================
+// KIDS CHILD LOGIN
+// =============================================================================
+
+export interface KidsChildProfile {
+  id: string;
+  name: string;
+  age: number;
+  avatarUrl: string | null;
+  isActive: boolean;
+  hasPin: boolean;
+  /** Set while PIN login is locked after too many wrong PINs. */
+  lockedUntil: string | null;
+}
+
+export type ChildLoginResult =
+  | { status: 'ok'; token: string; expiresAt: string; child: { id: string; name: string; age: number } }
+  | { status: 'invalid_pin'; attemptsRemaining: number }
+  | { status: 'locked'; lockedUntil: string }
+  | { status: 'error'; error: string };
+
+const kidsRequest = async <T>(path: string, init: RequestInit = {}, headers?: Record<string, string>): Promise<T> => {
+  const response = await fetch(`${API_BASE_URL}/kids/${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...(headers ?? await authHeaders()) },
+  });
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || `HTTP error! status: ${response.status}`);
+  }
+  return result as T;
+};
+
+export const fetchKidsChildren = async () =>
+  (await kidsRequest<{ children: KidsChildProfile[] }>('children')).children;
+
+/** The PIN is hashed by the server; it is never written to Supabase from the browser. */
+export const createChildAccount = async (child: { name: string; age: number; pin: string }) =>
+  (await kidsRequest<{ child: KidsChildProfile }>('children', { method: 'POST', body: JSON.stringify(child) })).child;
+
+export const setChildPin = async (childId: string, pin: string) => {
+  await kidsRequest(`children/${childId}/pin`, { method: 'PUT', body: JSON.stringify({ pin }) });
+};
+
+/** PIN login for one of the signed-in parent's children. Wrong PINs and lockouts are results, not errors. */
+export const loginChild = async (childId: string, pin: string): Promise<ChildLoginResult> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/kids/login`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+      body: JSON.stringify({ childId, pin }),
+    });
+    const result = await response.json();
+
+    if (response.ok && result.success) {
+      return { status: 'ok', token: result.token, expiresAt: result.expiresAt, child: result.child };
+    }
+    if (response.status === 401 && typeof result.attemptsRemaining === 'number') {
+      return { status: 'invalid_pin', attemptsRemaining: result.attemptsRemaining };
+    }
+    if (response.status === 423) return { status: 'locked', lockedUntil: result.lockedUntil };
+    return { status: 'error', error: result.error || `HTTP error! status: ${response.status}` };
+  } catch (err) {
+    console.error('[api] Child login failed:', err);
+    return { status: 'error', error: 'Could not reach the server. Please try again.' };
+  }
+};
+
+export type ParentVerifyResult = { status: 'ok' } | { status: 'wrong_password' } | { status: 'error'; error: string };
+
+/** Checks the signed-in parent's password before a child session ends. A wrong password is a result, not an error. */
+export const verifyParentPassword = async (password: string): Promise<ParentVerifyResult> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/kids/parent/verify`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+      body: JSON.stringify({ password }),
+    });
+    const result = await response.json();
+
+    if (response.ok && result.success) return { status: 'ok' };
+    if (response.status === 401) return { status: 'wrong_password' };
+    return { status: 'error', error: result.error || `HTTP error! status: ${response.status}` };
+  } catch (err) {
+    console.error('[api] Parent verification failed:', err);
+    return { status: 'error', error: 'Could not reach the server. Please try again.' };
+  }
+};
+
+/** Opens the play-through's game_sessions row for the child named by `childToken`. */
+export const openKidsGameSession = async (childToken: string, sessionKey: string, gameName: string) =>
+  (await kidsRequest<{ session: { id: string; allowFrameUploads: boolean } }>(
+    'sessions',
+    { method: 'POST', body: JSON.stringify({ sessionKey, gameName }) },
+    { Authorization: `Bearer ${childToken}` },
+  )).session;
+
+// ─── Adaptive Difficulty ──────────────────────────────────────────────────────
+
+export type KidsGameType = 'quiz' | 'spelling';
+
+export interface SkillMastery {
+  skill: string;
+  rating: number;
+  attempts: number;
+  correct: number;
+  mastered: boolean;
+  lastPracticedAt: string | null;
+}
+
+/** Mirrors DifficultyPlan in server/src/services/AdaptiveDifficulty.ts. */
+export interface DifficultyPlan {
+  gameType: KidsGameType;
+  ability: number;
+  targetDifficulty: number;
+  focusSkills: string[];
+  masteredSkills: string[];
+  skills: SkillMastery[];
+}
+
+export interface SkillAnswer {
+  skill: string;
+  difficulty: number;
+  correct: boolean;
+  responseMs: number;
+  frustration?: number;
+  confusion?: number;
+}
+
+export const fetchDifficultyPlan = async (childToken: string, gameType: KidsGameType) =>
+  (await kidsRequest<{ plan: DifficultyPlan }>(`mastery/${gameType}`, {}, { Authorization: `Bearer ${childToken}` })).plan;
+
+/** Records one answer against the child's skill ratings; returns the plan for the next item. */
+export const recordSkillAnswer = async (childToken: string, gameType: KidsGameType, answer: SkillAnswer) =>
+  (await kidsRequest<{ plan: DifficultyPlan }>(
+    `mastery/${gameType}/answers`,
+    { method: 'POST', body: JSON.stringify(answer) },
+    { Authorization: `Bearer ${childToken}` },
+  )).plan;
+
+// ─── Spelling Review Queue ────────────────────────────────────────────────────
+
+/** Mirrors ReviewItem in server/src/services/SpellingReview.ts. */
+export interface SpellingReviewItem {
+  /** The solved word, lowercase. */
+  word: string;
+  /** The word with `_` for the missing letter, as played. */
+  puzzle: string;
+  correctLetter: string;
+  options: string[];
+  image: string | null;
+  difficulty: number | null;
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  lapses: number;
+  dueAt: string;
+  lastReviewedAt: string | null;
+}
+
+export interface SpellingAttempt {
+  word: string;
+  correctLetter: string;
+  options: string[];
+  image: string | null;
+  difficulty?: number;
+  correct: boolean;
+}
+
+export const fetchDueSpellingReviews = async (childToken: string) =>
+  (await kidsRequest<{ items: SpellingReviewItem[] }>('reviews/due', {}, { Authorization: `Bearer ${childToken}` })).items;
+
+/** Schedules the first drop on a puzzle; null when a correct word isn't in the review queue. */
+export const recordSpellingAttempt = async (childToken: string, attempt: SpellingAttempt) =>
+  (await kidsRequest<{ item: SpellingReviewItem | null }>(
+    'reviews',
+    { method: 'POST', body: JSON.stringify(attempt) },
+    { Authorization: `Bearer ${childToken}` },
+  )).item;
@@ -13,6 +13,8 @@
  * adult Dashboard pipeline.
  *
  * The onTick callback fires every processed frame with all 5 metrics.
+ * `classifyExpression` reduces a frame's scores to one labelled expression,
+ * which the kids capture pipeline logs instead of uploading the frame.
  */
 
 import { FaceLandmarker, FilesetResolver } from '@mediapipe/tasks-vision';
@@ -37,6 +39,15 @@ export interface EmotionMetrics {
   isCalibrating?: boolean;
 }
 
+/** Labels written to `expression_logs.expression_label` by the on-device classifier. */
+export type ExpressionLabel = 'happy' | 'frustration' | 'confusion' | 'neutral';
+
+export interface ExpressionClassification {
+  label: ExpressionLabel;
+  /** 0.0 → 1.0 */
+  confidence: number;
+}
+
 // ─── Blendshape helpers ───────────────────────────────────────────────────────
 
 type BlendshapeCategory = { categoryName: string; score: number };
@@ -113,6 +124,27 @@ function computeConfusion(s: BlendshapeCategory[]): number {
   return clamp100(raw * 100);
 }
 
+/** Below this composite score (0–100) no emotion dominates and the frame is neutral. */
+const EXPRESSION_MIN_SCORE = 35;
+
+/**
+ * Picks the strongest of joy / frustration / confusion. When none reaches
+ * EXPRESSION_MIN_SCORE the frame is `neutral`, more confidently the flatter it is.
+ */
+export function classifyExpression(metrics: EmotionMetrics): ExpressionClassification {
+  const candidates: [ExpressionLabel, number][] = [
+    ['happy', metrics.joy],
+    ['frustration', metrics.frustration],
+    ['confusion', metrics.confusion],
+  ];
+  const [label, score] = candidates.reduce((best, next) => (next[1] > best[1] ? next : best));
+  const round4 = (v: number) => Math.round(v * 10_000) / 10_000;
+
+  return score < EXPRESSION_MIN_SCORE
+    ? { label: 'neutral', confidence: round4(1 - score / 100) }
+    : { label, confidence: round4(score / 100) };
+}
+
 // ─── Engine ───────────────────────────────────────────────────────────────────
 import { HeuristicTracker } from './heuristics';
 
@@ -135,6 +167,10 @@ export class BiometricVisionEngine {
   private baselineBrowDistance = 0;
   private calibrationFrames = 0;
 
+  // Last face-derived metrics, for callers sampling outside onTick
+  private lastFaceMetrics: EmotionMetrics | null = null;
+  private lastFaceMetricsAt = 0;
+
   // ── Face-lost tracking ────────────────────────────────────────────────────
   private faceLostStart: number | null = null;
   private isFaceLost = false;
@@ -144,6 +180,15 @@ export class BiometricVisionEngine {
     this.heuristicTracker?.setGameState(state);
   }
 
+  /**
+   * The most recent metrics measured from a detected face, or null if none
+   * arrived within `maxAgeMs` (face lost, or running on mouse heuristics).
+   */
+  public getRecentFaceMetrics(maxAgeMs = 1000): EmotionMetrics | null {
+    if (!this.lastFaceMetrics || performance.now() - this.lastFaceMetricsAt > maxAgeMs) return null;
+    return this.lastFaceMetrics;
+  }
+
   async initialize() {
     try {
       const vision = await FilesetResolver.forVisionTasks(
@@ -344,13 +389,17 @@ export class BiometricVisionEngine {
           const frustration = computeFrustration(shapes);
           const confusion = computeConfusion(shapes);
 
-          onTick({
+          const metrics: EmotionMetrics = {
             tension: clamp100(tensionScore * 1000),
             gazeWander: clamp100(gazeWanderScore * 100),
             joy,
             frustration,
             confusion,
-          });
+          };
+          this.lastFaceMetrics = metrics;
+          this.lastFaceMetricsAt = performance.now();
+
+          onTick(metrics);
           onFrame?.();
         } else {
           // ── No face detected this frame ────────────────────────────────
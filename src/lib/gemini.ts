@@ -1,80 +1,53 @@
 /**
  * @provenance https://github.com/ybaddam8-png/Neutro-OS
- * @file src/lib/gemini.ts  
- * @rationale RSD Shield's sanitizePRComment is unique functionality. Uses GEMINI_API_KEY_2
- *   per integration spec so load is isolated from primary cognitive analysis API calls.
- *   Fallback pattern-matching preserved to handle API timeouts gracefully.
+ * @file src/lib/gemini.ts
+ * @rationale RSD Shield's sanitizePRComment is unique functionality. Sanitization runs
+ *   on the server (POST /api/agents/rsd/sanitize, GEMINI_API_KEY_2 kept server-side), the
+ *   same pipeline that shields GitHub review comments, so every RSD surface shares one
+ *   set of sentiment labels. Fallback pattern-matching preserved for when the server is
+ *   unreachable.
  */
 
-const GEMINI_API_KEY_2 = import.meta.env.VITE_GEMINI_API_KEY_2 as string | undefined;
+import { API_BASE_URL, authHeaders } from './api';
+import type { ReviewSentiment } from '../types/rsd';
 
-const GEMINI_ENDPOINT = 
-  'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent';
+export interface SanitizedComment {
+  sanitized: string;
+  actionItems: string[];
+  sentiment: ReviewSentiment;
+}
 
 /**
- * RSD Shield: De-weaponize a PR review comment.
- * Uses GEMINI_API_KEY_2 to isolate from primary cognitive analysis budget.
+ * RSD Shield: De-weaponize a PR review comment or message.
+ * `senderContext` (who sent it, how they usually write) helps read curt messages kindly.
  */
 export async function sanitizePRComment(
-  rawComment: string
-): Promise<{ sanitized: string; actionItems: string[]; sentiment: string }> {
-  if (!GEMINI_API_KEY_2) {
-    console.warn('[RSD Shield] VITE_GEMINI_API_KEY_2 not set — using fallback sanitization.');
-    return buildFallbackSanitization(rawComment);
-  }
-
-  const PROMPT = `You are the RSD Shield, an AI that helps neurodivergent software engineers by rewriting code review comments.
-
-Your task:
-1. Remove ALL sarcasm, passive-aggressiveness, condescension, and bluntness
-2. Preserve 100% of the technical content and required changes
-3. Reframe criticism as collaborative problem-solving
-4. Extract specific actionable items as a bulleted list
-5. Classify sentiment: "critical" | "neutral" | "positive" | "mixed"
-
-INPUT COMMENT:
-${rawComment}
-
-Respond ONLY with valid JSON, no markdown fences:
-{
-  "sanitized": "rewritten comment text here",
-  "actionItems": ["action 1", "action 2"],
-  "sentiment": "critical"
-}`;
-
+  rawComment: string,
+  senderContext?: string
+): Promise<SanitizedComment> {
   try {
-    const res = await fetch(`${GEMINI_ENDPOINT}?key=${GEMINI_API_KEY_2}`, {
+    const res = await fetch(`${API_BASE_URL}/agents/rsd/sanitize`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        contents: [{ parts: [{ text: PROMPT }] }],
-        generationConfig: { temperature: 0.3, maxOutputTokens: 1024 },
-      }),
+      headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+      body: JSON.stringify({ text: rawComment, senderContext }),
     });
 
-    if (!res.ok) throw new Error(`API error: ${res.status}`);
-
-    const data = await res.json();
-    const text = data.candidates?.[0]?.content?.parts?.[0]?.text || '{}';
-    const result = JSON.parse(text.replace(/```json|```/g, '').trim());
+    const result = await res.json();
+    if (!res.ok || !result.success) throw new Error(result.error || `API error: ${res.status}`);
 
     return {
-      sanitized: result.sanitized || rawComment,
-      actionItems: result.actionItems || [],
-      sentiment: result.sentiment || 'neutral',
+      sanitized: result.sanitized,
+      actionItems: result.actionItems,
+      sentiment: result.sentiment,
     };
   } catch (err) {
-    console.warn('[RSD Shield] Gemini API failed — using fallback:', err);
+    console.warn('[RSD Shield] Sanitize API unavailable — using offline fallback:', err);
     return buildFallbackSanitization(rawComment);
   }
 }
 
-/** Intelligent fallback when API is unavailable */
-function buildFallbackSanitization(raw: string): {
-  sanitized: string;
-  actionItems: string[];
-  sentiment: string;
-} {
+/** Offline fallback; mirrors the server's pattern matcher in server/src/utils/sanitizePRComment.ts */
+function buildFallbackSanitization(raw: string): SanitizedComment {
   const aggressiveWords = [
     'obviously', 'rookie', "can't believe", 'never', 'wrong',
     "didn't you", 'why would you', 'completely', 'seriously',
@@ -6,7 +6,6 @@ type WebhookSource = 'google_meet' | 'slack' | 'zoom';
 interface WebhookPayload {
   source: WebhookSource;
   eventId: string;
-  userId: string; // Mapped to your Supabase Auth ID
   timestamp: string;
   rawContent: string; // The transcript or thread history
   metadata: {
@@ -34,8 +33,13 @@ export const processIncomingWebhook = async (payload: WebhookPayload): Promise<{
       ${payload.rawContent}
     `;
 
-    // 2. Pass to the existing memory RAG agent (summarizes, embeds, and stores in pgvector)
-    const result = await ingestMemory(contextualizedText, payload.userId);
+    // 2. Pass to the existing memory RAG agent (summarizes; the server embeds and stores for the signed-in user)
+    const result = await ingestMemory(contextualizedText, {
+      source: payload.source,
+      eventId: payload.eventId,
+      title: payload.metadata.title,
+      participants: payload.metadata.participants ?? [],
+    }, payload.timestamp);
 
     if (result.success) {
       console.log(`[Indexer] Successfully indexed and vectorized: ${payload.metadata.title}`);
@@ -51,7 +55,7 @@ export const processIncomingWebhook = async (payload: WebhookPayload): Promise<{
 
 // --- HACKATHON DEMO UTILITY ---
 // Bind this to a hidden button in your UI or run it on a timer to simulate a meeting ending during your pitch.
-export const triggerMockMeetingEndEvent = async (userId: string) => {
+export const triggerMockMeetingEndEvent = async () => {
   const mockMeetingTranscript = `
     Alex: So we are aligned on the Q3 roadmap?
     Sarah: Yes. Alex, you need to finalize the database schema by Tuesday. 
@@ -62,7 +66,6 @@ export const triggerMockMeetingEndEvent = async (userId: string) => {
   return await processIncomingWebhook({
     source: 'google_meet',
     eventId: `meet_${Date.now()}`,
-    userId: userId,
     timestamp: new Date().toISOString(),
     rawContent: mockMeetingTranscript,
     metadata: {
@@ -1,58 +1,174 @@
 import * as tf from '@tensorflow/tfjs';
 
-let cognitiveModel: tf.Sequential | null = null;
+let cognitiveModel: tf.LayersModel | null = null;
+let initPromise: Promise<void> | null = null;
 
 /**
- * Initializes a lightweight neural network for predicting cognitive load.
- * Runs entirely on the edge (WebGL/WASM).
+ * Bump whenever the layer topology or feature normalisation changes.
+ * Persisted weights from an older version are discarded on load, because
+ * weights trained against a different input space are worse than random.
  */
-export const initCognitiveModel = async () => {
-  if (cognitiveModel) return;
+export const COGNITIVE_MODEL_VERSION = 2;
+
+/** tf.io URL of the personalised weights (browser IndexedDB, never uploaded). */
+const MODEL_STORAGE_URL = 'indexeddb://neuroadaptive-cognitive-model';
+const MODEL_META_KEY = 'neuroadapt_cognitive_model_meta';
 
-  // Ensure backend is ready (WebGL is much faster than CPU)
-  await tf.ready();
+export interface CognitiveModelMeta {
+  version: number;
+  trainedSamples: number;
+  updatedAt: string;
+}
 
+const buildModel = (): tf.LayersModel => {
   const model = tf.sequential();
-  
+
   // Input features: [KPM, ErrorRate, PauseFrequency, ContextSwitches, FacialTension, VocalEnergy]
   model.add(tf.layers.dense({ units: 16, inputShape: [6], activation: 'relu' }));
   model.add(tf.layers.dense({ units: 8, activation: 'relu' }));
-  
+
   // Output layer: Sigmoid squashes the prediction between 0.0 and 1.0
   model.add(tf.layers.dense({ units: 1, activation: 'sigmoid' }));
 
-  model.compile({ optimizer: 'adam', loss: 'meanSquaredError' });
-  
-  cognitiveModel = model;
-  console.log('[NeuroAdaptive] Local TF.js Cognitive Model Initialized.');
+  return model;
+};
+
+/** Reads the stored model metadata, or null when nothing (valid) was persisted. */
+export const getCognitiveModelMeta = (): CognitiveModelMeta | null => {
+  try {
+    const raw = localStorage.getItem(MODEL_META_KEY);
+    return raw ? (JSON.parse(raw) as CognitiveModelMeta) : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Loads the user's personalised weights from IndexedDB if a compatible
+ * version exists, otherwise builds a fresh (untrained) network.
+ */
+const loadOrBuildModel = async (): Promise<tf.LayersModel> => {
+  const meta = getCognitiveModelMeta();
+
+  if (meta?.version === COGNITIVE_MODEL_VERSION) {
+    try {
+      const stored = await tf.loadLayersModel(MODEL_STORAGE_URL);
+      console.log(`[NeuroAdaptive] Restored personalised model v${meta.version} (${meta.trainedSamples} samples).`);
+      return stored;
+    } catch (err) {
+      console.warn('[NeuroAdaptive] Stored model unreadable, rebuilding:', err);
+    }
+  } else if (meta) {
+    console.warn(`[NeuroAdaptive] Discarding stored model v${meta.version} (current v${COGNITIVE_MODEL_VERSION}).`);
+    localStorage.removeItem(MODEL_META_KEY);
+    await tf.io.removeModel(MODEL_STORAGE_URL).catch(() => {});
+  }
+
+  return buildModel();
 };
 
+/**
+ * Initializes a lightweight neural network for predicting cognitive load.
+ * Runs entirely on the edge (WebGL/WASM).
+ */
+export const initCognitiveModel = async () => {
+  if (cognitiveModel) return;
+  if (initPromise) return initPromise;
+
+  initPromise = (async () => {
+    // Ensure backend is ready (WebGL is much faster than CPU)
+    await tf.ready();
+
+    const model = await loadOrBuildModel();
+    // Loaded models come back uncompiled — compile in both paths so fit() works.
+    model.compile({ optimizer: tf.train.adam(0.005), loss: 'meanSquaredError' });
+
+    cognitiveModel = model;
+    console.log('[NeuroAdaptive] Local TF.js Cognitive Model Initialized.');
+  })().finally(() => { initPromise = null; });
+
+  return initPromise;
+};
+
+/**
+ * Normalize raw features roughly to the 0-1 range to prevent exploding gradients.
+ * Shared by inference and training so both see the same input space.
+ */
+export const normalizeFeatures = (features: number[]): number[] => [
+  Math.min(features[0] / 150, 1), // KPM (assuming 150 is max)
+  Math.min(features[1], 1),       // Error Rate (already a ratio)
+  Math.min(features[2] / 10, 1),  // Pauses
+  Math.min(features[3] / 5, 1),   // Context Switches
+  Math.min(features[4] / 100, 1), // Facial Tension
+  Math.min(features[5] / 100, 1)  // Vocal Energy
+];
+
 /**
  * Predicts the cognitive load score (0-100) using the initialized TF.js model.
  */
 export const predictLoadScore = (features: number[]): number => {
   if (!cognitiveModel) {
     console.warn("TF.js model not initialized. Returning baseline.");
-    return 50; 
+    return 50;
   }
 
   // tf.tidy automatically cleans up intermediate tensors to prevent memory leaks
   return tf.tidy(() => {
-    // Normalize features roughly to 0-1 range to prevent exploding gradients
-    const normalizedFeatures = [
-      Math.min(features[0] / 150, 1), // KPM (assuming 150 is max)
-      Math.min(features[1], 1),       // Error Rate (already a ratio)
-      Math.min(features[2] / 10, 1),  // Pauses
-      Math.min(features[3] / 5, 1),   // Context Switches
-      Math.min(features[4] / 100, 1), // Facial Tension
-      Math.min(features[5] / 100, 1)  // Vocal Energy
-    ];
-
-    const inputTensor = tf.tensor2d([normalizedFeatures]);
+    const inputTensor = tf.tensor2d([normalizeFeatures(features)]);
     const prediction = cognitiveModel!.predict(inputTensor) as tf.Tensor;
     const score = prediction.dataSync()[0];
-    
+
     // Convert 0.0-1.0 to 0-100 score
     return Math.min(100, Math.max(0, Math.round(score * 100)));
   });
-};
\ No newline at end of file
+};
+
+/**
+ * Runs a short incremental fit on labelled samples and persists the updated
+ * weights to IndexedDB. `targets` are load scores in the 0.0-1.0 range.
+ * Returns the final training loss, or null if the model is not ready.
+ */
+export const fitCognitiveModel = async (
+  features: number[][],
+  targets: number[],
+  totalSamples: number,
+  epochs = 8
+): Promise<number | null> => {
+  if (!cognitiveModel || features.length === 0) return null;
+
+  const xs = tf.tensor2d(features.map(normalizeFeatures));
+  const ys = tf.tensor2d(targets.map((t) => [t]));
+
+  try {
+    const history = await cognitiveModel.fit(xs, ys, {
+      epochs,
+      batchSize: Math.min(32, features.length),
+      shuffle: true,
+      verbose: 0,
+    });
+
+    await cognitiveModel.save(MODEL_STORAGE_URL);
+    const meta: CognitiveModelMeta = {
+      version: COGNITIVE_MODEL_VERSION,
+      trainedSamples: totalSamples,
+      updatedAt: new Date().toISOString(),
+    };
+    localStorage.setItem(MODEL_META_KEY, JSON.stringify(meta));
+
+    const losses = history.history.loss as number[];
+    return losses[losses.length - 1] ?? null;
+  } finally {
+    xs.dispose();
+    ys.dispose();
+  }
+};
+
+/**
+ * Wipes the personalised weights so the next init starts from scratch.
+ */
+export const resetCognitiveModel = async () => {
+  cognitiveModel?.dispose();
+  cognitiveModel = null;
+  localStorage.removeItem(MODEL_META_KEY);
+  await tf.io.removeModel(MODEL_STORAGE_URL).catch(() => {});
+};
@@ -1,3 +1,7 @@
+import { authHeaders } from '../api';
+
+const BACKEND_URL = import.meta.env.VITE_BACKEND_URL ?? 'http://localhost:3000';
+
 // Define the structure of our local model weights/gradients
 export interface InteractionWeights {
   layoutSimplificationEfficacy: number;
@@ -6,6 +10,31 @@ export interface InteractionWeights {
   timeBufferAccuracy: number;
 }
 
+/**
+ * Wire order of InteractionWeights. The server's global model is a single
+ * layer of these four values, sent as `number[][]` (one row).
+ */
+const WEIGHT_KEYS: (keyof InteractionWeights)[] = [
+  'layoutSimplificationEfficacy',
+  'colorMutingEfficacy',
+  'dyslexicFontAdoption',
+  'timeBufferAccuracy',
+];
+
+const toGradientMatrix = (weights: InteractionWeights): number[][] => [WEIGHT_KEYS.map((k) => weights[k])];
+
+const fromGradientMatrix = (matrix: number[][]): InteractionWeights => {
+  const row = matrix[0] ?? [];
+  return WEIGHT_KEYS.reduce((acc, key, i) => {
+    acc[key] = typeof row[i] === 'number' ? row[i] : 0;
+    return acc;
+  }, {} as InteractionWeights);
+};
+
+/** After a failed transmission, wait this long before retrying (doubling up to the max). */
+const RETRY_BACKOFF_MS = 60_000;
+const MAX_RETRY_BACKOFF_MS = 60 * 60_000;
+
 // Differential Privacy Configuration
 const DP_CONFIG = {
   epsilon: 0.5, // Privacy budget (lower = more private, more noisy)
@@ -25,6 +54,13 @@ const generateLaplaceNoise = (scale: number): number => {
 export class FederatedLearningClient {
   private localWeights: InteractionWeights;
   private eventCount: number;
+  private globalWeights: InteractionWeights | null = null;
+  private globalVersion: string | null = null;
+  private transmitting: Promise<void> | null = null;
+  /** Version a transmission was refused for; a newer synced version lifts `retryAt` early. */
+  private blockedVersion: string | null = null;
+  private retryAt = 0;
+  private backoffMs = RETRY_BACKOFF_MS;
 
   constructor() {
     this.localWeights = {
@@ -45,12 +81,28 @@ export class FederatedLearningClient {
     this.localWeights[key] += clippedDelta;
     this.eventCount++;
 
-    // Autonomously attempt federated sync if batch size is met
-    if (this.eventCount >= DP_CONFIG.minBatchSize) {
-      this.transmitFederatedUpdate();
+    // Autonomously attempt federated sync if batch size is met and the last refusal has cleared
+    if (this.eventCount >= DP_CONFIG.minBatchSize && !this.transmitting && this.canRetry()) {
+      void this.transmitFederatedUpdate();
     }
   }
 
+  /** A refused round is only retried after the backoff, or once a newer global model is synced. */
+  private canRetry(): boolean {
+    if (Date.now() >= this.retryAt) return true;
+    return this.globalVersion !== null && this.globalVersion !== this.blockedVersion;
+  }
+
+  /**
+   * Holds further transmissions for this round. `untilNextRound` refusals
+   * (already contributed) only clear when the global version changes.
+   */
+  private backOff(untilNextRound: boolean) {
+    this.blockedVersion = this.globalVersion;
+    this.retryAt = untilNextRound ? Infinity : Date.now() + this.backoffMs;
+    if (!untilNextRound) this.backoffMs = Math.min(this.backoffMs * 2, MAX_RETRY_BACKOFF_MS);
+  }
+
   /**
    * Step 2: Inject Local Differential Privacy (LDP) Noise.
    */
@@ -71,42 +123,104 @@ export class FederatedLearningClient {
   /**
    * Step 3: Transmit the obfuscated gradients to the central aggregator.
    */
-  public async transmitFederatedUpdate() {
+  public async transmitFederatedUpdate(): Promise<void> {
     if (this.eventCount < DP_CONFIG.minBatchSize) {
       console.warn(`[Federated Client] K-anonymity gate blocked transmission. Events: ${this.eventCount}/${DP_CONFIG.minBatchSize}`);
       return;
     }
+    if (this.transmitting) return this.transmitting;
+
+    this.transmitting = this.sendUpdate().finally(() => { this.transmitting = null; });
+    return this.transmitting;
+  }
 
+  private async sendUpdate(): Promise<void> {
     try {
+      // Updates must target the current global version — sync first if we never have
+      if (!this.globalVersion) await this.syncGlobalModel();
+      if (!this.globalVersion) throw new Error('Global model version unavailable');
+
       // Create a snapshot and add noise
       const noisyGradients = this.applyDifferentialPrivacy({ ...this.localWeights });
 
-      // Transmit strictly the noisy gradients, NO user identifiers
-      const response = await fetch('/api/ml/federated-update', {
+      // Transmit strictly the noisy gradients. The access token only lets the server
+      // accept one update per user per round; it is not stored with the gradients.
+      const response = await fetch(`${BACKEND_URL}/api/ml/federated-update`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          // Note: Deliberately omitting Authorization headers to break linkage to the specific user profile
+          ...(await authHeaders()),
         },
         body: JSON.stringify({
-          gradients: noisyGradients,
+          gradients: toGradientMatrix(noisyGradients),
           batchSize: this.eventCount,
-          timestamp: new Date().toISOString()
+          timestamp: Date.now(),
+          modelVersion: this.globalVersion,
+          epsilon: DP_CONFIG.epsilon,
         })
       });
 
-      if (!response.ok) throw new Error('Failed to transmit federated gradients');
+      if (response.status === 409) {
+        // Global model moved on while we were accumulating. Re-sync and retry on the next batch;
+        // local deltas are relative to usage, not to the weights, so they stay valid.
+        console.warn('[Federated Client] Global model advanced. Re-syncing before next transmission.');
+        if (!(await this.syncGlobalModel())) this.backOff(false);
+        return;
+      }
+
+      const result = await response.json().catch(() => ({}));
+
+      if (response.status === 429 && !result.privacyBudget) {
+        // Already contributed to this round: only a new global version accepts another update
+        console.warn('[Federated Client] Already contributed to this round. Waiting for the next global model.');
+        this.backOff(true);
+        return;
+      }
+
+      if (!response.ok) throw new Error(`Failed to transmit federated gradients (HTTP ${response.status})`);
 
       console.log('[Federated Client] Successfully transmitted differentially private update.');
 
       // Reset local state after successful transmission
       this.resetLocalState();
+      this.retryAt = 0;
+      this.backoffMs = RETRY_BACKOFF_MS;
+
+      // A round just closed — pull the freshly averaged weights
+      if (result.aggregation?.aggregated) {
+        await this.syncGlobalModel();
+      }
 
     } catch (error) {
       console.error('[Federated Client] Transmission error:', error);
+      this.backOff(false);
+    }
+  }
+
+  /**
+   * Step 4: Pull the latest FedAvg global weights from the aggregator.
+   */
+  public async syncGlobalModel(): Promise<InteractionWeights | null> {
+    try {
+      const response = await fetch(`${BACKEND_URL}/api/ml/model-version`);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+      const { model } = await response.json();
+      this.globalVersion = model.version;
+      this.globalWeights = fromGradientMatrix(model.weights);
+      console.log(`[Federated Client] Synced global model ${model.version}.`);
+      return this.globalWeights;
+    } catch (error) {
+      console.error('[Federated Client] Global model sync failed:', error);
+      return null;
     }
   }
 
+  /** Last synced community-wide weights, or null before the first sync. */
+  public getGlobalWeights(): InteractionWeights | null {
+    return this.globalWeights;
+  }
+
   private resetLocalState() {
     this.localWeights = {
       layoutSimplificationEfficacy: 0,
@@ -0,0 +1,152 @@
+/**
+ * personalTrainer.ts — On-Device Personalisation for the Cognitive Load Model
+ *
+ * The TF.js network in cognitiveModel.ts starts from random weights. This
+ * module turns the user's own feedback into labelled training data and
+ * fine-tunes the network incrementally, entirely in the browser.
+ *
+ * Pipeline:
+ *  1. useCognitiveMonitor records every raw feature vector it scores into a
+ *     short rolling window (`recordFeatureSnapshot`).
+ *  2. When the user self-reports ("I'm overloaded" / "I'm in flow") or
+ *     dismisses Crisis Mode, the recent window is labelled with a target
+ *     load and moved into a capped sample store (`submitCognitiveLabel`).
+ *  3. A short fit runs on the new samples plus a replay slice of older ones
+ *     (so one report cannot erase everything learnt before), then the
+ *     weights are saved to IndexedDB via `tf.io`.
+ *
+ * Nothing here leaves the device — samples live in localStorage, weights
+ * in IndexedDB.
+ */
+
+import { fitCognitiveModel } from './cognitiveModel';
+
+export type CognitiveLabelSource = 'self_report_overload' | 'self_report_flow' | 'crisis_dismissed';
+
+export interface LabelledSample {
+  features: number[];
+  /** Target load in the 0.0-1.0 range. */
+  target: number;
+  source: CognitiveLabelSource;
+  timestamp: number;
+}
+
+/**
+ * Target load per label. Chosen to land inside the matching
+ * `calculateCognitiveLoad` classification band:
+ *  - overload   → > 80
+ *  - flow       → ≤ 25 (hyperfocus)
+ *  - "I am grounded" after a crisis → mid "normal" band; the takeover fired
+ *    on features the user says no longer reflect their state.
+ */
+const LABEL_TARGETS: Record<CognitiveLabelSource, number> = {
+  self_report_overload: 0.9,
+  self_report_flow: 0.15,
+  crisis_dismissed: 0.5,
+};
+
+const STORAGE_KEY = 'neuroadapt_cognitive_training_samples';
+/** How far back a label reaches — snapshots arrive every 2s from the monitor. */
+const LABEL_WINDOW_MS = 30_000;
+const MAX_WINDOW_SNAPSHOTS = 30;
+const MAX_STORED_SAMPLES = 500;
+const REPLAY_SAMPLE_COUNT = 64;
+
+const recentSnapshots: { features: number[]; timestamp: number }[] = [];
+let trainingQueue: Promise<void> = Promise.resolve();
+
+const loadSamples = (): LabelledSample[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as LabelledSample[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveSamples = (samples: LabelledSample[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(samples.slice(-MAX_STORED_SAMPLES)));
+};
+
+/** Random subset of older samples, mixed into each fit to limit forgetting. */
+const pickReplaySamples = (samples: LabelledSample[], count: number): LabelledSample[] => {
+  if (samples.length <= count) return samples;
+  const pool = samples.slice();
+  for (let i = pool.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+  return pool.slice(0, count);
+};
+
+/**
+ * Called by useCognitiveMonitor for every feature vector it scores.
+ */
+export const recordFeatureSnapshot = (features: number[]) => {
+  const now = Date.now();
+  recentSnapshots.push({ features: [...features], timestamp: now });
+
+  while (
+    recentSnapshots.length > MAX_WINDOW_SNAPSHOTS ||
+    (recentSnapshots.length > 0 && now - recentSnapshots[0].timestamp > LABEL_WINDOW_MS)
+  ) {
+    recentSnapshots.shift();
+  }
+};
+
+/**
+ * Labels the recent feature window and schedules an incremental training
+ * pass. Training runs are serialised so concurrent reports never overlap
+ * two `fit()` calls on the same model.
+ *
+ * Returns the number of new samples captured (0 if telemetry was idle).
+ */
+export const submitCognitiveLabel = (source: CognitiveLabelSource): number => {
+  const now = Date.now();
+  const windowed = recentSnapshots.filter((s) => now - s.timestamp <= LABEL_WINDOW_MS);
+  if (windowed.length === 0) {
+    console.warn('[PersonalTrainer] No recent telemetry to label — is the monitor running?');
+    return 0;
+  }
+
+  const newSamples: LabelledSample[] = windowed.map((s) => ({
+    features: s.features,
+    target: LABEL_TARGETS[source],
+    source,
+    timestamp: s.timestamp,
+  }));
+
+  // Consume the window so the same snapshots aren't labelled twice.
+  recentSnapshots.length = 0;
+
+  const history = loadSamples();
+  const replay = pickReplaySamples(history, REPLAY_SAMPLE_COUNT);
+  const allSamples = [...history, ...newSamples];
+  saveSamples(allSamples);
+
+  const batch = [...newSamples, ...replay];
+
+  trainingQueue = trainingQueue
+    .then(async () => {
+      const loss = await fitCognitiveModel(
+        batch.map((s) => s.features),
+        batch.map((s) => s.target),
+        Math.min(allSamples.length, MAX_STORED_SAMPLES)
+      );
+      if (loss !== null) {
+        console.log(`[PersonalTrainer] Trained on ${batch.length} samples (${source}). Loss: ${loss.toFixed(4)}`);
+      }
+    })
+    .catch((err) => console.error('[PersonalTrainer] Training pass failed:', err));
+
+  return newSamples.length;
+};
+
+/** Number of labelled samples stored on this device. */
+export const getStoredSampleCount = (): number => loadSamples().length;
+
+/** Removes all locally stored training samples. */
+export const clearTrainingSamples = () => {
+  recentSnapshots.length = 0;
+  localStorage.removeItem(STORAGE_KEY);
+};
@@ -0,0 +1,90 @@
+/**
+ * telemetrySocket.ts — Live Cognitive Telemetry Uplink
+ *
+ * Single shared Socket.io connection to the backend. useCognitiveMonitor
+ * streams each scored sample through `emitCognitiveState`; the server
+ * buffers them and writes batched snapshots + minute/hour/day rollups
+ * (server/src/services/TelemetryPipeline.ts).
+ *
+ * The handshake carries the Supabase access token; the server derives the
+ * user from it, so payloads never include a user ID.
+ *
+ * The server also pushes `ambient_action` events when one of the user's
+ * policy rules fires or releases (e.g. dim the UI during overload), and
+ * `commitment_reminder` events when a tracked promise is coming due.
+ *
+ * Emission is fire-and-forget: if the backend is down the socket queues
+ * nothing and reconnects quietly — the local UI never depends on it.
+ */
+
+import { io, type Socket } from 'socket.io-client';
+import type { CognitiveClassification } from '../stores/cognitiveStore';
+import type { Commitment } from './api';
+import { supabase } from './supabase';
+
+const BACKEND_URL = import.meta.env.VITE_BACKEND_URL ?? 'http://localhost:3000';
+
+export interface CognitiveStatePayload {
+  score: number;
+  classification: CognitiveClassification;
+  context_switches: number;
+  timestamp: string;
+}
+
+/** Pushed when a policy rule with a client-side effect fires (active) or releases. */
+export interface AmbientAction {
+  type: 'dim_ui' | 'defer_meetings';
+  active: boolean;
+  ruleId: string;
+}
+
+let socket: Socket | null = null;
+/** Kept outside the socket so subscriptions survive a disconnect/reconnect cycle. */
+const ambientListeners = new Set<(action: AmbientAction) => void>();
+const reminderListeners = new Set<(commitment: Commitment) => void>();
+
+const getSocket = (): Socket => {
+  if (!socket) {
+    socket = io(BACKEND_URL, {
+      withCredentials: true,
+      reconnectionDelayMax: 30_000,
+      // Re-read on every (re)connect so refreshed tokens are picked up
+      auth: async (cb) => {
+        const { data: { session } } = await supabase.auth.getSession();
+        cb({ token: session?.access_token });
+      },
+    });
+    socket.on('connect_error', (err) => console.warn('[TelemetrySocket] Connection failed:', err.message));
+    socket.on('ambient_action', (action: AmbientAction) => ambientListeners.forEach((listener) => listener(action)));
+    socket.on('commitment_reminder', (commitment: Commitment) => reminderListeners.forEach((listener) => listener(commitment)));
+  }
+  return socket;
+};
+
+/**
+ * Streams one sample to the server. Dropped (not queued) while disconnected,
+ * so a long outage can't flood the server with stale samples on reconnect.
+ */
+export const emitCognitiveState = (payload: CognitiveStatePayload) => {
+  const s = getSocket();
+  if (s.connected) s.volatile.emit('ingest_cognitive_state', payload);
+};
+
+/** Subscribes to policy-driven ambient actions; returns the unsubscribe function. */
+export const onAmbientAction = (listener: (action: AmbientAction) => void) => {
+  ambientListeners.add(listener);
+  getSocket();
+  return () => { ambientListeners.delete(listener); };
+};
+
+/** Subscribes to commitment reminders; returns the unsubscribe function. */
+export const onCommitmentReminder = (listener: (commitment: Commitment) => void) => {
+  reminderListeners.add(listener);
+  getSocket();
+  return () => { reminderListeners.delete(listener); };
+};
+
+export const disconnectTelemetrySocket = () => {
+  socket?.disconnect();
+  socket = null;
+};
@@ -0,0 +1,226 @@
+/**
+ * ChildLogin — Kids Module
+ *
+ * "Who's playing?" screen on the parent's device. The child taps their
+ * avatar and enters their PIN on a number pad; the server checks it
+ * (POST /api/kids/login) and returns a short-lived child session token.
+ * From then on the app only shows the games until "Switch player".
+ * "Grown-ups" leads back to the Parent Dashboard only after the parent's
+ * password (ParentGate), since the child is already holding the device.
+ *
+ * Opened from the Parent Dashboard's "Play" buttons with the child and game
+ * preselected, or directly from /kids/login.
+ *
+ * Styling: Tailwind + Framer Motion. Zero CSS file imports.
+ */
+import { useEffect, useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ArrowLeft, Delete, Loader2, Lock } from 'lucide-react';
+import { fetchKidsChildren, loginChild, type KidsChildProfile } from '../lib/api';
+import { useChildSessionStore } from '../stores/childSessionStore';
+import ParentGate from '../components/kids-module/ParentGate';
+
+type GameRoute = '/kids/play/1' | '/kids/play/2';
+
+const GAME_NAMES: Record<GameRoute, string> = {
+  '/kids/play/1': 'Crack the Quiz',
+  '/kids/play/2': 'Drag & Spell',
+};
+
+const MAX_PIN_LENGTH = 8;
+const MIN_PIN_LENGTH = 4;
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+
+// ─── Component ────────────────────────────────────────────────────────────────
+export default function ChildLogin() {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { childId: preselectedId, gameRoute } = (location.state as {
+    childId?: string; gameRoute?: GameRoute;
+  }) ?? {};
+  const startSession = useChildSessionStore(s => s.startSession);
+
+  const [children, setChildren]     = useState<KidsChildProfile[]>([]);
+  const [loading, setLoading]       = useState(true);
+  const [fetchError, setFetchError] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(preselectedId ?? null);
+  const [pin, setPin]               = useState('');
+  const [message, setMessage]       = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [showParentGate, setShowParentGate] = useState(false);
+
+  useEffect(() => {
+    fetchKidsChildren()
+      .then(list => setChildren(list.filter(c => c.isActive)))
+      .catch(() => setFetchError('Could not load players. Ask a grown-up for help.'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const selected = children.find(c => c.id === selectedId) ?? null;
+
+  const selectChild = (child: KidsChildProfile) => {
+    setSelectedId(child.id);
+    setPin('');
+    setMessage('');
+  };
+
+  const pressDigit = (digit: string) => {
+    setMessage('');
+    setPin(p => (p.length < MAX_PIN_LENGTH ? p + digit : p));
+  };
+
+  const handleLogin = async () => {
+    if (!selected || pin.length < MIN_PIN_LENGTH) return;
+    setSubmitting(true);
+    const result = await loginChild(selected.id, pin);
+    setSubmitting(false);
+    setPin('');
+
+    switch (result.status) {
+      case 'ok':
+        startSession({
+          token: result.token,
+          expiresAt: result.expiresAt,
+          childId: result.child.id,
+          childName: result.child.name,
+          age: result.child.age,
+          avatarUrl: selected.avatarUrl,
+        });
+        if (gameRoute) navigate(gameRoute, { replace: true, state: { gameName: GAME_NAMES[gameRoute] } });
+        else navigate('/kids/games', { replace: true });
+        return;
+      case 'invalid_pin':
+        setMessage(`That's not it. ${result.attemptsRemaining} ${result.attemptsRemaining === 1 ? 'try' : 'tries'} left.`);
+        return;
+      case 'locked':
+        setChildren(prev => prev.map(c => (c.id === selected.id ? { ...c, lockedUntil: result.lockedUntil } : c)));
+        setMessage(`Too many tries. Ask a grown-up, or try again at ${formatTime(result.lockedUntil)}.`);
+        return;
+      case 'error':
+        setMessage(result.error);
+    }
+  };
+
+  // ════════════════════════════════════════════════════════════════════════════
+  return (
+    <div className="min-h-screen bg-[#fcfbf8] dark:bg-[#221d10] font-display antialiased flex flex-col items-center px-4 py-10 text-[#422006] dark:text-yellow-100">
+      <button
+        onClick={() => setShowParentGate(true)}
+        className="self-start flex items-center gap-1.5 text-sm text-[#9a864c] hover:text-[#422006] transition"
+      >
+        <ArrowLeft className="w-4 h-4" /> Grown-ups
+      </button>
+
+      <ParentGate
+        open={showParentGate}
+        action="open the Parent Dashboard"
+        onVerified={() => navigate('/kids/parent')}
+        onCancel={() => setShowParentGate(false)}
+      />
+
+      <h1 className="mt-6 text-3xl font-bold tracking-tight">Who's playing?</h1>
+
+      {loading && <Loader2 className="mt-10 w-8 h-8 animate-spin text-[#eebd2b]" />}
+      {fetchError && <p className="mt-10 text-red-600 text-sm">{fetchError}</p>}
+      {!loading && !fetchError && children.length === 0 && (
+        <p className="mt-10 text-[#9a864c] text-sm">No players yet. A grown-up can add one from the Parent Dashboard.</p>
+      )}
+
+      {/* ── Avatar picker ─────────────────────────────────────────────────── */}
+      <div className="mt-8 flex flex-wrap justify-center gap-6">
+        {children.map(child => (
+          <motion.button
+            key={child.id}
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            onClick={() => selectChild(child)}
+            className="flex flex-col items-center gap-2"
+          >
+            <div className={`relative size-24 rounded-full border-4 overflow-hidden flex items-center justify-center text-4xl font-bold bg-[#fff5d6] transition
+              ${child.id === selectedId ? 'border-[#eebd2b] shadow-lg shadow-yellow-400/40' : 'border-transparent'}`}
+            >
+              {child.avatarUrl
+                ? <img src={child.avatarUrl} alt="" className="w-full h-full object-cover" />
+                : child.name.charAt(0).toUpperCase()}
+              {child.lockedUntil && (
+                <span className="absolute inset-0 flex items-center justify-center bg-black/40">
+                  <Lock className="w-8 h-8 text-white" />
+                </span>
+              )}
+            </div>
+            <span className="font-semibold">{child.name}</span>
+          </motion.button>
+        ))}
+      </div>
+
+      {/* ── PIN pad ───────────────────────────────────────────────────────── */}
+      <AnimatePresence>
+        {selected && (
+          <motion.div
+            key="pin-pad"
+            initial={{ opacity: 0, y: 12 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0 }}
+            className="mt-10 flex flex-col items-center gap-5"
+          >
+            {!selected.hasPin ? (
+              <p className="text-sm text-[#9a864c]">Ask a grown-up to set a PIN for {selected.name}.</p>
+            ) : selected.lockedUntil ? (
+              <p className="text-sm text-red-600">
+                {selected.name} is locked until {formatTime(selected.lockedUntil)}. A grown-up can reset the PIN.
+              </p>
+            ) : (
+              <>
+                <div className="flex gap-3" aria-label={`${pin.length} digits entered`}>
+                  {Array.from({ length: Math.max(MIN_PIN_LENGTH, pin.length) }, (_, i) => (
+                    <span key={i} className={`size-4 rounded-full ${i < pin.length ? 'bg-[#eebd2b]' : 'bg-[#f3f0e7] dark:bg-[#3d341e]'}`} />
+                  ))}
+                </div>
+
+                <div className="grid grid-cols-3 gap-3">
+                  {['1', '2', '3', '4', '5', '6', '7', '8', '9'].map(d => (
+                    <PadKey key={d} onClick={() => pressDigit(d)} disabled={submitting}>{d}</PadKey>
+                  ))}
+                  <PadKey onClick={() => setPin(p => p.slice(0, -1))} disabled={submitting} label="Delete">
+                    <Delete className="w-6 h-6" />
+                  </PadKey>
+                  <PadKey onClick={() => pressDigit('0')} disabled={submitting}>0</PadKey>
+                  <PadKey onClick={handleLogin} disabled={submitting || pin.length < MIN_PIN_LENGTH} label="Go" primary>
+                    {submitting ? <Loader2 className="w-6 h-6 animate-spin" /> : 'Go'}
+                  </PadKey>
+                </div>
+              </>
+            )}
+
+            {message && <p className="text-sm font-semibold text-red-600">{message}</p>}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
+
+// ─── Number pad key ───────────────────────────────────────────────────────────
+function PadKey({ children, onClick, disabled, label, primary }: {
+  children: React.ReactNode;
+  onClick: () => void;
+  disabled?: boolean;
+  label?: string;
+  primary?: boolean;
+}) {
+  return (
+    <motion.button
+      whileTap={{ scale: 0.92 }}
+      onClick={onClick}
+      disabled={disabled}
+      aria-label={label}
+      className={`size-16 rounded-2xl text-2xl font-bold flex items-center justify-center transition disabled:opacity-40
+        ${primary
+          ? 'bg-[#eebd2b] hover:bg-yellow-400 text-[#422006]'
+          : 'bg-[#fffdf5] dark:bg-[#2d2616] border border-[#f3f0e7] dark:border-[#3d341e] hover:bg-[#fcfbf8]'}`}
+    >
+      {children}
+    </motion.button>
+  );
+}
@@ -4,11 +4,13 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { useCognitiveStore } from '../stores/cognitiveStore';
 import { useCognitiveMonitor } from '../hooks/useCognitiveMonitor';
 import { useDemoSimulator } from '../hooks/useDemoSimulator';
+import { useFederatedLearning } from '../hooks/useFederatedLearning';
 import { EnergyTimeline } from '../components/dashboard/EnergyTimeline';
 import { PermissionsRequest } from '../components/shared/PermissionsRequest';
 import { OSFocusBridge } from '../components/shared/OSFocusBridge';
 import { SensoryEqualizer } from '../components/shared/SensoryEqualizer';
 import { supabase } from '../lib/supabase';
+import { submitCognitiveLabel, type CognitiveLabelSource } from '../lib/ml/personalTrainer';
 
 // ─── Debug Overlay: flickers green dot every processed frame ─────────────────
 const BiometricDebugDot: React.FC<{ frameRef: React.MutableRefObject<number> }> = ({ frameRef }) => {
@@ -58,14 +60,23 @@ export const Dashboard: React.FC<{ userId: string }> = ({ userId }) => {
   const onBiometricFrame = useCallback(() => { frameCounter.current += 1; }, []);
 
   // Initialize biome engine
-  useCognitiveMonitor();
+  useCognitiveMonitor(userId);
   useDemoSimulator(userId);
+  useFederatedLearning(userId);
 
   const navigate = useNavigate();
   const [showOSBridge, setShowOSBridge] = useState(false);
   const [showNotifToast, setShowNotifToast] = useState(false);
   const [focusSessionActive, setFocusSessionActive] = useState(false);
   const [focusMinutes, setFocusMinutes] = useState(0);
+  const [selfReportAck, setSelfReportAck] = useState<string | null>(null);
+
+  // Self-reports label the last ~30s of telemetry and fine-tune the on-device model
+  const handleSelfReport = useCallback((source: CognitiveLabelSource) => {
+    const captured = submitCognitiveLabel(source);
+    setSelfReportAck(captured > 0 ? 'Thanks — your model is learning from this.' : 'Enable telemetry first so there is something to learn from.');
+    setTimeout(() => setSelfReportAck(null), 2500);
+  }, []);
 
   // ── Audio player state (widget #8) ──────────────────────────────────────
   const [isAudioPlaying, setIsAudioPlaying] = useState(false);
@@ -486,6 +497,18 @@ export const Dashboard: React.FC<{ userId: string }> = ({ userId }) => {
           <div className="bg-white border border-slate-100 shadow-sm rounded-3xl overflow-hidden transition-all duration-300 hover:shadow-md col-span-1 md:col-span-2 p-6 flex flex-col justify-center">
             <h3 className="text-sm font-bold text-slate-900 mb-4">Quick Adjustments</h3>
             <div className="flex gap-3 overflow-x-auto pb-2 custom-scrollbar">
+              <button
+                onClick={() => handleSelfReport('self_report_overload')}
+                className="flex items-center gap-2 px-4 py-2 bg-rose-50 hover:bg-rose-100 border border-rose-100 hover:border-rose-200 rounded-xl text-xs font-semibold text-rose-700 transition-all shadow-sm whitespace-nowrap">
+                <span className="material-symbols-outlined text-base">sentiment_stressed</span>
+                I'm overloaded
+              </button>
+              <button
+                onClick={() => handleSelfReport('self_report_flow')}
+                className="flex items-center gap-2 px-4 py-2 bg-sky-50 hover:bg-sky-100 border border-sky-100 hover:border-sky-200 rounded-xl text-xs font-semibold text-sky-700 transition-all shadow-sm whitespace-nowrap">
+                <span className="material-symbols-outlined text-base">self_improvement</span>
+                I'm in flow
+              </button>
               <button 
                 onClick={() => setAudioDucked(!isAudioDucked)}
                 className={`flex items-center gap-2 px-4 py-2 hover:bg-white border hover:border-slate-200 rounded-xl text-xs font-semibold transition-all shadow-sm whitespace-nowrap ${isAudioDucked ? 'bg-red-50 border-red-200 text-red-600' : 'bg-slate-50 border-slate-100 text-slate-600'}`}>
@@ -517,6 +540,9 @@ export const Dashboard: React.FC<{ userId: string }> = ({ userId }) => {
                 Reading Mode
               </Link>
             </div>
+            {selfReportAck && (
+              <p className="text-[11px] text-slate-500 mt-2">{selfReportAck}</p>
+            )}
           </div>
         </div>
 
@@ -1,4 +1,4 @@
-import React, { useState, useMemo } from 'react';
+import React, { useEffect, useState } from 'react';
 import { 
   AreaChart, Area, BarChart, Bar, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, Radar,
   XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid, Cell
@@ -7,46 +7,48 @@ import {
   Users, AlertTriangle, MessageSquare, Calendar, ShieldCheck, 
   TrendingUp, DollarSign, HeartHandshake, BatteryCharging 
 } from 'lucide-react';
+import {
+  fetchManagerAccommodations,
+  fetchManagerBurnoutTrend,
+  fetchManagerRoi,
+  type ManagerAccommodationReport,
+  type ManagerBurnoutTrend,
+  type ManagerRoiReport,
+} from '../lib/api';
+import { LlmUsagePanel } from '../components/manager/LlmUsagePanel';
 
-// --- MOCK DATA ---
-const mockAggregatedData = {
-  clusterName: "Engineering Team Alpha",
-  activeUsers: 142,
-  kAnonymityThreshold: 5,
-  baselineTurnoverRate: 0.15, // 15% annual turnover baseline
-  costPerTurnover: 50000, // $50k cost to replace
-  burnoutRiskReduction: 0.22, // 22% reduction in burnout risk via NeuroAdaptive OS
-  
-  burnoutRiskTrend: [
-    { day: 'Mon', riskScore: 45 },
-    { day: 'Tue', riskScore: 52 },
-    { day: 'Wed', riskScore: 68 },
-    { day: 'Thu', riskScore: 82 }, 
-    { day: 'Fri', riskScore: 75 },
-  ],
-  
-  deiAccommodations: [
-    { metric: 'Communication Proxy', usage: 88 },
-    { metric: 'Sensory Equalizer', usage: 65 },
-    { metric: 'Time Blindness Buffer', usage: 45 },
-    { metric: 'Executive Task Bypass', usage: 72 },
-    { metric: 'Body Doubling Lobby', usage: 50 },
-  ],
-  
-  maskingHoursSaved: 1240 // Total hours saved this month team-wide
-};
+// Every team figure below comes from /api/manager/*, which suppresses any
+// cell with fewer than k contributors (null) before it leaves the server.
+// The AI Usage tab is operational (per agent, not per person) and loads on its own.
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { weekday: 'short', timeZone: 'UTC' });
 
 export const ManagerDashboard: React.FC = () => {
-  const [data] = useState(mockAggregatedData);
-  const [activeTab, setActiveTab] = useState<'insights' | 'roi' | 'dei'>('roi');
+  const [trend, setTrend] = useState<ManagerBurnoutTrend | null>(null);
+  const [accommodations, setAccommodations] = useState<ManagerAccommodationReport | null>(null);
+  const [roi, setRoi] = useState<ManagerRoiReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<'insights' | 'roi' | 'dei' | 'usage'>('roi');
 
-  // --- CALCULATIONS ---
-  const isPrivacyCompliant = data.activeUsers >= data.kAnonymityThreshold;
+  useEffect(() => {
+    Promise.all([fetchManagerBurnoutTrend(), fetchManagerAccommodations(), fetchManagerRoi()])
+      .then(([trendData, accommodationData, roiData]) => {
+        setTrend(trendData);
+        setAccommodations(accommodationData);
+        setRoi(roiData);
+      })
+      .catch((err: Error) => {
+        console.error('[ManagerDashboard] Failed to load aggregates:', err);
+        setLoadError(err.message);
+      })
+      .finally(() => setLoading(false));
+  }, []);
 
-  // ROI Math
-  const expectedAnnualDepartures = data.activeUsers * data.baselineTurnoverRate;
-  const preventedDepartures = expectedAnnualDepartures * data.burnoutRiskReduction;
-  const annualSavings = preventedDepartures * data.costPerTurnover;
+  // --- CALCULATIONS ---
+  const isPrivacyCompliant = roi?.activeUsers != null;
+  const annualSavings = roi?.annualSavings ?? 0;
 
   const roiChartData = [
     { quarter: 'Q1', savings: Math.round(annualSavings * 0.15) },
@@ -55,6 +57,25 @@ export const ManagerDashboard: React.FC = () => {
     { quarter: 'Q4', savings: Math.round(annualSavings * 0.30) },
   ];
 
+  const trendChartData = (trend?.points ?? []).map(point => ({
+    day: formatDay(point.date),
+    riskScore: point.riskScore,
+  }));
+  const suppressedDays = (trend?.points ?? []).filter(point => point.riskScore === null).length;
+
+  const radarData = (accommodations?.features ?? []).map(feature => ({
+    metric: feature.usagePercent === null ? `${feature.label} (suppressed)` : feature.label,
+    usage: feature.usagePercent ?? 0,
+  }));
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-slate-50 flex items-center justify-center">
+        <div className="w-6 h-6 border-2 border-slate-200 border-t-indigo-500 rounded-full animate-spin" />
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-slate-50 p-8 lg:p-12 font-sans text-slate-800">
       
@@ -62,12 +83,12 @@ export const ManagerDashboard: React.FC = () => {
       <header className="mb-8 flex flex-col md:flex-row md:items-center justify-between gap-4">
         <div>
           <h1 className="text-3xl font-light tracking-tight">Enterprise Intelligence</h1>
-          <p className="text-slate-500 mt-1 font-medium">{data.clusterName} • B2B Analytics</p>
+          <p className="text-slate-500 mt-1 font-medium">{roi?.clusterName ?? 'All Teams'} • B2B Analytics</p>
         </div>
         <div className="flex items-center gap-3 px-4 py-2 bg-emerald-50 border border-emerald-100 rounded-full shadow-sm">
           <ShieldCheck className="w-5 h-5 text-emerald-600" />
           <span className="text-xs font-bold text-emerald-800 uppercase tracking-wider">
-            k-Anonymity Active (n={data.activeUsers})
+            k-Anonymity Active (k={roi?.kAnonymityThreshold ?? 5}{isPrivacyCompliant ? `, n=${roi?.activeUsers}` : ''})
           </span>
         </div>
       </header>
@@ -92,9 +113,23 @@ export const ManagerDashboard: React.FC = () => {
         >
           DEI Compliance
         </button>
+        <button 
+          className={`pb-3 text-sm font-medium transition-colors border-b-2 ${activeTab === 'usage' ? 'text-amber-600 border-amber-600' : 'text-slate-400 border-transparent hover:text-slate-600'}`}
+          onClick={() => setActiveTab('usage')}
+        >
+          AI Usage
+        </button>
       </div>
 
-      {!isPrivacyCompliant ? (
+      {activeTab === 'usage' ? (
+        <LlmUsagePanel />
+      ) : loadError ? (
+        <div className="p-8 bg-white rounded-3xl border border-slate-200 text-center">
+          <AlertTriangle className="w-12 h-12 text-slate-300 mx-auto mb-4" />
+          <h2 className="text-xl font-medium text-slate-700">Aggregates Unavailable</h2>
+          <p className="text-slate-500 mt-2">{loadError}</p>
+        </div>
+      ) : !roi || roi.activeUsers === null ? (
         <div className="p-8 bg-white rounded-3xl border border-slate-200 text-center">
           <ShieldCheck className="w-12 h-12 text-slate-300 mx-auto mb-4" />
           <h2 className="text-xl font-medium text-slate-700">Insufficient Data for Anonymity</h2>
@@ -116,19 +151,19 @@ export const ManagerDashboard: React.FC = () => {
                 <div className="space-y-6">
                   <div>
                     <label className="text-xs font-bold text-slate-500 uppercase tracking-wider block mb-2">Team Size</label>
-                    <div className="text-2xl font-light text-slate-800">{data.activeUsers} Employees</div>
+                    <div className="text-2xl font-light text-slate-800">{roi.activeUsers} Employees</div>
                   </div>
                   
                   <div>
                     <label className="text-xs font-bold text-slate-500 uppercase tracking-wider block mb-2">Turnover Replacement Cost</label>
-                    <div className="text-2xl font-light text-slate-800">${data.costPerTurnover.toLocaleString()} <span className="text-sm text-slate-400">/ per head</span></div>
+                    <div className="text-2xl font-light text-slate-800">${roi.costPerTurnover.toLocaleString()} <span className="text-sm text-slate-400">/ per head</span></div>
                     <p className="text-xs text-slate-400 mt-1">Industry standard for recruitment, onboarding, and lost productivity.</p>
                   </div>
 
                   <div className="pt-6 border-t border-slate-100">
                     <label className="text-xs font-bold text-emerald-600 uppercase tracking-wider block mb-2">OS Burnout Mitigation</label>
-                    <div className="text-3xl font-light text-emerald-600">{(data.burnoutRiskReduction * 100).toFixed(1)}%</div>
-                    <p className="text-xs text-emerald-700/70 mt-1">Reduction in critical cognitive load spikes.</p>
+                    <div className="text-3xl font-light text-emerald-600">{roi.burnoutRiskReduction === null ? '—' : `${(roi.burnoutRiskReduction * 100).toFixed(1)}%`}</div>
+                    <p className="text-xs text-emerald-700/70 mt-1">Drop in team burnout risk from the first to the last week.</p>
                   </div>
                 </div>
               </div>
@@ -138,7 +173,7 @@ export const ManagerDashboard: React.FC = () => {
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div className="p-6 bg-emerald-50 border border-emerald-100 rounded-3xl">
                     <h4 className="text-sm font-semibold text-emerald-800 mb-1">Prevented Turnover</h4>
-                    <span className="text-4xl font-light text-emerald-600">{preventedDepartures.toFixed(1)} <span className="text-lg">employees</span></span>
+                    <span className="text-4xl font-light text-emerald-600">{roi.preventedDepartures === null ? '—' : roi.preventedDepartures.toFixed(1)} <span className="text-lg">employees</span></span>
                   </div>
                   <div className="p-6 bg-slate-800 rounded-3xl shadow-lg">
                     <h4 className="text-sm font-semibold text-slate-300 mb-1">Estimated Annual Savings</h4>
@@ -190,7 +225,7 @@ export const ManagerDashboard: React.FC = () => {
                       <BatteryCharging className="w-5 h-5 text-purple-600" />
                       <h4 className="text-sm font-bold text-purple-800 uppercase tracking-wider">Masking Energy Saved</h4>
                     </div>
-                    <span className="text-3xl font-light text-purple-900">{data.maskingHoursSaved.toLocaleString()} <span className="text-base font-medium opacity-70">hours / mo</span></span>
+                    <span className="text-3xl font-light text-purple-900">{accommodations?.maskingHoursSaved == null ? '—' : accommodations.maskingHoursSaved.toLocaleString()} <span className="text-base font-medium opacity-70">hours / {accommodations?.windowDays ?? 28} days</span></span>
                     <p className="text-xs text-purple-700 mt-2">Cognitive labor reallocated from social navigation back into deep work.</p>
                   </div>
                 </div>
@@ -202,7 +237,7 @@ export const ManagerDashboard: React.FC = () => {
                 
                 <div className="w-full mt-2">
                   <ResponsiveContainer width="100%" height={320} minWidth={0}>
-                    <RadarChart cx="50%" cy="50%" outerRadius="70%" data={data.deiAccommodations}>
+                    <RadarChart cx="50%" cy="50%" outerRadius="70%" data={radarData}>
                       <PolarGrid stroke="#E2E8F0" />
                       <PolarAngleAxis dataKey="metric" tick={{ fill: '#475569', fontSize: 11, fontWeight: 600 }} />
                       <PolarRadiusAxis angle={30} domain={[0, 100]} tick={false} axisLine={false} />
@@ -226,12 +261,44 @@ export const ManagerDashboard: React.FC = () => {
             </div>
           )}
 
-          {/* Fallback for Insights Tab from previous iteration */}
+          {/* ==================== INSIGHTS TAB ==================== */}
           {activeTab === 'insights' && (
-            <div className="p-12 text-center bg-white rounded-3xl border border-slate-200">
-              <Calendar className="w-12 h-12 text-slate-300 mx-auto mb-4" />
-              <h2 className="text-xl font-medium text-slate-700">Team Insights Active</h2>
-              <p className="text-slate-500 mt-2">Switch to Financial ROI or DEI Compliance for executive reporting.</p>
+            <div className="bg-white p-6 md:p-8 rounded-3xl shadow-sm border border-slate-100">
+              <div className="flex items-center justify-between mb-6">
+                <h3 className="text-lg font-semibold flex items-center gap-2 text-slate-800">
+                  <TrendingUp className="w-5 h-5 text-indigo-500" /> Team Burnout Risk
+                </h3>
+                <span className="flex items-center gap-1.5 text-xs text-slate-400">
+                  <Users className="w-3.5 h-3.5" /> Last {trend?.windowDays ?? 14} days
+                </span>
+              </div>
+
+              {trendChartData.length === 0 ? (
+                <div className="p-12 text-center">
+                  <Calendar className="w-12 h-12 text-slate-300 mx-auto mb-4" />
+                  <p className="text-slate-500">No team telemetry in this window yet.</p>
+                </div>
+              ) : (
+                <ResponsiveContainer width="100%" height={280} minWidth={0}>
+                  <AreaChart data={trendChartData} margin={{ top: 10, right: 0, left: -20, bottom: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#F1F5F9" />
+                    <XAxis dataKey="day" axisLine={false} tickLine={false} tick={{ fill: '#94A3B8', fontSize: 12 }} dy={10} />
+                    <YAxis domain={[0, 100]} axisLine={false} tickLine={false} tick={{ fill: '#94A3B8', fontSize: 12 }} />
+                    <Tooltip
+                      formatter={(value: number | undefined) => [`${value ?? '—'}`, 'Risk Score']}
+                      contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+                    />
+                    <Area type="monotone" dataKey="riskScore" stroke="#6366F1" strokeWidth={2} fill="#6366F1" fillOpacity={0.15} />
+                  </AreaChart>
+                </ResponsiveContainer>
+              )}
+
+              {suppressedDays > 0 && (
+                <p className="flex items-center gap-1.5 text-xs text-slate-400 mt-4">
+                  <MessageSquare className="w-3.5 h-3.5" />
+                  {suppressedDays} day{suppressedDays === 1 ? '' : 's'} hidden — fewer than {trend?.kAnonymityThreshold ?? 5} contributors.
+                </p>
+              )}
             </div>
           )}
 
@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { supabase } from '../lib/supabase';
+import { API_BASE_URL, authHeaders, hybridSearchMemories, type HybridMemoryResult } from '../lib/api';
+import { CommitmentTracker } from '../components/memory/CommitmentTracker';
 import { Loader2, Search, BrainCircuit, CheckSquare } from 'lucide-react';
 
 // ─── Demo data for hackathon mode (shown when pgvector/backend unavailable) ────
@@ -20,6 +21,7 @@ export const Memory: React.FC<{ userId: string }> = ({ userId }) => {
   const [loading, setLoading] = useState(false);
   const [answer, setAnswer] = useState<string>('');
   const [streamError, setStreamError] = useState<string | null>(null);
+  const [hits, setHits] = useState<HybridMemoryResult[]>([]);
   const abortControllerRef = useRef<AbortController | null>(null);
 
   // ─── Helper: stream Gemini answer from backend ────────────────────────────
@@ -28,9 +30,9 @@ export const Memory: React.FC<{ userId: string }> = ({ userId }) => {
       ? `You are a Prosthetic Memory assistant. From the context below, extract the single most pressing action item. Return ONLY one bolded bullet point.\n\nContext: ${contextStr}\nQuery: "${userQuery}"`
       : `You are a Prosthetic Memory assistant. Answer directly using ONLY this context.\n\nContext: ${contextStr}\nQuery: "${userQuery}"`;
     try {
-      const streamResponse = await fetch('http://localhost:3000/api/agents/stream', {
+      const streamResponse = await fetch(`${API_BASE_URL}/agents/stream`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
         body: JSON.stringify({ prompt, model: 'gemini-2.0-flash' }),
         signal: abortControllerRef.current?.signal,
       });
@@ -65,6 +67,7 @@ export const Memory: React.FC<{ userId: string }> = ({ userId }) => {
     setLoading(true);
     setAnswer('');
     setStreamError(null);
+    setHits([]);
     
     // Clear any previous abort controller
     if (abortControllerRef.current) {
@@ -75,38 +78,18 @@ export const Memory: React.FC<{ userId: string }> = ({ userId }) => {
     abortControllerRef.current = new AbortController();
 
     try {
-      // 1. Embed the user's query
-      const embeddingResponse = await fetch('http://localhost:3000/api/embed', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ text: query }),
-        signal: abortControllerRef.current.signal
-      });
-
-      if (!embeddingResponse.ok) {
-        throw new Error(`Embedding failed: ${embeddingResponse.status}`);
-      }
-
-      const { embedding } = await embeddingResponse.json();
-      const queryEmbedding = embedding;
-
-      // 2. Intent Routing: Is this an action item request?
+      // 1. Intent Routing: Is this an action item request?
       const isActionItemQuery = query.toLowerCase().includes('action item') || 
                                 query.toLowerCase().includes('do i need to do') ||
                                 query.toLowerCase().includes('task');
 
-      // 3. Call the appropriate Supabase RPC
-      const rpcName = isActionItemQuery ? 'match_action_items' : 'match_memories';
-      const { data: matches, error } = await supabase.rpc(rpcName, {
-        query_embedding: queryEmbedding,
-        p_user_id: userId,
-        match_threshold: 0.65,
-        match_count: 5,
+      // 2. Hybrid keyword + semantic search; names and "last week" are matched exactly server-side
+      const { results: matches } = await hybridSearchMemories(query, {
+        topK: 5,
+        signal: abortControllerRef.current.signal,
       });
 
-      if (error) throw error;
-
-      if (!matches || matches.length === 0) {
+      if (matches.length === 0) {
         // Fall back to demo data — so the feature always works in demo/hackathon mode
         const demoMatches = DEMO_MEMORIES.filter(m =>
           m.content.toLowerCase().includes(query.toLowerCase().split(' ')[0]) ||
@@ -122,7 +105,10 @@ export const Memory: React.FC<{ userId: string }> = ({ userId }) => {
         return;
       }
 
-      const contextStr = matches.map((m: any) => m.content).join('\n\n');
+      setHits(matches);
+      const contextStr = matches
+        .map((m) => `[${String(m.metadata.source ?? 'memory').toUpperCase()} · ${new Date(m.occurredAt).toLocaleDateString()}] ${m.content}`)
+        .join('\n\n');
       await streamGeminiAnswer(contextStr, query, isActionItemQuery);
       
     } catch (error: any) {
@@ -165,7 +151,7 @@ export const Memory: React.FC<{ userId: string }> = ({ userId }) => {
         <h1 className="text-3xl font-light text-slate-800 tracking-tight flex items-center gap-3">
           <BrainCircuit className="w-8 h-8 text-teal-500" /> Prosthetic Memory
         </h1>
-        <p className="text-slate-500 mt-2">Semantic retrieval for degraded working memory.</p>
+        <p className="text-slate-500 mt-2">Keyword + semantic retrieval for degraded working memory.</p>
       </header>
 
       <div className="relative mb-8">
@@ -215,11 +201,27 @@ export const Memory: React.FC<{ userId: string }> = ({ userId }) => {
         </div>
       )}
       
+      {hits.length > 0 && (
+        <details className="mt-4 text-sm text-slate-500">
+          <summary className="cursor-pointer select-none">Why these memories?</summary>
+          <ul className="mt-3 space-y-3">
+            {hits.map((hit) => (
+              <li key={hit.id} className="p-3 bg-slate-50 border border-slate-100 rounded-xl">
+                <p className="text-slate-700 line-clamp-2">{hit.summary || hit.content}</p>
+                <p className="mt-1 text-xs text-slate-400">{hit.explanation.reasons.join(' · ')}</p>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+
       {loading && !answer && (
         <div className="text-center py-8 text-slate-500">
           <p>Streaming response from neural memory network...</p>
         </div>
       )}
+
+      <CommitmentTracker userId={userId} />
     </div>
   );
 };
\ No newline at end of file
@@ -3,13 +3,15 @@
  *
  * Functional parity checklist — ALL features preserved:
  * ✅ fetchChildAccounts on mount via parent_id (Supabase auth)
- * ✅ Create new child: name, age, PIN form
+ * ✅ Create new child: name, age, PIN form (PIN hashed by the server)
  * ✅ Show/hide PIN toggle (Lucide Eye/EyeOff)
- * ✅ Field validation: all fields required
+ * ✅ Field validation: all fields required, PIN is 4–8 digits
+ * ✅ Reset a child's PIN (also lifts a wrong-PIN lockout)
  * ✅ Success + error message display per submit
  * ✅ Existing child accounts list shown BY DEFAULT
  * ✅ "Add Child" button toggles the create form (isCreating state)
- * ✅ Each child card shows "Play Quiz" + "Play Spelling" with childAge passed to game
+ * ✅ Each child card shows "Play Quiz" + "Play Spelling", which open the child's PIN login
+ * ✅ "Words to practise": each child's spelling review queue with upcoming review dates
  * ✅ Loading / error states
  * ✅ Logout handler
  *
@@ -20,9 +22,10 @@ import { useNavigate } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
   Eye, EyeOff, LogOut, Plus, User, Baby, Loader2,
-  Gamepad2, ChevronDown, X
+  Gamepad2, ChevronDown, X, Camera, CameraOff, KeyRound, BookOpen
 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { API_BASE_URL, authHeaders, createChildAccount, setChildPin } from '../lib/api';
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 interface ChildAccount {
@@ -30,6 +33,10 @@ interface ChildAccount {
   child_name: string;
   age: number;
   is_active: boolean;
+  /** Parent opted in to storing webcam frames; otherwise only expression labels are kept. */
+  allow_frame_uploads: boolean;
+  /** Set while PIN login is locked after too many wrong PINs. */
+  pin_locked_until: string | null;
 }
 
 interface NewChildForm {
@@ -38,6 +45,20 @@ interface NewChildForm {
   pin: string;
 }
 
+/** Row of `spelling_review_items`, written by server/src/services/SpellingReview.ts. */
+interface PractiseWord {
+  word: string;
+  due_at: string;
+  interval_days: number;
+  lapses: number;
+}
+
+/** Must match PIN_PATTERN in server/src/services/ChildAuth.ts. */
+const PIN_PATTERN = /^\d{4,8}$/;
+/** Must match MIN_AGE / MAX_AGE in server/src/routes/kids.ts. */
+const MIN_CHILD_AGE = 3;
+const MAX_CHILD_AGE = 17;
+
 // ─── Component ────────────────────────────────────────────────────────────────
 export default function ParentDashboard() {
   const navigate = useNavigate();
@@ -59,7 +80,10 @@ export default function ParentDashboard() {
   const [fetchError, setFetchError]       = useState('');
   const [successMessage, setSuccessMessage] = useState('');
   const [errorMessage, setErrorMessage]   = useState('');
+  const [consentError, setConsentError]   = useState('');
   const [showPassword, setShowPassword]   = useState(false);
+  const [pinResetFor, setPinResetFor]     = useState<string | null>(null);
+  const [resetPin, setResetPin]           = useState('');
 
   // ── UI toggle — show child list by default; create form appears on "Add Child" ──
   const [isCreating, setIsCreating] = useState(false);
@@ -72,7 +96,7 @@ export default function ParentDashboard() {
     try {
       const { data, error } = await supabase
         .from('child_profiles')
-        .select('id, child_name, age, is_active')
+        .select('id, child_name, age, is_active, allow_frame_uploads, pin_locked_until')
         .eq('parent_id', userId)
         .order('child_name', { ascending: true });
 
@@ -105,6 +129,15 @@ export default function ParentDashboard() {
       setErrorMessage('All fields are required.');
       return;
     }
+    const age = parseInt(newChild.age, 10);
+    if (!(age >= MIN_CHILD_AGE && age <= MAX_CHILD_AGE)) {
+      setErrorMessage(`Age must be between ${MIN_CHILD_AGE} and ${MAX_CHILD_AGE}.`);
+      return;
+    }
+    if (!PIN_PATTERN.test(newChild.pin)) {
+      setErrorMessage('PIN must be 4 to 8 digits.');
+      return;
+    }
     if (!userId) {
       setErrorMessage('Session expired. Please refresh.');
       return;
@@ -112,21 +145,19 @@ export default function ParentDashboard() {
 
     setSubmitLoading(true);
     try {
-      // NOTE: pin_hash should be hashed server-side in production.
-      // Stored as plaintext here for hackathon demo purposes only.
-      const { data, error } = await supabase
-        .from('child_profiles')
-        .insert({
-          parent_id: userId,
-          child_name: newChild.name,
-          age: parseInt(newChild.age, 10),
-          pin_hash: newChild.pin,
-          is_active: true,
-        })
-        .select('id, child_name, age, is_active');
-
-      if (error) throw error;
-      setChildAccounts(prev => [...prev, ...(data ?? [])]);
+      const child = await createChildAccount({
+        name: newChild.name,
+        age,
+        pin: newChild.pin,
+      });
+      setChildAccounts(prev => [...prev, {
+        id: child.id,
+        child_name: child.name,
+        age: child.age,
+        is_active: child.isActive,
+        allow_frame_uploads: false,
+        pin_locked_until: null,
+      }]);
       setNewChild({ name: '', age: '', pin: '' });
       setSuccessMessage(`${newChild.name}'s account created!`);
       setIsCreating(false); // collapse form, show the updated list
@@ -139,20 +170,55 @@ export default function ParentDashboard() {
     }
   };
 
+  // ── Webcam frame consent ──────────────────────────────────────────────────
+  const toggleFrameUploads = async (child: ChildAccount) => {
+    const allow = !child.allow_frame_uploads;
+    setConsentError('');
+    const { error } = await supabase
+      .from('child_profiles')
+      .update({
+        allow_frame_uploads: allow,
+        frame_uploads_consented_at: allow ? new Date().toISOString() : null,
+      })
+      .eq('id', child.id);
+
+    if (error) {
+      console.error('[ParentDashboard] toggleFrameUploads error:', error);
+      setConsentError(`Could not update webcam snapshots for ${child.child_name}.`);
+      return;
+    }
+    setChildAccounts(prev => prev.map(c => (c.id === child.id ? { ...c, allow_frame_uploads: allow } : c)));
+  };
+
+  // ── PIN reset ─────────────────────────────────────────────────────────────
+  const handleResetPin = async (child: ChildAccount) => {
+    setConsentError('');
+    setSuccessMessage('');
+    if (!PIN_PATTERN.test(resetPin)) {
+      setConsentError('PIN must be 4 to 8 digits.');
+      return;
+    }
+    try {
+      await setChildPin(child.id, resetPin);
+      setChildAccounts(prev => prev.map(c => (c.id === child.id ? { ...c, pin_locked_until: null } : c)));
+      setSuccessMessage(`${child.child_name}'s PIN was changed.`);
+      setPinResetFor(null);
+      setResetPin('');
+    } catch (err) {
+      console.error('[ParentDashboard] resetPin error:', err);
+      setConsentError(`Could not change ${child.child_name}'s PIN.`);
+    }
+  };
+
   const handleLogout = async () => {
     await supabase.auth.signOut();
     navigate('/');
   };
 
-  // Navigate to a game, passing child profile info (including age for Gemini)
+  // The child logs in with their PIN first; the game then gets their name,
+  // age and game_sessions ownership from the child session.
   const launchGame = (child: ChildAccount, gameRoute: '/kids/play/1' | '/kids/play/2') => {
-    navigate(gameRoute, {
-      state: {
-        username: child.child_name,
-        gameName: gameRoute === '/kids/play/1' ? 'Crack the Quiz' : 'Drag & Spell',
-        childAge: child.age,  // ← passed to Gemini for age-calibrated content
-      },
-    });
+    navigate('/kids/login', { state: { childId: child.id, gameRoute } });
   };
 
   // ════════════════════════════════════════════════════════════════════════════
@@ -222,6 +288,12 @@ export default function ParentDashboard() {
           )}
         </AnimatePresence>
 
+        {consentError && (
+          <div className="px-4 py-3 rounded-xl bg-rose-500/20 border border-rose-400/30 text-rose-300 text-sm">
+            ✕ {consentError}
+          </div>
+        )}
+
         {/* ── Create Child Form (collapsible) ────────────────────────────────── */}
         <AnimatePresence>
           {isCreating && (
@@ -255,7 +327,7 @@ export default function ParentDashboard() {
                     <input
                       type="number" id="age" value={newChild.age}
                       onChange={handleInputChange} placeholder="Child's age"
-                      min={1} max={18}
+                      min={MIN_CHILD_AGE} max={MAX_CHILD_AGE}
                       className="px-4 py-2.5 rounded-xl bg-white/10 border border-white/15 text-white placeholder:text-white/25 focus:outline-none focus:border-purple-400 transition"
                     />
                     <p className="text-[11px] text-white/30">Used to calibrate game difficulty with AI ✨</p>
@@ -263,11 +335,12 @@ export default function ParentDashboard() {
 
                   {/* PIN with toggle */}
                   <div className="flex flex-col gap-1.5">
-                    <label htmlFor="pin" className="text-sm text-white/50 font-medium">PIN / Password</label>
+                    <label htmlFor="pin" className="text-sm text-white/50 font-medium">PIN</label>
                     <div className="relative">
                       <input
                         type={showPassword ? 'text' : 'password'} id="pin" value={newChild.pin}
-                        onChange={handleInputChange} placeholder="Set a PIN or password"
+                        onChange={handleInputChange} placeholder="4–8 digits"
+                        inputMode="numeric" autoComplete="new-password" maxLength={8}
                         className="w-full px-4 py-2.5 pr-10 rounded-xl bg-white/10 border border-white/15 text-white placeholder:text-white/25 focus:outline-none focus:border-purple-400 transition"
                       />
                       <button
@@ -348,12 +421,55 @@ export default function ParentDashboard() {
                     </div>
                     <div>
                       <p className="font-semibold leading-tight">{child.child_name}</p>
-                      <p className="text-xs text-white/40">Age {child.age} · {child.is_active ? 'Active' : 'Inactive'}</p>
+                      <p className="text-xs text-white/40">
+                        Age {child.age} · {child.is_active ? 'Active' : 'Inactive'}
+                        {child.pin_locked_until && <span className="text-rose-300"> · PIN locked</span>}
+                      </p>
                     </div>
                   </div>
 
-                  {/* Right: game launch buttons */}
+                  {/* Right: snapshot consent + game launch buttons */}
                   <div className="flex items-center gap-2 flex-wrap">
+                    <button
+                      onClick={() => toggleFrameUploads(child)}
+                      title={child.allow_frame_uploads
+                        ? 'Webcam snapshots are saved for review. Click to keep them on this device only.'
+                        : 'Only expression labels are saved. Click to also save webcam snapshots for review.'}
+                      className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-semibold transition ${
+                        child.allow_frame_uploads
+                          ? 'bg-rose-500/20 hover:bg-rose-500/40 text-rose-300'
+                          : 'bg-white/10 hover:bg-white/20 text-white/60'
+                      }`}
+                    >
+                      {child.allow_frame_uploads
+                        ? <><Camera className="w-3.5 h-3.5" /> Snapshots on</>
+                        : <><CameraOff className="w-3.5 h-3.5" /> Snapshots off</>}
+                    </button>
+                    {pinResetFor === child.id ? (
+                      <form
+                        onSubmit={(e) => { e.preventDefault(); handleResetPin(child); }}
+                        className="flex items-center gap-1.5"
+                      >
+                        <input
+                          type="password" value={resetPin} onChange={(e) => setResetPin(e.target.value)}
+                          placeholder="New PIN" inputMode="numeric" autoComplete="new-password" maxLength={8} autoFocus
+                          className="w-24 px-2 py-1.5 rounded-lg bg-white/10 border border-white/15 text-xs text-white placeholder:text-white/25 focus:outline-none focus:border-purple-400"
+                        />
+                        <button type="submit" className="px-2.5 py-1.5 rounded-lg bg-purple-500/30 hover:bg-purple-500/50 text-purple-200 text-xs font-semibold transition">
+                          Save
+                        </button>
+                        <button type="button" onClick={() => { setPinResetFor(null); setResetPin(''); }} className="text-white/40 hover:text-white/80 transition">
+                          <X className="w-3.5 h-3.5" />
+                        </button>
+                      </form>
+                    ) : (
+                      <button
+                        onClick={() => { setPinResetFor(child.id); setResetPin(''); }}
+                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-white/10 hover:bg-white/20 text-white/60 text-xs font-semibold transition"
+                      >
+                        <KeyRound className="w-3.5 h-3.5" /> Reset PIN
+                      </button>
+                    )}
                     <button
                       onClick={() => launchGame(child, '/kids/play/1')}
                       className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-violet-500/20 hover:bg-violet-500/40
@@ -391,6 +507,20 @@ export default function ParentDashboard() {
           )}
         </div>
 
+        {/* ── Words to Practise Panel ────────────────────────────────────────── */}
+        <div className="bg-white/5 border border-white/10 rounded-3xl p-6">
+          <div className="flex items-center gap-2 mb-6">
+            <BookOpen className="w-5 h-5 text-teal-400" />
+            <h2 className="text-xl font-bold">Words to Practise</h2>
+          </div>
+
+          {!childAccounts || childAccounts.length === 0 ? (
+            <div className="text-white/40 text-sm italic">Create a child account to see spelling words to practise.</div>
+          ) : (
+            <PractiseWordsList childAccounts={childAccounts} />
+          )}
+        </div>
+
       </div>
     </div>
   );
@@ -434,8 +564,9 @@ function SessionReportsList({ childAccounts }: { childAccounts: ChildAccount[] }
     if (!reportData[sessionId]) {
       setLoadingReport(sessionId);
       try {
-        const backendUrl = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000/api';
-        const res = await fetch(`${backendUrl}/agents/session-report/${sessionId}`);
+        const res = await fetch(`${API_BASE_URL}/agents/session-report/${sessionId}`, {
+          headers: await authHeaders(),
+        });
         const json = await res.json();
         
         if (json.success && json.report) {
@@ -496,7 +627,7 @@ function SessionReportsList({ childAccounts }: { childAccounts: ChildAccount[] }
                   <ChevronDown className={`w-5 h-5 text-white/40 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
                 </div>
 
-                {/* Expanded Content (HuggingFace Report) */}
+                {/* Expanded Content (local session report) */}
                 <AnimatePresence>
                   {isExpanded && (
                     <motion.div
@@ -506,11 +637,11 @@ function SessionReportsList({ childAccounts }: { childAccounts: ChildAccount[] }
                       className="border-t border-white/5 bg-black/20 p-4"
                     >
                       {loadingReport === s.session_key ? (
-                        <div className="flex items-center gap-2 text-purple-300 text-sm"><Loader2 className="w-4 h-4 animate-spin"/> Generating AI inference report...</div>
+                        <div className="flex items-center gap-2 text-purple-300 text-sm"><Loader2 className="w-4 h-4 animate-spin"/> Building session report...</div>
                       ) : report?.pending ? (
                         <div className="text-amber-300 text-sm flex items-center gap-2">
                           <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
-                          Analysis is currently running. Please check back later.
+                          No expressions have been recorded for this session yet. Please check back later.
                         </div>
                       ) : report ? (
                         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -519,9 +650,10 @@ function SessionReportsList({ childAccounts }: { childAccounts: ChildAccount[] }
                              <div className="text-2xl font-bold capitalize text-white flex items-center gap-2">
                                {report.dominant_emotion === 'happy' ? '😊 Happy' : 
                                 report.dominant_emotion === 'neutral' ? '😐 Focused' : 
-                                report.dominant_emotion === 'frustration' ? '😠 Frustrated' : report.dominant_emotion}
+                                report.dominant_emotion === 'frustration' ? '😠 Frustrated' :
+                                report.dominant_emotion === 'confusion' ? '🤔 Confused' : report.dominant_emotion}
                              </div>
-                             <div className="text-xs text-teal-300 mt-1">Analyzed {report.analyzed_frames} webcam frames natively via HuggingFace ViT.</div>
+                             <div className="text-xs text-teal-300 mt-1">From {report.analyzed_frames} expression readings taken on this device.</div>
                            </div>
 
                            <div className="bg-white/5 rounded-xl p-3 border border-white/5">
@@ -537,6 +669,38 @@ function SessionReportsList({ childAccounts }: { childAccounts: ChildAccount[] }
                              ))}
                            </div>
 
+                           <div className="bg-white/5 rounded-xl p-3 border border-white/5">
+                             <div className="text-xs text-white/40 uppercase tracking-wider mb-1">Calm-down Breaks</div>
+                             <div className="text-2xl font-bold text-white">{report.interventions?.count ?? 0}</div>
+                             <div className="text-xs text-white/50 mt-1">
+                               {!report.interventions?.count ? 'No breaks were needed.'
+                                 : report.interventions.avg_recovery_s !== null
+                                   ? `Recovered in ${report.interventions.avg_recovery_s}s on average (${report.interventions.recovered} of ${report.interventions.count}).`
+                                   : 'Did not settle before the session ended.'}
+                             </div>
+                           </div>
+
+                           <div className="bg-white/5 rounded-xl p-3 border border-white/5">
+                             <div className="text-xs text-white/40 uppercase tracking-wider mb-1">Score Over Time</div>
+                             {report.score_trajectory?.length > 0 ? (
+                               <div className="flex items-end gap-1 h-12">
+                                 {report.score_trajectory.map((point: { atS: number; score: number }) => (
+                                   <div
+                                     key={point.atS}
+                                     title={`${point.score} at ${Math.floor(point.atS / 60)}m ${point.atS % 60}s`}
+                                     className="flex-1 bg-teal-400/60 rounded-t"
+                                     style={{ height: `${Math.max(8, (point.score / Math.max(1, ...report.score_trajectory.map((p: { score: number }) => p.score))) * 100)}%` }}
+                                   />
+                                 ))}
+                               </div>
+                             ) : (
+                               <div className="text-xs text-white/50">No score recorded.</div>
+                             )}
+                             {report.final_score !== null && report.final_score !== undefined && (
+                               <div className="text-xs text-white/50 mt-1">Final score: {report.final_score}</div>
+                             )}
+                           </div>
+
                            <div className="md:col-span-2 pt-2 border-t border-white/10 flex justify-end">
                              <button className="text-xs px-3 py-1.5 bg-indigo-500/20 hover:bg-indigo-500/40 text-indigo-300 rounded-lg flex items-center gap-1.5 transition">
                                <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>
@@ -558,3 +722,85 @@ function SessionReportsList({ childAccounts }: { childAccounts: ChildAccount[] }
     </div>
   );
 }
+
+// ─── Sub-Component: Words to Practise ─────────────────────────────────────────
+
+const formatReviewDate = (iso: string) =>
+  new Date(iso).toLocaleDateString([], { weekday: 'short', day: 'numeric', month: 'short' });
+
+function PractiseWordsList({ childAccounts }: { childAccounts: ChildAccount[] }) {
+  const [selectedChildId, setSelectedChildId] = useState<string>(childAccounts[0]?.id || '');
+  const [words, setWords] = useState<PractiseWord[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [fetchError, setFetchError] = useState('');
+  // Snapshot of "now" per fetch, so due labels don't read the clock while rendering
+  const [fetchedAt, setFetchedAt] = useState(0);
+
+  useEffect(() => {
+    if (!selectedChildId) return;
+    const fetchWords = async () => {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('spelling_review_items')
+        .select('word, due_at, interval_days, lapses')
+        .eq('child_id', selectedChildId)
+        .order('due_at', { ascending: true })
+        .limit(50);
+      setFetchError(error ? 'Failed to load words to practise.' : '');
+      setWords((data as PractiseWord[]) || []);
+      setFetchedAt(Date.now());
+      setLoading(false);
+    };
+    fetchWords();
+  }, [selectedChildId]);
+
+  return (
+    <div className="flex flex-col gap-4">
+      {/* Child selector tabs */}
+      <div className="flex gap-2 border-b border-white/10 pb-4 overflow-x-auto">
+        {childAccounts.map(child => (
+          <button
+            key={child.id}
+            onClick={() => setSelectedChildId(child.id)}
+            className={`px-4 py-1.5 rounded-full text-sm font-semibold whitespace-nowrap transition-colors ${
+              selectedChildId === child.id
+                ? 'bg-teal-500 text-white'
+                : 'bg-white/5 text-white/50 hover:bg-white/10 hover:text-white/80'
+            }`}
+          >
+            {child.child_name}
+          </button>
+        ))}
+      </div>
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-white/30 py-4"><Loader2 className="w-4 h-4 animate-spin" /> Loading words...</div>
+      ) : fetchError ? (
+        <p className="text-rose-400 text-sm">{fetchError}</p>
+      ) : words.length === 0 ? (
+        <div className="text-white/40 text-sm py-4">No words to practise yet. Words missed in Drag &amp; Spell will appear here.</div>
+      ) : (
+        <ul className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {words.map(w => {
+            const isDue = new Date(w.due_at).getTime() <= fetchedAt;
+            return (
+              <li key={w.word} className="flex items-center justify-between bg-white/5 border border-white/10 rounded-2xl px-4 py-3">
+                <div className="flex flex-col">
+                  <span className="font-semibold text-teal-200 capitalize">{w.word}</span>
+                  <span className="text-xs text-white/40">
+                    Missed {w.lapses} {w.lapses === 1 ? 'time' : 'times'} · every {w.interval_days} {w.interval_days === 1 ? 'day' : 'days'}
+                  </span>
+                </div>
+                <span className={`text-xs font-semibold px-2.5 py-1 rounded-full ${
+                  isDue ? 'bg-amber-500/20 text-amber-300' : 'bg-white/10 text-white/60'
+                }`}>
+                  {isDue ? 'Due now' : formatReviewDate(w.due_at)}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
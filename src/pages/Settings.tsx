@@ -1,12 +1,23 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Link } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
 import { useNavigate } from 'react-router-dom';
 import { useCognitiveStore } from '../stores/cognitiveStore';
+import { getCognitiveModelMeta, resetCognitiveModel } from '../lib/ml/cognitiveModel';
+import { clearTrainingSamples, getStoredSampleCount } from '../lib/ml/personalTrainer';
+import { MemoryPrivacySettings } from '../components/memory/MemoryPrivacySettings';
 
 export default function Settings() {
   const navigate = useNavigate();
   const { permissionsGranted, setPermissionsGranted } = useCognitiveStore();
+  const [trainedSamples, setTrainedSamples] = useState(() => getStoredSampleCount());
+  const modelMeta = getCognitiveModelMeta();
+
+  const handleResetModel = async () => {
+    clearTrainingSamples();
+    await resetCognitiveModel();
+    setTrainedSamples(0);
+  };
 
   const handleLogout = async () => {
     await supabase.auth.signOut();
@@ -54,8 +65,28 @@ export default function Settings() {
               {permissionsGranted ? '✓ Enabled' : 'Enable'}
             </button>
           </div>
+          <div className="flex items-center justify-between mt-4">
+            <div>
+              <p className="text-sm font-medium text-slate-700">Personal Load Model</p>
+              <p className="text-xs text-slate-500 mt-0.5">
+                {trainedSamples > 0
+                  ? `Trained on-device from ${trainedSamples} labelled moments${modelMeta ? ` · v${modelMeta.version}` : ''}`
+                  : 'Untrained — use "I\'m overloaded" / "I\'m in flow" on the dashboard'}
+              </p>
+            </div>
+            <button
+              onClick={handleResetModel}
+              disabled={trainedSamples === 0}
+              className="px-4 py-2 rounded-xl text-sm font-semibold bg-slate-50 text-slate-600 border border-slate-100 hover:bg-slate-100 transition-all disabled:opacity-40"
+            >
+              Reset
+            </button>
+          </div>
         </section>
 
+        {/* Memory privacy */}
+        <MemoryPrivacySettings />
+
         {/* Audio */}
         <section className="bg-white border border-slate-100 rounded-2xl p-6 shadow-sm">
           <h2 className="text-lg font-bold text-slate-900 mb-4 flex items-center gap-2">
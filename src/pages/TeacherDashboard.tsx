@@ -209,16 +209,16 @@ export default function TeacherDashboard() {
     setView('overall');
     setEmotionAverages([]);
     try {
-      // v_session_emotions has: session_id, expression_label, avg_confidence, occurrence_count
+      // v_session_emotions has: session_id, emotion, avg (confidence × 100), frame_count
       const { data, error } = await supabase
         .from('v_session_emotions')
-        .select('expression_label, avg_confidence')
+        .select('emotion, avg')
         .eq('session_id', sessionId);
 
       if (error) throw error;
-      const averages: EmotionAverage[] = (data ?? []).map((row: { expression_label: string; avg_confidence: number }) => ({
-        emotion: row.expression_label,
-        avg: parseFloat((row.avg_confidence * 100).toFixed(2)),
+      const averages: EmotionAverage[] = (data ?? []).map((row: { emotion: string; avg: number | string }) => ({
+        emotion: row.emotion,
+        avg: Number(row.avg),
       }));
       setEmotionAverages(averages);
     } catch (err) {
@@ -0,0 +1,62 @@
+/**
+ * childSessionStore.ts — Logged-in child on the parent's device
+ *
+ * Holds the child session token from POST /api/kids/login. While a session
+ * is stored — even once its token has expired — the app only shows
+ * /kids/games and /kids/play/* (see ChildSessionLock in App.tsx), and games
+ * open their `game_sessions` row with this token so it belongs to the
+ * logged-in child. Only `endSession`, behind the parent's password, lifts it.
+ *
+ * Kept in sessionStorage: a reload keeps the child in their games, closing
+ * the tab ends the session. The token itself expires server-side.
+ *
+ * Consumers:
+ *  - ChildLogin.tsx          → writes the session on PIN login
+ *  - App.tsx                 → reads it to lock routing to the games
+ *  - GameSelection.tsx       → reads the player, clears on "Switch player" (ParentGate)
+ *  - useGameSession.ts       → reads the token
+ */
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface ChildSession {
+  token: string;
+  expiresAt: string;
+  childId: string;
+  childName: string;
+  age: number;
+  avatarUrl: string | null;
+}
+
+interface ChildSessionState {
+  session: ChildSession | null;
+  startSession: (session: ChildSession) => void;
+  endSession: () => void;
+}
+
+/** Routes a logged-in child may visit. */
+export const isChildRoute = (pathname: string) =>
+  pathname === '/kids/games' || pathname.startsWith('/kids/play/');
+
+/** The session if its token hasn't expired yet. */
+export const activeChildSession = (session: ChildSession | null): ChildSession | null =>
+  session && Date.parse(session.expiresAt) > Date.now() ? session : null;
+
+// ─── Store ────────────────────────────────────────────────────────────────────
+
+export const useChildSessionStore = create<ChildSessionState>()(
+  persist(
+    (set) => ({
+      session: null,
+      startSession: (session) => set({ session }),
+      endSession: () => set({ session: null }),
+    }),
+    {
+      name: 'kids-child-session',
+      storage: createJSONStorage(() => sessionStorage),
+    },
+  ),
+);
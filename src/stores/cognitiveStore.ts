@@ -12,9 +12,12 @@
  *  - AuthGuard / App.tsx     → reads onboardingComplete, userRole
  *  - useDemoSimulator.ts     → writes metrics via updateMetrics
  *  - RoleGuard (App.tsx)     → reads userRole for RBAC routing
+ *  - useCognitiveMonitor.ts  → writes isUiDimmed from server policy actions
+ *  - useFederatedLearning.ts → writes communityWeights (global FedAvg model)
  */
 
 import { create } from 'zustand';
+import type { InteractionWeights } from '../lib/ml/federatedClient';
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -67,6 +70,12 @@ interface CognitiveState {
    *  Prevents other UI layers from rendering modals on top. */
   crisisActive: boolean;
 
+  /** True while a server policy rule asks for a low-stimulation UI. */
+  isUiDimmed: boolean;
+
+  /** Last synced global federated model; null until the first sync. */
+  communityWeights: InteractionWeights | null;
+
   /** Current task category label — used by BodyDoubling to generate
    *  deterministic Jitsi room names. */
   currentTaskCategory: string;
@@ -81,6 +90,8 @@ interface CognitiveState {
   setPermissionsGranted: (granted: boolean) => void;
   setOnboardingComplete: (complete: boolean) => void;
   setCrisisActive: (active: boolean) => void;
+  setUiDimmed: (dimmed: boolean) => void;
+  setCommunityWeights: (weights: InteractionWeights) => void;
   setCurrentTaskCategory: (category: string) => void;
   setUserRole: (role: UserRole | null) => void;
   setOfflineMode: (offline: boolean) => void;
@@ -113,6 +124,8 @@ export const useCognitiveStore = create<CognitiveState>((set, get) => ({
   permissionsGranted: false,
   onboardingComplete: false,
   crisisActive: false,
+  isUiDimmed: false,
+  communityWeights: null,
   isOfflineMode: !navigator.onLine,
   globalAudioContext: null,
   audioSettings: {
@@ -137,6 +150,8 @@ export const useCognitiveStore = create<CognitiveState>((set, get) => ({
   setPermissionsGranted: (granted) => set({ permissionsGranted: granted }),
   setOnboardingComplete: (complete) => set({ onboardingComplete: complete }),
   setCrisisActive: (active) => set({ crisisActive: active }),
+  setUiDimmed: (dimmed) => set({ isUiDimmed: dimmed }),
+  setCommunityWeights: (weights) => set({ communityWeights: weights }),
   setCurrentTaskCategory: (category) => set({ currentTaskCategory: category }),
   setUserRole: (role) => set({ userRole: role }),
   setOfflineMode: (offline) => set({ isOfflineMode: offline }),
@@ -57,7 +57,9 @@ export interface PullRequest {
   state: 'open' | 'closed' | 'merged';
   commentCount: number;
   unreadCount: number;
+  /** ISO timestamp of the latest review activity. */
   lastActivity: string;
+  /** 0–100, higher is gentler; computed server-side from comment sentiment. */
   safetyScore: number;
 }
 
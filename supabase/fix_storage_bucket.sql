@@ -2,7 +2,8 @@
 -- NeuroAdaptive OS — Supabase Storage & RLS
 -- File:    supabase/fix_storage_bucket.sql
 -- Purpose: Create the 'kids-captures' storage bucket and set RLS policies so
---          authenticated users can upload and view captured images/screenshots.
+--          authenticated users can view captured images/screenshots (uploads are
+--          scoped in migrations/kids_on_device_expressions.sql).
 --
 -- HOW TO RUN:
 --   Paste into Supabase Dashboard → SQL Editor → Run
@@ -46,13 +47,10 @@ ALTER TABLE storage.objects ENABLE ROW LEVEL SECURITY;
 -- PART 3 — RLS Policies for 'kids-captures' bucket
 -- =================================================================================
 
--- ── INSERT (authenticated users can upload their captures) ────────────────────
+-- ── INSERT ─────────────────────────────────────────────────────────────────────
+-- Defined in migrations/kids_on_device_expressions.sql: parents upload only to
+-- their own children's sessions, and webcam frames only with frame consent.
 DROP POLICY IF EXISTS "kids-captures: authenticated insert" ON storage.objects;
-CREATE POLICY "kids-captures: authenticated insert"
-  ON storage.objects
-  FOR INSERT
-  TO authenticated
-  WITH CHECK (bucket_id = 'kids-captures');
 
 
 -- ── SELECT (authenticated users can read all captures — teachers need to see all) ──
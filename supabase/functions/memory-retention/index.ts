@@ -0,0 +1,71 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+serve(async (req) => {
+  // 1. Authorization check
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader) {
+    return new Response(JSON.stringify({ error: 'Missing Authorization header' }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 401,
+    });
+  }
+
+  try {
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    )
+
+    console.log('[MemoryRetention] Purging memories past their retention window...');
+
+    // 2. Delete expired memories (per-user policy, else per-source default).
+    //    The function logs each purge to memory_privacy_log itself.
+    const { data, error } = await supabaseAdmin.rpc('purge_expired_memories');
+
+    if (error) throw error;
+
+    const purged = (data ?? []) as { user_id: string; source: string; deleted_count: number }[];
+    const count = purged.reduce((sum, row) => sum + Number(row.deleted_count), 0);
+
+    if (count === 0) {
+      return new Response(JSON.stringify({ success: true, message: 'No expired memories found.' }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // 3. Summarise by source; user IDs stay out of the response and logs
+    const bySource: Record<string, number> = {};
+    for (const row of purged) {
+      bySource[row.source] = (bySource[row.source] ?? 0) + Number(row.deleted_count);
+    }
+
+    console.log(`[MemoryRetention] ✅ Purged ${count} memories across ${purged.length} user/source pairs.`);
+
+    return new Response(JSON.stringify({
+      success: true,
+      count,
+      bySource,
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (err) {
+    console.error('[MemoryRetention] CRITICAL FAILURE:', err.message);
+    return new Response(JSON.stringify({ error: err.message }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 500,
+    });
+  }
+})
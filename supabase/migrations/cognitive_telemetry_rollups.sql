@@ -0,0 +1,77 @@
+-- =========================================================
+-- Migration: Cognitive telemetry rollups
+-- Required by: server/src/services/TelemetryPipeline.ts
+-- Description: Batched raw snapshots plus per-user minute/hour/day
+--              rollups (mean/max load, seconds per classification,
+--              context switches) served by GET /api/telemetry/rollups.
+-- =========================================================
+
+ALTER TABLE public.cognitive_snapshots
+  ADD COLUMN IF NOT EXISTS context_switches INTEGER NOT NULL DEFAULT 0;
+
+-- Set by the pipeline per sample; a retried flush upserts on it instead of
+-- inserting the same snapshot again.
+ALTER TABLE public.cognitive_snapshots
+  ADD COLUMN IF NOT EXISTS sample_key UUID;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cognitive_snapshots_sample_key
+  ON public.cognitive_snapshots (sample_key);
+
+CREATE INDEX IF NOT EXISTS idx_cognitive_snapshots_user_created
+  ON public.cognitive_snapshots (user_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.cognitive_rollups (
+    user_id                     UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    granularity                 TEXT NOT NULL CHECK (granularity IN ('minute', 'hour', 'day')),
+    bucket_start                TIMESTAMPTZ NOT NULL,
+    sample_count                INTEGER NOT NULL DEFAULT 0,
+    load_sum                    DOUBLE PRECISION NOT NULL DEFAULT 0,
+    mean_load                   DOUBLE PRECISION NOT NULL DEFAULT 0,
+    max_load                    DOUBLE PRECISION NOT NULL DEFAULT 0,
+    time_hyperfocus_s           DOUBLE PRECISION NOT NULL DEFAULT 0,
+    time_normal_s               DOUBLE PRECISION NOT NULL DEFAULT 0,
+    time_approaching_overload_s DOUBLE PRECISION NOT NULL DEFAULT 0,
+    time_overload_s             DOUBLE PRECISION NOT NULL DEFAULT 0,
+    context_switches            INTEGER NOT NULL DEFAULT 0,
+    updated_at                  TIMESTAMPTZ DEFAULT now() NOT NULL,
+    PRIMARY KEY (user_id, granularity, bucket_start)
+);
+
+ALTER TABLE public.cognitive_rollups ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users view own rollups" ON public.cognitive_rollups FOR SELECT USING (auth.uid() = user_id);
+
+-- Atomically merges partial aggregates from one pipeline flush into the
+-- stored buckets, so concurrent server instances never lose increments.
+CREATE OR REPLACE FUNCTION public.merge_cognitive_rollups(deltas JSONB)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+AS $$
+  INSERT INTO public.cognitive_rollups AS r (
+    user_id, granularity, bucket_start, sample_count, load_sum, mean_load, max_load,
+    time_hyperfocus_s, time_normal_s, time_approaching_overload_s, time_overload_s, context_switches
+  )
+  SELECT
+    d.user_id, d.granularity, d.bucket_start, d.sample_count, d.load_sum,
+    d.load_sum / GREATEST(d.sample_count, 1), d.max_load,
+    d.time_hyperfocus_s, d.time_normal_s, d.time_approaching_overload_s, d.time_overload_s, d.context_switches
+  FROM jsonb_to_recordset(deltas) AS d(
+    user_id UUID, granularity TEXT, bucket_start TIMESTAMPTZ, sample_count INTEGER, load_sum DOUBLE PRECISION,
+    max_load DOUBLE PRECISION, time_hyperfocus_s DOUBLE PRECISION, time_normal_s DOUBLE PRECISION,
+    time_approaching_overload_s DOUBLE PRECISION, time_overload_s DOUBLE PRECISION, context_switches INTEGER
+  )
+  ON CONFLICT (user_id, granularity, bucket_start) DO UPDATE SET
+    sample_count                = r.sample_count + EXCLUDED.sample_count,
+    load_sum                    = r.load_sum + EXCLUDED.load_sum,
+    mean_load                   = (r.load_sum + EXCLUDED.load_sum) / GREATEST(r.sample_count + EXCLUDED.sample_count, 1),
+    max_load                    = GREATEST(r.max_load, EXCLUDED.max_load),
+    time_hyperfocus_s           = r.time_hyperfocus_s + EXCLUDED.time_hyperfocus_s,
+    time_normal_s               = r.time_normal_s + EXCLUDED.time_normal_s,
+    time_approaching_overload_s = r.time_approaching_overload_s + EXCLUDED.time_approaching_overload_s,
+    time_overload_s             = r.time_overload_s + EXCLUDED.time_overload_s,
+    context_switches            = r.context_switches + EXCLUDED.context_switches,
+    updated_at                  = now();
+$$;
+
+-- Rollups are written only by the backend pipeline.
+REVOKE EXECUTE ON FUNCTION public.merge_cognitive_rollups(JSONB) FROM PUBLIC, anon, authenticated;
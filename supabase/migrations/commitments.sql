@@ -0,0 +1,49 @@
+-- =========================================================
+-- Migration: Commitment & action-item tracker
+-- Required by: server/src/services/CommitmentTracker.ts
+-- Description: Promises and action items extracted from ingested
+--              memories ("Alex, finalize the schema by Tuesday"), with
+--              owner, due date, status and extraction confidence. The
+--              server schedules a reminder per commitment (`remind_at`)
+--              and pushes it over the socket when due. Rows are
+--              published to Realtime so open clients stay in sync.
+-- =========================================================
+
+CREATE TABLE IF NOT EXISTS public.commitments (
+    id              UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id         UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    memory_id       UUID REFERENCES public.memory_entries(id) ON DELETE CASCADE,
+    description     TEXT NOT NULL,
+    owner           TEXT,                        -- Person the commitment is on; NULL when unclear
+    due_at          TIMESTAMPTZ,
+    status          TEXT DEFAULT 'open' NOT NULL CHECK (status IN ('open', 'snoozed', 'done')),
+    confidence      NUMERIC(3, 2) NOT NULL CHECK (confidence BETWEEN 0 AND 1),
+    source_quote    TEXT,                        -- The sentence it was extracted from
+    remind_at       TIMESTAMPTZ,                 -- Next reminder; cleared once sent
+    reminded_at     TIMESTAMPTZ,
+    snoozed_until   TIMESTAMPTZ,
+    completed_at    TIMESTAMPTZ,
+    created_at      TIMESTAMPTZ DEFAULT now() NOT NULL,
+    updated_at      TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_commitments_user_status_due
+  ON public.commitments (user_id, status, due_at);
+
+-- The reminder loop only ever scans pending reminders
+CREATE INDEX IF NOT EXISTS idx_commitments_remind_at
+  ON public.commitments (remind_at)
+  WHERE remind_at IS NOT NULL AND status <> 'done';
+
+ALTER TABLE public.commitments ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users view own commitments" ON public.commitments FOR SELECT USING (auth.uid() = user_id);
+
+-- Realtime respects RLS, so each client only receives its own commitments.
+DO $$ BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'commitments'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE public.commitments;
+    END IF;
+END $$;
@@ -0,0 +1,27 @@
+-- =========================================================
+-- Migration: Federated learning global model rounds
+-- Required by: server/src/services/FederatedAggregator.ts
+-- Description: One row per completed FedAvg round. The row with the
+--              highest `round` is the global model served by
+--              /api/ml/model-version; `round_epsilon` feeds the rolling
+--              differential-privacy budget.
+-- =========================================================
+
+CREATE TABLE IF NOT EXISTS public.federated_model_rounds (
+    id            UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    version       TEXT NOT NULL UNIQUE,
+    round         INTEGER NOT NULL UNIQUE,
+    weights       JSONB NOT NULL,
+    participants  INTEGER NOT NULL DEFAULT 0,
+    round_epsilon DOUBLE PRECISION NOT NULL DEFAULT 0,
+    created_at    TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_federated_model_rounds_created_at
+  ON public.federated_model_rounds (created_at);
+
+-- Written only by the backend service role; no client access.
+ALTER TABLE public.federated_model_rounds ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.federated_model_rounds IS
+  'Global FedAvg model history. Contains only aggregated, noise-injected weights — never per-client updates.';
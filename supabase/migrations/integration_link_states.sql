@@ -0,0 +1,27 @@
+-- =========================================================
+-- Migration: Signed single-use OAuth states for account linking
+-- Required by: server/src/services/IntegrationLinks.ts
+-- Description: One row per "Connect <provider>" started by a
+--              signed-in user. The OAuth state carries only a
+--              signed nonce; its hash maps back to the user here
+--              and is consumed once by the provider callback.
+--              Backend only: no client policies.
+-- =========================================================
+
+CREATE TABLE IF NOT EXISTS public.integration_link_states (
+    -- SHA-256 of the nonce; the nonce itself is never stored
+    nonce_hash   TEXT PRIMARY KEY,
+    user_id      UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    provider     TEXT NOT NULL,
+    expires_at   TIMESTAMPTZ NOT NULL,
+    consumed_at  TIMESTAMPTZ,
+    created_at   TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_integration_link_states_expires
+  ON public.integration_link_states (expires_at);
+
+COMMENT ON TABLE public.integration_link_states IS
+    'Single-use OAuth state nonces binding an integration link to the user who started it.';
+
+ALTER TABLE public.integration_link_states ENABLE ROW LEVEL SECURITY;
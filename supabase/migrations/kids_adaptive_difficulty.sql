@@ -0,0 +1,39 @@
+-- =========================================================
+-- Migration: Adaptive difficulty for the Kids games
+-- Required by: server/src/services/AdaptiveDifficulty.ts
+-- Description: Per-child, per-game skill ratings (quiz topics,
+--              spelling letters, plus one 'overall' rating per game)
+--              on the 1–5 item difficulty scale. Written only by the
+--              backend for a PIN-logged-in child; parents can read
+--              their own children's rows.
+-- =========================================================
+
+CREATE TABLE IF NOT EXISTS public.child_skill_mastery (
+    child_id           UUID NOT NULL REFERENCES public.child_profiles(id) ON DELETE CASCADE,
+    game_type          TEXT NOT NULL CHECK (game_type IN ('quiz', 'spelling')),
+    -- 'topic:<topic>', 'letter:<letter>' or 'overall'
+    skill              TEXT NOT NULL,
+    rating             REAL NOT NULL CHECK (rating BETWEEN 0 AND 6),
+    attempts           INTEGER NOT NULL DEFAULT 0 CHECK (attempts >= 0),
+    correct            INTEGER NOT NULL DEFAULT 0 CHECK (correct >= 0),
+    last_practiced_at  TIMESTAMPTZ,
+    updated_at         TIMESTAMPTZ DEFAULT now() NOT NULL,
+    PRIMARY KEY (child_id, game_type, skill)
+);
+
+COMMENT ON TABLE public.child_skill_mastery IS
+    'Elo-style skill ratings per child and game, updated from each answer (correctness, response time, frustration/confusion).';
+
+ALTER TABLE public.child_skill_mastery ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "child_skill_mastery: parent reads own" ON public.child_skill_mastery;
+CREATE POLICY "child_skill_mastery: parent reads own"
+    ON public.child_skill_mastery
+    FOR SELECT
+    USING (
+        child_id IN (
+            SELECT id FROM public.child_profiles WHERE parent_id = auth.uid()
+        )
+    );
+
+REVOKE INSERT, UPDATE, DELETE ON public.child_skill_mastery FROM anon, authenticated;
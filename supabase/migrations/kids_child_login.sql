@@ -0,0 +1,88 @@
+-- =========================================================
+-- Migration: Child PIN login & child session tokens
+-- Required by: server/src/services/ChildAuth.ts
+-- Description: Child PINs are only written by the backend, as bcrypt
+--              hashes, and verified there with per-child lockout.
+--              Existing plaintext PINs are hashed in place. Clients
+--              lose INSERT on child_profiles and can neither read nor
+--              write pin_hash or the lockout counters; game_sessions
+--              rows are created by the backend for a logged-in child.
+-- =========================================================
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- ── Lockout state ─────────────────────────────────────────────────────────────
+ALTER TABLE public.child_profiles
+  ADD COLUMN IF NOT EXISTS failed_pin_attempts SMALLINT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS pin_locked_until TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.child_profiles.pin_hash IS
+    'bcrypt hash of the child PIN, written only by the backend (POST /api/kids/children, PUT /api/kids/children/:id/pin).';
+COMMENT ON COLUMN public.child_profiles.failed_pin_attempts IS
+    'Consecutive wrong PINs since the last successful login or lockout.';
+COMMENT ON COLUMN public.child_profiles.pin_locked_until IS
+    'PIN login is refused until this time after too many wrong PINs.';
+
+-- ── Hash PINs stored before this migration ───────────────────────────────────
+-- pgcrypto's bf salts produce $2a$ bcrypt hashes the backend can verify.
+UPDATE public.child_profiles
+SET pin_hash = extensions.crypt(pin_hash, extensions.gen_salt('bf', 12))
+WHERE pin_hash IS NOT NULL AND pin_hash !~ '^\$2[aby]\$';
+
+-- ── Column privileges: PIN material stays server-side ────────────────────────
+REVOKE INSERT, UPDATE, SELECT ON public.child_profiles FROM anon, authenticated;
+
+GRANT SELECT (
+    id, parent_id, child_name, age, avatar_url, is_active,
+    allow_frame_uploads, frame_uploads_consented_at, pin_locked_until,
+    created_at, updated_at
+) ON public.child_profiles TO authenticated;
+
+GRANT UPDATE (
+    child_name, age, avatar_url, is_active,
+    allow_frame_uploads, frame_uploads_consented_at
+) ON public.child_profiles TO authenticated;
+
+DROP POLICY IF EXISTS "child_profiles: authenticated insert own" ON public.child_profiles;
+
+-- ── Sessions are opened by the backend for a logged-in child ─────────────────
+DROP POLICY IF EXISTS "game_sessions: parent inserts own children" ON public.game_sessions;
+
+-- ── Wrong PINs counted in one statement ──────────────────────────────────────
+-- Concurrent wrong PINs each see the previous increment, so a burst of guesses
+-- can't all read the same count. The attempt that reaches p_max_attempts locks
+-- login and resets the counter; attempts while locked aren't counted.
+CREATE OR REPLACE FUNCTION public.record_failed_pin_attempt(
+    p_child_id        UUID,
+    p_max_attempts    INTEGER,
+    p_lockout_seconds INTEGER
+)
+RETURNS TABLE (failed_attempts INTEGER, locked_until TIMESTAMPTZ)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    v_attempts INTEGER;
+    v_locked   TIMESTAMPTZ;
+BEGIN
+    UPDATE public.child_profiles cp
+    SET failed_pin_attempts = CASE WHEN cp.failed_pin_attempts + 1 >= p_max_attempts
+                                   THEN 0 ELSE cp.failed_pin_attempts + 1 END,
+        pin_locked_until    = CASE WHEN cp.failed_pin_attempts + 1 >= p_max_attempts
+                                   THEN now() + make_interval(secs => p_lockout_seconds) END
+    WHERE cp.id = p_child_id
+      AND (cp.pin_locked_until IS NULL OR cp.pin_locked_until <= now())
+    RETURNING cp.failed_pin_attempts, cp.pin_locked_until INTO v_attempts, v_locked;
+
+    IF NOT FOUND THEN
+        -- Locked by a concurrent attempt: report that lock
+        SELECT cp.failed_pin_attempts, cp.pin_locked_until INTO v_attempts, v_locked
+        FROM public.child_profiles cp
+        WHERE cp.id = p_child_id;
+    END IF;
+
+    RETURN QUERY SELECT v_attempts, v_locked;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_failed_pin_attempt(UUID, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
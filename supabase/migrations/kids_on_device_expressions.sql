@@ -0,0 +1,143 @@
+-- =========================================================
+-- Migration: On-device expression logging for the Kids Module
+-- Required by: src/hooks/kids/useCapture.ts, src/hooks/kids/useGameSession.ts
+-- Description: Games classify the child's expression in the browser
+--              (BiometricVisionEngine blendshapes) and write only a
+--              label + confidence to expression_logs. Webcam frames
+--              reach the kids-captures bucket only for children whose
+--              parent opted in via child_profiles.allow_frame_uploads.
+--              Replaces the open INSERT policies on game_sessions,
+--              expression_logs and the kids-captures bucket with
+--              parent-owned checks; storage enforces frame consent.
+-- =========================================================
+
+-- ── Parental consent for raw frame uploads ────────────────────────────────────
+ALTER TABLE public.child_profiles
+  ADD COLUMN IF NOT EXISTS allow_frame_uploads BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS frame_uploads_consented_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.child_profiles.allow_frame_uploads IS
+    'Parent opted in to storing webcam frames in kids-captures. Off by default: only expression labels are stored.';
+COMMENT ON COLUMN public.child_profiles.frame_uploads_consented_at IS
+    'When the parent last turned allow_frame_uploads on; NULL once withdrawn.';
+
+-- ── Expression labels now come from the on-device classifier ─────────────────
+COMMENT ON TABLE public.expression_logs IS
+    'Per-capture expression classified on the child''s device from face blendshapes. One row per capture tick.';
+COMMENT ON COLUMN public.expression_logs.expression_label IS
+    'On-device label: happy | frustration | confusion | neutral. Legacy HuggingFace rows may hold other labels.';
+COMMENT ON COLUMN public.expression_logs.source_image_path IS
+    'kids-captures path of the frame, only when the parent allowed frame uploads; otherwise NULL.';
+
+-- ── Inserts limited to the parent's own children ──────────────────────────────
+DROP POLICY IF EXISTS "game_sessions: backend upsert" ON public.game_sessions;
+DROP POLICY IF EXISTS "game_sessions: parent inserts own children" ON public.game_sessions;
+CREATE POLICY "game_sessions: parent inserts own children"
+    ON public.game_sessions
+    FOR INSERT
+    WITH CHECK (
+        child_id IN (
+            SELECT id FROM public.child_profiles WHERE parent_id = auth.uid()
+        )
+    );
+
+DROP POLICY IF EXISTS "expression_logs: backend insert" ON public.expression_logs;
+DROP POLICY IF EXISTS "expression_logs: parent inserts own" ON public.expression_logs;
+CREATE POLICY "expression_logs: parent inserts own"
+    ON public.expression_logs
+    FOR INSERT
+    WITH CHECK (
+        session_id IN (
+            SELECT gs.id FROM public.game_sessions gs
+            JOIN public.child_profiles cp ON cp.id = gs.child_id
+            WHERE cp.parent_id = auth.uid()
+        )
+        -- A frame path is only accepted for children with uploads allowed
+        AND (
+            source_image_path IS NULL
+            OR session_id IN (
+                SELECT gs.id FROM public.game_sessions gs
+                JOIN public.child_profiles cp ON cp.id = gs.child_id
+                WHERE cp.allow_frame_uploads
+            )
+        )
+    );
+
+-- ── Uploads to kids-captures: own sessions, frames only with consent ─────────
+-- Paths are {session_key}/frames/… or {session_key}/screenshots/… (useCapture).
+DROP POLICY IF EXISTS "kids-captures: authenticated insert" ON storage.objects;
+DROP POLICY IF EXISTS "kids-captures: parent inserts own sessions" ON storage.objects;
+CREATE POLICY "kids-captures: parent inserts own sessions"
+    ON storage.objects
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (
+        bucket_id = 'kids-captures'
+        AND EXISTS (
+            SELECT 1 FROM public.game_sessions gs
+            JOIN public.child_profiles cp ON cp.id = gs.child_id
+            WHERE gs.session_key = (storage.foldername(name))[1]
+              AND cp.parent_id = auth.uid()
+              AND ((storage.foldername(name))[2] IS DISTINCT FROM 'frames' OR cp.allow_frame_uploads)
+        )
+    );
+
+-- ── Capture paths appended to the session row ────────────────────────────────
+-- Parents have no UPDATE policy on game_sessions; this appends one path to
+-- image_paths ('frame') or screenshot_paths ('screenshot') after checking
+-- ownership and, for frames, consent.
+CREATE OR REPLACE FUNCTION public.append_game_session_capture(
+    p_session_id UUID,
+    p_kind       TEXT,
+    p_path       TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_allow_frames BOOLEAN;
+BEGIN
+    SELECT cp.allow_frame_uploads INTO v_allow_frames
+    FROM public.game_sessions gs
+    JOIN public.child_profiles cp ON cp.id = gs.child_id
+    WHERE gs.id = p_session_id AND cp.parent_id = auth.uid();
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'game session % not found', p_session_id USING ERRCODE = '42501';
+    END IF;
+
+    IF p_kind = 'frame' THEN
+        IF NOT v_allow_frames THEN
+            RAISE EXCEPTION 'frame uploads are not allowed for this child' USING ERRCODE = '42501';
+        END IF;
+        UPDATE public.game_sessions SET image_paths = array_append(image_paths, p_path) WHERE id = p_session_id;
+    ELSIF p_kind = 'screenshot' THEN
+        UPDATE public.game_sessions SET screenshot_paths = array_append(screenshot_paths, p_path) WHERE id = p_session_id;
+    ELSE
+        RAISE EXCEPTION 'unknown capture kind %', p_kind USING ERRCODE = '22023';
+    END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.append_game_session_capture(UUID, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.append_game_session_capture(UUID, TEXT, TEXT) TO authenticated;
+
+-- ── v_session_emotions: one definition for the Teacher Dashboard ─────────────
+-- merge_kids_module.sql and fix_views_and_policies.sql defined different
+-- columns; CREATE OR REPLACE cannot rename them, so drop and recreate.
+DROP VIEW IF EXISTS public.v_session_emotions;
+CREATE VIEW public.v_session_emotions AS
+SELECT
+    el.session_id,
+    el.expression_label                                  AS emotion,
+    ROUND((AVG(el.confidence_score) * 100)::numeric, 2) AS avg,
+    COUNT(*)                                             AS frame_count
+FROM public.expression_logs el
+GROUP BY el.session_id, el.expression_label;
+
+COMMENT ON VIEW public.v_session_emotions IS
+    'Per-session emotion averages (confidence × 100) for the Teacher Dashboard overall analysis chart.';
+
+GRANT SELECT ON public.v_session_emotions TO authenticated;
@@ -0,0 +1,69 @@
+-- =========================================================
+-- Migration: Local session reports for the Kids Module
+-- Required by: server/src/services/SessionReports.ts
+-- Description: Session reports are aggregated from the session's own
+--              expression_logs and intervention_events rows instead
+--              of sending frames to a remote model. Adds the running
+--              game score to each expression row (score trajectory)
+--              and the intervention_events table the Quiz game
+--              already writes to.
+-- =========================================================
+
+-- ── Running score at each capture tick ───────────────────────────────────────
+ALTER TABLE public.expression_logs
+  ADD COLUMN IF NOT EXISTS game_score INTEGER CHECK (game_score >= 0);
+
+COMMENT ON COLUMN public.expression_logs.game_score IS
+    'The game''s running score when the expression was captured; NULL for rows written before session reports.';
+
+-- ── Distress interventions shown during play ─────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.intervention_events (
+    id                 UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    -- game_sessions.session_key of the play-through
+    session_id         TEXT NOT NULL,
+    child_name         TEXT,
+    frustration_score  INTEGER CHECK (frustration_score BETWEEN 0 AND 100),
+    confusion_score    INTEGER CHECK (confusion_score BETWEEN 0 AND 100),
+    trigger_reason     TEXT NOT NULL,
+    question_index     INTEGER,
+    created_at         TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_intervention_events_session
+  ON public.intervention_events (session_id, created_at);
+
+ALTER TABLE public.intervention_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "intervention_events: parent inserts own" ON public.intervention_events;
+CREATE POLICY "intervention_events: parent inserts own"
+    ON public.intervention_events
+    FOR INSERT
+    WITH CHECK (
+        session_id IN (
+            SELECT gs.session_key FROM public.game_sessions gs
+            JOIN public.child_profiles cp ON cp.id = gs.child_id
+            WHERE cp.parent_id = auth.uid()
+        )
+    );
+
+DROP POLICY IF EXISTS "intervention_events: parent reads own" ON public.intervention_events;
+CREATE POLICY "intervention_events: parent reads own"
+    ON public.intervention_events
+    FOR SELECT
+    USING (
+        session_id IN (
+            SELECT gs.session_key FROM public.game_sessions gs
+            JOIN public.child_profiles cp ON cp.id = gs.child_id
+            WHERE cp.parent_id = auth.uid()
+        )
+    );
+
+DROP POLICY IF EXISTS "intervention_events: teacher and superadmin read all" ON public.intervention_events;
+CREATE POLICY "intervention_events: teacher and superadmin read all"
+    ON public.intervention_events
+    FOR SELECT
+    USING (public.current_user_role() IN ('Teacher', 'SuperAdmin'));
+
+-- ── Cached report shape ──────────────────────────────────────────────────────
+COMMENT ON COLUMN public.game_sessions.ai_report IS
+    'Cached local session report built from expression_logs + intervention_events. Shape: { report_version, dominant_emotion, emotion_breakdown, analyzed_frames, session_duration_s, interventions, score_trajectory, final_score, last_observation_at, generated_at, inference_source }';
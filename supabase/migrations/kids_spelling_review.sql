@@ -0,0 +1,50 @@
+-- =========================================================
+-- Migration: Spaced-repetition review queue for Drag & Spell
+-- Required by: server/src/services/SpellingReview.ts
+-- Description: Per-child SM-2 schedule for spelling puzzles the
+--              child got wrong, keyed by the solved word. Written
+--              only by the backend for a PIN-logged-in child;
+--              parents can read their own children's queue for the
+--              "Words to practise" view.
+-- =========================================================
+
+CREATE TABLE IF NOT EXISTS public.spelling_review_items (
+    child_id          UUID NOT NULL REFERENCES public.child_profiles(id) ON DELETE CASCADE,
+    -- Solved word, lowercase, e.g. 'cat'
+    word              TEXT NOT NULL,
+    -- Puzzle as played: the word with '_' for the missing letter, e.g. 'Ca_'
+    puzzle            TEXT NOT NULL,
+    correct_letter    TEXT NOT NULL CHECK (correct_letter ~ '^[a-z]$'),
+    options           TEXT[] NOT NULL,
+    image             TEXT,
+    difficulty        SMALLINT CHECK (difficulty BETWEEN 1 AND 5),
+    ease_factor       REAL NOT NULL DEFAULT 2.5 CHECK (ease_factor >= 1.3),
+    interval_days     INTEGER NOT NULL DEFAULT 1 CHECK (interval_days >= 0),
+    repetitions       INTEGER NOT NULL DEFAULT 0 CHECK (repetitions >= 0),
+    lapses            INTEGER NOT NULL DEFAULT 0 CHECK (lapses >= 0),
+    due_at            TIMESTAMPTZ NOT NULL,
+    last_reviewed_at  TIMESTAMPTZ,
+    created_at        TIMESTAMPTZ DEFAULT now() NOT NULL,
+    updated_at        TIMESTAMPTZ DEFAULT now() NOT NULL,
+    PRIMARY KEY (child_id, word)
+);
+
+CREATE INDEX IF NOT EXISTS spelling_review_items_due_idx
+    ON public.spelling_review_items (child_id, due_at);
+
+COMMENT ON TABLE public.spelling_review_items IS
+    'SM-2 review schedule for spelling words each child missed; due words are mixed into new Drag & Spell sessions.';
+
+ALTER TABLE public.spelling_review_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "spelling_review_items: parent reads own" ON public.spelling_review_items;
+CREATE POLICY "spelling_review_items: parent reads own"
+    ON public.spelling_review_items
+    FOR SELECT
+    USING (
+        child_id IN (
+            SELECT id FROM public.child_profiles WHERE parent_id = auth.uid()
+        )
+    );
+
+REVOKE INSERT, UPDATE, DELETE ON public.spelling_review_items FROM anon, authenticated;
@@ -0,0 +1,106 @@
+-- =========================================================
+-- Migration: LLM usage metering & daily quotas
+-- Required by: server/src/services/UsageMeter.ts
+-- Description: One row per /api/agents/* request with its token
+--              counts, latency and outcome. The backend sums today's
+--              rows to enforce per-role daily token quotas, and the
+--              admin "AI Usage" view aggregates them per agent.
+--              Rows never carry prompt or response text.
+-- =========================================================
+
+CREATE TABLE IF NOT EXISTS public.llm_usage_events (
+    id             UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    -- NULL for unauthenticated callers, who are metered by client_key
+    user_id        UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+    -- Truncated SHA-256 of an unauthenticated caller's IP; NULL when signed in
+    client_key     TEXT,
+    app_role       TEXT NOT NULL,
+    agent          TEXT NOT NULL,
+    input_tokens   INTEGER NOT NULL DEFAULT 0 CHECK (input_tokens >= 0),
+    output_tokens  INTEGER NOT NULL DEFAULT 0 CHECK (output_tokens >= 0),
+    llm_calls      INTEGER NOT NULL DEFAULT 0 CHECK (llm_calls >= 0),
+    latency_ms     INTEGER NOT NULL CHECK (latency_ms >= 0),
+    -- 'degraded': over quota, answered from an offline fallback
+    status         TEXT NOT NULL CHECK (status IN ('ok', 'error', 'degraded')),
+    created_at     TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_usage_events_user_created
+  ON public.llm_usage_events (user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_events_created
+  ON public.llm_usage_events (created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_events_client_created
+  ON public.llm_usage_events (client_key, created_at DESC) WHERE user_id IS NULL;
+
+ALTER TABLE public.llm_usage_events ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users view own LLM usage" ON public.llm_usage_events FOR SELECT USING (auth.uid() = user_id);
+
+-- Replaced by the per-client signature below.
+DROP FUNCTION IF EXISTS public.llm_tokens_used_since(UUID, TIMESTAMPTZ);
+
+-- Tokens spent by one user (or, with a NULL user, one anonymous client) since p_since.
+CREATE OR REPLACE FUNCTION public.llm_tokens_used_since(p_user_id UUID, p_client_key TEXT, p_since TIMESTAMPTZ)
+RETURNS BIGINT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(SUM(input_tokens + output_tokens), 0)::BIGINT
+  FROM public.llm_usage_events
+  WHERE created_at >= p_since
+    AND CASE WHEN p_user_id IS NULL
+             THEN user_id IS NULL AND client_key IS NOT DISTINCT FROM p_client_key
+             ELSE user_id = p_user_id END;
+$$;
+
+-- Per-agent volume, latency and outcomes for the admin usage view.
+CREATE OR REPLACE FUNCTION public.llm_usage_by_agent(p_from TIMESTAMPTZ)
+RETURNS TABLE (
+    agent          TEXT,
+    requests       INTEGER,
+    users          INTEGER,
+    input_tokens   BIGINT,
+    output_tokens  BIGINT,
+    avg_latency_ms DOUBLE PRECISION,
+    p95_latency_ms DOUBLE PRECISION,
+    errors         INTEGER,
+    degraded       INTEGER
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    agent,
+    COUNT(*)::INTEGER,
+    COUNT(DISTINCT user_id)::INTEGER,
+    SUM(input_tokens)::BIGINT,
+    SUM(output_tokens)::BIGINT,
+    AVG(latency_ms)::DOUBLE PRECISION,
+    PERCENTILE_CONT(0.95) WITHIN GROUP (ORDER BY latency_ms),
+    COUNT(*) FILTER (WHERE status = 'error')::INTEGER,
+    COUNT(*) FILTER (WHERE status = 'degraded')::INTEGER
+  FROM public.llm_usage_events
+  WHERE created_at >= p_from
+  GROUP BY agent
+  ORDER BY SUM(input_tokens + output_tokens) DESC;
+$$;
+
+-- Per-role totals, so quotas can be tuned against real consumption.
+CREATE OR REPLACE FUNCTION public.llm_usage_by_role(p_from TIMESTAMPTZ)
+RETURNS TABLE (app_role TEXT, users INTEGER, tokens BIGINT, degraded INTEGER)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    app_role,
+    COUNT(DISTINCT user_id)::INTEGER,
+    SUM(input_tokens + output_tokens)::BIGINT,
+    COUNT(*) FILTER (WHERE status = 'degraded')::INTEGER
+  FROM public.llm_usage_events
+  WHERE created_at >= p_from
+  GROUP BY app_role;
+$$;
+
+-- Usage across users must only be read through the backend.
+REVOKE EXECUTE ON FUNCTION public.llm_tokens_used_since(UUID, TEXT, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.llm_usage_by_agent(TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.llm_usage_by_role(TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,78 @@
+-- =========================================================
+-- Migration: Manager dashboard aggregates
+-- Required by: server/src/services/ManagerAnalytics.ts,
+--              src/lib/accommodationUsage.ts
+-- Description: Accommodation usage events plus org-wide aggregate
+--              functions. The functions return raw group counts;
+--              k-anonymity suppression and noise are applied by the
+--              backend before anything reaches a manager.
+-- =========================================================
+
+CREATE TABLE IF NOT EXISTS public.accommodation_events (
+    id            UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id       UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    feature       TEXT NOT NULL
+                    CHECK (feature IN ('communication_proxy', 'sensory_equalizer', 'time_blindness_buffer')),
+    minutes_saved INTEGER NOT NULL DEFAULT 0 CHECK (minutes_saved >= 0),
+    created_at    TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_accommodation_events_created
+  ON public.accommodation_events (created_at DESC);
+
+ALTER TABLE public.accommodation_events ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users insert own accommodation events" ON public.accommodation_events FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users view own accommodation events" ON public.accommodation_events FOR SELECT USING (auth.uid() = user_id);
+
+-- One row per UTC day: how many users were tracked, their mean load and
+-- mean share of time near overload (each user weighted equally).
+CREATE OR REPLACE FUNCTION public.manager_daily_risk(p_from TIMESTAMPTZ)
+RETURNS TABLE (day TIMESTAMPTZ, contributors INTEGER, mean_load DOUBLE PRECISION, overload_share DOUBLE PRECISION)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    bucket_start,
+    COUNT(*)::INTEGER,
+    AVG(load_sum / sample_count),
+    COALESCE(AVG(
+      (time_approaching_overload_s + time_overload_s)
+      / NULLIF(time_hyperfocus_s + time_normal_s + time_approaching_overload_s + time_overload_s, 0)
+    ), 0)
+  FROM public.cognitive_rollups
+  WHERE granularity = 'day' AND bucket_start >= p_from AND sample_count > 0
+  GROUP BY bucket_start
+  ORDER BY bucket_start;
+$$;
+
+-- Distinct users per accommodation, plus minutes saved with each user's
+-- total capped at p_max_user_minutes (bounds one person's influence).
+CREATE OR REPLACE FUNCTION public.manager_feature_usage(p_from TIMESTAMPTZ, p_max_user_minutes INTEGER)
+RETURNS TABLE (feature TEXT, users INTEGER, minutes_saved DOUBLE PRECISION)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT feature, COUNT(*)::INTEGER, SUM(LEAST(user_minutes, p_max_user_minutes))::DOUBLE PRECISION
+  FROM (
+    SELECT feature, user_id, SUM(minutes_saved) AS user_minutes
+    FROM public.accommodation_events
+    WHERE created_at >= p_from
+    GROUP BY feature, user_id
+  ) per_user
+  GROUP BY feature;
+$$;
+
+CREATE OR REPLACE FUNCTION public.manager_active_users(p_from TIMESTAMPTZ)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COUNT(DISTINCT user_id)::INTEGER
+  FROM public.cognitive_rollups
+  WHERE granularity = 'day' AND bucket_start >= p_from AND sample_count > 0;
+$$;
+
+-- Raw group counts must only be read through the backend.
+REVOKE EXECUTE ON FUNCTION public.manager_daily_risk(TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.manager_feature_usage(TIMESTAMPTZ, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.manager_active_users(TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,14 @@
+-- =========================================================
+-- Migration: Masking event duration
+-- Required by: src/components/emotional/MaskingTracker.tsx,
+--              src/components/dashboard/BurnoutForecast.tsx
+-- Description: The tracker logs what was masked and for how long;
+--              the burnout forecast sums minutes masked per day.
+-- =========================================================
+
+ALTER TABLE public.masking_events
+  ADD COLUMN IF NOT EXISTS context TEXT,
+  ADD COLUMN IF NOT EXISTS duration_minutes INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_masking_events_user_created
+  ON public.masking_events (user_id, created_at DESC);
@@ -0,0 +1,51 @@
+-- =========================================================
+-- Migration: Server-side prosthetic memory API
+-- Required by: server/src/services/VectorStore.ts,
+--              server/src/routes/memory.ts
+-- Description: Adds the metadata column and the match_documents RPC that
+--              VectorStore expects. Memories are now embedded and written
+--              by the backend (/api/memory), so the search RPCs are no
+--              longer callable from the browser.
+-- =========================================================
+
+ALTER TABLE public.memory_entries
+  ADD COLUMN IF NOT EXISTS metadata JSONB DEFAULT '{}'::jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_memory_entries_user_created
+  ON public.memory_entries (user_id, created_at DESC);
+
+CREATE OR REPLACE FUNCTION public.match_documents(
+  query_embedding vector(768),
+  match_threshold float DEFAULT 0.72,
+  match_count     int   DEFAULT 5,
+  filter_user_id  uuid  DEFAULT NULL
+)
+RETURNS TABLE (
+  id         uuid,
+  content    text,
+  summary    text,
+  metadata   jsonb,
+  similarity float
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    me.id,
+    me.content,
+    me.summary,
+    me.metadata,
+    1 - (me.embedding <=> query_embedding) AS similarity
+  FROM public.memory_entries me
+  WHERE (filter_user_id IS NULL OR me.user_id = filter_user_id)
+    AND 1 - (me.embedding <=> query_embedding) > match_threshold
+  ORDER BY me.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+-- Service role only: the API derives the user from the JWT.
+REVOKE EXECUTE ON FUNCTION public.match_documents(VECTOR, FLOAT, INTEGER, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.match_memories(VECTOR, UUID, FLOAT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.match_action_items(VECTOR, UUID, FLOAT, INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,111 @@
+-- =========================================================
+-- Migration: Pluggable embedding providers
+-- Required by: server/src/services/EmbeddingProvider.ts,
+--              server/src/services/VectorStore.ts,
+--              server/src/jobs/reembedMemories.ts
+-- Description: Tags every memory vector with the model that produced it
+--              and its dimension. The search RPCs only compare vectors
+--              from the same model, so switching EMBEDDING_PROVIDER never
+--              mixes stale and new vectors; `npm run reembed` migrates the
+--              old rows. Run after memory_api.sql.
+-- =========================================================
+
+ALTER TABLE public.memory_entries
+  ADD COLUMN IF NOT EXISTS embedding_model TEXT,
+  ADD COLUMN IF NOT EXISTS embedding_dim   INTEGER;
+
+-- Everything stored so far came from Gemini text-embedding-004
+UPDATE public.memory_entries
+   SET embedding_model = 'gemini:text-embedding-004',
+       embedding_dim   = 768
+ WHERE embedding IS NOT NULL
+   AND embedding_model IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_memory_entries_embedding_model
+  ON public.memory_entries (embedding_model);
+
+-- Signatures change, so drop the old overloads rather than adding new ones
+DROP FUNCTION IF EXISTS public.match_documents(VECTOR, FLOAT, INTEGER, UUID);
+DROP FUNCTION IF EXISTS public.match_memories(VECTOR, UUID, FLOAT, INTEGER);
+DROP FUNCTION IF EXISTS public.match_action_items(VECTOR, UUID, FLOAT, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.match_documents(
+  query_embedding vector(768),
+  match_threshold float DEFAULT 0.72,
+  match_count     int   DEFAULT 5,
+  filter_user_id  uuid  DEFAULT NULL,
+  filter_model    text  DEFAULT NULL
+)
+RETURNS TABLE (
+  id         uuid,
+  content    text,
+  summary    text,
+  metadata   jsonb,
+  similarity float
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    me.id,
+    me.content,
+    me.summary,
+    me.metadata,
+    1 - (me.embedding <=> query_embedding) AS similarity
+  FROM public.memory_entries me
+  WHERE (filter_user_id IS NULL OR me.user_id = filter_user_id)
+    AND (filter_model IS NULL OR me.embedding_model = filter_model)
+    AND 1 - (me.embedding <=> query_embedding) > match_threshold
+  ORDER BY me.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.match_memories(
+  query_embedding vector(768),
+  p_user_id uuid,
+  match_threshold float,
+  match_count int,
+  p_model text DEFAULT NULL
+)
+RETURNS TABLE (id uuid, content text, summary text, similarity float)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    id, content, summary,
+    1 - (embedding <=> query_embedding) AS similarity
+  FROM public.memory_entries
+  WHERE user_id = p_user_id
+    AND (p_model IS NULL OR embedding_model = p_model)
+    AND 1 - (embedding <=> query_embedding) > match_threshold
+  ORDER BY similarity DESC
+  LIMIT match_count;
+$$;
+
+CREATE OR REPLACE FUNCTION public.match_action_items(
+  query_embedding vector(768),
+  p_user_id uuid,
+  match_threshold float,
+  match_count int,
+  p_model text DEFAULT NULL
+)
+RETURNS TABLE (id uuid, content text, summary text, similarity float)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    id, content, summary,
+    (1 - (embedding <=> query_embedding)) +
+    (CASE WHEN content ~* '\y(will|need to|must|assigned to|action|deadline)\y' THEN 0.15 ELSE 0 END) AS similarity
+  FROM public.memory_entries
+  WHERE user_id = p_user_id
+    AND (p_model IS NULL OR embedding_model = p_model)
+    AND (1 - (embedding <=> query_embedding)) > match_threshold
+  ORDER BY similarity DESC
+  LIMIT match_count;
+$$;
+
+-- Service role only, as in memory_api.sql
+REVOKE EXECUTE ON FUNCTION public.match_documents(VECTOR, FLOAT, INTEGER, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.match_memories(VECTOR, UUID, FLOAT, INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.match_action_items(VECTOR, UUID, FLOAT, INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,120 @@
+-- =========================================================
+-- Migration: Hybrid lexical + vector memory retrieval
+-- Required by: server/src/services/MemoryRetrieval.ts
+-- Description: Full-text index over each memory, an `occurred_at`
+--              timestamp for date filters (when the meeting/thread
+--              happened, not when it was indexed), and one RPC that
+--              returns filtered vector and lexical candidates with their
+--              ranks. Fusion, recency boosting and match explanations
+--              happen in MemoryRetrieval. Run after
+--              memory_embedding_provider.sql.
+-- =========================================================
+
+ALTER TABLE public.memory_entries
+  ADD COLUMN IF NOT EXISTS occurred_at TIMESTAMPTZ DEFAULT now();
+
+UPDATE public.memory_entries SET occurred_at = created_at WHERE occurred_at IS NULL;
+ALTER TABLE public.memory_entries ALTER COLUMN occurred_at SET NOT NULL;
+
+ALTER TABLE public.memory_entries
+  ADD COLUMN IF NOT EXISTS content_tsv TSVECTOR
+  GENERATED ALWAYS AS (to_tsvector('english', coalesce(content, '') || ' ' || coalesce(summary, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_memory_entries_content_tsv
+  ON public.memory_entries USING gin (content_tsv);
+
+CREATE INDEX IF NOT EXISTS idx_memory_entries_user_occurred
+  ON public.memory_entries (user_id, occurred_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_memory_entries_source
+  ON public.memory_entries (user_id, (metadata->>'source'));
+
+-- query_words: plain words (letters/digits only, sanitised by the server),
+-- OR-ed together so one exact name is enough for a lexical hit.
+-- filter_participants: lower-cased names matched against metadata.participants.
+CREATE OR REPLACE FUNCTION public.search_memory_candidates(
+  query_embedding      vector(768),
+  query_words          text[],
+  p_user_id            uuid,
+  p_model              text,
+  vector_threshold     float       DEFAULT 0.5,
+  candidate_count      int         DEFAULT 30,
+  filter_sources       text[]      DEFAULT NULL,
+  filter_participants  text[]      DEFAULT NULL,
+  occurred_after       timestamptz DEFAULT NULL,
+  occurred_before      timestamptz DEFAULT NULL
+)
+RETURNS TABLE (
+  id                 uuid,
+  content            text,
+  summary            text,
+  metadata           jsonb,
+  occurred_at        timestamptz,
+  vector_rank        int,
+  vector_similarity  float,
+  lexical_rank       int,
+  lexical_score      float,
+  matched_terms      text[]
+)
+LANGUAGE sql STABLE
+AS $$
+  WITH filtered AS (
+    SELECT me.*
+    FROM public.memory_entries me
+    WHERE me.user_id = p_user_id
+      AND (filter_sources IS NULL OR me.metadata->>'source' = ANY (filter_sources))
+      AND (filter_participants IS NULL OR EXISTS (
+            SELECT 1
+            FROM jsonb_array_elements_text(
+              CASE WHEN jsonb_typeof(me.metadata->'participants') = 'array'
+                   THEN me.metadata->'participants' ELSE '[]'::jsonb END
+            ) AS p(name)
+            WHERE lower(p.name) = ANY (filter_participants)))
+      AND (occurred_after IS NULL OR me.occurred_at >= occurred_after)
+      AND (occurred_before IS NULL OR me.occurred_at < occurred_before)
+  ),
+  vector_hits AS (
+    SELECT
+      f.id,
+      (row_number() OVER (ORDER BY f.embedding <=> query_embedding))::int AS rank,
+      1 - (f.embedding <=> query_embedding) AS similarity
+    FROM filtered f
+    WHERE f.embedding_model = p_model
+      AND 1 - (f.embedding <=> query_embedding) > vector_threshold
+    ORDER BY f.embedding <=> query_embedding
+    LIMIT candidate_count
+  ),
+  lexical_hits AS (
+    SELECT
+      f.id,
+      (row_number() OVER (ORDER BY ts_rank_cd(f.content_tsv, q.query) DESC))::int AS rank,
+      ts_rank_cd(f.content_tsv, q.query) AS score
+    FROM filtered f,
+         to_tsquery('english', array_to_string(query_words, ' | ')) AS q(query)
+    WHERE f.content_tsv @@ q.query
+    ORDER BY score DESC
+    LIMIT candidate_count
+  )
+  SELECT
+    f.id,
+    f.content,
+    f.summary,
+    f.metadata,
+    f.occurred_at,
+    v.rank,
+    v.similarity,
+    l.rank,
+    l.score,
+    CASE WHEN l.id IS NULL THEN ARRAY[]::text[] ELSE ARRAY(
+      SELECT w FROM unnest(query_words) AS w
+      WHERE f.content_tsv @@ plainto_tsquery('english', w)
+    ) END
+  FROM filtered f
+  LEFT JOIN vector_hits v ON v.id = f.id
+  LEFT JOIN lexical_hits l ON l.id = f.id
+  WHERE v.id IS NOT NULL OR l.id IS NOT NULL;
+$$;
+
+-- Service role only: the API derives the user from the JWT.
+REVOKE EXECUTE ON FUNCTION public.search_memory_candidates(VECTOR, TEXT[], UUID, TEXT, FLOAT, INTEGER, TEXT[], TEXT[], TIMESTAMPTZ, TIMESTAMPTZ)
+  FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,123 @@
+-- =========================================================
+-- Migration: Memory retention, redaction & right to be forgotten
+-- Required by: server/src/services/MemoryPrivacy.ts,
+--              supabase/functions/memory-retention/index.ts
+-- Description: Per-source retention windows for prosthetic memories
+--              (defaults below, overridable per user from Settings), a
+--              purge function the `memory-retention` Edge Function runs
+--              daily, and an audit log of exports, erasures and purges.
+--              Memories are now written only by the server, which
+--              redacts PII before storage, so the browser loses its
+--              insert/update access to memory_entries.
+-- =========================================================
+
+-- ─── Retention windows ───────────────────────────────────────────────────────
+-- `source` is memory_entries.metadata->>'source'; anything else is 'other'.
+-- retention_days NULL means keep forever.
+
+CREATE TABLE IF NOT EXISTS public.memory_retention_defaults (
+    source          TEXT PRIMARY KEY,
+    retention_days  INTEGER CHECK (retention_days IS NULL OR retention_days > 0)
+);
+
+INSERT INTO public.memory_retention_defaults (source, retention_days) VALUES
+    ('slack', 90),
+    ('jira', 365),
+    ('google_meet', 180),
+    ('zoom', 180),
+    ('other', NULL)
+ON CONFLICT (source) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS public.memory_retention_policies (
+    user_id         UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    source          TEXT REFERENCES public.memory_retention_defaults(source) NOT NULL,
+    retention_days  INTEGER CHECK (retention_days IS NULL OR retention_days > 0),
+    updated_at      TIMESTAMPTZ DEFAULT now() NOT NULL,
+    PRIMARY KEY (user_id, source)
+);
+
+ALTER TABLE public.memory_retention_defaults ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.memory_retention_policies ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Anyone reads retention defaults" ON public.memory_retention_defaults FOR SELECT USING (true);
+CREATE POLICY "Users view own retention policies" ON public.memory_retention_policies FOR SELECT USING (auth.uid() = user_id);
+
+-- ─── Privacy audit log ───────────────────────────────────────────────────────
+-- Erasure requires a recent 'export' row, so the log is also the
+-- export-then-delete handshake. Rows carry counts, never memory content.
+
+CREATE TABLE IF NOT EXISTS public.memory_privacy_log (
+    id              UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id         UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    action          TEXT NOT NULL CHECK (action IN ('export', 'erase', 'purge')),
+    memory_count    INTEGER DEFAULT 0 NOT NULL,
+    details         JSONB DEFAULT '{}'::jsonb NOT NULL,
+    created_at      TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_memory_privacy_log_user_action
+  ON public.memory_privacy_log (user_id, action, created_at DESC);
+
+ALTER TABLE public.memory_privacy_log ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users view own privacy log" ON public.memory_privacy_log FOR SELECT USING (auth.uid() = user_id);
+
+-- ─── Server-only writes ──────────────────────────────────────────────────────
+-- Replaces the catch-all policy from init.sql: a direct insert from the
+-- browser would skip redaction. Reads and deletes stay with the owner.
+
+DROP POLICY IF EXISTS "Users isolate memory" ON public.memory_entries;
+CREATE POLICY "Users view own memory" ON public.memory_entries FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users delete own memory" ON public.memory_entries FOR DELETE USING (auth.uid() = user_id);
+
+-- ─── Purge ───────────────────────────────────────────────────────────────────
+-- Deletes memories older than their effective window (the user's policy if
+-- they set one for that source, else the default), measured from
+-- occurred_at. Commitments extracted from them cascade. Returns one row
+-- per user and source purged, and logs the same.
+
+CREATE OR REPLACE FUNCTION public.purge_expired_memories()
+RETURNS TABLE (user_id uuid, source text, deleted_count bigint)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH classified AS (
+    SELECT
+      me.id,
+      me.user_id,
+      me.occurred_at,
+      CASE WHEN d.source IS NULL THEN 'other' ELSE d.source END AS source
+    FROM public.memory_entries me
+    LEFT JOIN public.memory_retention_defaults d ON d.source = me.metadata->>'source'
+  ),
+  expired AS (
+    SELECT c.id, c.user_id, c.source
+    FROM classified c
+    JOIN public.memory_retention_defaults d ON d.source = c.source
+    LEFT JOIN public.memory_retention_policies p ON p.user_id = c.user_id AND p.source = c.source
+    CROSS JOIN LATERAL (
+      SELECT CASE WHEN p.user_id IS NULL THEN d.retention_days ELSE p.retention_days END AS days
+    ) effective
+    WHERE effective.days IS NOT NULL
+      AND c.occurred_at < now() - make_interval(days => effective.days)
+  ),
+  deleted AS (
+    DELETE FROM public.memory_entries me
+    USING expired e
+    WHERE me.id = e.id
+    RETURNING e.user_id, e.source
+  ),
+  summary AS (
+    SELECT deleted.user_id, deleted.source, count(*) AS deleted_count
+    FROM deleted
+    GROUP BY deleted.user_id, deleted.source
+  ),
+  logged AS (
+    INSERT INTO public.memory_privacy_log (user_id, action, memory_count, details)
+    SELECT summary.user_id, 'purge', summary.deleted_count, jsonb_build_object('source', summary.source)
+    FROM summary
+  )
+  SELECT summary.user_id, summary.source, summary.deleted_count FROM summary;
+$$;
+
+-- Service role only: run by the memory-retention Edge Function.
+REVOKE EXECUTE ON FUNCTION public.purge_expired_memories() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,28 @@
+-- =========================================================
+-- Migration: Flow-aware notification buffer
+-- Required by: server/src/services/NotificationBuffer.ts
+-- Description: Slack/Jira/Gmail items held back while the user is in
+--              hyperfocus or overload, delivered as one prioritized
+--              digest when they return to normal.
+-- =========================================================
+
+CREATE TABLE IF NOT EXISTS public.buffered_notifications (
+    id            UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id       UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    source        TEXT NOT NULL CHECK (source IN ('slack', 'jira', 'gmail')),
+    external_id   TEXT,
+    sender        TEXT,
+    title         TEXT,
+    raw_content   TEXT NOT NULL,
+    priority      TEXT NOT NULL DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high', 'critical')),
+    received_at   TIMESTAMPTZ DEFAULT now() NOT NULL,
+    delivered_at  TIMESTAMPTZ,
+    UNIQUE (user_id, source, external_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_buffered_notifications_pending
+  ON public.buffered_notifications (user_id, received_at)
+  WHERE delivered_at IS NULL;
+
+ALTER TABLE public.buffered_notifications ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users view own buffered notifications" ON public.buffered_notifications FOR SELECT USING (auth.uid() = user_id);
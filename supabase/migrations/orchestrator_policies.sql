@@ -0,0 +1,52 @@
+-- =========================================================
+-- Migration: Durable orchestrator state and ambient trigger policies
+-- Required by: server/src/services/OrchestratorStateStore.ts,
+--              server/src/services/PolicyEngine.ts
+-- Description: Per-user orchestrator state (survives restarts and is
+--              shared across server instances), user-editable trigger
+--              rules, and an audit log of every rule evaluation.
+-- =========================================================
+
+CREATE TABLE IF NOT EXISTS public.orchestrator_user_states (
+    user_id      UUID REFERENCES auth.users(id) ON DELETE CASCADE PRIMARY KEY,
+    state        TEXT NOT NULL CHECK (state IN ('hyperfocus', 'normal', 'approaching_overload', 'overload')),
+    score        INTEGER NOT NULL,
+    state_since  TIMESTAMPTZ NOT NULL,
+    rules        JSONB DEFAULT '{}'::jsonb NOT NULL,   -- per-rule runtime, keyed by rule id
+    flow_session JSONB,                                -- { reason, since } while notifications are buffered
+    updated_at   TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.orchestrator_user_states ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users view own orchestrator state" ON public.orchestrator_user_states FOR SELECT USING (auth.uid() = user_id);
+
+-- Absent row = server defaults. Written through /api/orchestrator/policies, which validates the shape.
+CREATE TABLE IF NOT EXISTS public.orchestrator_policies (
+    user_id     UUID REFERENCES auth.users(id) ON DELETE CASCADE PRIMARY KEY,
+    rules       JSONB NOT NULL,
+    updated_at  TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.orchestrator_policies ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users view own policies" ON public.orchestrator_policies FOR SELECT USING (auth.uid() = user_id);
+
+-- One row per run of identical consecutive outcomes for a rule.
+CREATE TABLE IF NOT EXISTS public.policy_audit_log (
+    id                  UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id             UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    rule_id             TEXT NOT NULL,
+    rule_name           TEXT NOT NULL,
+    outcome             TEXT NOT NULL CHECK (outcome IN ('idle', 'pending', 'cooldown', 'fired', 'holding', 'clearing', 'released', 'disabled')),
+    state               TEXT NOT NULL,
+    score               INTEGER NOT NULL,
+    actions             JSONB,                          -- set when outcome = 'fired'
+    evaluations         INTEGER DEFAULT 1 NOT NULL,
+    first_evaluated_at  TIMESTAMPTZ NOT NULL,
+    last_evaluated_at   TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_policy_audit_user_time
+  ON public.policy_audit_log (user_id, last_evaluated_at DESC);
+
+ALTER TABLE public.policy_audit_log ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users view own policy audit log" ON public.policy_audit_log FOR SELECT USING (auth.uid() = user_id);
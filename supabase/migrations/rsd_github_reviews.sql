@@ -0,0 +1,84 @@
+-- =========================================================
+-- Migration: RSD Shield GitHub pull-request integration
+-- Required by: server/src/services/PullRequestShield.ts,
+--              server/src/routes/webhooks.ts (/webhooks/github)
+-- Description: Review comments delivered by the GitHub webhook are
+--              sanitized server-side and stored per PR author, together
+--              with the PR and its safety score. The raw comment is kept
+--              only so the engineer can choose to view it. Both tables
+--              are published to Realtime so RSD Shield updates live.
+--              PR authors are mapped to users through
+--              integration_identities (provider 'github', external_id =
+--              numeric GitHub user ID).
+-- =========================================================
+
+ALTER TABLE public.integration_identities
+  DROP CONSTRAINT IF EXISTS integration_identities_provider_check;
+ALTER TABLE public.integration_identities
+  ADD CONSTRAINT integration_identities_provider_check
+  CHECK (provider IN ('slack', 'jira', 'google', 'github'));
+
+CREATE TABLE IF NOT EXISTS public.rsd_pull_requests (
+    id              UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id         UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    repo            TEXT NOT NULL,                -- owner/name
+    number          INTEGER NOT NULL,
+    github_pr_id    BIGINT NOT NULL,
+    title           TEXT NOT NULL,
+    state           TEXT DEFAULT 'open' NOT NULL CHECK (state IN ('open', 'closed', 'merged')),
+    safety_score    INTEGER DEFAULT 100 NOT NULL CHECK (safety_score BETWEEN 0 AND 100),
+    last_activity   TIMESTAMPTZ DEFAULT now() NOT NULL,
+    created_at      TIMESTAMPTZ DEFAULT now() NOT NULL,
+    updated_at      TIMESTAMPTZ DEFAULT now() NOT NULL,
+    UNIQUE (user_id, repo, number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rsd_pull_requests_user_activity
+  ON public.rsd_pull_requests (user_id, last_activity DESC);
+
+-- PR state changes arrive without a user; they are applied by repo + number
+CREATE INDEX IF NOT EXISTS idx_rsd_pull_requests_repo_number
+  ON public.rsd_pull_requests (repo, number);
+
+CREATE TABLE IF NOT EXISTS public.rsd_pr_comments (
+    id                  UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id             UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    pr_id               UUID REFERENCES public.rsd_pull_requests(id) ON DELETE CASCADE NOT NULL,
+    github_comment_id   BIGINT NOT NULL,
+    original_text       TEXT NOT NULL,
+    sanitized_text      TEXT NOT NULL,
+    author              TEXT NOT NULL,
+    avatar_url          TEXT DEFAULT '' NOT NULL,
+    file_path           TEXT,
+    line_number         INTEGER,
+    sentiment           TEXT NOT NULL CHECK (sentiment IN ('critical', 'neutral', 'positive', 'mixed')),
+    action_items        TEXT[] DEFAULT '{}' NOT NULL,
+    is_read             BOOLEAN DEFAULT false NOT NULL,
+    created_at          TIMESTAMPTZ DEFAULT now() NOT NULL,   -- When the comment was made on GitHub
+    updated_at          TIMESTAMPTZ DEFAULT now() NOT NULL,
+    UNIQUE (user_id, github_comment_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rsd_pr_comments_pr_created
+  ON public.rsd_pr_comments (pr_id, created_at);
+
+ALTER TABLE public.rsd_pull_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.rsd_pr_comments ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users view own pull requests" ON public.rsd_pull_requests FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users view own PR comments" ON public.rsd_pr_comments FOR SELECT USING (auth.uid() = user_id);
+
+-- Realtime respects RLS, so each client only receives its own reviews.
+DO $$ BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'rsd_pull_requests'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE public.rsd_pull_requests;
+    END IF;
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'rsd_pr_comments'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE public.rsd_pr_comments;
+    END IF;
+END $$;
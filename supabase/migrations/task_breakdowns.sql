@@ -0,0 +1,40 @@
+-- =========================================================
+-- Migration: Orchestrated task breakdowns
+-- Required by: server/src/services/TaskDecomposition.ts
+-- Description: Micro-task breakdowns created through POST /api/tasks and
+--              the per-step timings that calibrate each user's
+--              time-blindness padding multiplier.
+-- =========================================================
+
+CREATE TABLE IF NOT EXISTS public.task_breakdowns (
+    id                       UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id                  UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    description              TEXT NOT NULL,
+    base_estimate_minutes    INTEGER NOT NULL,
+    padding_multiplier       NUMERIC(4, 2) NOT NULL,
+    padded_estimate_minutes  INTEGER NOT NULL,
+    steps                    JSONB NOT NULL,       -- MicroTask[], padded; raw_estimated_minutes kept per step
+    fallback                 BOOLEAN DEFAULT false NOT NULL,
+    created_at               TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_breakdowns_user_created
+  ON public.task_breakdowns (user_id, created_at DESC);
+
+ALTER TABLE public.task_breakdowns ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users view own task breakdowns" ON public.task_breakdowns FOR SELECT USING (auth.uid() = user_id);
+
+CREATE TABLE IF NOT EXISTS public.task_time_records (
+    id                 UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id            UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    task_id            TEXT NOT NULL,
+    estimated_seconds  INTEGER NOT NULL CHECK (estimated_seconds > 0),
+    actual_seconds     INTEGER NOT NULL CHECK (actual_seconds > 0),
+    recorded_at        TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_time_records_user_recorded
+  ON public.task_time_records (user_id, recorded_at DESC);
+
+ALTER TABLE public.task_time_records ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users view own task timings" ON public.task_time_records FOR SELECT USING (auth.uid() = user_id);
@@ -0,0 +1,65 @@
+-- =========================================================
+-- Migration: Verified integration webhooks
+-- Required by: server/src/routes/webhooks.ts,
+--              server/src/services/IntegrationEvents.ts
+-- Description: External identity → Supabase user mapping, a delivery
+--              ledger for replay protection, and the telemetry_events
+--              table that IntegrationDemoPanel subscribes to.
+-- =========================================================
+
+-- Slack user ID, Jira accountId or Google account email per user.
+CREATE TABLE IF NOT EXISTS public.integration_identities (
+    provider     TEXT NOT NULL CHECK (provider IN ('slack', 'jira', 'google')),
+    external_id  TEXT NOT NULL,
+    user_id      UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    created_at   TIMESTAMPTZ DEFAULT now() NOT NULL,
+    PRIMARY KEY (provider, external_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_integration_identities_user
+  ON public.integration_identities (user_id);
+
+ALTER TABLE public.integration_identities ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users view own integration identities" ON public.integration_identities FOR SELECT USING (auth.uid() = user_id);
+
+-- One row per accepted delivery; a duplicate key means a replay.
+CREATE TABLE IF NOT EXISTS public.webhook_deliveries (
+    provider     TEXT NOT NULL,
+    delivery_id  TEXT NOT NULL,
+    received_at  TIMESTAMPTZ DEFAULT now() NOT NULL,
+    PRIMARY KEY (provider, delivery_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_received
+  ON public.webhook_deliveries (received_at);
+
+-- Written only by the backend service role; no client access.
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS public.telemetry_events (
+    id             UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id        UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+    event_type     TEXT NOT NULL,
+    source         TEXT,
+    event_data     JSONB DEFAULT '{}'::jsonb,
+    metadata       JSONB DEFAULT '{}'::jsonb,
+    cognitive_load INTEGER,
+    created_at     TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_telemetry_events_user_created
+  ON public.telemetry_events (user_id, created_at DESC);
+
+ALTER TABLE public.telemetry_events ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users insert own telemetry events" ON public.telemetry_events FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users view own telemetry events" ON public.telemetry_events FOR SELECT USING (auth.uid() = user_id);
+
+-- Realtime respects RLS, so each client only receives its own webhook events.
+DO $$ BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'telemetry_events'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE public.telemetry_events;
+    END IF;
+END $$;